@@ -1,5 +1,6 @@
 import React, { useEffect } from 'react';
 import { Analytics } from '@vercel/analytics/react';
+import { Toaster } from 'react-hot-toast';
 import { GoogleOAuthProvider } from '@react-oauth/google';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import Dashboard from './components/Dashboard';
@@ -8,8 +9,20 @@ import SignIn from './components/SignIn';
 import { default as AnalyticsComponent } from './components/Analytics';
 import { default as RecurringComponent } from './components/Recurring';
 import { default as SavingsGoalsComponent } from './components/SavingsGoals';
+import Categories from './components/Categories';
+import Envelopes from './components/Envelopes';
+import Accounts from './components/Accounts';
+import Loans from './components/Loans';
+import Portfolio from './components/Portfolio';
+import Transactions from './components/Transactions';
+import Trash from './components/Trash';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { CategoriesProvider } from './contexts/CategoriesContext';
+import { CurrencyProvider } from './contexts/CurrencyContext';
+import { AccountsProvider } from './contexts/AccountsContext';
+import { HoldingsProvider } from './contexts/HoldingsContext';
+import { TagsProvider } from './contexts/TagsContext';
 
 function AppContent() {
   const { user, loading } = useAuth();
@@ -33,9 +46,16 @@ function AppContent() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-2">
           <Routes>
             <Route path="/" element={<Dashboard />} />
+            <Route path="/transactions" element={<Transactions />} />
+            <Route path="/envelopes" element={<Envelopes />} />
+            <Route path="/accounts" element={<Accounts />} />
+            <Route path="/loans" element={<Loans />} />
+            <Route path="/portfolio" element={<Portfolio />} />
             <Route path="/analytics" element={<AnalyticsComponent />} />
             <Route path="/recurring" element={<RecurringComponent />} />
             <Route path="/goals" element={<SavingsGoalsComponent />} />
+            <Route path="/categories" element={<Categories />} />
+            <Route path="/trash" element={<Trash />} />
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
         </div>
@@ -48,12 +68,23 @@ function App() {
   return (
     <ThemeProvider>
       <AuthProvider>
-        <GoogleOAuthProvider clientId={import.meta.env.VITE_GOOGLE_CLIENT_ID}>
-          <BrowserRouter>
-            <AppContent />
-            <Analytics />
-          </BrowserRouter>
-        </GoogleOAuthProvider>
+        <CategoriesProvider>
+          <CurrencyProvider>
+            <AccountsProvider>
+              <HoldingsProvider>
+                <TagsProvider>
+                  <GoogleOAuthProvider clientId={import.meta.env.VITE_GOOGLE_CLIENT_ID}>
+                    <BrowserRouter>
+                      <AppContent />
+                      <Toaster position="bottom-center" />
+                      <Analytics />
+                    </BrowserRouter>
+                  </GoogleOAuthProvider>
+                </TagsProvider>
+              </HoldingsProvider>
+            </AccountsProvider>
+          </CurrencyProvider>
+        </CategoriesProvider>
       </AuthProvider>
     </ThemeProvider>
   );
@@ -0,0 +1,236 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { createPortal } from 'react-dom';
+import { Account, AccountType } from '../types';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { ACCOUNT_TYPES } from '../lib/accounts';
+import { getCurrencySymbol } from '../lib/currency';
+import CurrencySelect from './CurrencySelect';
+
+export interface AccountFormValues {
+    name: string;
+    type: AccountType;
+    currency: string;
+    opening_balance: number;
+    statement_day: number | null;
+    due_day: number | null;
+    minimum_due_percent: number;
+}
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: (values: AccountFormValues) => Promise<void>;
+    account?: Account;
+}
+
+const getEmptyForm = (currency: string) => ({
+    name: '',
+    type: 'bank' as AccountType,
+    currency,
+    opening_balance: '',
+    statement_day: '',
+    due_day: '',
+    minimum_due_percent: '5'
+});
+
+export default function AccountModal({ isOpen, onClose, onSave, account }: Props) {
+    const { baseCurrency } = useCurrency();
+    const [formData, setFormData] = useState(getEmptyForm(baseCurrency));
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (account) {
+            setFormData({
+                name: account.name,
+                type: account.type,
+                currency: account.currency,
+                opening_balance: account.opening_balance.toString(),
+                statement_day: account.statement_day?.toString() ?? '',
+                due_day: account.due_day?.toString() ?? '',
+                minimum_due_percent: account.minimum_due_percent.toString()
+            });
+        } else {
+            setFormData(getEmptyForm(baseCurrency));
+        }
+    }, [account, baseCurrency, isOpen]);
+
+    const isCreditCard = formData.type === 'credit_card';
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            // Only credit cards have a statement cycle
+            await onSave({
+                name: formData.name.trim(),
+                type: formData.type,
+                currency: formData.currency,
+                opening_balance: parseFloat(formData.opening_balance) || 0,
+                statement_day: isCreditCard && formData.statement_day ? parseInt(formData.statement_day) : null,
+                due_day: isCreditCard && formData.statement_day && formData.due_day ? parseInt(formData.due_day) : null,
+                minimum_due_percent: parseFloat(formData.minimum_due_percent) || 0
+            });
+            onClose();
+        } catch {
+            // The page reports the error; keep the form open so it can be corrected
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const modal = (
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                            {account ? 'Edit Account' : 'Add Account'}
+                        </h2>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="p-6">
+                        <div className="space-y-5">
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Name</label>
+                                <input
+                                    type="text"
+                                    value={formData.name}
+                                    onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                                    className="block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6"
+                                    placeholder="e.g. HDFC Savings, Amex"
+                                    required
+                                />
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Type</label>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {ACCOUNT_TYPES.map(({ value, label, Icon }) => (
+                                        <button
+                                            key={value}
+                                            type="button"
+                                            onClick={() => setFormData(prev => ({ ...prev, type: value }))}
+                                            className={`flex items-center justify-center gap-2 py-2 px-3 rounded-lg text-sm font-medium transition-colors ring-1 ring-inset ${
+                                                formData.type === value
+                                                    ? 'bg-blue-50 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400 ring-blue-600/20 dark:ring-blue-400/20'
+                                                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 ring-gray-300 dark:ring-gray-600'
+                                            }`}
+                                        >
+                                            <Icon className="h-4 w-4" />
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Opening balance</label>
+                                <div className="relative rounded-lg shadow-sm">
+                                    <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{getCurrencySymbol(formData.currency)}</span>
+                                    </div>
+                                    <input
+                                        type="number"
+                                        value={formData.opening_balance}
+                                        onChange={(e) => setFormData(prev => ({ ...prev, opening_balance: e.target.value }))}
+                                        className={`block w-full rounded-lg border-0 py-2.5 ${getCurrencySymbol(formData.currency).length > 1 ? 'pl-12' : 'pl-7'} pr-20 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6`}
+                                        placeholder="0.00"
+                                        step="0.01"
+                                    />
+                                    <CurrencySelect
+                                        value={formData.currency}
+                                        onChange={(currency) => setFormData(prev => ({ ...prev, currency }))}
+                                    />
+                                </div>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    {isCreditCard
+                                        ? 'Enter what you owe on the card as a negative amount'
+                                        : 'What the account held before the first entry you record here'}
+                                </p>
+                            </div>
+
+                            {isCreditCard && (
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Statement cycle</label>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        <div>
+                                            <input
+                                                type="number"
+                                                value={formData.statement_day}
+                                                onChange={(e) => setFormData(prev => ({ ...prev, statement_day: e.target.value }))}
+                                                className="block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6"
+                                                placeholder="e.g. 15"
+                                                min="1"
+                                                max="31"
+                                                step="1"
+                                            />
+                                            <span className="text-xs text-gray-500 dark:text-gray-400">Statement day</span>
+                                        </div>
+                                        <div>
+                                            <input
+                                                type="number"
+                                                value={formData.due_day}
+                                                onChange={(e) => setFormData(prev => ({ ...prev, due_day: e.target.value }))}
+                                                className="block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6 disabled:opacity-50"
+                                                placeholder="e.g. 5"
+                                                min="1"
+                                                max="31"
+                                                step="1"
+                                                disabled={!formData.statement_day}
+                                            />
+                                            <span className="text-xs text-gray-500 dark:text-gray-400">Due day</span>
+                                        </div>
+                                        <div>
+                                            <input
+                                                type="number"
+                                                value={formData.minimum_due_percent}
+                                                onChange={(e) => setFormData(prev => ({ ...prev, minimum_due_percent: e.target.value }))}
+                                                className="block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6"
+                                                min="0"
+                                                max="100"
+                                                step="0.01"
+                                            />
+                                            <span className="text-xs text-gray-500 dark:text-gray-400">Minimum due %</span>
+                                        </div>
+                                    </div>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                                        Days of the month. Payment is due on the first due day after the statement; record payments as transfers to the card.
+                                    </p>
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSaving}
+                                className="rounded-lg bg-blue-600 dark:bg-blue-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {account ? 'Save Changes' : 'Add Account'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </>
+    );
+
+    return createPortal(modal, document.body);
+}
@@ -0,0 +1,25 @@
+import { useAccounts } from '../contexts/AccountsContext';
+import { Account } from '../types';
+
+interface Props {
+    value: string | null | undefined;
+    onChange: (accountId: string | null, account?: Account) => void;
+}
+
+// Account an entry is paid into or out of. The account is passed along so forms can switch to its currency.
+export default function AccountPicker({ value, onChange }: Props) {
+    const { accounts } = useAccounts();
+
+    return (
+        <select
+            value={value ?? ''}
+            onChange={(e) => onChange(e.target.value || null, accounts.find(account => account.id === e.target.value))}
+            className="block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm"
+        >
+            <option value="">No account</option>
+            {accounts.map(account => (
+                <option key={account.id} value={account.id}>{account.name} ({account.currency})</option>
+            ))}
+        </select>
+    );
+}
@@ -0,0 +1,400 @@
+import { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { format, startOfMonth, endOfMonth, subMonths, addMonths, parseISO } from 'date-fns';
+import { Plus, Edit2, Trash2, X, Info, Loader2, ChevronLeft, ChevronRight, Calendar, ArrowLeftRight, ArrowRight } from 'lucide-react';
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+import "../styles/datepicker.css";
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { useAccounts } from '../contexts/AccountsContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { db } from '../lib/supabase';
+import { getAccountName, getAccountType } from '../lib/accounts';
+import { convertToBase } from '../lib/currency';
+import { Account, AccountTransfer } from '../types';
+import AccountModal, { AccountFormValues } from './AccountModal';
+import TransferModal from './TransferModal';
+
+interface DeleteAccountModalProps {
+    account: Account;
+    onClose: () => void;
+    onConfirm: () => Promise<void>;
+}
+
+function DeleteAccountModal({ account, onClose, onConfirm }: DeleteAccountModalProps) {
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    const handleConfirm = async () => {
+        setIsDeleting(true);
+        try {
+            await onConfirm();
+            onClose();
+        } catch (error) {
+            console.error('Error deleting account:', error);
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    return createPortal(
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Delete {account.name}</h2>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <div className="p-6 space-y-4">
+                        <div className="bg-blue-50 dark:bg-blue-900/50 border border-blue-200 dark:border-blue-800 rounded-lg p-3">
+                            <div className="flex items-center gap-1.5">
+                                <Info className="h-4 w-4 text-blue-600 dark:text-blue-400 flex-shrink-0" />
+                                <p className="text-sm text-blue-700 dark:text-blue-300">
+                                    Income and expenses in this account are kept without an account. Its transfers are deleted.
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                                disabled={isDeleting}
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleConfirm}
+                                disabled={isDeleting}
+                                className="rounded-lg bg-red-600 dark:bg-red-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-red-700 dark:hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-600 dark:focus:ring-red-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {isDeleting ? (
+                                    <>
+                                        <Loader2 className="h-4 w-4 mr-2 inline animate-spin" />
+                                        Deleting...
+                                    </>
+                                ) : (
+                                    'Delete Account'
+                                )}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </>,
+        document.body
+    );
+}
+
+export default function Accounts() {
+    const { user } = useAuth();
+    const { accounts, loading, refreshAccounts } = useAccounts();
+    const { baseCurrency, rates, formatMoney } = useCurrency();
+    const [selectedMonth, setSelectedMonth] = useState(startOfMonth(new Date()));
+    const [balances, setBalances] = useState<Record<string, number>>({});
+    const [transfers, setTransfers] = useState<AccountTransfer[]>([]);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editingAccount, setEditingAccount] = useState<Account | undefined>();
+    const [accountToDelete, setAccountToDelete] = useState<Account | null>(null);
+    const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
+    const [transferFromId, setTransferFromId] = useState<string | null>(null);
+
+    // Balances at the end of the selected month, refetched whenever accounts, transfers or exchange rates change
+    useEffect(() => {
+        if (!user) return;
+
+        db.accounts.getBalances(endOfMonth(selectedMonth))
+            .then(setBalances)
+            .catch(error => console.error('Error fetching account balances:', error));
+    }, [user, accounts, transfers, selectedMonth, baseCurrency, rates]);
+
+    useEffect(() => {
+        if (!user) return;
+
+        db.accountTransfers.getAll(user.id, selectedMonth, endOfMonth(selectedMonth))
+            .then(setTransfers)
+            .catch(error => {
+                console.error('Error fetching transfers:', error);
+                toast.error('Failed to load transfers');
+            });
+    }, [user, selectedMonth]);
+
+    const netWorth = accounts.reduce(
+        (sum, account) => sum + convertToBase(balances[account.id] ?? account.opening_balance, account.currency, { baseCurrency, rates }),
+        0
+    );
+
+    const handleSave = async (values: AccountFormValues) => {
+        if (!user) return;
+        try {
+            if (editingAccount) {
+                await db.accounts.update(editingAccount.id, values);
+                toast.success('Account updated successfully');
+            } else {
+                await db.accounts.create({ ...values, user_id: user.id });
+                toast.success('Account added successfully');
+            }
+            await refreshAccounts();
+        } catch (error) {
+            console.error('Error saving account:', error);
+            // 23505: unique_violation on (user_id, name)
+            const isDuplicate = (error as { code?: string })?.code === '23505';
+            toast.error(isDuplicate ? 'An account with this name already exists' : 'Failed to save account');
+            throw error;
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!accountToDelete) return;
+        try {
+            await db.accounts.remove(accountToDelete.id);
+            setTransfers(prev => prev.filter(t => t.from_account_id !== accountToDelete.id && t.to_account_id !== accountToDelete.id));
+            toast.success('Account deleted successfully');
+            await refreshAccounts();
+        } catch (error) {
+            toast.error('Failed to delete account');
+            throw error;
+        }
+    };
+
+    const handleTransfer = async (transfer: { from_account_id: string; to_account_id: string; amount: number; to_amount: number | null; date: string; note: string | null }) => {
+        if (!user) return;
+        try {
+            const created = await db.accountTransfers.add({ ...transfer, user_id: user.id });
+            const transferMonth = startOfMonth(parseISO(created.date));
+            if (transferMonth.getTime() === selectedMonth.getTime()) {
+                setTransfers(prev => [created, ...prev].sort((a, b) => b.date.localeCompare(a.date)));
+            } else {
+                setSelectedMonth(transferMonth);
+            }
+            toast.success('Transfer saved successfully');
+        } catch (error) {
+            console.error('Error saving transfer:', error);
+            toast.error('Failed to save transfer');
+        }
+    };
+
+    const handleDeleteTransfer = async (id: string) => {
+        try {
+            await db.accountTransfers.remove(id);
+            setTransfers(prev => prev.filter(t => t.id !== id));
+        } catch (error) {
+            console.error('Error deleting transfer:', error);
+            toast.error('Failed to delete transfer');
+        }
+    };
+
+    const openTransferModal = (fromAccountId: string | null = null) => {
+        setTransferFromId(fromAccountId);
+        setIsTransferModalOpen(true);
+    };
+
+    const getAccountCurrency = (accountId: string) => accounts.find(account => account.id === accountId)?.currency;
+
+    return (
+        <div className="space-y-6 max-w-7xl mx-auto px-4 sm:px-6 py-4">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-200 text-center sm:text-left">Accounts</h1>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 text-center sm:text-left">
+                        Balances at the end of {format(selectedMonth, 'MMMM yyyy')}
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => setSelectedMonth(subMonths(selectedMonth, 1))}
+                        className="p-2 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition duration-200"
+                    >
+                        <ChevronLeft className="h-5 w-5" />
+                    </button>
+                    <div className="inline-block">
+                        <DatePicker
+                            selected={selectedMonth}
+                            onChange={(date: Date | null) => date && setSelectedMonth(startOfMonth(date))}
+                            dateFormat="MMMM yyyy"
+                            showMonthYearPicker
+                            customInput={
+                                <button className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 text-sm shadow-sm">
+                                    <Calendar className="h-4 w-4" />
+                                    <span className="font-medium">{format(selectedMonth, 'MMM yyyy')}</span>
+                                </button>
+                            }
+                            calendarClassName="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg"
+                            wrapperClassName="!block"
+                            popperClassName="!z-50"
+                        />
+                    </div>
+                    <button
+                        onClick={() => setSelectedMonth(addMonths(selectedMonth, 1))}
+                        className="p-2 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition duration-200"
+                    >
+                        <ChevronRight className="h-5 w-5" />
+                    </button>
+                </div>
+            </div>
+
+            {/* Accounts */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4 sm:p-6">
+                <div className="flex flex-col sm:flex-row justify-between items-center gap-2 mb-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200 text-center sm:text-left">Your Accounts</h2>
+                        {accounts.length > 0 && (
+                            <p className="text-sm text-gray-600 dark:text-gray-400 text-center sm:text-left">
+                                {formatMoney(netWorth)} across all accounts
+                            </p>
+                        )}
+                    </div>
+                    <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                        <button
+                            onClick={() => openTransferModal()}
+                            disabled={accounts.length < 2}
+                            className="inline-flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm border rounded-md transition-colors text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/50 border-blue-200 dark:border-blue-800 hover:bg-blue-100 dark:hover:bg-blue-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <ArrowLeftRight className="h-3.5 w-3.5" />
+                            Transfer
+                        </button>
+                        <button
+                            onClick={() => {
+                                setEditingAccount(undefined);
+                                setIsModalOpen(true);
+                            }}
+                            className="inline-flex items-center justify-center px-3 py-1.5 text-sm rounded-md text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 shadow-sm"
+                        >
+                            <Plus className="h-3.5 w-3.5 mr-1.5" />
+                            Add Account
+                        </button>
+                    </div>
+                </div>
+
+                {loading ? (
+                    <p className="text-center text-gray-500 dark:text-gray-400">Loading...</p>
+                ) : accounts.length === 0 ? (
+                    <p className="text-center text-gray-500 dark:text-gray-400">
+                        Add your bank accounts, cards, cash and wallets to see where your money is
+                    </p>
+                ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        {accounts.map((account) => {
+                            const { label, Icon } = getAccountType(account.type);
+                            const balance = balances[account.id] ?? account.opening_balance;
+                            return (
+                                <div key={account.id} className="flex items-center justify-between gap-3 rounded-lg p-3 border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900">
+                                    <div className="flex items-center gap-3 min-w-0">
+                                        <div className="p-2 rounded-lg bg-blue-50 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400">
+                                            <Icon className="h-4 w-4" />
+                                        </div>
+                                        <div className="min-w-0">
+                                            <div className="text-sm font-semibold text-gray-900 dark:text-gray-200 truncate">{account.name}</div>
+                                            <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <span className={`text-sm font-bold ${balance < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-gray-200'}`}>
+                                            {formatMoney(balance, { currency: account.currency })}
+                                        </span>
+                                        <button
+                                            onClick={() => openTransferModal(account.id)}
+                                            disabled={accounts.length < 2}
+                                            title="Transfer from this account"
+                                            className="p-1 text-gray-400 hover:text-blue-500 dark:text-gray-500 dark:hover:text-blue-400 disabled:opacity-50"
+                                        >
+                                            <ArrowLeftRight className="h-4 w-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => {
+                                                setEditingAccount(account);
+                                                setIsModalOpen(true);
+                                            }}
+                                            className="p-1 text-gray-400 hover:text-blue-500 dark:text-gray-500 dark:hover:text-blue-400"
+                                        >
+                                            <Edit2 className="h-4 w-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => setAccountToDelete(account)}
+                                            className="p-1 text-gray-400 hover:text-red-500 dark:text-gray-500 dark:hover:text-red-400"
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            {/* Transfers */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4 sm:p-6">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200 mb-4">Transfers</h2>
+                {transfers.length === 0 ? (
+                    <p className="text-center text-gray-500 dark:text-gray-400">No transfers this month</p>
+                ) : (
+                    <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {transfers.map((transfer) => (
+                            <div key={transfer.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-1 py-2.5">
+                                <div>
+                                    <div className="flex items-center gap-1.5 text-sm font-medium text-gray-900 dark:text-gray-200">
+                                        {getAccountName(accounts, transfer.from_account_id)}
+                                        <ArrowRight className="h-3.5 w-3.5 text-gray-400" />
+                                        {getAccountName(accounts, transfer.to_account_id)}
+                                    </div>
+                                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                                        {format(parseISO(transfer.date), 'MMM d, yyyy')}
+                                        {transfer.note && ` · ${transfer.note}`}
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-3">
+                                    <span className="text-sm font-medium text-gray-900 dark:text-gray-200">
+                                        {formatMoney(transfer.amount, { currency: getAccountCurrency(transfer.from_account_id) })}
+                                        {transfer.to_amount !== null && ` → ${formatMoney(transfer.to_amount, { currency: getAccountCurrency(transfer.to_account_id) })}`}
+                                    </span>
+                                    <button
+                                        onClick={() => handleDeleteTransfer(transfer.id)}
+                                        className="p-1 text-gray-400 dark:text-gray-500 hover:text-red-500 dark:hover:text-red-400"
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <AccountModal
+                isOpen={isModalOpen}
+                onClose={() => {
+                    setIsModalOpen(false);
+                    setEditingAccount(undefined);
+                }}
+                onSave={handleSave}
+                account={editingAccount}
+            />
+
+            <TransferModal
+                isOpen={isTransferModalOpen}
+                onClose={() => setIsTransferModalOpen(false)}
+                onSave={handleTransfer}
+                fromAccountId={transferFromId}
+            />
+
+            {accountToDelete && (
+                <DeleteAccountModal
+                    account={accountToDelete}
+                    onClose={() => setAccountToDelete(null)}
+                    onConfirm={handleDelete}
+                />
+            )}
+        </div>
+    );
+}
@@ -1,9 +1,21 @@
 import { useState, useEffect } from 'react';
-import { format, startOfMonth, endOfMonth, subMonths, startOfYear, endOfYear } from 'date-fns';
+import { format, parseISO, startOfDay, startOfMonth, endOfMonth, subMonths, startOfYear, endOfYear } from 'date-fns';
 import { ChevronLeft, ChevronRight, Calendar } from 'lucide-react';
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+import "../styles/datepicker.css";
+import { toast } from 'react-hot-toast';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
+import { useCategories } from '../contexts/CategoriesContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { getCategoryColor, getCategoryLabel, getTopLevelCategories, getTopLevelCategory, splitByCategory } from '../lib/categories';
+import { DEFAULT_RULE_TARGETS, RULE_BUCKETS, RuleTargets, analyseRuleMonth, fetchRuleTargets, saveRuleTargets } from '../lib/budgetRule';
+import { toBaseAmounts } from '../lib/currency';
+import { NetWorth, backfillNetWorthSnapshots, fetchNetWorth, getAssets, getNetWorthTotal, saveNetWorthSnapshot, snapshotToBase } from '../lib/netWorth';
+import { TagTotal, sumByTag } from '../lib/tags';
 import { db } from '../lib/supabase';
+import { Expense, Income, NetWorthSnapshot } from '../types';
 import {
     Chart as ChartJS,
     CategoryScale,
@@ -29,27 +41,29 @@ ChartJS.register(
     Legend
 );
 
+// Spending is kept per category id and rolled up to top-level categories when the chart is drawn.
+// All amounts are converted to the base currency when fetched.
 type MonthlyData = {
     month: Date;
-    investment: number;
-    debt: number;
-    needs: number;
-    leisure: number;
+    byCategory: Record<string, number>;
     salary: number;
+    expenses: Expense[];
 };
 
-type YearlyData = {
-    month: Date;
-    investment: number;
-    debt: number;
-    needs: number;
-    leisure: number;
-    salary: number;
-};
+type YearlyData = MonthlyData;
+
+const sumByCategoryId = (expenses: Expense[]) => splitByCategory(expenses).reduce((acc, e) => {
+    const key = e.category_id ?? '';
+    acc[key] = (acc[key] || 0) + e.amount;
+    return acc;
+}, {} as Record<string, number>);
 
 export default function Analytics() {
     const { user } = useAuth();
     const { isDarkMode } = useTheme();
+    const { categories } = useCategories();
+    const { baseCurrency, rates, formatMoney, loading: currencyLoading } = useCurrency();
+    const [ruleTargets, setRuleTargets] = useState<RuleTargets>(DEFAULT_RULE_TARGETS);
     const [isLoading, setIsLoading] = useState(false);
     const [selectedMonth, setSelectedMonth] = useState(startOfMonth(new Date()));
     const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
@@ -59,6 +73,18 @@ export default function Analytics() {
     const [yearlyPeriod, setYearlyPeriod] = useState(5);
     const [chartType, setChartType] = useState<'monthly' | 'yearly'>('monthly');
     const [chartKey, setChartKey] = useState(0);
+    const [netWorth, setNetWorth] = useState<NetWorth | null>(null);
+    const [netWorthSnapshots, setNetWorthSnapshots] = useState<NetWorthSnapshot[]>([]);
+    const [tagStart, setTagStart] = useState(startOfYear(new Date()));
+    const [tagEnd, setTagEnd] = useState(startOfDay(new Date()));
+    const [tagTotals, setTagTotals] = useState<TagTotal[]>([]);
+
+    useEffect(() => {
+        if (!user) return;
+        fetchRuleTargets(user.id)
+            .then(setRuleTargets)
+            .catch(error => console.error('Error fetching 50/30/20 targets:', error));
+    }, [user]);
 
     // Add effect to update chart when theme changes
     useEffect(() => {
@@ -94,23 +120,20 @@ export default function Analytics() {
 
                 const monthlyDataPromises = months.map(async (month) => {
                     const monthEnd = endOfMonth(month);
-                    const [expenses, incomes] = await Promise.all([
+                    const [rawExpenses, rawIncomes] = await Promise.all([
                         db.expenses.getAll(user.id, month, monthEnd),
                         db.income.getAll(user.id, month, monthEnd)
                     ]);
+                    const expenses = toBaseAmounts<Expense>(rawExpenses, { baseCurrency, rates });
+                    const incomes = toBaseAmounts<Income>(rawIncomes, { baseCurrency, rates });
 
                     const salary = incomes.reduce((sum, inc) => sum + inc.amount, 0);
-                    const expensesByCategory = {
-                        investment: expenses.filter(e => e.category === 'investment').reduce((sum, exp) => sum + exp.amount, 0),
-                        debt: expenses.filter(e => e.category === 'debt').reduce((sum, exp) => sum + exp.amount, 0),
-                        needs: expenses.filter(e => e.category === 'needs').reduce((sum, exp) => sum + exp.amount, 0),
-                        leisure: expenses.filter(e => e.category === 'leisure').reduce((sum, exp) => sum + exp.amount, 0),
-                        salary
-                    };
 
                     return {
                         month,
-                        ...expensesByCategory
+                        byCategory: sumByCategoryId(expenses),
+                        salary,
+                        expenses
                     };
                 });
 
@@ -124,7 +147,7 @@ export default function Analytics() {
         };
 
         fetchMonthlyData();
-    }, [user, selectedMonth, monthlyPeriod]);
+    }, [user, selectedMonth, monthlyPeriod, baseCurrency, rates]);
 
     // Fetch data for yearly chart
     useEffect(() => {
@@ -138,23 +161,20 @@ export default function Analytics() {
                     const yearStart = startOfMonth(new Date(year, 0));
                     const yearEnd = endOfMonth(new Date(year, 11));
                     
-                    const [expenses, incomes] = await Promise.all([
+                    const [rawExpenses, rawIncomes] = await Promise.all([
                         db.expenses.getAll(user.id, yearStart, yearEnd),
                         db.income.getAll(user.id, yearStart, yearEnd)
                     ]);
+                    const expenses = toBaseAmounts<Expense>(rawExpenses, { baseCurrency, rates });
+                    const incomes = toBaseAmounts<Income>(rawIncomes, { baseCurrency, rates });
 
                     const salary = incomes.reduce((sum, inc) => sum + inc.amount, 0);
-                    const expensesByCategory = {
-                        investment: expenses.filter(e => e.category === 'investment').reduce((sum, exp) => sum + exp.amount, 0),
-                        debt: expenses.filter(e => e.category === 'debt').reduce((sum, exp) => sum + exp.amount, 0),
-                        needs: expenses.filter(e => e.category === 'needs').reduce((sum, exp) => sum + exp.amount, 0),
-                        leisure: expenses.filter(e => e.category === 'leisure').reduce((sum, exp) => sum + exp.amount, 0),
-                        salary
-                    };
 
                     return {
                         month: yearStart,
-                        ...expensesByCategory
+                        byCategory: sumByCategoryId(expenses),
+                        salary,
+                        expenses
                     };
                 });
 
@@ -168,80 +188,135 @@ export default function Analytics() {
         };
 
         fetchYearlyData();
-    }, [user, selectedYear, yearlyPeriod]);
+    }, [user, selectedYear, yearlyPeriod, baseCurrency, rates]);
+
+    // Work out net worth as it stands and save it as this month's snapshot, fill in any months missed since the
+    // app was last opened, then load the history. Waits for the currency settings, so snapshots aren't saved
+    // in the default currency with unconverted amounts.
+    useEffect(() => {
+        if (!user || currencyLoading) return;
+
+        const fetchNetWorthHistory = async () => {
+            try {
+                const current = await fetchNetWorth(user.id, { baseCurrency, rates });
+                await saveNetWorthSnapshot(user.id, current, baseCurrency);
+                await backfillNetWorthSnapshots(user.id, { baseCurrency, rates });
+                setNetWorth(current);
+                setNetWorthSnapshots(await db.netWorthSnapshots.getAll(user.id));
+            } catch (error) {
+                console.error('Error fetching net worth:', error);
+            }
+        };
+
+        fetchNetWorthHistory();
+    }, [user, baseCurrency, rates, currencyLoading]);
+
+    // Total the spending under each tag between the chosen dates
+    useEffect(() => {
+        if (!user) return;
+
+        const fetchTagTotals = async () => {
+            try {
+                const expenses: Expense[] = await db.expenses.getAll(user.id, tagStart, tagEnd);
+                setTagTotals(sumByTag(toBaseAmounts(expenses, { baseCurrency, rates })));
+            } catch (error) {
+                console.error('Error fetching spending by tag:', error);
+            }
+        };
+
+        fetchTagTotals();
+    }, [user, tagStart, tagEnd, baseCurrency, rates]);
+
+    // One line per top-level category in the category's colour, plus salary
+    const buildDatasets = (periods: MonthlyData[]): ChartData<'line'>['datasets'] => [
+        ...getTopLevelCategories(categories).map(category => {
+            const { rgb } = getCategoryColor(category);
+            return {
+                label: category.name,
+                data: periods.map(d => Object.entries(d.byCategory)
+                    .filter(([categoryId]) => getTopLevelCategory(categories, categoryId)?.id === category.id)
+                    .reduce((sum, [, amount]) => sum + amount, 0)),
+                borderColor: `rgb(${rgb})`,
+                backgroundColor: `rgba(${rgb}, 0.5)`,
+            };
+        }),
+        {
+            label: 'Salary',
+            data: periods.map(d => d.salary),
+            borderColor: 'rgb(234, 179, 8)', // yellow
+            backgroundColor: 'rgba(234, 179, 8, 0.5)',
+        },
+    ];
 
     const monthlyChartData: ChartData<'line'> = {
         labels: monthlyData.map(d => format(d.month, 'MMM yyyy')),
-        datasets: [
-            {
-                label: 'Investment',
-                data: monthlyData.map(d => d.investment),
-                borderColor: 'rgb(59, 130, 246)', // blue
-                backgroundColor: 'rgba(59, 130, 246, 0.5)',
-            },
-            {
-                label: 'Debt',
-                data: monthlyData.map(d => d.debt),
-                borderColor: 'rgb(239, 68, 68)', // red
-                backgroundColor: 'rgba(239, 68, 68, 0.5)',
-            },
-            {
-                label: 'Needs',
-                data: monthlyData.map(d => d.needs),
-                borderColor: 'rgb(34, 197, 94)', // green
-                backgroundColor: 'rgba(34, 197, 94, 0.5)',
-            },
-            {
-                label: 'Leisure',
-                data: monthlyData.map(d => d.leisure),
-                borderColor: 'rgb(168, 85, 247)', // purple
-                backgroundColor: 'rgba(168, 85, 247, 0.5)',
-            },
-            {
-                label: 'Salary',
-                data: monthlyData.map(d => d.salary),
-                borderColor: 'rgb(234, 179, 8)', // yellow
-                backgroundColor: 'rgba(234, 179, 8, 0.5)',
-            },
-        ]
+        datasets: buildDatasets(monthlyData)
     };
 
     const yearlyChartData: ChartData<'line'> = {
         labels: yearlyData.map(d => format(d.month, 'yyyy')),
+        datasets: buildDatasets(yearlyData)
+    };
+
+    const netWorthHistory = netWorthSnapshots.map(snapshot => ({
+        month: parseISO(snapshot.month),
+        ...snapshotToBase(snapshot, { baseCurrency, rates })
+    }));
+    const previousNetWorth = netWorthHistory.length > 1 ? netWorthHistory[netWorthHistory.length - 2] : null;
+    const netWorthChange = netWorth && previousNetWorth ? getNetWorthTotal(netWorth) - getNetWorthTotal(previousNetWorth) : null;
+
+    const netWorthChartData: ChartData<'line'> = {
+        labels: netWorthHistory.map(d => format(d.month, 'MMM yyyy')),
         datasets: [
             {
-                label: 'Investment',
-                data: yearlyData.map(d => d.investment),
-                borderColor: 'rgb(59, 130, 246)', // blue
-                backgroundColor: 'rgba(59, 130, 246, 0.5)',
-            },
-            {
-                label: 'Debt',
-                data: yearlyData.map(d => d.debt),
-                borderColor: 'rgb(239, 68, 68)', // red
-                backgroundColor: 'rgba(239, 68, 68, 0.5)',
+                label: 'Net worth',
+                data: netWorthHistory.map(getNetWorthTotal),
+                borderColor: 'rgb(37, 99, 235)', // blue
+                backgroundColor: 'rgba(37, 99, 235, 0.5)',
             },
             {
-                label: 'Needs',
-                data: yearlyData.map(d => d.needs),
-                borderColor: 'rgb(34, 197, 94)', // green
-                backgroundColor: 'rgba(34, 197, 94, 0.5)',
+                label: 'Assets',
+                data: netWorthHistory.map(getAssets),
+                borderColor: 'rgb(22, 163, 74)', // green
+                backgroundColor: 'rgba(22, 163, 74, 0.5)',
             },
             {
-                label: 'Leisure',
-                data: yearlyData.map(d => d.leisure),
-                borderColor: 'rgb(168, 85, 247)', // purple
-                backgroundColor: 'rgba(168, 85, 247, 0.5)',
-            },
-            {
-                label: 'Salary',
-                data: yearlyData.map(d => d.salary),
-                borderColor: 'rgb(234, 179, 8)', // yellow
-                backgroundColor: 'rgba(234, 179, 8, 0.5)',
+                label: 'Debts',
+                data: netWorthHistory.map(d => d.debts),
+                borderColor: 'rgb(220, 38, 38)', // red
+                backgroundColor: 'rgba(220, 38, 38, 0.5)',
             },
         ]
     };
 
+    const updateRuleTarget = (bucket: keyof RuleTargets, value: string) => {
+        setRuleTargets({ ...ruleTargets, [bucket]: Math.max(0, parseFloat(value) || 0) });
+    };
+
+    // Saved when a field is left rather than on every keystroke
+    const commitRuleTargets = async () => {
+        if (!user) return;
+        try {
+            await saveRuleTargets(user.id, ruleTargets);
+        } catch (error) {
+            console.error('Error saving 50/30/20 targets:', error);
+            toast.error('Failed to save targets');
+        }
+    };
+
+    const ruleTargetTotal = RULE_BUCKETS.reduce((sum, { key }) => sum + ruleTargets[key], 0);
+    const ruleMonths = monthlyData.map(d => analyseRuleMonth(d.month, d.expenses, categories, ruleTargets));
+
+    const driftChartData: ChartData<'line'> = {
+        labels: ruleMonths.map(d => format(d.month, 'MMM yyyy')),
+        datasets: RULE_BUCKETS.map(({ key, label, rgb }) => ({
+            label,
+            data: ruleMonths.map(d => Math.round(d.drift[key] * 10) / 10),
+            borderColor: `rgb(${rgb})`,
+            backgroundColor: `rgba(${rgb}, 0.5)`,
+        }))
+    };
+
     const chartOptions: ChartOptions<'line'> = {
         responsive: true,
         maintainAspectRatio: false,
@@ -267,9 +342,7 @@ export default function Analytics() {
             y: {
                 beginAtZero: true,
                 ticks: {
-                    callback: (value) => {
-                        return `₹${value.toLocaleString('en-IN')}`;
-                    },
+                    callback: (value) => formatMoney(Number(value), { compact: true }),
                     maxTicksLimit: window.innerWidth < 640 ? 5 : 8, // Fewer ticks on mobile
                     color: isDarkMode ? '#e5e7eb' : '#374151',
                 },
@@ -290,6 +363,52 @@ export default function Analytics() {
         },
     };
 
+    // Drift is in percentage points either side of the target, so the axis is centred on zero
+    const driftChartOptions: ChartOptions<'line'> = {
+        ...chartOptions,
+        plugins: {
+            ...chartOptions.plugins,
+            tooltip: {
+                ...chartOptions.plugins?.tooltip,
+                callbacks: {
+                    label: (context) => `${context.dataset.label}: ${context.parsed.y > 0 ? '+' : ''}${context.parsed.y} pts vs target`
+                }
+            }
+        },
+        scales: {
+            ...chartOptions.scales,
+            y: {
+                ...chartOptions.scales?.y,
+                beginAtZero: false,
+                ticks: {
+                    callback: (value) => `${Number(value) > 0 ? '+' : ''}${value}%`,
+                    color: isDarkMode ? '#e5e7eb' : '#374151',
+                },
+            }
+        }
+    };
+
+    // Net worth can be negative, so the axis isn't pinned to zero
+    const netWorthChartOptions: ChartOptions<'line'> = {
+        ...chartOptions,
+        plugins: {
+            ...chartOptions.plugins,
+            tooltip: {
+                ...chartOptions.plugins?.tooltip,
+                callbacks: {
+                    label: (context) => `${context.dataset.label}: ${formatMoney(context.parsed.y)}`
+                }
+            }
+        },
+        scales: {
+            ...chartOptions.scales,
+            y: {
+                ...chartOptions.scales?.y,
+                beginAtZero: false
+            }
+        }
+    };
+
     const yearlyChartOptions: ChartOptions<'line'> = {
         responsive: true,
         maintainAspectRatio: false,
@@ -310,7 +429,7 @@ export default function Analytics() {
                 borderWidth: 1,
                 callbacks: {
                     title: (context) => `Year ${context[0].label}`,
-                    label: (context) => `${context.dataset.label}: ₹${context.parsed.y.toLocaleString()}`
+                    label: (context) => `${context.dataset.label}: ${formatMoney(context.parsed.y)}`
                 }
             },
         },
@@ -331,7 +450,7 @@ export default function Analytics() {
             y: {
                 beginAtZero: true,
                 ticks: {
-                    callback: (value) => `₹${value.toLocaleString()}`,
+                    callback: (value) => formatMoney(Number(value), { compact: true }),
                     color: isDarkMode ? '#e5e7eb' : '#374151',
                 },
                 grid: {
@@ -419,6 +538,232 @@ export default function Analytics() {
                 </div>
             </div>
 
+            {/* Net worth */}
+            {netWorth && (
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4 sm:p-6 space-y-6">
+                    <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-2">
+                        <div>
+                            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200">Net Worth</h2>
+                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                                Accounts, investments and savings goals, less loans and card balances. A snapshot is kept each month.
+                            </p>
+                        </div>
+                        <div className="sm:text-right">
+                            <div className="text-2xl font-bold text-gray-900 dark:text-gray-200">
+                                {formatMoney(getNetWorthTotal(netWorth), { accounting: true })}
+                            </div>
+                            {netWorthChange !== null && (
+                                <div className={`text-sm ${netWorthChange >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                                    {netWorthChange >= 0 ? '+' : ''}{formatMoney(netWorthChange)} since last month
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                        {[
+                            { label: 'Accounts', amount: netWorth.accounts },
+                            { label: 'Investments', amount: netWorth.investments },
+                            { label: 'Savings goals', amount: netWorth.goals },
+                            { label: 'Debts', amount: -netWorth.debts }
+                        ].map(({ label, amount }) => (
+                            <div key={label} className="rounded-lg p-3 border border-gray-200 dark:border-gray-700">
+                                <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+                                <div className="text-base font-bold text-gray-900 dark:text-gray-200">{formatMoney(amount, { accounting: true })}</div>
+                            </div>
+                        ))}
+                    </div>
+
+                    {netWorthHistory.length > 1 ? (
+                        <div className="h-[250px] sm:h-[300px]">
+                            <Line key={chartKey} data={netWorthChartData} options={netWorthChartOptions} />
+                        </div>
+                    ) : (
+                        <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+                            The trend appears once there's more than one month's snapshot
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {/* Spending by tag */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4 sm:p-6 space-y-4">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200">Spending by Tag</h2>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                            An expense with several tags counts towards each of them.
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                        <DatePicker
+                            selected={tagStart}
+                            onChange={(date: Date | null) => date && setTagStart(startOfDay(date))}
+                            selectsStart
+                            startDate={tagStart}
+                            endDate={tagEnd}
+                            maxDate={tagEnd}
+                            dateFormat="MMM d, yyyy"
+                            className="w-32 px-3 py-1.5 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-700 dark:text-gray-300 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            popperClassName="!z-50"
+                        />
+                        to
+                        <DatePicker
+                            selected={tagEnd}
+                            onChange={(date: Date | null) => date && setTagEnd(startOfDay(date))}
+                            selectsEnd
+                            startDate={tagStart}
+                            endDate={tagEnd}
+                            minDate={tagStart}
+                            dateFormat="MMM d, yyyy"
+                            className="w-32 px-3 py-1.5 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-700 dark:text-gray-300 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            popperClassName="!z-50"
+                        />
+                    </div>
+                </div>
+
+                {tagTotals.length === 0 ? (
+                    <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+                        No tagged expenses between these dates. Add tags to expenses from the Dashboard.
+                    </p>
+                ) : (
+                    <div className="space-y-3">
+                        {tagTotals.map(({ tag, total, count }) => (
+                            <div key={tag.id} className="space-y-1">
+                                <div className="flex justify-between text-sm">
+                                    <span className="font-medium text-gray-900 dark:text-gray-200">
+                                        #{tag.name}
+                                        <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                                            {count} {count === 1 ? 'expense' : 'expenses'}
+                                        </span>
+                                    </span>
+                                    <span className="font-medium text-gray-900 dark:text-gray-200">{formatMoney(total)}</span>
+                                </div>
+                                <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                                    <div
+                                        className="h-full rounded-full bg-blue-500"
+                                        style={{ width: `${tagTotals[0].total > 0 ? (total / tagTotals[0].total) * 100 : 0}%` }}
+                                    />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* 50/30/20 rule */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4 sm:p-6 space-y-6">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200">50/30/20 Rule</h2>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                            How each month's spending split compares with your target over the last {monthlyPeriod} months.
+                            Set each category's bucket on the Categories page.
+                        </p>
+                    </div>
+                    <div className="flex items-end gap-2">
+                        {RULE_BUCKETS.map(({ key, label }) => (
+                            <label key={key} className="text-xs font-medium text-gray-600 dark:text-gray-400">
+                                {label}
+                                <div className="relative mt-1">
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max="100"
+                                        value={ruleTargets[key]}
+                                        onChange={(e) => updateRuleTarget(key, e.target.value)}
+                                        onBlur={commitRuleTargets}
+                                        className="block w-20 rounded-md border-0 py-1.5 pl-2 pr-6 text-sm text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none"
+                                    />
+                                    <span className="pointer-events-none absolute inset-y-0 right-2 flex items-center text-gray-500 dark:text-gray-400">%</span>
+                                </div>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                {ruleTargetTotal !== 100 && (
+                    <p className="text-sm text-yellow-700 dark:text-yellow-400">
+                        Your targets add up to {ruleTargetTotal}%, not 100%.
+                    </p>
+                )}
+
+                <div className="h-[250px] sm:h-[300px]">
+                    <Line key={chartKey} data={driftChartData} options={driftChartOptions} />
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                                <th className="py-2 pr-4">Month</th>
+                                {RULE_BUCKETS.map(({ key, label }) => (
+                                    <th key={key} className="py-2 pr-4 text-right">{label} ({ruleTargets[key]}%)</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {[...ruleMonths].reverse().map((d) => (
+                                <tr key={d.month.toISOString()}>
+                                    <td className="py-2 pr-4 text-gray-900 dark:text-gray-200">{format(d.month, 'MMM yyyy')}</td>
+                                    {RULE_BUCKETS.map(({ key }) => (
+                                        <td key={key} className="py-2 pr-4 text-right text-gray-900 dark:text-gray-200">
+                                            {d.total > 0 ? (
+                                                <>
+                                                    {d.actual[key].toFixed(1)}%
+                                                    <span className={`ml-1.5 text-xs ${
+                                                        d.drift[key] > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'
+                                                    }`}>
+                                                        {d.drift[key] > 0 ? '+' : ''}{d.drift[key].toFixed(1)}
+                                                    </span>
+                                                </>
+                                            ) : (
+                                                <span className="text-gray-400 dark:text-gray-500">–</span>
+                                            )}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="space-y-3">
+                    <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-200">Over-share transactions</h3>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                        In each month, the expense that took a bucket past its share of spending and everything after it
+                    </p>
+                    {ruleMonths.every(d => d.overspent.length === 0) ? (
+                        <p className="text-sm text-center text-gray-500 dark:text-gray-400">Every bucket stayed within its share</p>
+                    ) : (
+                        [...ruleMonths].reverse().filter(d => d.overspent.length > 0).map((d) => (
+                            <div key={d.month.toISOString()} className="rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+                                {d.overspent.map(({ bucket, expenses }) => (
+                                    <div key={bucket} className="px-3 py-2">
+                                        <div className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                                            {format(d.month, 'MMM yyyy')} · {RULE_BUCKETS.find(b => b.key === bucket)?.label}
+                                        </div>
+                                        {expenses.map((expense, i) => (
+                                            <div key={`${expense.id}-${i}`} className="flex justify-between text-sm py-0.5">
+                                                <span className="text-gray-900 dark:text-gray-200">
+                                                    {expense.name}
+                                                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                                                        {getCategoryLabel(categories, expense.category_id)}
+                                                    </span>
+                                                </span>
+                                                <span className="font-medium text-gray-900 dark:text-gray-200">
+                                                    {formatMoney(expense.amount)}
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                ))}
+                            </div>
+                        ))
+                    )}
+                </div>
+            </div>
+
             {/* Footer */}
             <div className="flex flex-col items-center space-y-2 mt-6 sm:mt-8">
                 <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400 text-center px-4">Made with ❤️ by Siby C.R.</p>
@@ -0,0 +1,80 @@
+import { FileText, Image, Paperclip, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Attachment } from '../types';
+import { ATTACHMENT_TYPES, formatFileSize, getAttachmentError, isImageAttachment } from '../lib/attachments';
+
+interface Props {
+    attachments: Attachment[]; // Saved attachments the entry keeps
+    files: File[]; // Picked files, uploaded when the entry is saved
+    onChange: (attachments: Attachment[], files: File[]) => void;
+}
+
+// Receipts and documents for an entry. Nothing is uploaded or deleted until the form is saved.
+export default function AttachmentInput({ attachments, files, onChange }: Props) {
+    const handleFiles = (fileList: FileList | null) => {
+        const picked = Array.from(fileList ?? []);
+        picked.forEach(file => {
+            const error = getAttachmentError(file);
+            if (error) toast.error(error);
+        });
+        onChange(attachments, [...files, ...picked.filter(file => !getAttachmentError(file))]);
+    };
+
+    const rows = [
+        ...attachments.map(attachment => ({
+            key: attachment.id,
+            name: attachment.file_name,
+            size: attachment.size,
+            isImage: isImageAttachment(attachment),
+            remove: () => onChange(attachments.filter(a => a.id !== attachment.id), files)
+        })),
+        ...files.map((file, i) => ({
+            key: `new-${i}-${file.name}`,
+            name: file.name,
+            size: file.size,
+            isImage: isImageAttachment({ content_type: file.type }),
+            remove: () => onChange(attachments, files.filter(f => f !== file))
+        }))
+    ];
+
+    return (
+        <div className="space-y-2">
+            {rows.length > 0 && (
+                <ul className="rounded-lg ring-1 ring-inset ring-gray-300 dark:ring-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+                    {rows.map(({ key, name, size, isImage, remove }) => (
+                        <li key={key} className="flex items-center gap-2 px-3 py-2 text-sm">
+                            {isImage
+                                ? <Image className="h-4 w-4 shrink-0 text-gray-400" />
+                                : <FileText className="h-4 w-4 shrink-0 text-gray-400" />}
+                            <span className="flex-1 truncate text-gray-900 dark:text-gray-200">{name}</span>
+                            <span className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(size)}</span>
+                            <button
+                                type="button"
+                                onClick={remove}
+                                className="p-1 text-gray-400 dark:text-gray-500 hover:text-red-500 dark:hover:text-red-400"
+                                aria-label={`Remove ${name}`}
+                            >
+                                <X className="h-4 w-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <label className="inline-flex items-center gap-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 cursor-pointer">
+                <Paperclip className="h-4 w-4" />
+                Attach receipt or document
+                <input
+                    type="file"
+                    multiple
+                    accept={ATTACHMENT_TYPES.join(',')}
+                    onChange={(e) => {
+                        handleFiles(e.target.files);
+                        // Let the same file be picked again after it's removed
+                        e.target.value = '';
+                    }}
+                    className="hidden"
+                />
+            </label>
+        </div>
+    );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ExternalLink, FileText, Image, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Attachment } from '../types';
+import { formatFileSize, getAttachmentUrl, isImageAttachment } from '../lib/attachments';
+
+interface Props {
+    title: string;
+    attachments: Attachment[];
+    onClose: () => void;
+}
+
+// Shows an entry's receipts and documents. Files are private, so each is opened through a short-lived signed URL.
+export default function AttachmentPreviewModal({ title, attachments, onClose }: Props) {
+    const [selectedId, setSelectedId] = useState(attachments[0]?.id);
+    const [url, setUrl] = useState<string | null>(null);
+    const selected = attachments.find(attachment => attachment.id === selectedId);
+
+    useEffect(() => {
+        if (!selected) return;
+        let cancelled = false;
+        setUrl(null);
+
+        getAttachmentUrl(selected)
+            .then(signedUrl => {
+                if (!cancelled) setUrl(signedUrl);
+            })
+            .catch(error => {
+                console.error('Error loading attachment:', error);
+                toast.error('Failed to load attachment');
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [selected]);
+
+    const modal = (
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-3xl w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-white truncate">{title}</h2>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <div className="p-6 space-y-4">
+                        {attachments.length > 1 && (
+                            <div className="flex flex-wrap gap-2">
+                                {attachments.map(attachment => (
+                                    <button
+                                        key={attachment.id}
+                                        onClick={() => setSelectedId(attachment.id)}
+                                        className={`inline-flex items-center gap-1.5 max-w-[12rem] px-3 py-1.5 rounded-md text-sm border ${
+                                            attachment.id === selectedId
+                                                ? 'border-blue-500 text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30'
+                                                : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                                        }`}
+                                    >
+                                        {isImageAttachment(attachment)
+                                            ? <Image className="h-4 w-4 shrink-0" />
+                                            : <FileText className="h-4 w-4 shrink-0" />}
+                                        <span className="truncate">{attachment.file_name}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        {selected && (
+                            <>
+                                <div className="flex items-center justify-center h-[60vh] rounded-lg bg-gray-100 dark:bg-gray-900 overflow-hidden">
+                                    {!url ? (
+                                        <div className="w-6 h-6 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+                                    ) : isImageAttachment(selected) ? (
+                                        <img src={url} alt={selected.file_name} className="max-h-full max-w-full object-contain" />
+                                    ) : (
+                                        <iframe src={url} title={selected.file_name} className="w-full h-full bg-white" />
+                                    )}
+                                </div>
+                                <div className="flex items-center justify-between text-sm">
+                                    <span className="truncate text-gray-600 dark:text-gray-400">
+                                        {selected.file_name} · {formatFileSize(selected.size)}
+                                    </span>
+                                    {url && (
+                                        <a
+                                            href={url}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="inline-flex items-center gap-1.5 font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+                                        >
+                                            <ExternalLink className="h-4 w-4" />
+                                            Open
+                                        </a>
+                                    )}
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </>
+    );
+
+    return createPortal(modal, document.body);
+}
@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { createPortal } from 'react-dom';
+import { Budget } from '../types';
+import { getCurrencySymbol } from '../lib/currency';
+import { useCurrency } from '../contexts/CurrencyContext';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: (budget: { amount: number; rollover: boolean }) => Promise<void>;
+    onRemove: () => Promise<void>;
+    categoryName: string;
+    budget?: Budget;
+}
+
+export default function BudgetModal({ isOpen, onClose, onSave, onRemove, categoryName, budget }: Props) {
+    const { baseCurrency } = useCurrency();
+    const [amount, setAmount] = useState('');
+    const [rollover, setRollover] = useState(false);
+
+    useEffect(() => {
+        setAmount(budget ? budget.amount.toString() : '');
+        setRollover(budget?.rollover ?? false);
+    }, [budget, isOpen]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        await onSave({ amount: parseFloat(amount), rollover });
+        onClose();
+    };
+
+    const handleRemove = async () => {
+        await onRemove();
+        onClose();
+    };
+
+    if (!isOpen) return null;
+
+    const modal = (
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <div>
+                            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                                {budget ? 'Edit Budget' : 'Set Budget'}
+                            </h2>
+                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                                Monthly limit for {categoryName}
+                            </p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="p-6">
+                        <div className="space-y-5">
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Amount per month</label>
+                                <div className="relative rounded-lg shadow-sm">
+                                    <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{getCurrencySymbol(baseCurrency)}</span>
+                                    </div>
+                                    <input
+                                        type="number"
+                                        value={amount}
+                                        onChange={(e) => setAmount(e.target.value)}
+                                        className="block w-full rounded-lg border-0 py-2.5 pl-7 pr-12 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6"
+                                        placeholder="0.00"
+                                        required
+                                        min="0.01"
+                                        step="0.01"
+                                    />
+                                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
+                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{baseCurrency}</span>
+                                    </div>
+                                </div>
+                            </div>
+
+                            <div className="flex items-start">
+                                <input
+                                    type="checkbox"
+                                    id="budget_rollover"
+                                    checked={rollover}
+                                    onChange={(e) => setRollover(e.target.checked)}
+                                    className="mt-0.5 h-4 w-4 text-blue-600 dark:text-blue-500 focus:ring-blue-500 dark:focus:ring-blue-400 border-gray-300 dark:border-gray-600 rounded dark:bg-gray-900"
+                                />
+                                <label htmlFor="budget_rollover" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+                                    Roll over unused budget
+                                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                                        Whatever is left at the end of a month is added to the next month's budget
+                                    </span>
+                                </label>
+                            </div>
+                        </div>
+
+                        <div className="mt-6 flex items-center justify-between gap-3">
+                            <div>
+                                {budget && (
+                                    <button
+                                        type="button"
+                                        onClick={handleRemove}
+                                        className="rounded-lg px-4 py-2.5 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 focus:outline-none focus:ring-2 focus:ring-red-300 dark:focus:ring-red-600 transition-colors"
+                                    >
+                                        Remove
+                                    </button>
+                                )}
+                            </div>
+                            <div className="flex gap-3">
+                                <button
+                                    type="button"
+                                    onClick={onClose}
+                                    className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    className="rounded-lg bg-blue-600 dark:bg-blue-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors"
+                                >
+                                    {budget ? 'Save Changes' : 'Set Budget'}
+                                </button>
+                            </div>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </>
+    );
+
+    return createPortal(modal, document.body);
+}
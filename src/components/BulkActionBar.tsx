@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { CalendarDays, Folder, Target, Trash2, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { applyBulkAction, BulkAction, BulkSelection } from '../lib/bulkEdit';
+import { showUndoToast } from '../lib/undoToast';
+import { SavingsGoal } from '../types';
+import BulkActionModal from './BulkActionModal';
+
+interface Props {
+    selection: BulkSelection;
+    goals: SavingsGoal[];
+    onClear: () => void;
+    onChanged: () => void; // Entries were changed, or an undo put them back, so reload them
+}
+
+const buttonClassName = "inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-white dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed";
+
+// What can be done to the selected entries at once. Each action is confirmed once, then offered for undo and redo.
+export default function BulkActionBar({ selection, goals, onClear, onChanged }: Props) {
+    const { user } = useAuth();
+    const [kind, setKind] = useState<BulkAction['kind'] | null>(null);
+    const selectedCount = selection.incomeIds.length + selection.expenseIds.length;
+    const hasExpenses = selection.expenseIds.length > 0;
+
+    const handleConfirm = async (action: BulkAction) => {
+        if (!user) return;
+
+        try {
+            const result = await applyBulkAction(user.id, selection, action);
+            onClear();
+            onChanged();
+
+            const noun = `${result.count} transaction${result.count === 1 ? '' : 's'}`;
+            showUndoToast(action.kind === 'delete' ? `Moved ${noun} to the trash` : `Updated ${noun}`, result, onChanged);
+        } catch (error) {
+            console.error('Error updating transactions:', error);
+            toast.error('Failed to update transactions');
+            // Some of the changes may have gone through
+            onChanged();
+        }
+    };
+
+    if (selectedCount === 0) return null;
+
+    return (
+        <>
+            <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 px-3 py-2">
+                <span className="text-sm font-medium text-blue-700 dark:text-blue-300">{selectedCount} selected</span>
+                <div className="flex flex-wrap items-center gap-1">
+                    <button onClick={() => setKind('category')} disabled={!hasExpenses} className={buttonClassName}>
+                        <Folder className="h-4 w-4" />
+                        Category
+                    </button>
+                    <button onClick={() => setKind('goal')} disabled={!hasExpenses} className={buttonClassName}>
+                        <Target className="h-4 w-4" />
+                        Goal
+                    </button>
+                    <button onClick={() => setKind('date')} className={buttonClassName}>
+                        <CalendarDays className="h-4 w-4" />
+                        Date
+                    </button>
+                    <button onClick={() => setKind('delete')} className={`${buttonClassName} !text-red-600 dark:!text-red-400`}>
+                        <Trash2 className="h-4 w-4" />
+                        Delete
+                    </button>
+                    <button onClick={onClear} className={buttonClassName} aria-label="Clear selection">
+                        <X className="h-4 w-4" />
+                    </button>
+                </div>
+            </div>
+
+            <BulkActionModal
+                kind={kind}
+                incomeCount={selection.incomeIds.length}
+                expenseCount={selection.expenseIds.length}
+                goals={goals}
+                onClose={() => setKind(null)}
+                onConfirm={handleConfirm}
+            />
+        </>
+    );
+}
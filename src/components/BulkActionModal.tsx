@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { AlertTriangle, X } from 'lucide-react';
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+import "../styles/datepicker.css";
+import { startOfDay } from 'date-fns';
+import { useCategories } from '../contexts/CategoriesContext';
+import { getCategoriesInDisplayOrder, getCategoryLabel } from '../lib/categories';
+import { BulkAction } from '../lib/bulkEdit';
+import { TRASH_RETENTION_DAYS } from '../lib/trash';
+import { SavingsGoal } from '../types';
+
+interface Props {
+    kind: BulkAction['kind'] | null; // The action being confirmed, or null when closed
+    incomeCount: number;
+    expenseCount: number;
+    goals: SavingsGoal[];
+    onClose: () => void;
+    onConfirm: (action: BulkAction) => Promise<void>;
+}
+
+const TITLES: Record<BulkAction['kind'], string> = {
+    category: 'Change category',
+    goal: 'Link to a savings goal',
+    date: 'Change date',
+    delete: 'Delete transactions'
+};
+
+const inputClassName = "block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6";
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// The one confirmation for a bulk action, with whatever it needs to know: the new category, goal or date
+export default function BulkActionModal({ kind, incomeCount, expenseCount, goals, onClose, onConfirm }: Props) {
+    const { categories } = useCategories();
+    const [categoryId, setCategoryId] = useState('');
+    const [goalId, setGoalId] = useState('');
+    const [date, setDate] = useState(startOfDay(new Date()));
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (!kind) return;
+        setCategoryId('');
+        setGoalId('');
+        setDate(startOfDay(new Date()));
+        setSaving(false);
+    }, [kind]);
+
+    if (!kind) return null;
+
+    // Category and goal don't apply to income, so only the expenses are counted for them
+    const expensesOnly = kind === 'category' || kind === 'goal';
+    const count = expensesOnly ? expenseCount : incomeCount + expenseCount;
+    const skipped = expensesOnly ? incomeCount : 0;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        try {
+            if (kind === 'category') await onConfirm({ kind, categoryId: categoryId || null });
+            else if (kind === 'goal') await onConfirm({ kind, goalId: goalId || null });
+            else if (kind === 'date') await onConfirm({ kind, date });
+            else await onConfirm({ kind });
+            onClose();
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const modal = (
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <div>
+                            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{TITLES[kind]}</h2>
+                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                                {plural(count, 'transaction')} selected
+                                {skipped > 0 && ' · income is left as it is'}
+                            </p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="p-6">
+                        <div className="space-y-5">
+                            {kind === 'category' && (
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Category</label>
+                                    <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={inputClassName} required>
+                                        <option value="" disabled>Choose a category</option>
+                                        {getCategoriesInDisplayOrder(categories).map(category => (
+                                            <option key={category.id} value={category.id}>{getCategoryLabel(categories, category.id)}</option>
+                                        ))}
+                                    </select>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                                        Split expenses are put under this one category instead of their lines
+                                    </p>
+                                </div>
+                            )}
+
+                            {kind === 'goal' && (
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Savings goal</label>
+                                    <select value={goalId} onChange={(e) => setGoalId(e.target.value)} className={inputClassName}>
+                                        <option value="">No goal (unlink)</option>
+                                        {goals.map(goal => (
+                                            <option key={goal.id} value={goal.id}>{goal.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
+                            {kind === 'date' && (
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Date</label>
+                                    <DatePicker
+                                        selected={date}
+                                        onChange={(value: Date | null) => value && setDate(startOfDay(value))}
+                                        dateFormat="MMM d, yyyy"
+                                        className={inputClassName}
+                                        wrapperClassName="!block"
+                                        popperClassName="!z-50"
+                                    />
+                                </div>
+                            )}
+
+                            {kind === 'delete' && (
+                                <div className="flex gap-3 rounded-lg bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300">
+                                    <AlertTriangle className="h-5 w-5 shrink-0" />
+                                    <p>
+                                        {plural(count, 'transaction')} will be moved to the trash. They can be restored from there
+                                        for {TRASH_RETENTION_DAYS} days.
+                                    </p>
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={saving || count === 0}
+                                className={`rounded-lg px-4 py-2.5 text-sm font-medium text-white focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                                    kind === 'delete'
+                                        ? 'bg-red-600 hover:bg-red-700 focus:ring-red-600'
+                                        : 'bg-blue-600 dark:bg-blue-500 hover:bg-blue-700 dark:hover:bg-blue-600 focus:ring-blue-600 dark:focus:ring-blue-500'
+                                }`}
+                            >
+                                {kind === 'delete' ? 'Move to trash' : `Update ${plural(count, 'transaction')}`}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </>
+    );
+
+    return createPortal(modal, document.body);
+}
@@ -0,0 +1,253 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Plus, Edit2, Trash2, X, Info, Loader2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { useCategories } from '../contexts/CategoriesContext';
+import { db } from '../lib/supabase';
+import { getCategoryColor, getCategoryIcon, getSubcategories, getTopLevelCategories, removeCategory } from '../lib/categories';
+import { Category } from '../types';
+import CategoryModal, { CategoryFormValues } from './CategoryModal';
+
+interface DeleteCategoryModalProps {
+    category: Category;
+    onClose: () => void;
+    onConfirm: () => Promise<void>;
+}
+
+function DeleteCategoryModal({ category, onClose, onConfirm }: DeleteCategoryModalProps) {
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    const handleConfirm = async () => {
+        setIsDeleting(true);
+        try {
+            await onConfirm();
+            onClose();
+        } catch (error) {
+            console.error('Error deleting category:', error);
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    return createPortal(
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Delete {category.name}</h2>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <div className="p-6 space-y-4">
+                        <div className="bg-blue-50 dark:bg-blue-900/50 border border-blue-200 dark:border-blue-800 rounded-lg p-3">
+                            <div className="flex items-center gap-1.5">
+                                <Info className="h-4 w-4 text-blue-600 dark:text-blue-400 flex-shrink-0" />
+                                <p className="text-sm text-blue-700 dark:text-blue-300">
+                                    {category.parent_id
+                                        ? 'Expenses in this subcategory will move to its parent category.'
+                                        : 'Its subcategories will be deleted too, and their expenses will become uncategorised.'}
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                                disabled={isDeleting}
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleConfirm}
+                                disabled={isDeleting}
+                                className="rounded-lg bg-red-600 dark:bg-red-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-red-700 dark:hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-600 dark:focus:ring-red-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {isDeleting ? (
+                                    <>
+                                        <Loader2 className="h-4 w-4 mr-2 inline animate-spin" />
+                                        Deleting...
+                                    </>
+                                ) : (
+                                    'Delete Category'
+                                )}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </>,
+        document.body
+    );
+}
+
+export default function Categories() {
+    const { user } = useAuth();
+    const { categories, loading, refreshCategories } = useCategories();
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editingCategory, setEditingCategory] = useState<Category | undefined>();
+    const [newParentId, setNewParentId] = useState<string | null>(null);
+    const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(null);
+
+    const topLevelCategories = getTopLevelCategories(categories);
+
+    const openModal = (category?: Category, parentId: string | null = null) => {
+        setEditingCategory(category);
+        setNewParentId(parentId);
+        setIsModalOpen(true);
+    };
+
+    const handleSave = async (values: CategoryFormValues) => {
+        if (!user) return;
+        try {
+            if (editingCategory) {
+                await db.categories.update(editingCategory.id, values);
+                toast.success('Category updated successfully');
+            } else {
+                // New categories go to the end of their list
+                const siblings = categories.filter(c => c.parent_id === values.parent_id);
+                const sort_order = siblings.reduce((max, c) => Math.max(max, c.sort_order + 1), 0);
+                await db.categories.create({ ...values, user_id: user.id, sort_order });
+                toast.success('Category added successfully');
+            }
+            await refreshCategories();
+        } catch (error) {
+            console.error('Error saving category:', error);
+            // 23505: unique_violation on (user_id, parent_id, name)
+            const isDuplicate = (error as { code?: string })?.code === '23505';
+            toast.error(isDuplicate ? 'A category with this name already exists here' : 'Failed to save category');
+            throw error;
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!categoryToDelete) return;
+        try {
+            await removeCategory(categoryToDelete);
+            toast.success('Category deleted successfully');
+            await refreshCategories();
+        } catch (error) {
+            toast.error('Failed to delete category');
+            throw error;
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex flex-col">
+            <div className="flex-1 space-y-6 max-w-7xl mx-auto px-4 sm:px-6 py-4 w-full">
+                {/* Header Section */}
+                <div className="flex flex-col items-center text-center gap-2">
+                    <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-200">Categories</h1>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 px-4">
+                        Organise your expenses with your own categories and subcategories. Subcategory spending adds up into its parent on the Dashboard and in Analytics.
+                    </p>
+                </div>
+
+                <div className="max-w-2xl mx-auto w-full space-y-4">
+                    <div className="flex justify-end">
+                        <button
+                            className="w-full sm:w-auto inline-flex items-center justify-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:focus:ring-offset-gray-900"
+                            onClick={() => openModal()}
+                        >
+                            <Plus className="h-3.5 w-3.5 mr-1.5" />
+                            Add Category
+                        </button>
+                    </div>
+
+                    {loading ? (
+                        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4">
+                            <p className="text-gray-500 dark:text-gray-400 text-center">Loading...</p>
+                        </div>
+                    ) : topLevelCategories.map((category) => {
+                        const Icon = getCategoryIcon(category);
+                        const subcategories = getSubcategories(categories, category.id);
+                        return (
+                            <div key={category.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+                                <div className="flex items-center justify-between px-3 sm:px-4 py-3">
+                                    <div className={`flex items-center gap-2 ${getCategoryColor(category).text}`}>
+                                        <Icon className="h-4 w-4" />
+                                        <h3 className="text-sm font-bold uppercase tracking-wide">{category.name}</h3>
+                                    </div>
+                                    <div className="flex items-center space-x-2">
+                                        <button
+                                            onClick={() => openModal(undefined, category.id)}
+                                            title="Add subcategory"
+                                            className="p-1 text-gray-400 hover:text-blue-500 dark:text-gray-500 dark:hover:text-blue-400"
+                                        >
+                                            <Plus className="h-4 w-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => openModal(category)}
+                                            className="p-1 text-gray-400 hover:text-blue-500 dark:text-gray-500 dark:hover:text-blue-400"
+                                        >
+                                            <Edit2 className="h-4 w-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => setCategoryToDelete(category)}
+                                            className="p-1 text-gray-400 hover:text-red-500 dark:text-gray-500 dark:hover:text-red-400"
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                                {subcategories.map((subcategory) => {
+                                    const SubcategoryIcon = getCategoryIcon(subcategory);
+                                    return (
+                                        <div key={subcategory.id} className="flex items-center justify-between pl-9 pr-3 sm:pr-4 py-2.5 hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                                            <div className="flex items-center gap-2">
+                                                <SubcategoryIcon className={`h-3.5 w-3.5 ${getCategoryColor(subcategory).text}`} />
+                                                <span className="text-sm text-gray-900 dark:text-gray-200">{subcategory.name}</span>
+                                            </div>
+                                            <div className="flex items-center space-x-2">
+                                                <button
+                                                    onClick={() => openModal(subcategory)}
+                                                    className="p-1 text-gray-400 hover:text-blue-500 dark:text-gray-500 dark:hover:text-blue-400"
+                                                >
+                                                    <Edit2 className="h-4 w-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => setCategoryToDelete(subcategory)}
+                                                    className="p-1 text-gray-400 hover:text-red-500 dark:text-gray-500 dark:hover:text-red-400"
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </button>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <CategoryModal
+                    isOpen={isModalOpen}
+                    onClose={() => {
+                        setIsModalOpen(false);
+                        setEditingCategory(undefined);
+                    }}
+                    onSave={handleSave}
+                    category={editingCategory}
+                    parentId={newParentId}
+                />
+
+                {categoryToDelete && (
+                    <DeleteCategoryModal
+                        category={categoryToDelete}
+                        onClose={() => setCategoryToDelete(null)}
+                        onConfirm={handleDelete}
+                    />
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,208 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { createPortal } from 'react-dom';
+import { Category, RuleBucket } from '../types';
+import { useCategories } from '../contexts/CategoriesContext';
+import { CATEGORY_COLORS, CATEGORY_ICONS, getSubcategories, getTopLevelCategories } from '../lib/categories';
+import { RULE_BUCKETS } from '../lib/budgetRule';
+
+export interface CategoryFormValues {
+    name: string;
+    color: string;
+    icon: string;
+    parent_id: string | null;
+    rule_bucket: RuleBucket;
+}
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: (values: CategoryFormValues) => Promise<void>;
+    category?: Category;
+    parentId?: string | null; // Pre-selected parent when adding a subcategory
+}
+
+export default function CategoryModal({ isOpen, onClose, onSave, category, parentId = null }: Props) {
+    const { categories } = useCategories();
+    const [formData, setFormData] = useState<CategoryFormValues>({ name: '', color: 'blue', icon: 'Tag', parent_id: null, rule_bucket: 'wants' });
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (category) {
+            setFormData({
+                name: category.name,
+                color: category.color,
+                icon: category.icon,
+                parent_id: category.parent_id,
+                rule_bucket: category.rule_bucket
+            });
+        } else {
+            const parent = categories.find(c => c.id === parentId);
+            setFormData({
+                name: '',
+                color: parent?.color ?? 'blue',
+                icon: parent?.icon ?? 'Tag',
+                parent_id: parentId,
+                rule_bucket: parent?.rule_bucket ?? 'wants'
+            });
+        }
+    }, [category, parentId, categories, isOpen]);
+
+    // Subcategories only go one level deep, so a category with its own subcategories stays top-level
+    const hasSubcategories = !!category && getSubcategories(categories, category.id).length > 0;
+    const parentOptions = getTopLevelCategories(categories).filter(c => c.id !== category?.id);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            await onSave({ ...formData, name: formData.name.trim() });
+            onClose();
+        } catch {
+            // The page reports the error; keep the form open so it can be corrected
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const modal = (
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                            {category ? 'Edit Category' : formData.parent_id ? 'Add Subcategory' : 'Add Category'}
+                        </h2>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="p-6">
+                        <div className="space-y-5">
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Name</label>
+                                <input
+                                    type="text"
+                                    value={formData.name}
+                                    onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                                    className="block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6"
+                                    placeholder="e.g. Groceries, Fuel"
+                                    required
+                                />
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Parent</label>
+                                <select
+                                    value={formData.parent_id ?? ''}
+                                    onChange={(e) => setFormData(prev => ({ ...prev, parent_id: e.target.value || null }))}
+                                    disabled={hasSubcategories}
+                                    className="block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm disabled:opacity-50"
+                                >
+                                    <option value="">None (top-level category)</option>
+                                    {parentOptions.map(parent => (
+                                        <option key={parent.id} value={parent.id}>{parent.name}</option>
+                                    ))}
+                                </select>
+                                {hasSubcategories && (
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                                        Categories with subcategories can't be moved under another category
+                                    </p>
+                                )}
+                            </div>
+
+                            {!formData.parent_id && (
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">50/30/20 bucket</label>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        {RULE_BUCKETS.map(({ key, label }) => (
+                                            <button
+                                                key={key}
+                                                type="button"
+                                                onClick={() => setFormData(prev => ({ ...prev, rule_bucket: key }))}
+                                                className={`py-2 px-3 rounded-lg text-xs font-medium transition-colors ring-1 ring-inset ${
+                                                    formData.rule_bucket === key
+                                                        ? 'bg-blue-50 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400 ring-blue-600/20 dark:ring-blue-400/20'
+                                                        : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 ring-gray-300 dark:ring-gray-600'
+                                                }`}
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                                        Subcategories count towards their parent's bucket in Analytics
+                                    </p>
+                                </div>
+                            )}
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Colour</label>
+                                <div className="flex flex-wrap gap-2">
+                                    {Object.entries(CATEGORY_COLORS).map(([name, { dot }]) => (
+                                        <button
+                                            key={name}
+                                            type="button"
+                                            title={name}
+                                            onClick={() => setFormData(prev => ({ ...prev, color: name }))}
+                                            className={`h-7 w-7 rounded-full ${dot} ring-offset-2 dark:ring-offset-gray-800 transition-shadow ${
+                                                formData.color === name ? 'ring-2 ring-gray-900 dark:ring-white' : ''
+                                            }`}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Icon</label>
+                                <div className="grid grid-cols-8 gap-2">
+                                    {Object.entries(CATEGORY_ICONS).map(([name, Icon]) => (
+                                        <button
+                                            key={name}
+                                            type="button"
+                                            title={name}
+                                            onClick={() => setFormData(prev => ({ ...prev, icon: name }))}
+                                            className={`flex items-center justify-center h-9 rounded-lg ring-1 ring-inset transition-colors ${
+                                                formData.icon === name
+                                                    ? `bg-blue-50 dark:bg-blue-900/50 ring-blue-600/20 dark:ring-blue-400/20 ${CATEGORY_COLORS[formData.color]?.text ?? ''}`
+                                                    : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 ring-gray-300 dark:ring-gray-600'
+                                            }`}
+                                        >
+                                            <Icon className="h-4 w-4" />
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSaving}
+                                className="rounded-lg bg-blue-600 dark:bg-blue-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {category ? 'Save Changes' : 'Add Category'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </>
+    );
+
+    return createPortal(modal, document.body);
+}
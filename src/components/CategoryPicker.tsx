@@ -0,0 +1,58 @@
+import { useCategories } from '../contexts/CategoriesContext';
+import { getCategoryIcon, getSubcategories, getTopLevelCategories, getTopLevelCategory } from '../lib/categories';
+
+interface Props {
+    value: string | null | undefined;
+    onChange: (categoryId: string) => void;
+}
+
+// Top-level categories as buttons, with the selected one's subcategories underneath
+export default function CategoryPicker({ value, onChange }: Props) {
+    const { categories } = useCategories();
+    const selectedTopLevel = getTopLevelCategory(categories, value);
+    const subcategories = selectedTopLevel ? getSubcategories(categories, selectedTopLevel.id) : [];
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+                {getTopLevelCategories(categories).map((category) => {
+                    const Icon = getCategoryIcon(category);
+                    return (
+                        <button
+                            key={category.id}
+                            type="button"
+                            onClick={() => onChange(category.id)}
+                            className={`flex items-center justify-center gap-2 py-2.5 px-4 rounded-lg text-sm font-medium transition-colors shadow-sm hover:shadow ring-1 ring-inset ${
+                                selectedTopLevel?.id === category.id
+                                    ? 'bg-blue-50 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400 ring-blue-600/20 dark:ring-blue-400/20 shadow-blue-100 dark:shadow-blue-900/50'
+                                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 ring-gray-300 dark:ring-gray-600'
+                            }`}
+                        >
+                            <Icon className="h-4 w-4" />
+                            {category.name}
+                        </button>
+                    );
+                })}
+            </div>
+
+            {selectedTopLevel && subcategories.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {[selectedTopLevel, ...subcategories].map((category) => (
+                        <button
+                            key={category.id}
+                            type="button"
+                            onClick={() => onChange(category.id)}
+                            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ring-1 ring-inset ${
+                                value === category.id
+                                    ? 'bg-blue-600 dark:bg-blue-500 text-white ring-blue-600 dark:ring-blue-500'
+                                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 ring-gray-300 dark:ring-gray-600'
+                            }`}
+                        >
+                            {category.id === selectedTopLevel.id ? 'No subcategory' : category.name}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -3,6 +3,8 @@ import { X, Loader2, Info } from 'lucide-react';
 import { createPortal } from 'react-dom';
 import { SavingsGoal } from '../types';
 import { db, supabase } from '../lib/supabase';
+import { getCurrencySymbol } from '../lib/currency';
+import { useCurrency } from '../contexts/CurrencyContext';
 import { toast } from 'react-hot-toast';
 import { format, addMonths } from 'date-fns';
 
@@ -13,6 +15,7 @@ interface Props {
 }
 
 export default function ContributionModal({ isOpen, onClose, goal }: Props) {
+    const { formatMoney } = useCurrency();
     const [amount, setAmount] = useState('');
     const [isLoading, setIsLoading] = useState(false);
 
@@ -53,12 +56,6 @@ export default function ContributionModal({ isOpen, onClose, goal }: Props) {
         return timeString;
     };
 
-    const formatIndianNumber = (num: number): string => {
-        const parts = num.toFixed(2).split('.');
-        parts[0] = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ',');
-        return `₹${parts.join('.')}`;
-    };
-
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsLoading(true);
@@ -74,7 +71,8 @@ export default function ContributionModal({ isOpen, onClose, goal }: Props) {
                 user_id: goal.user_id,
                 name: `Contribution to ${goal.name}`,
                 amount: parsedAmount,
-                category: goal.category,
+                currency: goal.currency,
+                category_id: goal.category_id,
                 date: formattedDate,
                 goal_id: goal.id,
                 is_recurring: false
@@ -127,13 +125,13 @@ export default function ContributionModal({ isOpen, onClose, goal }: Props) {
                                 <div className="space-y-4">
                                     <div className="relative rounded-lg shadow-sm">
                                         <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                                            <span className="text-gray-500 dark:text-gray-400 sm:text-sm">₹</span>
+                                            <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{getCurrencySymbol(goal.currency)}</span>
                                         </div>
                                         <input
                                             type="number"
                                             value={amount}
                                             onChange={(e) => setAmount(e.target.value)}
-                                            className="block w-full rounded-lg border-0 py-2.5 pl-7 pr-12 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6"
+                                            className={`block w-full rounded-lg border-0 py-2.5 ${getCurrencySymbol(goal.currency).length > 1 ? 'pl-12' : 'pl-7'} pr-12 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6`}
                                             placeholder="0.00"
                                             required
                                             min="0"
@@ -141,7 +139,7 @@ export default function ContributionModal({ isOpen, onClose, goal }: Props) {
                                             step="0.01"
                                         />
                                         <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
-                                            <span className="text-gray-500 dark:text-gray-400 sm:text-sm">INR</span>
+                                            <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{goal.currency}</span>
                                         </div>
                                     </div>
                                     <div className="space-y-2">
@@ -155,8 +153,8 @@ export default function ContributionModal({ isOpen, onClose, goal }: Props) {
                                             className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-600 dark:accent-blue-500"
                                         />
                                         <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
-                                            <span>₹0</span>
-                                            <span>₹{formatIndianNumber(goal.target_amount - goal.current_amount).replace('₹', '')}</span>
+                                            <span>{getCurrencySymbol(goal.currency)}0</span>
+                                            <span>{formatMoney(goal.target_amount - goal.current_amount, { currency: goal.currency })}</span>
                                         </div>
                                     </div>
                                 </div>
@@ -172,10 +170,10 @@ export default function ContributionModal({ isOpen, onClose, goal }: Props) {
                                             </p>
                                         </div>
                                         <p className="text-sm text-gray-600 dark:text-gray-400">
-                                            This contribution will bring your total to {formatIndianNumber(goal.current_amount + parseFloat(amount))}
+                                            This contribution will bring your total to {formatMoney(goal.current_amount + parseFloat(amount), { currency: goal.currency })}
                                             {goal.monthly_contribution > 0 && (
                                                 <>
-                                                    . With your monthly contribution of {formatIndianNumber(goal.monthly_contribution)}, you'll reach your goal by{' '}
+                                                    . With your monthly contribution of {formatMoney(goal.monthly_contribution, { currency: goal.currency })}, you'll reach your goal by{' '}
                                                     <span className="font-medium text-blue-600 dark:text-blue-400">
                                                         {format(calculateEstimatedDate(
                                                             goal.target_amount,
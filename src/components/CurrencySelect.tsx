@@ -0,0 +1,29 @@
+import { useCurrency } from '../contexts/CurrencyContext';
+
+interface Props {
+    value: string;
+    onChange: (currency: string) => void;
+}
+
+// Currency picker that sits inside the right-hand end of an amount input. Only the base currency and
+// currencies with an exchange rate are offered, so every amount can be converted for totals.
+export default function CurrencySelect({ value, onChange }: Props) {
+    const { baseCurrency, rates } = useCurrency();
+    const options = [...new Set([baseCurrency, ...Object.keys(rates), value])];
+
+    return (
+        <div className="absolute inset-y-0 right-0 flex items-center">
+            <label htmlFor="currency" className="sr-only">Currency</label>
+            <select
+                id="currency"
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                className="h-full rounded-r-lg border-0 bg-transparent py-0 pl-2 pr-8 text-gray-500 dark:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm"
+            >
+                {options.map(code => (
+                    <option key={code} value={code}>{code}</option>
+                ))}
+            </select>
+        </div>
+    );
+}
@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, Trash2, Plus } from 'lucide-react';
+import { createPortal } from 'react-dom';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { db } from '../lib/supabase';
+import { CURRENCIES, changeBaseCurrency, getCurrencySymbol } from '../lib/currency';
+import { NUMBER_LOCALES } from '../lib/money';
+import { UserSettings } from '../types';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+export default function CurrencySettingsModal({ isOpen, onClose }: Props) {
+    const { user } = useAuth();
+    const { baseCurrency, rates, numberLocale, accountingNegatives, refreshCurrency, formatMoney } = useCurrency();
+    const [draftRates, setDraftRates] = useState<Record<string, string>>({});
+    const [newCurrency, setNewCurrency] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [isChangingBase, setIsChangingBase] = useState(false);
+    const [isSavingFormat, setIsSavingFormat] = useState(false);
+
+    useEffect(() => {
+        setDraftRates(Object.fromEntries(Object.entries(rates).map(([currency, rate]) => [currency, rate.toString()])));
+    }, [rates, isOpen]);
+
+    const availableCurrencies = CURRENCIES.filter(({ code }) => code !== baseCurrency && !(code in draftRates));
+
+    const handleChangeBase = async (newBase: string) => {
+        if (!user) return;
+        setIsChangingBase(true);
+        try {
+            await changeBaseCurrency({ baseCurrency, rates }, newBase);
+            await refreshCurrency();
+            toast.success(`Totals are now shown in ${newBase}`);
+        } catch (error) {
+            console.error('Error changing base currency:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to change base currency');
+        } finally {
+            setIsChangingBase(false);
+        }
+    };
+
+    // Number format settings apply straight away, like the base currency
+    const handleFormatChange = async (changes: Partial<Pick<UserSettings, 'number_locale' | 'accounting_negatives'>>) => {
+        if (!user) return;
+        setIsSavingFormat(true);
+        try {
+            await db.userSettings.set(user.id, changes);
+            await refreshCurrency();
+        } catch (error) {
+            console.error('Error saving number format:', error);
+            toast.error('Failed to save number format');
+        } finally {
+            setIsSavingFormat(false);
+        }
+    };
+
+    const handleAddRate = () => {
+        if (!newCurrency) return;
+        setDraftRates(prev => ({ ...prev, [newCurrency]: '' }));
+        setNewCurrency('');
+    };
+
+    const handleRemoveRate = (currency: string) => {
+        setDraftRates(prev => {
+            const next = { ...prev };
+            delete next[currency];
+            return next;
+        });
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+        setIsSaving(true);
+        try {
+            const removed = Object.keys(rates).filter(currency => !(currency in draftRates));
+            await Promise.all(removed.map(currency => db.exchangeRates.remove(user.id, currency)));
+            await db.exchangeRates.setMany(Object.entries(draftRates).map(([currency, rate]) => ({
+                user_id: user.id,
+                currency,
+                rate: parseFloat(rate)
+            })));
+            await refreshCurrency();
+            toast.success('Exchange rates saved');
+            onClose();
+        } catch (error) {
+            console.error('Error saving exchange rates:', error);
+            toast.error('Failed to save exchange rates');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const inputClassName = "block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6 disabled:opacity-50";
+
+    const modal = (
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <div>
+                            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                                Currencies
+                            </h2>
+                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                                Totals and charts are converted to your base currency
+                            </p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="p-6">
+                        <div className="space-y-5">
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Base currency</label>
+                                <select
+                                    value={baseCurrency}
+                                    onChange={(e) => handleChangeBase(e.target.value)}
+                                    disabled={isChangingBase}
+                                    className={inputClassName}
+                                >
+                                    {CURRENCIES.map(({ code, name }) => (
+                                        <option key={code} value={code}>{code} – {name}</option>
+                                    ))}
+                                </select>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    Switching needs a saved rate for the new currency; every rate is then restated against it
+                                </p>
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Number format</label>
+                                <select
+                                    value={numberLocale}
+                                    onChange={(e) => handleFormatChange({ number_locale: e.target.value })}
+                                    disabled={isSavingFormat}
+                                    className={inputClassName}
+                                >
+                                    {NUMBER_LOCALES.map(({ value, label, example }) => (
+                                        <option key={value} value={value}>{label} ({example})</option>
+                                    ))}
+                                </select>
+                                <label className="flex items-center gap-2 pt-1 text-sm text-gray-700 dark:text-gray-300">
+                                    <input
+                                        type="checkbox"
+                                        checked={accountingNegatives}
+                                        onChange={(e) => handleFormatChange({ accounting_negatives: e.target.checked })}
+                                        disabled={isSavingFormat}
+                                        className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-600 dark:bg-gray-900"
+                                    />
+                                    Show negative amounts in brackets
+                                </label>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    For example {formatMoney(-1234567.89)}
+                                </p>
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Exchange rates</label>
+                                {Object.keys(draftRates).length === 0 && (
+                                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                                        No rates yet. Add one for each currency you record amounts in.
+                                    </p>
+                                )}
+                                {Object.entries(draftRates).map(([currency, rate]) => (
+                                    <div key={currency} className="flex items-center gap-2">
+                                        <span className="w-16 shrink-0 text-sm text-gray-700 dark:text-gray-300">1 {currency} =</span>
+                                        <div className="relative flex-1">
+                                            <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                                                <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{getCurrencySymbol(baseCurrency)}</span>
+                                            </div>
+                                            <input
+                                                type="number"
+                                                value={rate}
+                                                onChange={(e) => setDraftRates(prev => ({ ...prev, [currency]: e.target.value }))}
+                                                className={`${inputClassName} pl-12`}
+                                                placeholder="0.00"
+                                                required
+                                                min="0.00000001"
+                                                step="any"
+                                            />
+                                        </div>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleRemoveRate(currency)}
+                                            className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                                            title={`Remove ${currency}`}
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                                {availableCurrencies.length > 0 && (
+                                    <div className="flex items-center gap-2 pt-1">
+                                        <select
+                                            value={newCurrency}
+                                            onChange={(e) => setNewCurrency(e.target.value)}
+                                            className={inputClassName}
+                                        >
+                                            <option value="">Add a currency…</option>
+                                            {availableCurrencies.map(({ code, name }) => (
+                                                <option key={code} value={code}>{code} – {name}</option>
+                                            ))}
+                                        </select>
+                                        <button
+                                            type="button"
+                                            onClick={handleAddRate}
+                                            disabled={!newCurrency}
+                                            className="p-2.5 rounded-lg text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                            title="Add rate"
+                                        >
+                                            <Plus className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSaving || isChangingBase}
+                                className="inline-flex items-center gap-2 rounded-lg bg-blue-600 dark:bg-blue-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+                                {isSaving ? 'Saving...' : 'Save Rates'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </>
+    );
+
+    return createPortal(modal, document.body);
+}
@@ -1,28 +1,46 @@
 import { useState, useEffect } from 'react';
 import { format, startOfMonth, endOfMonth } from 'date-fns';
-import { Category, Income, Expense, MonthData } from '../types';
-import { Trash2, IndianRupee, X, Calendar, ChevronLeft, ChevronRight, ArrowDownCircle, ChevronDown, Plus, Edit2 } from 'lucide-react';
+import { Attachment, Budget, Income, Expense, MonthData, SavingsGoal } from '../types';
+import { Trash2, IndianRupee, X, Calendar, ChevronLeft, ChevronRight, ArrowDownCircle, ChevronDown, Plus, Edit2, Upload, Gauge, Tag as TagIcon, Paperclip } from 'lucide-react';
 import DatePicker from "react-datepicker";
 import "react-datepicker/dist/react-datepicker.css";
 import "../styles/datepicker.css";
 import { db } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { processMonthlyRecurringTransactions, createRecurringTransaction } from '../lib/recurring';
+import { useCategories } from '../contexts/CategoriesContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useAccounts } from '../contexts/AccountsContext';
+import { useTags } from '../contexts/TagsContext';
+import { getCategoryColor, getCategoryIcon, getTopLevelCategories, getTopLevelCategory, splitByCategory } from '../lib/categories';
+import { fetchRollovers, getBudgetProgress, sumSpendingByCategory } from '../lib/budgets';
+import { createRecurringTransaction, getOccurrenceKey, getPendingRecurringOccurrences, postRecurringOccurrences, PendingOccurrence } from '../lib/recurring';
+import { toDateString } from '../lib/schedule';
+import { convertToBase, getCurrenciesWithoutRate, toBaseAmounts } from '../lib/currency';
+import { getAccountType } from '../lib/accounts';
+import { CardStatement, fetchCardStatements } from '../lib/creditCards';
+import { ImportedTransaction, importTransactions } from '../lib/statementImport';
+import { findTag, resolveTagIds } from '../lib/tags';
+import { removeAttachments, uploadAttachments } from '../lib/attachments';
+import { moveToTrash, purgeExpiredTrash } from '../lib/trash';
+import { showUndoToast } from '../lib/undoToast';
 import { toast } from 'react-hot-toast';
 import IncomeModal from './IncomeModal';
 import ExpenseModal from './ExpenseModal';
+import RecurringCatchUpModal from './RecurringCatchUpModal';
+import StatementImportModal from './StatementImportModal';
+import BudgetModal from './BudgetModal';
+import AttachmentPreviewModal from './AttachmentPreviewModal';
+import BulkActionBar from './BulkActionBar';
 
-const CATEGORIES: Category[] = ['investment', 'debt', 'needs', 'leisure'];
-
-// Add utility function for Indian number formatting
-const formatIndianNumber = (num: number): string => {
-    const parts = num.toFixed(2).split('.');
-    parts[0] = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ',');
-    return `₹${parts.join('.')}`;
-};
+// Key for expenses with no category (or whose category was deleted)
+const UNCATEGORISED = 'uncategorised';
 
 export default function Dashboard() {
     const { user } = useAuth();
+    const { categories } = useCategories();
+    const { baseCurrency, rates, formatMoney } = useCurrency();
+    const { accounts } = useAccounts();
+    const { tags, refreshTags } = useTags();
     const [selectedMonth, setSelectedMonth] = useState(startOfMonth(new Date()));
     const [incomeSources, setIncomeSources] = useState<Income[]>([]);
     const [expenses, setExpenses] = useState<Expense[]>([]);
@@ -34,6 +52,18 @@ export default function Dashboard() {
     const [isExpenseModalOpen, setIsExpenseModalOpen] = useState(false);
     const [editingIncome, setEditingIncome] = useState<Income | undefined>();
     const [editingExpense, setEditingExpense] = useState<Expense | undefined>();
+    const [pendingOccurrences, setPendingOccurrences] = useState<PendingOccurrence[]>([]);
+    const [isCatchUpModalOpen, setIsCatchUpModalOpen] = useState(false);
+    const [isStatementModalOpen, setIsStatementModalOpen] = useState(false);
+    const [budgets, setBudgets] = useState<Budget[]>([]);
+    const [rollovers, setRollovers] = useState<Record<string, number>>({});
+    const [budgetCategoryId, setBudgetCategoryId] = useState<string | null>(null);
+    const [accountBalances, setAccountBalances] = useState<Record<string, number>>({});
+    const [cardStatements, setCardStatements] = useState<Record<string, CardStatement>>({});
+    const [tagFilter, setTagFilter] = useState<string | null>(null);
+    const [previewEntry, setPreviewEntry] = useState<Income | Expense | null>(null);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [goals, setGoals] = useState<SavingsGoal[]>([]);
 
     // Fetch data when month changes
     useEffect(() => {
@@ -41,6 +71,7 @@ export default function Dashboard() {
 
         const fetchData = async () => {
             setIsLoading(true);
+            setSelectedIds(new Set());
             try {
                 const startDate = startOfMonth(selectedMonth);
                 const endDate = endOfMonth(selectedMonth);
@@ -69,54 +100,179 @@ export default function Dashboard() {
         fetchData();
     }, [selectedMonth, user]);
 
-    const handleDeleteIncome = async (id: string) => {
+    // Goals that bulk edits can link expenses to
+    useEffect(() => {
+        if (!user) return;
+
+        db.savingsGoals.getAll(user.id)
+            .then(setGoals)
+            .catch(error => console.error('Error fetching savings goals:', error));
+    }, [user]);
+
+    // Budgets are in the base currency, so they're restated and refetched when it changes
+    useEffect(() => {
+        if (!user) return;
+
+        db.budgets.getAll(user.id)
+            .then(setBudgets)
+            .catch(error => console.error('Error fetching budgets:', error));
+    }, [user, baseCurrency]);
+
+    // Unused budget carried into the selected month
+    useEffect(() => {
+        if (!user) return;
+
+        fetchRollovers(user.id, budgets, categories, { baseCurrency, rates }, selectedMonth)
+            .then(setRollovers)
+            .catch(error => console.error('Error calculating budget rollover:', error));
+    }, [user, budgets, categories, baseCurrency, rates, selectedMonth]);
+
+    // Running balance of each account at the end of the selected month, refetched as entries or rates change
+    useEffect(() => {
+        if (!user || accounts.length === 0) return;
+
+        db.accounts.getBalances(endOfMonth(selectedMonth))
+            .then(setAccountBalances)
+            .catch(error => console.error('Error fetching account balances:', error));
+    }, [user, accounts, selectedMonth, incomeSources, expenses, baseCurrency, rates]);
+
+    // What is owed on each credit card today; statements don't depend on the selected month
+    useEffect(() => {
+        if (!user) return;
+
+        fetchCardStatements(user.id, accounts, { baseCurrency, rates })
+            .then(setCardStatements)
+            .catch(error => console.error('Error calculating card statements:', error));
+    }, [user, accounts, incomeSources, expenses, baseCurrency, rates]);
+
+    // Look for recurring occurrences missed since the app was last opened
+    useEffect(() => {
+        if (!user) return;
+
+        getPendingRecurringOccurrences()
+            .then(setPendingOccurrences)
+            .catch(error => console.error('Error checking recurring transactions:', error));
+    }, [user]);
+
+    // Purge what has been in the trash for longer than it's kept
+    useEffect(() => {
+        if (!user) return;
+
+        purgeExpiredTrash(user.id)
+            .catch(error => console.error('Error purging trash:', error));
+    }, [user]);
+
+    // Reload the month's entries after a delete, a bulk edit or an undo
+    const refreshEntries = async () => {
         if (!user) return;
         try {
-            await db.income.remove(id);
-            
-            // Refresh the data
             const startDate = startOfMonth(selectedMonth);
             const endDate = endOfMonth(selectedMonth);
-            const updatedIncomes = await db.income.getAll(user.id, startDate, endDate);
+            const [updatedIncomes, updatedExpenses] = await Promise.all([
+                db.income.getAll(user.id, startDate, endDate),
+                db.expenses.getAll(user.id, startDate, endDate)
+            ]);
             setIncomeSources(updatedIncomes);
+            setExpenses(updatedExpenses);
+        } catch (error) {
+            console.error('Error fetching data:', error);
+            toast.error('Failed to refresh entries');
+        }
+    };
+
+    // Deleted entries go to the trash, and can be brought back from the toast
+    const handleDeleteIncome = async (income: Income) => {
+        if (!user) return;
+        try {
+            const deletion = await moveToTrash('income_sources', [income.id]);
+            await refreshEntries();
+            showUndoToast(`Moved ${income.name} to the trash`, deletion, refreshEntries);
         } catch (error) {
             console.error('Error deleting income:', error);
-            // TODO: Add proper error handling
+            toast.error('Failed to delete income');
         }
     };
 
-    const handleDeleteExpense = async (id: string) => {
+    const handleDeleteExpense = async (expense: Expense) => {
         if (!user) return;
         try {
-            await db.expenses.remove(id);
-            
-            // Refresh the data
-            const startDate = startOfMonth(selectedMonth);
-            const endDate = endOfMonth(selectedMonth);
-            const updatedExpenses = await db.expenses.getAll(user.id, startDate, endDate);
-            setExpenses(updatedExpenses);
+            const deletion = await moveToTrash('expenses', [expense.id]);
+            await refreshEntries();
+            showUndoToast(`Moved ${expense.name} to the trash`, deletion, refreshEntries);
         } catch (error) {
             console.error('Error deleting expense:', error);
-            // TODO: Add proper error handling
+            toast.error('Failed to delete expense');
         }
     };
 
-    const totalIncome = incomeSources.reduce((sum, source) => sum + source.amount, 0);
-    const prevTotalIncome = prevIncomeSources.reduce((sum, source) => sum + source.amount, 0);
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const renderCheckbox = (entry: Income | Expense) => (
+        <input
+            type="checkbox"
+            checked={selectedIds.has(entry.id)}
+            onChange={() => toggleSelected(entry.id)}
+            className="h-4 w-4 shrink-0 text-blue-600 dark:text-blue-500 focus:ring-blue-500 dark:focus:ring-blue-400 border-gray-300 dark:border-gray-600 rounded dark:bg-gray-900"
+            aria-label={`Select ${entry.name}`}
+        />
+    );
+
+    // Totals, trends and budgets are all in the base currency
+    const toBase = <T extends Income | Expense>(entries: T[]) => toBaseAmounts(entries, { baseCurrency, rates });
+    const currenciesWithoutRate = getCurrenciesWithoutRate([...incomeSources, ...expenses], { baseCurrency, rates });
+
+    // With a tag chosen, the lists, totals and trends only cover entries carrying that tag
+    const hasTagFilter = <T extends Income | Expense>(entries: T[]) =>
+        tagFilter ? entries.filter(entry => entry.tags?.some(tag => tag.id === tagFilter)) : entries;
+    const shownIncome = hasTagFilter(incomeSources);
+    const shownExpenses = hasTagFilter(expenses);
+
+    // Entries hidden by the tag filter stay out of bulk edits
+    const selection = {
+        incomeIds: shownIncome.filter(income => selectedIds.has(income.id)).map(income => income.id),
+        expenseIds: shownExpenses.filter(expense => selectedIds.has(expense.id)).map(expense => expense.id)
+    };
+
+    const totalIncome = toBase(shownIncome).reduce((sum, source) => sum + source.amount, 0);
+    const prevTotalIncome = toBase(hasTagFilter(prevIncomeSources)).reduce((sum, source) => sum + source.amount, 0);
     
-    const expensesByCategory = CATEGORIES.reduce((acc, category) => {
-        acc[category] = expenses
-            .filter((e) => e.category === category)
-            .reduce((sum, e) => sum + e.amount, 0);
-        return acc;
-    }, {} as Record<typeof CATEGORIES[number], number>);
+    const topLevelCategories = getTopLevelCategories(categories);
+
+    // Subcategory spending rolls up into its top-level category
+    const getExpenseGroup = (expense: Expense) =>
+        getTopLevelCategory(categories, expense.category_id)?.id ?? UNCATEGORISED;
 
-    const prevExpensesByCategory = CATEGORIES.reduce((acc, category) => {
-        acc[category] = prevExpenses
-            .filter((e) => e.category === category)
-            .reduce((sum, e) => sum + e.amount, 0);
+    // Split expenses count each line towards its own category
+    const sumByCategory = (list: Expense[]) => toBase(splitByCategory(list)).reduce((acc, e) => {
+        const group = getExpenseGroup(e);
+        acc[group] = (acc[group] || 0) + e.amount;
         return acc;
-    }, {} as Record<typeof CATEGORIES[number], number>);
+    }, {} as Record<string, number>);
+
+    const expensesByCategory = sumByCategory(shownExpenses);
+    // Expenses as listed on the category cards, with split expenses under each of their categories
+    const expenseLines = splitByCategory(shownExpenses);
+    const prevExpensesByCategory = sumByCategory(hasTagFilter(prevExpenses));
+
+    const categoryGroups = [
+        ...topLevelCategories.map(category => ({
+            id: category.id,
+            name: category.name,
+            color: getCategoryColor(category).text,
+            Icon: getCategoryIcon(category)
+        })),
+        // Only shown when something actually lacks a category
+        ...(expenseLines.some(e => getExpenseGroup(e) === UNCATEGORISED)
+            ? [{ id: UNCATEGORISED, name: 'Uncategorised', color: getCategoryColor().text, Icon: getCategoryIcon() }]
+            : [])
+    ];
 
     const totalExpenses = Object.values(expensesByCategory).reduce(
         (sum, amount) => sum + amount,
@@ -133,32 +289,20 @@ export default function Dashboard() {
         return ((current - previous) / previous) * 100;
     };
 
-    const getLargestExpenseCategory = (expenses: Record<typeof CATEGORIES[number], number>) => {
+    const getLargestExpenseCategory = (expenses: Record<string, number>) => {
         const result = Object.entries(expenses).reduce((max, [category, amount]) => 
             amount > max.amount ? { category, amount } : max, 
-            { category: 'None', amount: 0 }
+            { category: '', amount: 0 }
         );
+        const name = result.category === UNCATEGORISED
+            ? 'Uncategorised'
+            : categories.find(c => c.id === result.category)?.name;
         return {
-            category: result.category.charAt(0).toUpperCase() + result.category.slice(1),
+            category: name || 'None',
             amount: result.amount
         };
     };
 
-    const getCategoryColor = (category: Category) => {
-        switch (category) {
-            case 'investment':
-                return 'text-emerald-600';
-            case 'debt':
-                return 'text-orange-600';
-            case 'needs':
-                return 'text-blue-600';
-            case 'leisure':
-                return 'text-purple-600';
-            default:
-                return 'text-gray-800';
-        }
-    };
-
     const goToPreviousMonth = () => {
         setSelectedMonth(new Date(selectedMonth.getFullYear(), selectedMonth.getMonth() - 1));
     };
@@ -169,31 +313,94 @@ export default function Dashboard() {
 
     const handleImportRecurring = async () => {
         if (!user) return;
+        setIsCatchUpModalOpen(true);
         setIsImporting(true);
         try {
-            await processMonthlyRecurringTransactions();
+            setPendingOccurrences(await getPendingRecurringOccurrences());
+        } catch (error) {
+            console.error('Error checking recurring transactions:', error);
+            toast.error('Failed to check recurring transactions');
+            setIsCatchUpModalOpen(false);
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleConfirmImportRecurring = async (occurrences: PendingOccurrence[]) => {
+        if (!user) return;
+        try {
+            await postRecurringOccurrences(occurrences);
             // Refresh the data after importing
             const startDate = startOfMonth(selectedMonth);
             const endDate = endOfMonth(selectedMonth);
-            const [incomes, expenses] = await Promise.all([
+            const [incomes, expenses, pending] = await Promise.all([
                 db.income.getAll(user.id, startDate, endDate),
-                db.expenses.getAll(user.id, startDate, endDate)
+                db.expenses.getAll(user.id, startDate, endDate),
+                getPendingRecurringOccurrences()
             ]);
             setIncomeSources(incomes);
             setExpenses(expenses);
+            setPendingOccurrences(pending);
             toast.success('Successfully imported recurring transactions');
         } catch (error) {
             console.error('Error importing recurring transactions:', error);
             toast.error('Failed to import recurring transactions');
-        } finally {
-            setIsImporting(false);
+            throw error;
         }
     };
 
-    const handleEditIncome = async (income: { name: string; amount: number }) => {
+    const handleConfirmImportStatement = async (transactions: ImportedTransaction[], currency: string, accountId: string | null) => {
+        if (!user) return;
+        try {
+            const { incomeCount, expenseCount } = await importTransactions(user.id, transactions, currency, accountId);
+            // Refresh the data after importing
+            const startDate = startOfMonth(selectedMonth);
+            const endDate = endOfMonth(selectedMonth);
+            const [incomes, expenses] = await Promise.all([
+                db.income.getAll(user.id, startDate, endDate),
+                db.expenses.getAll(user.id, startDate, endDate)
+            ]);
+            setIncomeSources(incomes);
+            setExpenses(expenses);
+            const skipped = transactions.length - incomeCount - expenseCount;
+            toast.success(`Imported ${incomeCount} income and ${expenseCount} expense entries`
+                + (skipped > 0 ? `, skipping ${skipped} already imported` : ''));
+        } catch (error) {
+            console.error('Error importing statement:', error);
+            toast.error('Failed to import statement');
+            throw error;
+        }
+    };
+
+    // Tag names from a form as tag ids, creating the tags the user hasn't used before
+    const saveTags = async (names: string[]) => {
+        if (!user) return [];
+        const tagIds = await resolveTagIds(user.id, names, tags);
+        if (names.some(name => !findTag(tags, name))) await refreshTags();
+        return tagIds;
+    };
+
+    // Upload the files picked in a form and delete the attachments it removed
+    const saveAttachments = async (entry: { expense_id: string } | { income_id: string }, changes: { add: File[]; remove: Attachment[] }) => {
+        if (!user) return;
+        await removeAttachments(changes.remove);
+        await uploadAttachments(user.id, entry, changes.add);
+    };
+
+    const handleEditIncome = async (income: {
+        name: string;
+        amount: number;
+        currency: string;
+        account_id: string | null;
+        tags: string[];
+        attachments: { add: File[]; remove: Attachment[] };
+    }) => {
         if (!user || !editingIncome) return;
         try {
-            await db.income.update(editingIncome.id, income);
+            const { tags: tagNames, attachments, ...fields } = income;
+            await db.income.update(editingIncome.id, fields);
+            await db.incomeTags.set(user.id, editingIncome.id, await saveTags(tagNames));
+            await saveAttachments({ income_id: editingIncome.id }, attachments);
             
             // Refresh the data
             const startDate = startOfMonth(selectedMonth);
@@ -208,10 +415,66 @@ export default function Dashboard() {
         }
     };
 
-    const handleEditExpense = async (expense: { name: string; amount: number; category: Category }) => {
+    const getBudget = (categoryId: string) => budgets.find(budget => budget.category_id === categoryId);
+
+    // Warn about any budget that a saved expense has just pushed over its limit
+    const warnIfOverBudget = (updatedExpenses: Expense[]) => {
+        const before = sumSpendingByCategory(toBase(expenses), categories);
+        const after = sumSpendingByCategory(toBase(updatedExpenses), categories);
+        budgets.forEach(budget => {
+            const available = budget.amount + (rollovers[budget.category_id] || 0);
+            const spent = after[budget.category_id] || 0;
+            if (spent > available && (before[budget.category_id] || 0) <= available) {
+                const name = categories.find(c => c.id === budget.category_id)?.name;
+                toast(`${name} is ${formatMoney(spent - available)} over its ${format(selectedMonth, 'MMMM')} budget`, { icon: '⚠️' });
+            }
+        });
+    };
+
+    const handleSaveBudget = async (values: { amount: number; rollover: boolean }) => {
+        if (!user || !budgetCategoryId) return;
+        try {
+            const saved = await db.budgets.set({ user_id: user.id, category_id: budgetCategoryId, ...values });
+            setBudgets(prev => [...prev.filter(budget => budget.category_id !== budgetCategoryId), saved]);
+            toast.success('Budget saved successfully');
+        } catch (error) {
+            console.error('Error saving budget:', error);
+            toast.error('Failed to save budget');
+        }
+    };
+
+    const handleRemoveBudget = async () => {
+        const budget = budgetCategoryId ? getBudget(budgetCategoryId) : undefined;
+        if (!budget) return;
+        try {
+            await db.budgets.remove(budget.id);
+            setBudgets(prev => prev.filter(b => b.id !== budget.id));
+            toast.success('Budget removed successfully');
+        } catch (error) {
+            console.error('Error removing budget:', error);
+            toast.error('Failed to remove budget');
+        }
+    };
+
+    const handleEditExpense = async (expense: {
+        name: string;
+        amount: number;
+        currency: string;
+        account_id: string | null;
+        category_id: string | null;
+        holding_id: string | null;
+        units: number | null;
+        splits: { category_id: string | null; amount: number }[];
+        tags: string[];
+        attachments: { add: File[]; remove: Attachment[] };
+    }) => {
         if (!user || !editingExpense) return;
         try {
-            await db.expenses.update(editingExpense.id, expense);
+            const { splits, tags: tagNames, attachments, ...fields } = expense;
+            await db.expenses.update(editingExpense.id, fields);
+            await db.expenseSplits.set(user.id, editingExpense.id, splits);
+            await db.expenseTags.set(user.id, editingExpense.id, await saveTags(tagNames));
+            await saveAttachments({ expense_id: editingExpense.id }, attachments);
             
             // Refresh the data
             const startDate = startOfMonth(selectedMonth);
@@ -219,6 +482,7 @@ export default function Dashboard() {
             const updatedExpenses = await db.expenses.getAll(user.id, startDate, endDate);
             setExpenses(updatedExpenses);
             toast.success('Expense updated successfully');
+            warnIfOverBudget(updatedExpenses);
         } catch (error) {
             console.error('Error updating expense:', error);
             toast.error('Failed to update expense');
@@ -270,6 +534,28 @@ export default function Dashboard() {
                             </>
                         )}
                     </button>
+                    <button
+                        onClick={() => setIsStatementModalOpen(true)}
+                        className="inline-flex items-center gap-2 px-3 py-1.5 text-sm border rounded-md transition-colors duration-200 w-full sm:w-auto justify-center text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/50 border-blue-200 dark:border-blue-800 hover:bg-blue-100 dark:hover:bg-blue-900"
+                    >
+                        <Upload className="w-4 h-4" />
+                        Import Statement
+                    </button>
+                    {tags.length > 0 && (
+                        <div className="relative w-full sm:w-auto">
+                            <TagIcon className="pointer-events-none absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                            <select
+                                value={tagFilter ?? ''}
+                                onChange={(e) => setTagFilter(e.target.value || null)}
+                                className="w-full sm:w-auto pl-8 pr-8 py-1.5 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                <option value="">All tags</option>
+                                {tags.map(tag => (
+                                    <option key={tag.id} value={tag.id}>#{tag.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
                     <div className="flex items-center gap-2">
                         <button
                             onClick={goToPreviousMonth}
@@ -304,6 +590,22 @@ export default function Dashboard() {
                 </div>
             </div>
 
+            {/* Missed recurring transactions */}
+            {pendingOccurrences.length > 0 && !isCatchUpModalOpen && (
+                <div className="flex flex-col sm:flex-row items-center justify-between gap-2 bg-blue-50 dark:bg-blue-900/50 border border-blue-200 dark:border-blue-800 rounded-lg px-4 py-3">
+                    <p className="text-sm text-blue-700 dark:text-blue-300">
+                        {pendingOccurrences.length} recurring {pendingOccurrences.length === 1 ? 'entry is' : 'entries are'} waiting to be added
+                        {' '}since {format(pendingOccurrences[0].date, 'MMM d, yyyy')}
+                    </p>
+                    <button
+                        onClick={() => setIsCatchUpModalOpen(true)}
+                        className="w-full sm:w-auto px-3 py-1.5 bg-blue-600 dark:bg-blue-500 text-white rounded-md hover:bg-blue-700 dark:hover:bg-blue-600 shadow-sm text-sm"
+                    >
+                        Review
+                    </button>
+                </div>
+            )}
+
             {/* Main Content Grid */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-8 [&>*]:h-fit">
                 {/* Summary Section */}
@@ -313,7 +615,7 @@ export default function Dashboard() {
                         <div className="bg-white dark:bg-gray-800 rounded-lg p-3 shadow-sm border border-blue-200 dark:border-blue-900">
                             <div className="text-xs font-medium text-blue-600 dark:text-blue-400">Total Income</div>
                             <div className="text-base sm:text-lg font-bold text-black dark:text-gray-200">
-                                {formatIndianNumber(totalIncome)}
+                                {formatMoney(totalIncome)}
                             </div>
                             <div className={`text-xs font-medium ${calculateTrend(totalIncome, prevTotalIncome) > 0 ? 'text-green-600 dark:text-green-400' : calculateTrend(totalIncome, prevTotalIncome) < 0 ? 'text-red-600 dark:text-red-400' : 'text-black dark:text-white'}`}>
                                 {calculateTrend(totalIncome, prevTotalIncome) > 0 ? '↑' : calculateTrend(totalIncome, prevTotalIncome) < 0 ? '↓' : '='} {Math.abs(calculateTrend(totalIncome, prevTotalIncome)).toFixed(1)}% vs last month
@@ -322,7 +624,7 @@ export default function Dashboard() {
                         <div className="bg-white dark:bg-gray-800 rounded-lg p-3 shadow-sm border border-red-200 dark:border-red-900">
                             <div className="text-xs font-medium text-red-600 dark:text-red-400">Total Expenses</div>
                             <div className="text-base sm:text-lg font-bold text-black dark:text-gray-200">
-                                {formatIndianNumber(totalExpenses)}
+                                {formatMoney(totalExpenses)}
                             </div>
                             <div className={`text-xs font-medium ${calculateTrend(totalExpenses, prevTotalExpenses) > 0 ? 'text-red-600 dark:text-red-400' : calculateTrend(totalExpenses, prevTotalExpenses) < 0 ? 'text-green-600 dark:text-green-400' : 'text-black dark:text-white'}`}>
                                 {calculateTrend(totalExpenses, prevTotalExpenses) > 0 ? '↑' : calculateTrend(totalExpenses, prevTotalExpenses) < 0 ? '↓' : '='} {Math.abs(calculateTrend(totalExpenses, prevTotalExpenses)).toFixed(1)}% vs last month
@@ -333,7 +635,7 @@ export default function Dashboard() {
                                 Remaining Balance
                             </div>
                             <div className="text-base sm:text-lg font-bold text-black dark:text-gray-200">
-                                {formatIndianNumber(totalIncome - totalExpenses)}
+                                {formatMoney(totalIncome - totalExpenses)}
                             </div>
                             <div className={`text-xs font-medium ${calculateTrend(totalIncome - totalExpenses, prevTotalIncome - prevTotalExpenses) > 0 ? 'text-green-600 dark:text-green-400' : calculateTrend(totalIncome - totalExpenses, prevTotalIncome - prevTotalExpenses) < 0 ? 'text-red-600 dark:text-red-400' : 'text-black dark:text-white'}`}>
                                 {calculateTrend(totalIncome - totalExpenses, prevTotalIncome - prevTotalExpenses) > 0 ? '↑' : calculateTrend(totalIncome - totalExpenses, prevTotalIncome - prevTotalExpenses) < 0 ? '↓' : '='} {Math.abs(calculateTrend(totalIncome - totalExpenses, prevTotalIncome - prevTotalExpenses)).toFixed(1)}% vs last month
@@ -347,7 +649,7 @@ export default function Dashboard() {
                                 {getLargestExpenseCategory(expensesByCategory).category}
                             </div>
                             <div className="text-xs font-medium text-black dark:text-gray-200">
-                                {formatIndianNumber(getLargestExpenseCategory(expensesByCategory).amount)}
+                                {formatMoney(getLargestExpenseCategory(expensesByCategory).amount)}
                             </div>
                             <div className="text-xs font-medium text-gray-600 dark:text-gray-400">
                                 {getLargestExpenseCategory(expensesByCategory).category === getLargestExpenseCategory(prevExpensesByCategory).category ? 
@@ -356,6 +658,12 @@ export default function Dashboard() {
                             </div>
                         </div>
                     </div>
+                    {currenciesWithoutRate.length > 0 && (
+                        <p className="mt-3 text-xs text-yellow-700 dark:text-yellow-400">
+                            No exchange rate for {currenciesWithoutRate.join(', ')}, so those amounts are counted as {baseCurrency}.
+                            Add rates under Currencies in the profile menu.
+                        </p>
+                    )}
                 </div>
 
                 {/* Income Sources */}
@@ -374,20 +682,37 @@ export default function Dashboard() {
                     {/* Income List */}
                     <div className="bg-gray-100 dark:bg-gray-900 rounded-lg p-3 sm:p-4 shadow-sm border border-gray-200 dark:border-gray-700">
                         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
-                            {incomeSources.length === 0 ? (
+                            {shownIncome.length === 0 ? (
                                 <div className="px-3 sm:px-4 py-3 text-center text-gray-500 dark:text-gray-400">
-                                    No income added
+                                    {tagFilter ? 'No income with this tag' : 'No income added'}
                                 </div>
                             ) : (
-                                incomeSources.map((source) => (
+                                shownIncome.map((source) => (
                                     <div
                                         key={source.id}
                                         className="flex items-center justify-between px-3 sm:px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700/50"
                                     >
-                                        <span className="text-sm font-semibold text-gray-900 dark:text-gray-200">{source.name}</span>
+                                        <span className="flex items-center gap-2 min-w-0 text-sm font-semibold text-gray-900 dark:text-gray-200">
+                                            {renderCheckbox(source)}
+                                            <span className="truncate">{source.name}</span>
+                                            {source.tags?.map(tag => (
+                                                <span key={tag.id} className="shrink-0 text-xs font-medium text-blue-600 dark:text-blue-400">
+                                                    #{tag.name}
+                                                </span>
+                                            ))}
+                                        </span>
                                         <div className="flex items-center space-x-3">
+                                            {!!source.attachments?.length && (
+                                                <button
+                                                    onClick={() => setPreviewEntry(source)}
+                                                    title={`${source.attachments.length} attachment${source.attachments.length === 1 ? '' : 's'}`}
+                                                    className="p-1 text-gray-400 dark:text-gray-500 hover:text-blue-500 dark:hover:text-blue-400"
+                                                >
+                                                    <Paperclip className="h-4 w-4" />
+                                                </button>
+                                            )}
                                             <span className="text-sm font-medium text-gray-900 dark:text-gray-200">
-                                                {formatIndianNumber(source.amount)}
+                                                {formatMoney(source.amount, { currency: source.currency })}
                                             </span>
                                             <button
                                                 onClick={() => {
@@ -399,7 +724,7 @@ export default function Dashboard() {
                                                 <Edit2 className="h-4 w-4" />
                                             </button>
                                             <button
-                                                onClick={() => handleDeleteIncome(source.id)}
+                                                onClick={() => handleDeleteIncome(source)}
                                                 className="p-1 text-gray-400 dark:text-gray-500 hover:text-red-500 dark:hover:text-red-400"
                                             >
                                                 <Trash2 className="h-4 w-4" />
@@ -411,13 +736,98 @@ export default function Dashboard() {
                         </div>
                         <div className="flex justify-center items-center mt-3">
                             <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">
-                                Total: {formatIndianNumber(totalIncome)}
+                                Total: {formatMoney(totalIncome)}
                             </span>
                         </div>
                     </div>
                 </div>
             </div>
 
+            {/* Account balances */}
+            {accounts.length > 0 && (
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4 sm:p-6">
+                    <div className="flex flex-col sm:flex-row justify-between items-center gap-1 mb-3">
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200">Accounts</h2>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                            Balances at the end of {format(selectedMonth, 'MMMM yyyy')}
+                        </span>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                        {accounts.map((account) => {
+                            const { Icon } = getAccountType(account.type);
+                            const balance = accountBalances[account.id] ?? account.opening_balance;
+                            return (
+                                <div key={account.id} className="bg-white dark:bg-gray-800 rounded-lg p-3 shadow-sm border border-gray-200 dark:border-gray-700">
+                                    <div className="flex items-center gap-1.5 text-xs font-medium text-gray-600 dark:text-gray-400">
+                                        <Icon className="h-3.5 w-3.5" />
+                                        <span className="truncate">{account.name}</span>
+                                    </div>
+                                    <div className={`text-base sm:text-lg font-bold ${balance < 0 ? 'text-red-600 dark:text-red-400' : 'text-black dark:text-gray-200'}`}>
+                                        {formatMoney(balance, { currency: account.currency })}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
+            {/* Credit cards */}
+            {Object.keys(cardStatements).length > 0 && (
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4 sm:p-6">
+                    <div className="flex flex-col sm:flex-row justify-between items-center gap-1 mb-3">
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200">Credit Cards</h2>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                            {formatMoney(Object.values(cardStatements).reduce(
+                                (sum, { account, amountDue }) => sum + convertToBase(amountDue, account.currency, { baseCurrency, rates }),
+                                0
+                            ))} due as of today
+                        </span>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        {Object.values(cardStatements).map((statement) => {
+                            const { account } = statement;
+                            const money = (amount: number) => formatMoney(amount, { currency: account.currency });
+                            return (
+                                <div key={account.id} className="bg-white dark:bg-gray-800 rounded-lg p-3 shadow-sm border border-gray-200 dark:border-gray-700 space-y-2">
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="text-sm font-semibold text-gray-900 dark:text-gray-200 truncate">{account.name}</span>
+                                        {statement.isOverdue ? (
+                                            <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-red-50 dark:bg-red-900/50 text-red-600 dark:text-red-400">
+                                                Overdue
+                                            </span>
+                                        ) : statement.dueDate && statement.amountDue > 0 && (
+                                            <span className="text-xs font-medium text-gray-600 dark:text-gray-400">
+                                                Due {format(statement.dueDate, 'd MMM')}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <div className="flex items-end justify-between gap-2">
+                                        <div>
+                                            <div className={`text-base sm:text-lg font-bold ${statement.isOverdue ? 'text-red-600 dark:text-red-400' : 'text-black dark:text-gray-200'}`}>
+                                                {money(statement.amountDue)}
+                                            </div>
+                                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                                                {statement.statementBalance > 0 && statement.amountDue === 0
+                                                    ? 'Statement paid'
+                                                    : `Minimum ${money(statement.minimumDue)} of ${money(statement.statementBalance)}`}
+                                            </div>
+                                        </div>
+                                        <div className="text-right text-xs text-gray-600 dark:text-gray-400">
+                                            <div>Billed {money(statement.billed)}</div>
+                                            <div>Unbilled {money(statement.unbilled)}</div>
+                                        </div>
+                                    </div>
+                                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                                        Statement {format(statement.statementDate, 'd MMM')} · next {format(statement.nextStatementDate, 'd MMM')} · {money(statement.outstanding)} owed in total
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
             {/* Expenses */}
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4 sm:p-6">
                 <div className="flex flex-col sm:flex-row justify-between items-center gap-2 sm:gap-0 mb-4">
@@ -433,59 +843,145 @@ export default function Dashboard() {
 
                 {/* Categories */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6 [&>*]:h-fit">
-                    {CATEGORIES.map((category) => (
-                        <div key={category} className="bg-gray-100 dark:bg-gray-900 rounded-lg p-3 sm:p-4 shadow-sm border border-gray-200 dark:border-gray-700 h-fit">
-                            <div className="flex flex-col sm:flex-row justify-between items-center gap-1 sm:gap-0 mb-3">
-                                <h3 className={`text-sm font-bold uppercase tracking-wide ${getCategoryColor(category)} dark:text-${category === 'investment' ? 'emerald' : category === 'debt' ? 'orange' : category === 'needs' ? 'blue' : 'purple'}-400`}>
-                                    {category}
-                                </h3>
-                                <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">
-                                    Total: {formatIndianNumber(expensesByCategory[category])}
-                                </span>
-                            </div>
-                            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
-                                {expenses
-                                    .filter((expense) => expense.category === category)
-                                    .map((expense) => (
-                                        <div
-                                            key={expense.id}
-                                            className="flex items-center justify-between px-3 sm:px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700/50"
-                                        >
-                                            <span className="text-sm font-semibold text-gray-900 dark:text-gray-200">
-                                                {expense.name}
+                    {categoryGroups.map(({ id, name, color, Icon }) => {
+                        const budget = getBudget(id);
+                        // Budgets cover the whole category, so they aren't measured against a tag's share of it
+                        const progress = budget && !tagFilter ? getBudgetProgress(budget, expensesByCategory[id] || 0, rollovers[id]) : null;
+                        return (
+                            <div key={id} className="bg-gray-100 dark:bg-gray-900 rounded-lg p-3 sm:p-4 shadow-sm border border-gray-200 dark:border-gray-700 h-fit">
+                                <div className="flex flex-col sm:flex-row justify-between items-center gap-1 sm:gap-0 mb-3">
+                                    <h3 className={`flex items-center gap-1.5 text-sm font-bold uppercase tracking-wide ${color}`}>
+                                        <Icon className="h-4 w-4" />
+                                        {name}
+                                    </h3>
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                                            Total: {formatMoney(expensesByCategory[id] || 0)}
+                                        </span>
+                                        {id !== UNCATEGORISED && (
+                                            <button
+                                                onClick={() => setBudgetCategoryId(id)}
+                                                title={budget ? 'Edit budget' : 'Set budget'}
+                                                className="p-1 text-gray-400 dark:text-gray-500 hover:text-blue-500 dark:hover:text-blue-400"
+                                            >
+                                                <Gauge className="h-4 w-4" />
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                                {progress && (
+                                    <div className="mb-3 space-y-1">
+                                        <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                                            <div
+                                                className={`h-full rounded-full transition-all ${
+                                                    progress.remaining < 0 ? 'bg-red-500' : progress.percent >= 80 ? 'bg-yellow-500' : 'bg-green-500'
+                                                }`}
+                                                style={{ width: `${progress.percent}%` }}
+                                            />
+                                        </div>
+                                        <div className="flex justify-between text-xs">
+                                            <span className={progress.remaining < 0 ? 'font-medium text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'}>
+                                                {progress.remaining < 0
+                                                    ? `${formatMoney(-progress.remaining)} over budget`
+                                                    : `${formatMoney(progress.remaining)} left`}
+                                            </span>
+                                            <span className="text-gray-500 dark:text-gray-400">
+                                                of {formatMoney(progress.available)}
+                                                {progress.available > progress.budget.amount && ` (incl. ${formatMoney(progress.available - progress.budget.amount)} rolled over)`}
                                             </span>
-                                            <div className="flex items-center space-x-3">
-                                                <span className="text-sm font-medium text-gray-900 dark:text-gray-200">
-                                                    {formatIndianNumber(expense.amount)}
-                                                </span>
-                                                <button
-                                                    onClick={() => {
-                                                        setEditingExpense(expense);
-                                                        setIsExpenseModalOpen(true);
-                                                    }}
-                                                    className="p-1 text-gray-400 dark:text-gray-500 hover:text-blue-500 dark:hover:text-blue-400"
-                                                >
-                                                    <Edit2 className="h-4 w-4" />
-                                                </button>
-                                                <button
-                                                    onClick={() => handleDeleteExpense(expense.id)}
-                                                    className="p-1 text-gray-400 dark:text-gray-500 hover:text-red-500 dark:hover:text-red-400"
-                                                >
-                                                    <Trash2 className="h-4 w-4" />
-                                                </button>
-                                            </div>
                                         </div>
-                                    ))}
-                                {expenses.filter((expense) => expense.category === category).length === 0 && (
-                                    <div className="px-3 sm:px-4 py-3 text-center text-gray-500 dark:text-gray-400">
-                                        No expenses here
                                     </div>
                                 )}
+                                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+                                    {expenseLines
+                                        .filter((expense) => getExpenseGroup(expense) === id)
+                                        .map((expense, i) => {
+                                            const subcategory = categories.find(c => c.id === expense.category_id && c.parent_id);
+                                            // Split expenses are edited as a whole
+                                            const original = expenses.find(e => e.id === expense.id) ?? expense;
+                                            return (
+                                                <div
+                                                    key={`${expense.id}-${i}`}
+                                                    className="flex items-center justify-between px-3 sm:px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                                                >
+                                                    <span className="flex items-center gap-2 min-w-0 text-sm font-semibold text-gray-900 dark:text-gray-200">
+                                                        {/* Lines of a split expense select the whole expense */}
+                                                        {renderCheckbox(original)}
+                                                        <span className="truncate">{expense.name}</span>
+                                                        {subcategory && (
+                                                            <span className="shrink-0 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                                                                {subcategory.name}
+                                                            </span>
+                                                        )}
+                                                        {!!original.splits?.length && (
+                                                            <span
+                                                                title={`Split from ${formatMoney(original.amount, { currency: original.currency })}`}
+                                                                className="shrink-0 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300"
+                                                            >
+                                                                Split
+                                                            </span>
+                                                        )}
+                                                        {original.tags?.map(tag => (
+                                                            <span key={tag.id} className="shrink-0 text-xs font-medium text-blue-600 dark:text-blue-400">
+                                                                #{tag.name}
+                                                            </span>
+                                                        ))}
+                                                    </span>
+                                                    <div className="flex items-center space-x-3">
+                                                        {!!original.attachments?.length && (
+                                                            <button
+                                                                onClick={() => setPreviewEntry(original)}
+                                                                title={`${original.attachments.length} attachment${original.attachments.length === 1 ? '' : 's'}`}
+                                                                className="p-1 text-gray-400 dark:text-gray-500 hover:text-blue-500 dark:hover:text-blue-400"
+                                                            >
+                                                                <Paperclip className="h-4 w-4" />
+                                                            </button>
+                                                        )}
+                                                        <span className="text-sm font-medium text-gray-900 dark:text-gray-200">
+                                                            {formatMoney(expense.amount, { currency: expense.currency })}
+                                                        </span>
+                                                        <button
+                                                            onClick={() => {
+                                                                setEditingExpense(original);
+                                                                setIsExpenseModalOpen(true);
+                                                            }}
+                                                            className="p-1 text-gray-400 dark:text-gray-500 hover:text-blue-500 dark:hover:text-blue-400"
+                                                        >
+                                                            <Edit2 className="h-4 w-4" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => handleDeleteExpense(original)}
+                                                            className="p-1 text-gray-400 dark:text-gray-500 hover:text-red-500 dark:hover:text-red-400"
+                                                        >
+                                                            <Trash2 className="h-4 w-4" />
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            );
+                                        })}
+                                    {expenseLines.filter((expense) => getExpenseGroup(expense) === id).length === 0 && (
+                                        <div className="px-3 sm:px-4 py-3 text-center text-gray-500 dark:text-gray-400">
+                                            {tagFilter ? 'No expenses with this tag' : 'No expenses here'}
+                                        </div>
+                                    )}
+                                </div>
                             </div>
-                        </div>
-                    ))}
+                        );
+                    })}
                 </div>
             </div>
+            {/* Bulk actions, kept in view while scrolling through the lists */}
+            {selection.incomeIds.length + selection.expenseIds.length > 0 && (
+                <div className="sticky bottom-4 z-30 rounded-lg bg-white dark:bg-gray-800 shadow-lg">
+                    <BulkActionBar
+                        selection={selection}
+                        goals={goals}
+                        onClear={() => setSelectedIds(new Set())}
+                        onChanged={refreshEntries}
+                    />
+                </div>
+            )}
+
             {/* Footer */}
             <div className="flex flex-col items-center space-y-2 mt-6 sm:mt-8">
                 <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400 text-center px-4">Made with ❤️ by Siby C.R.</p>
@@ -535,21 +1031,31 @@ export default function Dashboard() {
                                 const recurringTransaction = await createRecurringTransaction({
                                     name: income.name,
                                     amount: income.amount,
+                                    currency: income.currency,
+                                    account_id: income.account_id,
                                     type: 'income',
                                     active: true,
+                                    start_date: toDateString(firstDayOfMonth),
+                                    day_of_month: 1,
+                                    last_posted_date: toDateString(firstDayOfMonth),
                                 });
                                 recurring_id = recurringTransaction.id;
                             }
 
                             // Then create the income with the recurring_id if it exists
-                            await db.income.add({
+                            const created = await db.income.add({
                                 user_id: user.id,
                                 name: income.name,
                                 amount: income.amount,
+                                currency: income.currency,
+                                account_id: income.account_id,
                                 date: firstDayOfMonth.toISOString(),
                                 is_recurring: income.is_recurring || false,
                                 recurring_id: recurring_id,
+                                occurrence_key: recurring_id ? getOccurrenceKey(recurring_id, firstDayOfMonth) : null,
                             });
+                            await db.incomeTags.set(user.id, created.id, await saveTags(income.tags));
+                            await saveAttachments({ income_id: created.id }, income.attachments);
                             
                             // Refresh the data
                             const startDate = startOfMonth(selectedMonth);
@@ -591,23 +1097,36 @@ export default function Dashboard() {
                                 const recurringTransaction = await createRecurringTransaction({
                                     name: expense.name,
                                     amount: expense.amount,
+                                    currency: expense.currency,
+                                    account_id: expense.account_id,
                                     type: 'expense',
-                                    category: expense.category,
+                                    category_id: expense.category_id,
                                     active: true,
+                                    start_date: toDateString(firstDayOfMonth),
+                                    day_of_month: 1,
+                                    last_posted_date: toDateString(firstDayOfMonth),
                                 });
                                 recurring_id = recurringTransaction.id;
                             }
 
                             // Then create the expense with the recurring_id if it exists
-                            await db.expenses.add({
+                            const created = await db.expenses.add({
                                 user_id: user.id,
                                 name: expense.name,
                                 amount: expense.amount,
-                                category: expense.category,
+                                currency: expense.currency,
+                                account_id: expense.account_id,
+                                category_id: expense.category_id,
+                                holding_id: expense.holding_id,
+                                units: expense.units,
                                 date: firstDayOfMonth.toISOString(),
                                 is_recurring: expense.is_recurring || false,
                                 recurring_id: recurring_id,
+                                occurrence_key: recurring_id ? getOccurrenceKey(recurring_id, firstDayOfMonth) : null,
                             });
+                            await db.expenseSplits.set(user.id, created.id, expense.splits);
+                            await db.expenseTags.set(user.id, created.id, await saveTags(expense.tags));
+                            await saveAttachments({ expense_id: created.id }, expense.attachments);
                             
                             // Refresh the data
                             const startDate = startOfMonth(selectedMonth);
@@ -616,6 +1135,7 @@ export default function Dashboard() {
                             setExpenses(updatedExpenses);
                             
                             toast.success('Expense added successfully');
+                            warnIfOverBudget(updatedExpenses);
                         } catch (error) {
                             console.error('Error adding expense:', error);
                             toast.error('Failed to add expense');
@@ -626,6 +1146,38 @@ export default function Dashboard() {
                 }}
                 expense={editingExpense}
             />
+
+            {!!previewEntry?.attachments?.length && (
+                <AttachmentPreviewModal
+                    title={previewEntry.name}
+                    attachments={previewEntry.attachments}
+                    onClose={() => setPreviewEntry(null)}
+                />
+            )}
+
+            {/* Recurring Catch-up Preview */}
+            <RecurringCatchUpModal
+                isOpen={isCatchUpModalOpen}
+                onClose={() => setIsCatchUpModalOpen(false)}
+                onConfirm={handleConfirmImportRecurring}
+                occurrences={pendingOccurrences}
+                isLoading={isImporting}
+            />
+
+            <BudgetModal
+                isOpen={budgetCategoryId !== null}
+                onClose={() => setBudgetCategoryId(null)}
+                onSave={handleSaveBudget}
+                onRemove={handleRemoveBudget}
+                categoryName={categories.find(c => c.id === budgetCategoryId)?.name ?? ''}
+                budget={budgetCategoryId ? getBudget(budgetCategoryId) : undefined}
+            />
+
+            <StatementImportModal
+                isOpen={isStatementModalOpen}
+                onClose={() => setIsStatementModalOpen(false)}
+                onConfirm={handleConfirmImportStatement}
+            />
         </div>
     );
 }
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import { createPortal } from 'react-dom';
+import { startOfYear } from 'date-fns';
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+import "../styles/datepicker.css";
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { EXPORT_TABLES, ExportFormat, downloadExport, fetchExportData } from '../lib/dataExport';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+    { value: 'xlsx', label: 'Excel', description: 'One workbook with a sheet per table' },
+    { value: 'csv', label: 'CSV', description: 'One file per table, so the browser may ask to allow several downloads' },
+    { value: 'json', label: 'JSON', description: 'A single backup archive that can be restored later' }
+];
+
+export default function DataExportModal({ isOpen, onClose }: Props) {
+    const { user } = useAuth();
+    const [startDate, setStartDate] = useState<Date>(startOfYear(new Date()));
+    const [endDate, setEndDate] = useState<Date>(new Date());
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
+    const [isExporting, setIsExporting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+        setIsExporting(true);
+        try {
+            const data = await fetchExportData(user.id, startDate, endDate);
+            await downloadExport(data, exportFormat, startDate, endDate);
+            toast.success('Export downloaded');
+            onClose();
+        } catch (error) {
+            console.error('Error exporting data:', error);
+            toast.error('Failed to export data');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const inputClassName = "block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6";
+
+    const modal = (
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <div>
+                            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                                Export Data
+                            </h2>
+                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                                {EXPORT_TABLES.map(table => table.label).join(', ')}
+                            </p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="p-6">
+                        <div className="space-y-5">
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">From</label>
+                                    <DatePicker
+                                        selected={startDate}
+                                        onChange={(date: Date | null) => date && setStartDate(date)}
+                                        maxDate={endDate}
+                                        dateFormat="MMM d, yyyy"
+                                        className={inputClassName}
+                                        wrapperClassName="!block"
+                                        popperClassName="!z-50"
+                                    />
+                                </div>
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">To</label>
+                                    <DatePicker
+                                        selected={endDate}
+                                        onChange={(date: Date | null) => date && setEndDate(date)}
+                                        minDate={startDate}
+                                        dateFormat="MMM d, yyyy"
+                                        className={inputClassName}
+                                        wrapperClassName="!block"
+                                        popperClassName="!z-50"
+                                    />
+                                </div>
+                            </div>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                                The range applies to income and expenses. All recurring transactions and savings goals are included.
+                            </p>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Format</label>
+                                <div className="space-y-2">
+                                    {FORMATS.map(({ value, label, description }) => (
+                                        <button
+                                            key={value}
+                                            type="button"
+                                            onClick={() => setExportFormat(value)}
+                                            className={`w-full text-left py-2.5 px-4 rounded-lg text-sm transition-colors shadow-sm hover:shadow ring-1 ring-inset ${
+                                                exportFormat === value
+                                                    ? 'bg-blue-50 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400 ring-blue-600/20 dark:ring-blue-400/20 shadow-blue-100 dark:shadow-blue-900/50'
+                                                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 ring-gray-300 dark:ring-gray-600'
+                                            }`}
+                                        >
+                                            <span className="block font-medium">{label}</span>
+                                            <span className="block text-xs text-gray-500 dark:text-gray-400">{description}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                disabled={isExporting}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isExporting}
+                                className="rounded-lg bg-blue-600 dark:bg-blue-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {isExporting ? (
+                                    <>
+                                        <Loader2 className="h-4 w-4 mr-2 inline animate-spin" />
+                                        Exporting...
+                                    </>
+                                ) : (
+                                    'Export'
+                                )}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </>
+    );
+
+    return createPortal(modal, document.body);
+}
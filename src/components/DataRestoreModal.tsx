@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, Upload, AlertTriangle } from 'lucide-react';
+import { createPortal } from 'react-dom';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { EXPORT_TABLES, ExportArchive } from '../lib/dataExport';
+import { RestoreMode, parseArchive, restoreArchive } from '../lib/dataRestore';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+export default function DataRestoreModal({ isOpen, onClose }: Props) {
+    const { user } = useAuth();
+    const [archive, setArchive] = useState<ExportArchive | null>(null);
+    const [fileName, setFileName] = useState('');
+    const [mode, setMode] = useState<RestoreMode>('merge');
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    // Start over every time the modal is opened
+    useEffect(() => {
+        if (!isOpen) return;
+        setArchive(null);
+        setFileName('');
+        setMode('merge');
+    }, [isOpen]);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        const text = await file.text();
+        e.target.value = '';
+        try {
+            setArchive(parseArchive(text));
+            setFileName(file.name);
+        } catch (error) {
+            console.error('Error reading backup:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to read backup');
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user || !archive) return;
+        setIsRestoring(true);
+        try {
+            const summary = await restoreArchive(user.id, archive, mode);
+            const restored = summary.income + summary.expenses + summary.recurring + summary.goals + summary.categories + summary.accounts + summary.transfers + summary.loans + summary.holdings + summary.prices + summary.snapshots + summary.tags;
+            toast.success(
+                `Restored ${restored} ${restored === 1 ? 'entry' : 'entries'}` +
+                (summary.skipped > 0 ? `, skipped ${summary.skipped} already in your account` : '')
+            );
+            onClose();
+        } catch (error) {
+            console.error('Error restoring backup:', error);
+            toast.error('Failed to restore backup');
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const range = archive
+        ? `${format(parseISO(archive.range.start), 'MMM d, yyyy')} – ${format(parseISO(archive.range.end), 'MMM d, yyyy')}`
+        : '';
+
+    const modes: { value: RestoreMode; label: string; description: string }[] = [
+        {
+            value: 'merge',
+            label: 'Merge',
+            description: 'Add anything from the backup that is missing. Existing data is kept.'
+        },
+        {
+            value: 'replace',
+            label: 'Replace',
+            description: `Delete income, expenses and transfers from ${range || 'the backup period'}, then restore the backup. Recurring transactions and goals are merged.`
+        }
+    ];
+
+    const modal = (
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <div>
+                            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                                Restore Backup
+                            </h2>
+                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                                From a JSON archive made with Export data
+                            </p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="p-6">
+                        <div className="space-y-5">
+                            <label className="flex flex-col items-center justify-center gap-2 py-8 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                                <Upload className="h-6 w-6 text-gray-400 dark:text-gray-500" />
+                                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                                    {fileName || 'Choose a backup file'}
+                                </span>
+                                <input
+                                    type="file"
+                                    accept=".json,application/json"
+                                    onChange={handleFileChange}
+                                    disabled={isRestoring}
+                                    className="hidden"
+                                />
+                            </label>
+
+                            {archive && (
+                                <>
+                                    <div className="rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                                        <div className="flex justify-between px-3 py-2">
+                                            <span className="text-gray-500 dark:text-gray-400">Period</span>
+                                            <span className="text-gray-900 dark:text-gray-200">{range}</span>
+                                        </div>
+                                        {EXPORT_TABLES.map(({ key, label }) => (
+                                            <div key={key} className="flex justify-between px-3 py-2">
+                                                <span className="text-gray-500 dark:text-gray-400">{label}</span>
+                                                <span className="text-gray-900 dark:text-gray-200">{archive.data[key]?.length ?? 0}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+
+                                    <div className="space-y-2">
+                                        {modes.map(({ value, label, description }) => (
+                                            <button
+                                                key={value}
+                                                type="button"
+                                                onClick={() => setMode(value)}
+                                                className={`w-full text-left py-2.5 px-4 rounded-lg text-sm transition-colors shadow-sm hover:shadow ring-1 ring-inset ${
+                                                    mode === value
+                                                        ? 'bg-blue-50 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400 ring-blue-600/20 dark:ring-blue-400/20 shadow-blue-100 dark:shadow-blue-900/50'
+                                                        : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 ring-gray-300 dark:ring-gray-600'
+                                                }`}
+                                            >
+                                                <span className="block font-medium">{label}</span>
+                                                <span className="block text-xs text-gray-500 dark:text-gray-400">{description}</span>
+                                            </button>
+                                        ))}
+                                    </div>
+
+                                    {mode === 'replace' && (
+                                        <div className="flex items-center gap-2 rounded-lg bg-yellow-50 dark:bg-yellow-900/30 px-3 py-2 text-sm text-yellow-800 dark:text-yellow-300">
+                                            <AlertTriangle className="h-4 w-4 shrink-0" />
+                                            Deleted data can't be recovered. Export a backup first if you're unsure.
+                                        </div>
+                                    )}
+                                </>
+                            )}
+                        </div>
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                disabled={isRestoring}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isRestoring || !archive}
+                                className={`rounded-lg px-4 py-2.5 text-sm font-medium text-white focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                                    mode === 'replace'
+                                        ? 'bg-red-600 dark:bg-red-500 hover:bg-red-700 dark:hover:bg-red-600 focus:ring-red-600 dark:focus:ring-red-500'
+                                        : 'bg-blue-600 dark:bg-blue-500 hover:bg-blue-700 dark:hover:bg-blue-600 focus:ring-blue-600 dark:focus:ring-blue-500'
+                                }`}
+                            >
+                                {isRestoring ? (
+                                    <>
+                                        <Loader2 className="h-4 w-4 mr-2 inline animate-spin" />
+                                        Restoring...
+                                    </>
+                                ) : (
+                                    mode === 'replace' ? 'Replace and restore' : 'Restore'
+                                )}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </>
+    );
+
+    return createPortal(modal, document.body);
+}
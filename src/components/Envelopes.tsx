@@ -0,0 +1,302 @@
+import { useState, useEffect, useMemo } from 'react';
+import { format, startOfMonth, endOfMonth, subMonths, addMonths, parseISO } from 'date-fns';
+import { ChevronLeft, ChevronRight, Calendar, ArrowLeftRight, ArrowRight } from 'lucide-react';
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+import "../styles/datepicker.css";
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { useCategories } from '../contexts/CategoriesContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { db } from '../lib/supabase';
+import { toDateString } from '../lib/schedule';
+import { getCategoryColor, getCategoryIcon } from '../lib/categories';
+import { Envelope, assignToEnvelope, summariseEnvelopes } from '../lib/envelopes';
+import { toBaseAmounts } from '../lib/currency';
+import { EnvelopeTransfer, Expense, Income } from '../types';
+import MoveMoneyModal from './MoveMoneyModal';
+
+export default function Envelopes() {
+    const { user } = useAuth();
+    const { categories } = useCategories();
+    const { baseCurrency, rates, formatMoney } = useCurrency();
+    const [selectedMonth, setSelectedMonth] = useState(startOfMonth(new Date()));
+    const [incomes, setIncomes] = useState<Income[]>([]);
+    const [expenses, setExpenses] = useState<Expense[]>([]);
+    const [transfers, setTransfers] = useState<EnvelopeTransfer[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [isMoveModalOpen, setIsMoveModalOpen] = useState(false);
+    const [moveFromCategoryId, setMoveFromCategoryId] = useState<string | null>(null);
+
+    const month = toDateString(selectedMonth);
+
+    // Transfers are restated when the base currency changes, so they're refetched with it
+    useEffect(() => {
+        if (!user) return;
+
+        const fetchData = async () => {
+            setIsLoading(true);
+            try {
+                const [monthIncomes, monthExpenses, monthTransfers] = await Promise.all([
+                    db.income.getAll(user.id, selectedMonth, endOfMonth(selectedMonth)),
+                    db.expenses.getAll(user.id, selectedMonth, endOfMonth(selectedMonth)),
+                    db.envelopeTransfers.getAll(user.id, toDateString(selectedMonth))
+                ]);
+                setIncomes(monthIncomes);
+                setExpenses(monthExpenses);
+                setTransfers(monthTransfers);
+                setDrafts({});
+            } catch (error) {
+                console.error('Error fetching envelopes:', error);
+                toast.error('Failed to load envelopes');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchData();
+    }, [user, selectedMonth, baseCurrency]);
+
+    // Envelopes hold base currency, so income and spending are converted first
+    const summary = useMemo(
+        () => summariseEnvelopes(
+            categories,
+            transfers,
+            toBaseAmounts(incomes, { baseCurrency, rates }),
+            toBaseAmounts(expenses, { baseCurrency, rates })
+        ),
+        [categories, transfers, incomes, expenses, baseCurrency, rates]
+    );
+
+    const getEnvelopeName = (categoryId: string | null, deleted: boolean) => {
+        if (deleted) return 'Deleted category';
+        return categoryId ? categories.find(c => c.id === categoryId)?.name ?? 'Deleted category' : 'To be assigned';
+    };
+
+    const commitAssignment = async (envelope: Envelope) => {
+        if (!user) return;
+        const draft = drafts[envelope.category.id];
+        if (draft === undefined) return;
+        setDrafts(prev => {
+            const next = { ...prev };
+            delete next[envelope.category.id];
+            return next;
+        });
+
+        const amount = parseFloat(draft) || 0;
+        if (amount < 0) {
+            toast.error('Assigned amounts can\'t be negative');
+            return;
+        }
+        try {
+            const transfer = await assignToEnvelope(user.id, month, envelope, amount);
+            if (transfer) setTransfers(prev => [transfer, ...prev]);
+        } catch (error) {
+            console.error('Error assigning money:', error);
+            toast.error('Failed to assign money');
+        }
+    };
+
+    const handleMoveMoney = async (transfer: { from_category_id: string | null; to_category_id: string | null; amount: number; note: string | null }) => {
+        if (!user) return;
+        try {
+            const created = await db.envelopeTransfers.add({ ...transfer, user_id: user.id, month });
+            setTransfers(prev => [created, ...prev]);
+            toast.success('Money moved successfully');
+        } catch (error) {
+            console.error('Error moving money:', error);
+            toast.error('Failed to move money');
+        }
+    };
+
+    const openMoveModal = (fromCategoryId: string | null = null) => {
+        setMoveFromCategoryId(fromCategoryId);
+        setIsMoveModalOpen(true);
+    };
+
+    const toBeAssignedClassName = summary.toBeAssigned < 0
+        ? 'border-red-200 dark:border-red-900 text-red-600 dark:text-red-400'
+        : summary.toBeAssigned === 0
+            ? 'border-green-200 dark:border-green-900 text-green-600 dark:text-green-400'
+            : 'border-blue-200 dark:border-blue-900 text-blue-600 dark:text-blue-400';
+
+    return (
+        <div className="space-y-6 max-w-7xl mx-auto px-4 sm:px-6 py-4">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-200 text-center sm:text-left">Envelopes</h1>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 text-center sm:text-left">
+                        Give every rupee of this month's income a job
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => setSelectedMonth(subMonths(selectedMonth, 1))}
+                        className="p-2 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition duration-200"
+                    >
+                        <ChevronLeft className="h-5 w-5" />
+                    </button>
+                    <div className="inline-block">
+                        <DatePicker
+                            selected={selectedMonth}
+                            onChange={(date: Date | null) => date && setSelectedMonth(startOfMonth(date))}
+                            dateFormat="MMMM yyyy"
+                            showMonthYearPicker
+                            customInput={
+                                <button className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 text-sm shadow-sm">
+                                    <Calendar className="h-4 w-4" />
+                                    <span className="font-medium">{format(selectedMonth, 'MMM yyyy')}</span>
+                                </button>
+                            }
+                            calendarClassName="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg"
+                            wrapperClassName="!block"
+                            popperClassName="!z-50"
+                        />
+                    </div>
+                    <button
+                        onClick={() => setSelectedMonth(addMonths(selectedMonth, 1))}
+                        className="p-2 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition duration-200"
+                    >
+                        <ChevronRight className="h-5 w-5" />
+                    </button>
+                </div>
+            </div>
+
+            {/* To be assigned */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div className={`bg-white dark:bg-gray-800 rounded-lg p-3 shadow-sm border ${toBeAssignedClassName}`}>
+                    <div className="text-xs font-medium">To Be Assigned</div>
+                    <div className="text-base sm:text-lg font-bold text-black dark:text-gray-200">
+                        {formatMoney(summary.toBeAssigned)}
+                    </div>
+                    <div className="text-xs font-medium text-gray-600 dark:text-gray-400">
+                        {summary.toBeAssigned < 0
+                            ? 'More is assigned than you earned this month'
+                            : summary.toBeAssigned === 0
+                                ? 'Every rupee has a job'
+                                : 'Assign this to your envelopes'}
+                    </div>
+                </div>
+                <div className="bg-white dark:bg-gray-800 rounded-lg p-3 shadow-sm border border-green-200 dark:border-green-900">
+                    <div className="text-xs font-medium text-green-600 dark:text-green-400">Income</div>
+                    <div className="text-base sm:text-lg font-bold text-black dark:text-gray-200">
+                        {formatMoney(summary.income)}
+                    </div>
+                </div>
+                <div className="bg-white dark:bg-gray-800 rounded-lg p-3 shadow-sm border border-red-200 dark:border-red-900">
+                    <div className="text-xs font-medium text-red-600 dark:text-red-400">Spent</div>
+                    <div className="text-base sm:text-lg font-bold text-black dark:text-gray-200">
+                        {formatMoney(expenses.reduce((sum, e) => sum + e.amount, 0))}
+                    </div>
+                    {summary.uncategorisedSpent > 0 && (
+                        <div className="text-xs font-medium text-gray-600 dark:text-gray-400">
+                            {formatMoney(summary.uncategorisedSpent)} uncategorised, not in any envelope
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Envelopes */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4 sm:p-6">
+                <div className="flex flex-col sm:flex-row justify-between items-center gap-2 sm:gap-0 mb-4">
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200">Envelopes</h2>
+                    <button
+                        onClick={() => openMoveModal()}
+                        className="w-full sm:w-auto px-3 py-1.5 bg-blue-600 dark:bg-blue-500 text-white rounded-md hover:bg-blue-700 dark:hover:bg-blue-600 shadow-sm text-sm"
+                    >
+                        <ArrowLeftRight className="h-3.5 w-3.5 mr-1.5 inline-block" />
+                        Move Money
+                    </button>
+                </div>
+
+                <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                    <div className="hidden sm:grid grid-cols-[1fr_9rem_8rem_8rem_2rem] gap-3 pb-2 text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                        <span>Envelope</span>
+                        <span className="text-right">Assigned</span>
+                        <span className="text-right">Spent</span>
+                        <span className="text-right">Available</span>
+                        <span />
+                    </div>
+                    {isLoading ? (
+                        <p className="py-3 text-center text-gray-500 dark:text-gray-400">Loading...</p>
+                    ) : summary.envelopes.map((envelope) => {
+                        const Icon = getCategoryIcon(envelope.category);
+                        return (
+                            <div key={envelope.category.id} className="grid grid-cols-2 sm:grid-cols-[1fr_9rem_8rem_8rem_2rem] items-center gap-3 py-3">
+                                <span className={`flex items-center gap-2 text-sm font-semibold ${getCategoryColor(envelope.category).text}`}>
+                                    <Icon className="h-4 w-4" />
+                                    {envelope.category.name}
+                                </span>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={drafts[envelope.category.id] ?? (Math.round(envelope.assigned * 100) / 100).toString()}
+                                    onChange={(e) => setDrafts(prev => ({ ...prev, [envelope.category.id]: e.target.value }))}
+                                    onBlur={() => commitAssignment(envelope)}
+                                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                                    className="block w-full rounded-md border-0 py-1.5 px-2 text-right text-sm text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none"
+                                />
+                                <span className="text-sm text-right text-gray-700 dark:text-gray-300">
+                                    {formatMoney(envelope.spent)}
+                                </span>
+                                <span className={`text-sm text-right font-medium ${
+                                    envelope.available < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-gray-200'
+                                }`}>
+                                    {formatMoney(envelope.available)}
+                                </span>
+                                <button
+                                    onClick={() => openMoveModal(envelope.category.id)}
+                                    title="Move money from this envelope"
+                                    className="p-1 justify-self-end text-gray-400 dark:text-gray-500 hover:text-blue-500 dark:hover:text-blue-400"
+                                >
+                                    <ArrowLeftRight className="h-4 w-4" />
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {/* Audit trail */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4 sm:p-6">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200 mb-4">Activity</h2>
+                {transfers.length === 0 ? (
+                    <p className="text-center text-gray-500 dark:text-gray-400">No money has been assigned this month</p>
+                ) : (
+                    <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {transfers.map((transfer) => (
+                            <div key={transfer.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-1 py-2.5">
+                                <div>
+                                    <div className="flex items-center gap-1.5 text-sm font-medium text-gray-900 dark:text-gray-200">
+                                        {getEnvelopeName(transfer.from_category_id, transfer.from_category_deleted)}
+                                        <ArrowRight className="h-3.5 w-3.5 text-gray-400" />
+                                        {getEnvelopeName(transfer.to_category_id, transfer.to_category_deleted)}
+                                    </div>
+                                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                                        {format(parseISO(transfer.created_at), 'MMM d, yyyy h:mm a')}
+                                        {transfer.note && ` · ${transfer.note}`}
+                                    </div>
+                                </div>
+                                <span className="text-sm font-medium text-gray-900 dark:text-gray-200">
+                                    {formatMoney(transfer.amount)}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <MoveMoneyModal
+                isOpen={isMoveModalOpen}
+                onClose={() => setIsMoveModalOpen(false)}
+                onSave={handleMoveMoney}
+                envelopes={summary.envelopes}
+                toBeAssigned={summary.toBeAssigned}
+                fromCategoryId={moveFromCategoryId}
+            />
+        </div>
+    );
+}
@@ -1,57 +1,162 @@
 import React, { useState, useEffect } from 'react';
-import { X, IndianRupee, ChevronDown } from 'lucide-react';
+import { X, IndianRupee, ChevronDown, Plus, Trash2 } from 'lucide-react';
 import { createPortal } from 'react-dom';
-import { Category, Expense } from '../types';
+import { Attachment, Expense } from '../types';
 import { createRecurringTransaction } from '../lib/recurring';
-
-const CATEGORIES: Category[] = ['investment', 'debt', 'needs', 'leisure'];
+import { useCurrency } from '../contexts/CurrencyContext';
+import { getCurrencySymbol } from '../lib/currency';
+import { getCategoriesInDisplayOrder, getCategoryLabel, getTopLevelCategory } from '../lib/categories';
+import { getHoldingType } from '../lib/investments';
+import { useCategories } from '../contexts/CategoriesContext';
+import { useHoldings } from '../contexts/HoldingsContext';
+import CategoryPicker from './CategoryPicker';
+import { useAccounts } from '../contexts/AccountsContext';
+import CurrencySelect from './CurrencySelect';
+import AccountPicker from './AccountPicker';
+import TagInput from './TagInput';
+import AttachmentInput from './AttachmentInput';
 
 interface Props {
     isOpen: boolean;
     onClose: () => void;
-    onSave: (expense: { name: string; amount: number; category: Category; is_recurring?: boolean }) => void;
+    onSave: (expense: {
+        name: string;
+        amount: number;
+        currency: string;
+        account_id: string | null;
+        category_id: string | null;
+        holding_id: string | null;
+        units: number | null;
+        splits: { category_id: string | null; amount: number }[]; // Empty when the expense isn't split
+        is_recurring?: boolean;
+        tags: string[];
+        attachments: { add: File[]; remove: Attachment[] }; // Uploaded and deleted by the page on save
+    }) => void;
     expense?: Expense;
 }
 
+type SplitLine = { category_id: string | null; amount: string };
+
+// Lines may be a rounding error away from the total
+const SPLIT_TOLERANCE = 0.005;
+
 export default function ExpenseModal({ isOpen, onClose, onSave, expense }: Props) {
+    const { baseCurrency } = useCurrency();
+    const { categories } = useCategories();
+    const { accounts } = useAccounts();
+    const { holdings } = useHoldings();
+    const defaultCategoryId = categories.find(category => !category.parent_id)?.id ?? null;
     const [formData, setFormData] = useState({
         name: '',
         amount: '',
-        category: CATEGORIES[0],
+        currency: baseCurrency,
+        account_id: null as string | null,
+        category_id: defaultCategoryId,
+        holding_id: null as string | null,
+        units: '',
         is_recurring: false,
+        tags: [] as string[],
     });
+    const [splitLines, setSplitLines] = useState<SplitLine[]>([]);
+    const [attachments, setAttachments] = useState<Attachment[]>([]);
+    const [files, setFiles] = useState<File[]>([]);
 
     useEffect(() => {
         if (expense) {
             setFormData({
                 name: expense.name,
                 amount: expense.amount.toString(),
-                category: expense.category,
+                currency: expense.currency,
+                account_id: expense.account_id ?? null,
+                category_id: expense.category_id,
+                holding_id: expense.holding_id ?? null,
+                units: expense.units?.toString() ?? '',
                 is_recurring: expense.is_recurring || false,
+                tags: (expense.tags ?? []).map(tag => tag.name),
             });
+            setAttachments(expense.attachments ?? []);
+            setSplitLines((expense.splits ?? []).map(line => ({ category_id: line.category_id, amount: line.amount.toString() })));
         } else {
+            setAttachments([]);
             setFormData({
                 name: '',
                 amount: '',
-                category: CATEGORIES[0],
+                currency: baseCurrency,
+                account_id: null,
+                category_id: defaultCategoryId,
+                holding_id: null,
+                units: '',
                 is_recurring: false,
+                tags: [],
             });
+            setSplitLines([]);
         }
-    }, [expense]);
+        setFiles([]);
+    }, [expense, defaultCategoryId, baseCurrency]);
+
+    // Purchases can be linked to a holding when the expense is in the Investment category
+    const isInvestment = getTopLevelCategory(categories, formData.category_id)?.name.toLowerCase() === 'investment';
+    const selectedHolding = holdings.find(holding => holding.id === formData.holding_id);
+    const showHolding = holdings.length > 0 && (isInvestment || !!selectedHolding);
+    const holdingInUnits = !!selectedHolding && getHoldingType(selectedHolding.type).inUnits;
+
+    // A split expense's lines have to add up to its amount before it can be saved
+    const isSplit = splitLines.length > 0;
+    const splits = splitLines.map(line => ({ category_id: line.category_id, amount: parseFloat(line.amount) || 0 }));
+    const unassigned = (parseFloat(formData.amount) || 0) - splits.reduce((sum, line) => sum + line.amount, 0);
+    const isSplitValid = !isSplit || Math.abs(unassigned) < SPLIT_TOLERANCE;
+
+    const startSplit = () => setSplitLines([
+        { category_id: formData.category_id, amount: formData.amount },
+        { category_id: null, amount: '' }
+    ]);
+
+    const updateSplitLine = (index: number, changes: Partial<SplitLine>) =>
+        setSplitLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        
+        if (!isSplitValid) return;
+
+        // A split expense keeps its largest line's category, for places that show only one
+        const largestLine = splits.reduce<(typeof splits)[number] | null>(
+            (largest, line) => (!largest || line.amount > largest.amount ? line : largest),
+            null
+        );
+
         // Create the expense
         onSave({
             name: formData.name.trim(),
             amount: parseFloat(formData.amount),
-            category: formData.category,
-            is_recurring: formData.is_recurring,
+            currency: formData.currency,
+            account_id: formData.account_id,
+            category_id: largestLine ? largestLine.category_id : formData.category_id,
+            holding_id: showHolding ? formData.holding_id : null,
+            units: showHolding && holdingInUnits ? parseFloat(formData.units) || null : null,
+            splits,
+            is_recurring: formData.is_recurring && !isSplit,
+            tags: formData.tags,
+            attachments: {
+                add: files,
+                remove: (expense?.attachments ?? []).filter(attachment => !attachments.includes(attachment))
+            },
         });
 
         onClose();
-        setFormData({ name: '', amount: '', category: CATEGORIES[0], is_recurring: false });
+        setFormData({
+            name: '',
+            amount: '',
+            currency: baseCurrency,
+            account_id: null,
+            category_id: defaultCategoryId,
+            holding_id: null,
+            units: '',
+            is_recurring: false,
+            tags: []
+        });
+        setSplitLines([]);
+        setAttachments([]);
+        setFiles([]);
     };
 
     if (!isOpen) return null;
@@ -91,45 +196,167 @@ export default function ExpenseModal({ isOpen, onClose, onSave, expense }: Props
                                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Amount</label>
                                 <div className="relative rounded-lg shadow-sm">
                                     <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">₹</span>
+                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{getCurrencySymbol(formData.currency)}</span>
                                     </div>
                                     <input
                                         type="number"
                                         value={formData.amount}
                                         onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
-                                        className="block w-full rounded-lg border-0 py-2.5 pl-7 pr-12 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6"
+                                        className={`block w-full rounded-lg border-0 py-2.5 ${getCurrencySymbol(formData.currency).length > 1 ? 'pl-12' : 'pl-7'} pr-20 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6`}
                                         placeholder="0.00"
                                         required
                                         min="0"
                                         step="0.01"
                                     />
-                                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
-                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">INR</span>
-                                    </div>
+                                    <CurrencySelect
+                                        value={formData.currency}
+                                        onChange={(currency) => setFormData(prev => ({ ...prev, currency }))}
+                                    />
                                 </div>
                             </div>
 
+                            {accounts.length > 0 && (
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Account</label>
+                                    <AccountPicker
+                                        value={formData.account_id}
+                                        onChange={(account_id, account) => setFormData(prev => ({ ...prev, account_id, currency: account?.currency ?? prev.currency }))}
+                                    />
+                                </div>
+                            )}
+
                             <div className="space-y-1.5">
-                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Category</label>
-                                <div className="grid grid-cols-2 gap-3">
-                                    {CATEGORIES.map((category) => (
+                                <div className="flex items-center justify-between">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Category</label>
+                                    {!formData.is_recurring && (
                                         <button
-                                            key={category}
                                             type="button"
-                                            onClick={() => setFormData(prev => ({ ...prev, category }))}
-                                            className={`py-2.5 px-4 rounded-lg text-sm font-medium transition-colors shadow-sm hover:shadow ring-1 ring-inset ${
-                                                formData.category === category
-                                                    ? 'bg-blue-50 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400 ring-blue-600/20 dark:ring-blue-400/20 shadow-blue-100 dark:shadow-blue-900/50'
-                                                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 ring-gray-300 dark:ring-gray-600'
-                                            }`}
+                                            onClick={() => (isSplit ? setSplitLines([]) : startSplit())}
+                                            className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
                                         >
-                                            {category.charAt(0).toUpperCase() + category.slice(1)}
+                                            {isSplit ? "Don't split" : 'Split across categories'}
                                         </button>
-                                    ))}
+                                    )}
                                 </div>
+                                {isSplit ? (
+                                    <div className="space-y-2">
+                                        {splitLines.map((line, index) => (
+                                            <div key={index} className="flex gap-2">
+                                                <select
+                                                    value={line.category_id ?? ''}
+                                                    onChange={(e) => updateSplitLine(index, { category_id: e.target.value || null })}
+                                                    className="block w-full rounded-lg border-0 px-3 py-2 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm"
+                                                    required
+                                                >
+                                                    <option value="">Choose a category</option>
+                                                    {getCategoriesInDisplayOrder(categories).map(category => (
+                                                        <option key={category.id} value={category.id}>{getCategoryLabel(categories, category.id)}</option>
+                                                    ))}
+                                                </select>
+                                                <input
+                                                    type="number"
+                                                    value={line.amount}
+                                                    onChange={(e) => updateSplitLine(index, { amount: e.target.value })}
+                                                    className="block w-28 shrink-0 rounded-lg border-0 px-3 py-2 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm"
+                                                    placeholder="0.00"
+                                                    required
+                                                    min="0.01"
+                                                    step="0.01"
+                                                />
+                                                <button
+                                                    type="button"
+                                                    onClick={() => setSplitLines(prev => prev.filter((_, i) => i !== index))}
+                                                    disabled={splitLines.length <= 2}
+                                                    className="p-1 text-gray-400 hover:text-red-500 dark:text-gray-500 dark:hover:text-red-400 disabled:opacity-30 disabled:hover:text-gray-400"
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </button>
+                                            </div>
+                                        ))}
+                                        <div className="flex items-center justify-between text-xs">
+                                            <button
+                                                type="button"
+                                                onClick={() => setSplitLines(prev => [...prev, { category_id: null, amount: unassigned > 0 ? unassigned.toFixed(2) : '' }])}
+                                                className="inline-flex items-center gap-1 font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+                                            >
+                                                <Plus className="h-3.5 w-3.5" />
+                                                Add line
+                                            </button>
+                                            <span className={isSplitValid ? 'text-gray-500 dark:text-gray-400' : 'text-red-600 dark:text-red-400'}>
+                                                {isSplitValid
+                                                    ? 'Lines add up to the amount'
+                                                    : unassigned > 0
+                                                        ? `${getCurrencySymbol(formData.currency)}${unassigned.toFixed(2)} left to assign`
+                                                        : `${getCurrencySymbol(formData.currency)}${(-unassigned).toFixed(2)} more than the amount`}
+                                            </span>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <CategoryPicker
+                                        value={formData.category_id}
+                                        onChange={(category_id) => setFormData(prev => ({ ...prev, category_id }))}
+                                    />
+                                )}
+                            </div>
+
+                            {showHolding && (
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Holding</label>
+                                    <div className="flex gap-2">
+                                        <select
+                                            value={formData.holding_id ?? ''}
+                                            onChange={(e) => {
+                                                const holding = holdings.find(h => h.id === e.target.value);
+                                                setFormData(prev => ({
+                                                    ...prev,
+                                                    holding_id: holding?.id ?? null,
+                                                    currency: holding?.currency ?? prev.currency
+                                                }));
+                                            }}
+                                            className="block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm"
+                                        >
+                                            <option value="">Not a purchase</option>
+                                            {holdings.map(holding => (
+                                                <option key={holding.id} value={holding.id}>{holding.name}</option>
+                                            ))}
+                                        </select>
+                                        {holdingInUnits && (
+                                            <input
+                                                type="number"
+                                                value={formData.units}
+                                                onChange={(e) => setFormData(prev => ({ ...prev, units: e.target.value }))}
+                                                className="block w-32 rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm"
+                                                placeholder="Units"
+                                                required
+                                                min="0.0001"
+                                                step="any"
+                                            />
+                                        )}
+                                    </div>
+                                </div>
+                            )}
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Tags</label>
+                                <TagInput
+                                    value={formData.tags}
+                                    onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+                                />
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Attachments</label>
+                                <AttachmentInput
+                                    attachments={attachments}
+                                    files={files}
+                                    onChange={(kept, picked) => {
+                                        setAttachments(kept);
+                                        setFiles(picked);
+                                    }}
+                                />
                             </div>
 
-                            {!expense && (
+                            {!expense && !isSplit && (
                                 <div className="flex items-center">
                                     <input
                                         type="checkbox"
@@ -155,7 +382,8 @@ export default function ExpenseModal({ isOpen, onClose, onSave, expense }: Props
                             </button>
                             <button
                                 type="submit"
-                                className="rounded-lg bg-blue-600 dark:bg-blue-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors"
+                                disabled={!isSplitValid}
+                                className="rounded-lg bg-blue-600 dark:bg-blue-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                                 {expense ? 'Save Changes' : 'Add Expense'}
                             </button>
@@ -1,8 +1,11 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ChevronDown, LogOut, Wallet, LayoutDashboard, BarChart3, Repeat, Menu, X, Sun, Moon, Target } from 'lucide-react';
+import { ChevronDown, LogOut, Wallet, LayoutDashboard, BarChart3, Repeat, Menu, X, Sun, Moon, Target, Download, Upload, Tags, WalletCards, Coins, Landmark, HandCoins, TrendingUp, List, Trash2 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { Link, NavLink, useLocation } from 'react-router-dom';
+import DataExportModal from './DataExportModal';
+import DataRestoreModal from './DataRestoreModal';
+import CurrencySettingsModal from './CurrencySettingsModal';
 
 interface UserType {
     email: string;
@@ -15,6 +18,9 @@ const Header = () => {
     const { isDarkMode, toggleTheme } = useTheme();
     const [showProfileMenu, setShowProfileMenu] = useState(false);
     const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+    const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+    const [isRestoreModalOpen, setIsRestoreModalOpen] = useState(false);
+    const [isCurrencyModalOpen, setIsCurrencyModalOpen] = useState(false);
     const profileMenuRef = useRef<HTMLDivElement>(null);
     const location = useLocation();
 
@@ -64,6 +70,71 @@ const Header = () => {
                 <LayoutDashboard className="h-4 w-4" />
                 <span>Dashboard</span>
             </NavLink>
+            <NavLink
+                to="/transactions"
+                className={({ isActive }) =>
+                    `flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium ${
+                        isActive
+                            ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+                            : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+                    }`
+                }
+            >
+                <List className="h-4 w-4" />
+                <span>Transactions</span>
+            </NavLink>
+            <NavLink
+                to="/envelopes"
+                className={({ isActive }) =>
+                    `flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium ${
+                        isActive
+                            ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+                            : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+                    }`
+                }
+            >
+                <WalletCards className="h-4 w-4" />
+                <span>Envelopes</span>
+            </NavLink>
+            <NavLink
+                to="/accounts"
+                className={({ isActive }) =>
+                    `flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium ${
+                        isActive
+                            ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+                            : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+                    }`
+                }
+            >
+                <Landmark className="h-4 w-4" />
+                <span>Accounts</span>
+            </NavLink>
+            <NavLink
+                to="/loans"
+                className={({ isActive }) =>
+                    `flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium ${
+                        isActive
+                            ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+                            : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+                    }`
+                }
+            >
+                <HandCoins className="h-4 w-4" />
+                <span>Loans</span>
+            </NavLink>
+            <NavLink
+                to="/portfolio"
+                className={({ isActive }) =>
+                    `flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium ${
+                        isActive
+                            ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+                            : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+                    }`
+                }
+            >
+                <TrendingUp className="h-4 w-4" />
+                <span>Portfolio</span>
+            </NavLink>
             <NavLink
                 to="/recurring"
                 className={({ isActive }) =>
@@ -90,6 +161,19 @@ const Header = () => {
                 <Target className="h-4 w-4" />
                 <span>Goals</span>
             </NavLink>
+            <NavLink
+                to="/categories"
+                className={({ isActive }) =>
+                    `flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium ${
+                        isActive
+                            ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+                            : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+                    }`
+                }
+            >
+                <Tags className="h-4 w-4" />
+                <span>Categories</span>
+            </NavLink>
             <NavLink
                 to="/analytics"
                 className={({ isActive }) =>
@@ -178,6 +262,44 @@ const Header = () => {
                                             {user.email}
                                         </p>
                                     </div>
+                                    <button
+                                        onClick={() => {
+                                            setShowProfileMenu(false);
+                                            setIsCurrencyModalOpen(true);
+                                        }}
+                                        className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center space-x-2 transition-colors duration-200"
+                                    >
+                                        <Coins className="h-4 w-4" />
+                                        <span>Currencies</span>
+                                    </button>
+                                    <button
+                                        onClick={() => {
+                                            setShowProfileMenu(false);
+                                            setIsExportModalOpen(true);
+                                        }}
+                                        className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center space-x-2 transition-colors duration-200"
+                                    >
+                                        <Download className="h-4 w-4" />
+                                        <span>Export data</span>
+                                    </button>
+                                    <button
+                                        onClick={() => {
+                                            setShowProfileMenu(false);
+                                            setIsRestoreModalOpen(true);
+                                        }}
+                                        className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center space-x-2 transition-colors duration-200"
+                                    >
+                                        <Upload className="h-4 w-4" />
+                                        <span>Restore backup</span>
+                                    </button>
+                                    <Link
+                                        to="/trash"
+                                        onClick={() => setShowProfileMenu(false)}
+                                        className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center space-x-2 transition-colors duration-200"
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                        <span>Trash</span>
+                                    </Link>
                                     <button
                                         onClick={handleSignOut}
                                         className="w-full text-left px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 flex items-center space-x-2 transition-colors duration-200"
@@ -200,6 +322,19 @@ const Header = () => {
                     </div>
                 )}
             </div>
+
+            <CurrencySettingsModal
+                isOpen={isCurrencyModalOpen}
+                onClose={() => setIsCurrencyModalOpen(false)}
+            />
+            <DataExportModal
+                isOpen={isExportModalOpen}
+                onClose={() => setIsExportModalOpen(false)}
+            />
+            <DataRestoreModal
+                isOpen={isRestoreModalOpen}
+                onClose={() => setIsRestoreModalOpen(false)}
+            />
         </header>
     );
 };
@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { createPortal } from 'react-dom';
+import { Holding, HoldingType } from '../types';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { HOLDING_TYPES } from '../lib/investments';
+import CurrencySelect from './CurrencySelect';
+
+export interface HoldingFormValues {
+    name: string;
+    type: HoldingType;
+    symbol: string | null;
+    currency: string;
+}
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: (values: HoldingFormValues) => Promise<void>;
+    holding?: Holding;
+}
+
+export default function HoldingModal({ isOpen, onClose, onSave, holding }: Props) {
+    const { baseCurrency } = useCurrency();
+    const [formData, setFormData] = useState({ name: '', type: 'mutual_fund' as HoldingType, symbol: '', currency: baseCurrency });
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (holding) {
+            setFormData({ name: holding.name, type: holding.type, symbol: holding.symbol ?? '', currency: holding.currency });
+        } else {
+            setFormData({ name: '', type: 'mutual_fund', symbol: '', currency: baseCurrency });
+        }
+    }, [holding, baseCurrency, isOpen]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            await onSave({
+                name: formData.name.trim(),
+                type: formData.type,
+                symbol: formData.symbol.trim() || null,
+                currency: formData.currency
+            });
+            onClose();
+        } catch {
+            // The page reports the error; keep the form open so it can be corrected
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const modal = (
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                            {holding ? 'Edit Holding' : 'Add Holding'}
+                        </h2>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="p-6">
+                        <div className="space-y-5">
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Name</label>
+                                <input
+                                    type="text"
+                                    value={formData.name}
+                                    onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                                    className="block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6"
+                                    placeholder="e.g. Nifty 50 Index Fund, SBI FD"
+                                    required
+                                />
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Type</label>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {HOLDING_TYPES.map(({ value, label, Icon }) => (
+                                        <button
+                                            key={value}
+                                            type="button"
+                                            onClick={() => setFormData(prev => ({ ...prev, type: value }))}
+                                            className={`flex items-center justify-center gap-2 py-2 px-3 rounded-lg text-sm font-medium transition-colors ring-1 ring-inset ${
+                                                formData.type === value
+                                                    ? 'bg-blue-50 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400 ring-blue-600/20 dark:ring-blue-400/20'
+                                                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 ring-gray-300 dark:ring-gray-600'
+                                            }`}
+                                        >
+                                            <Icon className="h-4 w-4" />
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Scheme code or ticker</label>
+                                <div className="relative rounded-lg shadow-sm">
+                                    <input
+                                        type="text"
+                                        value={formData.symbol}
+                                        onChange={(e) => setFormData(prev => ({ ...prev, symbol: e.target.value }))}
+                                        className="block w-full rounded-lg border-0 py-2.5 pl-3 pr-20 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6"
+                                        placeholder="Optional, e.g. 120716 or INFY"
+                                    />
+                                    <CurrencySelect
+                                        value={formData.currency}
+                                        onChange={(currency) => setFormData(prev => ({ ...prev, currency }))}
+                                    />
+                                </div>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    Imported prices are matched on this code, or on the holding's name
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSaving}
+                                className="rounded-lg bg-blue-600 dark:bg-blue-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {holding ? 'Save Changes' : 'Add Holding'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </>
+    );
+
+    return createPortal(modal, document.body);
+}
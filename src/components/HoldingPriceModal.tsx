@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import { X, Trash2 } from 'lucide-react';
+import { createPortal } from 'react-dom';
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+import "../styles/datepicker.css";
+import { format, parseISO, startOfDay } from 'date-fns';
+import { Holding, HoldingPrice } from '../types';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { getCurrencySymbol } from '../lib/currency';
+import { getHoldingType } from '../lib/investments';
+import { toDateString } from '../lib/schedule';
+
+interface Props {
+    holding: Holding;
+    prices: HoldingPrice[]; // This holding's prices
+    onClose: () => void;
+    onSave: (price: { date: string; price: number }) => Promise<void>;
+    onDelete: (id: string) => Promise<void>;
+}
+
+const inputClassName = "block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6";
+
+// Number of past prices listed under the form
+const RECENT_PRICES = 5;
+
+export default function HoldingPriceModal({ holding, prices, onClose, onSave, onDelete }: Props) {
+    const { formatMoney } = useCurrency();
+    const [date, setDate] = useState(startOfDay(new Date()));
+    const [price, setPrice] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const { inUnits } = getHoldingType(holding.type);
+
+    useEffect(() => {
+        setDate(startOfDay(new Date()));
+        setPrice('');
+    }, [holding]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            await onSave({ date: toDateString(date), price: parseFloat(price) });
+            setPrice('');
+        } catch {
+            // The page reports the error; keep the form open so it can be corrected
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const recentPrices = [...prices].sort((a, b) => b.date.localeCompare(a.date)).slice(0, RECENT_PRICES);
+
+    const modal = (
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <div>
+                            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{holding.name}</h2>
+                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                                {inUnits ? 'Record the NAV or price of one unit' : 'Record what the holding is worth'}
+                            </p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="p-6">
+                        <div className="space-y-5">
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Date</label>
+                                    <DatePicker
+                                        selected={date}
+                                        onChange={(value: Date | null) => value && setDate(startOfDay(value))}
+                                        dateFormat="MMM d, yyyy"
+                                        maxDate={new Date()}
+                                        className={inputClassName}
+                                        wrapperClassName="!block"
+                                        popperClassName="!z-50"
+                                    />
+                                </div>
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{inUnits ? 'Price' : 'Value'}</label>
+                                    <div className="relative rounded-lg shadow-sm">
+                                        <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                                            <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{getCurrencySymbol(holding.currency)}</span>
+                                        </div>
+                                        <input
+                                            type="number"
+                                            value={price}
+                                            onChange={(e) => setPrice(e.target.value)}
+                                            className={`${inputClassName} ${getCurrencySymbol(holding.currency).length > 1 ? 'pl-12' : 'pl-7'}`}
+                                            placeholder="0.00"
+                                            required
+                                            min="0.0001"
+                                            step="any"
+                                        />
+                                    </div>
+                                </div>
+                            </div>
+
+                            {recentPrices.length > 0 && (
+                                <div className="divide-y divide-gray-100 dark:divide-gray-700">
+                                    {recentPrices.map((p) => (
+                                        <div key={p.id} className="flex items-center justify-between py-1.5 text-sm text-gray-700 dark:text-gray-300">
+                                            <span>{format(parseISO(p.date), 'MMM d, yyyy')}</span>
+                                            <div className="flex items-center gap-2">
+                                                <span className="font-medium">{formatMoney(p.price, { currency: holding.currency, decimals: inUnits ? 4 : undefined })}</span>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => onDelete(p.id)}
+                                                    className="p-1 text-gray-400 hover:text-red-500 dark:text-gray-500 dark:hover:text-red-400"
+                                                >
+                                                    <Trash2 className="h-3.5 w-3.5" />
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                            >
+                                Done
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSaving}
+                                className="rounded-lg bg-blue-600 dark:bg-blue-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Save Price
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </>
+    );
+
+    return createPortal(modal, document.body);
+}
@@ -1,38 +1,61 @@
 import React, { useState, useEffect } from 'react';
 import { X, IndianRupee } from 'lucide-react';
 import { createPortal } from 'react-dom';
-import { Income } from '../types';
+import { Attachment, Income } from '../types';
 import { createRecurringTransaction } from '../lib/recurring';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { getCurrencySymbol } from '../lib/currency';
+import { useAccounts } from '../contexts/AccountsContext';
+import CurrencySelect from './CurrencySelect';
+import AccountPicker from './AccountPicker';
+import TagInput from './TagInput';
+import AttachmentInput from './AttachmentInput';
 
 interface Props {
     isOpen: boolean;
     onClose: () => void;
-    onSave: (income: { name: string; amount: number; is_recurring?: boolean }) => void;
+    onSave: (income: { name: string; amount: number; currency: string; account_id: string | null; is_recurring?: boolean; tags: string[]; attachments: { add: File[]; remove: Attachment[] } }) => void;
     income?: Income;
 }
 
 export default function IncomeModal({ isOpen, onClose, onSave, income }: Props) {
+    const { baseCurrency } = useCurrency();
+    const { accounts } = useAccounts();
     const [formData, setFormData] = useState({
         name: '',
         amount: '',
+        currency: baseCurrency,
+        account_id: null as string | null,
         is_recurring: false,
+        tags: [] as string[],
     });
+    const [attachments, setAttachments] = useState<Attachment[]>([]);
+    const [files, setFiles] = useState<File[]>([]);
 
     useEffect(() => {
         if (income) {
             setFormData({
                 name: income.name,
                 amount: income.amount.toString(),
+                currency: income.currency,
+                account_id: income.account_id ?? null,
                 is_recurring: income.is_recurring || false,
+                tags: (income.tags ?? []).map(tag => tag.name),
             });
+            setAttachments(income.attachments ?? []);
         } else {
+            setAttachments([]);
             setFormData({
                 name: '',
                 amount: '',
+                currency: baseCurrency,
+                account_id: null,
                 is_recurring: false,
+                tags: [],
             });
         }
-    }, [income]);
+        setFiles([]);
+    }, [income, baseCurrency]);
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -41,11 +64,20 @@ export default function IncomeModal({ isOpen, onClose, onSave, income }: Props)
         onSave({
             name: formData.name.trim(),
             amount: parseFloat(formData.amount),
+            currency: formData.currency,
+            account_id: formData.account_id,
             is_recurring: formData.is_recurring,
+            tags: formData.tags,
+            attachments: {
+                add: files,
+                remove: (income?.attachments ?? []).filter(attachment => !attachments.includes(attachment))
+            },
         });
 
         onClose();
-        setFormData({ name: '', amount: '', is_recurring: false });
+        setFormData({ name: '', amount: '', currency: baseCurrency, account_id: null, is_recurring: false, tags: [] });
+        setAttachments([]);
+        setFiles([]);
     };
 
     if (!isOpen) return null;
@@ -85,24 +117,55 @@ export default function IncomeModal({ isOpen, onClose, onSave, income }: Props)
                                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Amount</label>
                                 <div className="relative rounded-lg shadow-sm">
                                     <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">₹</span>
+                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{getCurrencySymbol(formData.currency)}</span>
                                     </div>
                                     <input
                                         type="number"
                                         value={formData.amount}
                                         onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
-                                        className="block w-full rounded-lg border-0 py-2.5 pl-7 pr-12 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6"
+                                        className={`block w-full rounded-lg border-0 py-2.5 ${getCurrencySymbol(formData.currency).length > 1 ? 'pl-12' : 'pl-7'} pr-20 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6`}
                                         placeholder="0.00"
                                         required
                                         min="0"
                                         step="0.01"
                                     />
-                                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
-                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">INR</span>
-                                    </div>
+                                    <CurrencySelect
+                                        value={formData.currency}
+                                        onChange={(currency) => setFormData(prev => ({ ...prev, currency }))}
+                                    />
                                 </div>
                             </div>
 
+                            {accounts.length > 0 && (
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Account</label>
+                                    <AccountPicker
+                                        value={formData.account_id}
+                                        onChange={(account_id, account) => setFormData(prev => ({ ...prev, account_id, currency: account?.currency ?? prev.currency }))}
+                                    />
+                                </div>
+                            )}
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Tags</label>
+                                <TagInput
+                                    value={formData.tags}
+                                    onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+                                />
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Attachments</label>
+                                <AttachmentInput
+                                    attachments={attachments}
+                                    files={files}
+                                    onChange={(kept, picked) => {
+                                        setAttachments(kept);
+                                        setFiles(picked);
+                                    }}
+                                />
+                            </div>
+
                             {!income && (
                                 <div className="flex items-center">
                                     <input
@@ -0,0 +1,280 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { createPortal } from 'react-dom';
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+import "../styles/datepicker.css";
+import { parseISO, startOfDay } from 'date-fns';
+import { Loan } from '../types';
+import { useCategories } from '../contexts/CategoriesContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useAccounts } from '../contexts/AccountsContext';
+import { getTopLevelCategories } from '../lib/categories';
+import { getCurrencySymbol } from '../lib/currency';
+import { calculateEmi } from '../lib/loans';
+import { toDateString } from '../lib/schedule';
+import CurrencySelect from './CurrencySelect';
+import AccountPicker from './AccountPicker';
+import CategoryPicker from './CategoryPicker';
+
+export interface LoanFormValues {
+    name: string;
+    principal: number;
+    annual_rate: number;
+    tenure_months: number;
+    start_date: string;
+    currency: string;
+    account_id: string | null;
+    category_id: string | null; // For the EMI recurring transaction
+    create_emi: boolean;
+}
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: (values: LoanFormValues) => Promise<void>;
+    loan?: Loan;
+}
+
+const inputClassName = "block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6";
+
+export default function LoanModal({ isOpen, onClose, onSave, loan }: Props) {
+    const { categories } = useCategories();
+    const { baseCurrency, formatMoney } = useCurrency();
+    const { accounts } = useAccounts();
+    const [formData, setFormData] = useState({
+        name: '',
+        principal: '',
+        annual_rate: '',
+        tenure_months: '',
+        currency: baseCurrency,
+        account_id: null as string | null,
+        category_id: null as string | null,
+        create_emi: true
+    });
+    const [startDate, setStartDate] = useState(startOfDay(new Date()));
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (loan) {
+            setFormData({
+                name: loan.name,
+                principal: loan.principal.toString(),
+                annual_rate: loan.annual_rate.toString(),
+                tenure_months: loan.tenure_months.toString(),
+                currency: loan.currency,
+                account_id: loan.account_id,
+                category_id: null,
+                create_emi: false
+            });
+            setStartDate(parseISO(loan.start_date));
+        } else {
+            // EMIs usually belong in the Debt category
+            const debt = getTopLevelCategories(categories).find(category => category.name.toLowerCase() === 'debt');
+            setFormData({
+                name: '',
+                principal: '',
+                annual_rate: '',
+                tenure_months: '',
+                currency: baseCurrency,
+                account_id: null,
+                category_id: debt?.id ?? null,
+                create_emi: true
+            });
+            setStartDate(startOfDay(new Date()));
+        }
+    }, [loan, categories, baseCurrency, isOpen]);
+
+    const principal = parseFloat(formData.principal);
+    const annualRate = parseFloat(formData.annual_rate);
+    const tenureMonths = parseInt(formData.tenure_months);
+    const emi = principal > 0 && annualRate >= 0 && tenureMonths > 0 ? calculateEmi(principal, annualRate, tenureMonths) : null;
+    // A loan that already has an EMI recurring transaction keeps it in step when the terms change
+    const canCreateEmi = !loan?.recurring_id;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            await onSave({
+                name: formData.name.trim(),
+                principal,
+                annual_rate: annualRate,
+                tenure_months: tenureMonths,
+                start_date: toDateString(startDate),
+                currency: formData.currency,
+                account_id: formData.account_id,
+                category_id: formData.category_id,
+                create_emi: canCreateEmi && formData.create_emi
+            });
+            onClose();
+        } catch {
+            // The page reports the error; keep the form open so it can be corrected
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const modal = (
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4 overflow-y-auto">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden my-auto">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                            {loan ? 'Edit Loan' : 'Add Loan'}
+                        </h2>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="p-6 overflow-y-auto max-h-[calc(100vh-8rem)]">
+                        <div className="space-y-5">
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Name</label>
+                                <input
+                                    type="text"
+                                    value={formData.name}
+                                    onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                                    className={inputClassName}
+                                    placeholder="e.g. Home loan, Car loan"
+                                    required
+                                />
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Principal</label>
+                                <div className="relative rounded-lg shadow-sm">
+                                    <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{getCurrencySymbol(formData.currency)}</span>
+                                    </div>
+                                    <input
+                                        type="number"
+                                        value={formData.principal}
+                                        onChange={(e) => setFormData(prev => ({ ...prev, principal: e.target.value }))}
+                                        className={`block w-full rounded-lg border-0 py-2.5 ${getCurrencySymbol(formData.currency).length > 1 ? 'pl-12' : 'pl-7'} pr-20 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6`}
+                                        placeholder="0.00"
+                                        required
+                                        min="0.01"
+                                        step="0.01"
+                                    />
+                                    <CurrencySelect
+                                        value={formData.currency}
+                                        onChange={(currency) => setFormData(prev => ({ ...prev, currency }))}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Interest rate (% a year)</label>
+                                    <input
+                                        type="number"
+                                        value={formData.annual_rate}
+                                        onChange={(e) => setFormData(prev => ({ ...prev, annual_rate: e.target.value }))}
+                                        className={inputClassName}
+                                        placeholder="e.g. 8.5"
+                                        required
+                                        min="0"
+                                        max="99.99"
+                                        step="0.01"
+                                    />
+                                </div>
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Tenure (months)</label>
+                                    <input
+                                        type="number"
+                                        value={formData.tenure_months}
+                                        onChange={(e) => setFormData(prev => ({ ...prev, tenure_months: e.target.value }))}
+                                        className={inputClassName}
+                                        placeholder="e.g. 240"
+                                        required
+                                        min="1"
+                                        max="600"
+                                        step="1"
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">First EMI</label>
+                                <DatePicker
+                                    selected={startDate}
+                                    onChange={(value: Date | null) => value && setStartDate(startOfDay(value))}
+                                    dateFormat="MMM d, yyyy"
+                                    className={inputClassName}
+                                    wrapperClassName="!block"
+                                    popperClassName="!z-50"
+                                />
+                                {emi !== null && (
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                                        EMI of {formatMoney(emi, { currency: formData.currency })} on day {startDate.getDate()} of each month
+                                    </p>
+                                )}
+                            </div>
+
+                            {accounts.length > 0 && (
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Paid from</label>
+                                    <AccountPicker
+                                        value={formData.account_id}
+                                        onChange={(accountId, account) => setFormData(prev => ({
+                                            ...prev,
+                                            account_id: accountId,
+                                            currency: account?.currency ?? prev.currency
+                                        }))}
+                                    />
+                                </div>
+                            )}
+
+                            {canCreateEmi && (
+                                <div className="space-y-3">
+                                    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                                        <input
+                                            type="checkbox"
+                                            checked={formData.create_emi}
+                                            onChange={(e) => setFormData(prev => ({ ...prev, create_emi: e.target.checked }))}
+                                            className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-600 dark:bg-gray-900"
+                                        />
+                                        Post the EMI as a recurring expense
+                                    </label>
+                                    {formData.create_emi && (
+                                        <CategoryPicker
+                                            value={formData.category_id}
+                                            onChange={(categoryId) => setFormData(prev => ({ ...prev, category_id: categoryId }))}
+                                        />
+                                    )}
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSaving}
+                                className="rounded-lg bg-blue-600 dark:bg-blue-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {loan ? 'Save Changes' : 'Add Loan'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </>
+    );
+
+    return createPortal(modal, document.body);
+}
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { X, CheckCircle2 } from 'lucide-react';
+import { createPortal } from 'react-dom';
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+import "../styles/datepicker.css";
+import { format, startOfDay } from 'date-fns';
+import { Loan } from '../types';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { getCurrencySymbol } from '../lib/currency';
+import { simulatePrepayments } from '../lib/loans';
+
+interface Props {
+    loan: Loan;
+    paidCount: number; // EMIs posted so far
+    onClose: () => void;
+}
+
+const inputClassName = "block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6";
+
+// Amortization schedule for a loan, with a what-if for paying part of it off early
+export default function LoanScheduleModal({ loan, paidCount, onClose }: Props) {
+    const { formatMoney } = useCurrency();
+    const [prepayment, setPrepayment] = useState('');
+    const [prepaymentDate, setPrepaymentDate] = useState(startOfDay(new Date()));
+
+    const money = (amount: number) => formatMoney(amount, { currency: loan.currency });
+    const prepaymentAmount = parseFloat(prepayment) || 0;
+    const { original, withPrepayments, interestSaved, instalmentsSaved } = simulatePrepayments(
+        loan,
+        prepaymentAmount > 0 ? [{ date: prepaymentDate, amount: prepaymentAmount }] : []
+    );
+    const isSimulating = prepaymentAmount > 0;
+
+    const modal = (
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-3xl w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <div>
+                            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{loan.name}</h2>
+                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                                {money(loan.principal)} at {loan.annual_rate}% over {loan.tenure_months} months
+                            </p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <div className="p-6 space-y-5 overflow-y-auto max-h-[calc(100vh-8rem)]">
+                        <div className="grid grid-cols-3 gap-3">
+                            <div className="rounded-lg p-3 border border-gray-200 dark:border-gray-700">
+                                <div className="text-xs text-gray-500 dark:text-gray-400">EMI</div>
+                                <div className="text-base font-bold text-gray-900 dark:text-gray-200">{money(original.emi)}</div>
+                            </div>
+                            <div className="rounded-lg p-3 border border-gray-200 dark:border-gray-700">
+                                <div className="text-xs text-gray-500 dark:text-gray-400">Total interest</div>
+                                <div className="text-base font-bold text-gray-900 dark:text-gray-200">{money(withPrepayments.totalInterest)}</div>
+                            </div>
+                            <div className="rounded-lg p-3 border border-gray-200 dark:border-gray-700">
+                                <div className="text-xs text-gray-500 dark:text-gray-400">Closes</div>
+                                <div className="text-base font-bold text-gray-900 dark:text-gray-200">{format(withPrepayments.closingDate, 'MMM yyyy')}</div>
+                            </div>
+                        </div>
+
+                        {/* Prepayment simulator */}
+                        <div className="rounded-lg p-4 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 space-y-3">
+                            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-200">Simulate a prepayment</h3>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                <div className="relative rounded-lg shadow-sm">
+                                    <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{getCurrencySymbol(loan.currency)}</span>
+                                    </div>
+                                    <input
+                                        type="number"
+                                        value={prepayment}
+                                        onChange={(e) => setPrepayment(e.target.value)}
+                                        className={`${inputClassName} ${getCurrencySymbol(loan.currency).length > 1 ? 'pl-12' : 'pl-7'}`}
+                                        placeholder="Lump sum"
+                                        min="0"
+                                        step="0.01"
+                                    />
+                                </div>
+                                <DatePicker
+                                    selected={prepaymentDate}
+                                    onChange={(value: Date | null) => value && setPrepaymentDate(startOfDay(value))}
+                                    dateFormat="MMM d, yyyy"
+                                    className={inputClassName}
+                                    wrapperClassName="!block"
+                                    popperClassName="!z-50"
+                                />
+                            </div>
+                            {isSimulating && (
+                                <p className="text-sm text-gray-700 dark:text-gray-300">
+                                    Saves <span className="font-semibold text-green-600 dark:text-green-400">{money(interestSaved)}</span> in
+                                    interest and {instalmentsSaved} EMI{instalmentsSaved === 1 ? '' : 's'}; the loan would close
+                                    in {format(withPrepayments.closingDate, 'MMMM yyyy')} instead of {format(original.closingDate, 'MMMM yyyy')}.
+                                </p>
+                            )}
+                        </div>
+
+                        {/* Schedule */}
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                                        <th className="py-2 pr-3 font-medium">#</th>
+                                        <th className="py-2 pr-3 font-medium">Date</th>
+                                        <th className="py-2 pr-3 font-medium text-right">Payment</th>
+                                        <th className="py-2 pr-3 font-medium text-right">Interest</th>
+                                        <th className="py-2 pr-3 font-medium text-right">Principal</th>
+                                        {isSimulating && <th className="py-2 pr-3 font-medium text-right">Prepaid</th>}
+                                        <th className="py-2 font-medium text-right">Balance</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+                                    {withPrepayments.schedule.map((row) => (
+                                        <tr key={row.number} className={row.number <= paidCount ? 'text-gray-400 dark:text-gray-500' : ''}>
+                                            <td className="py-1.5 pr-3">
+                                                <span className="inline-flex items-center gap-1">
+                                                    {row.number}
+                                                    {row.number <= paidCount && <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />}
+                                                </span>
+                                            </td>
+                                            <td className="py-1.5 pr-3 whitespace-nowrap">{format(row.date, 'MMM d, yyyy')}</td>
+                                            <td className="py-1.5 pr-3 text-right">{money(row.payment)}</td>
+                                            <td className="py-1.5 pr-3 text-right">{money(row.interest)}</td>
+                                            <td className="py-1.5 pr-3 text-right">{money(row.principal)}</td>
+                                            {isSimulating && <td className="py-1.5 pr-3 text-right">{row.prepayment > 0 ? money(row.prepayment) : ''}</td>}
+                                            <td className="py-1.5 text-right">{money(row.balance)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </>
+    );
+
+    return createPortal(modal, document.body);
+}
@@ -0,0 +1,347 @@
+import { useState, useEffect, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { format } from 'date-fns';
+import { Plus, Edit2, Trash2, X, Info, Loader2, HandCoins, TableProperties } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { db } from '../lib/supabase';
+import { convertToBase } from '../lib/currency';
+import { calculateEmi, getAmortization, getDueEmis, getLoanSchedule, getOutstandingPrincipal, getPaidCount } from '../lib/loans';
+import { createRecurringTransaction, deleteRecurringTransaction, updateRecurringTransaction } from '../lib/recurring';
+import { toDateString } from '../lib/schedule';
+import { Expense, Loan } from '../types';
+import LoanModal, { LoanFormValues } from './LoanModal';
+import LoanScheduleModal from './LoanScheduleModal';
+
+interface DeleteLoanModalProps {
+    loan: Loan;
+    onClose: () => void;
+    onConfirm: (stopEmi: boolean) => Promise<void>;
+}
+
+function DeleteLoanModal({ loan, onClose, onConfirm }: DeleteLoanModalProps) {
+    const [stopEmi, setStopEmi] = useState(true);
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    const handleConfirm = async () => {
+        setIsDeleting(true);
+        try {
+            await onConfirm(stopEmi);
+            onClose();
+        } catch (error) {
+            console.error('Error deleting loan:', error);
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    return createPortal(
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Delete {loan.name}</h2>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <div className="p-6 space-y-4">
+                        <div className="bg-blue-50 dark:bg-blue-900/50 border border-blue-200 dark:border-blue-800 rounded-lg p-3">
+                            <div className="flex items-center gap-1.5">
+                                <Info className="h-4 w-4 text-blue-600 dark:text-blue-400 flex-shrink-0" />
+                                <p className="text-sm text-blue-700 dark:text-blue-300">
+                                    EMIs already posted are kept as expenses.
+                                </p>
+                            </div>
+                        </div>
+
+                        {loan.recurring_id && (
+                            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                                <input
+                                    type="checkbox"
+                                    checked={stopEmi}
+                                    onChange={(e) => setStopEmi(e.target.checked)}
+                                    className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-600 dark:bg-gray-900"
+                                />
+                                Also delete the EMI recurring transaction
+                            </label>
+                        )}
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                                disabled={isDeleting}
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleConfirm}
+                                disabled={isDeleting}
+                                className="rounded-lg bg-red-600 dark:bg-red-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-red-700 dark:hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-600 dark:focus:ring-red-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {isDeleting ? (
+                                    <>
+                                        <Loader2 className="h-4 w-4 mr-2 inline animate-spin" />
+                                        Deleting...
+                                    </>
+                                ) : (
+                                    'Delete Loan'
+                                )}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </>,
+        document.body
+    );
+}
+
+export default function Loans() {
+    const { user } = useAuth();
+    const { baseCurrency, rates, formatMoney } = useCurrency();
+    const [loans, setLoans] = useState<Loan[]>([]);
+    const [postedEmis, setPostedEmis] = useState<Expense[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editingLoan, setEditingLoan] = useState<Loan | undefined>();
+    const [loanToDelete, setLoanToDelete] = useState<Loan | null>(null);
+    const [scheduleLoan, setScheduleLoan] = useState<Loan | null>(null);
+
+    const fetchLoans = useCallback(async () => {
+        if (!user) return;
+        try {
+            const data: Loan[] = await db.loans.getAll(user.id);
+            setLoans(data);
+            setPostedEmis(await db.expenses.getByRecurring(data.flatMap(loan => (loan.recurring_id ? [loan.recurring_id] : []))));
+        } catch (error) {
+            console.error('Error fetching loans:', error);
+            toast.error('Failed to load loans');
+        } finally {
+            setLoading(false);
+        }
+    }, [user]);
+
+    useEffect(() => {
+        fetchLoans();
+    }, [fetchLoans]);
+
+    const loanSummaries = loans.map(loan => {
+        const amortization = getAmortization(loan);
+        const paidCount = getPaidCount(loan, postedEmis);
+        return {
+            loan,
+            amortization,
+            paidCount,
+            outstanding: getOutstandingPrincipal(loan, amortization, paidCount),
+            nextEmi: amortization.schedule[paidCount]
+        };
+    });
+
+    const toBase = (amount: number, currency: string) => convertToBase(amount, currency, { baseCurrency, rates });
+    const totalOutstanding = loanSummaries.reduce((sum, { loan, outstanding }) => sum + toBase(outstanding, loan.currency), 0);
+    const totalEmi = loanSummaries
+        .filter(({ nextEmi }) => nextEmi)
+        .reduce((sum, { loan, amortization }) => sum + toBase(amortization.emi, loan.currency), 0);
+
+    const handleSave = async (values: LoanFormValues) => {
+        if (!user) return;
+        const { category_id, create_emi, ...terms } = values;
+        // The recurring transaction posts the EMI on the loan's own schedule
+        const emiTransaction = {
+            name: `${terms.name} EMI`,
+            amount: calculateEmi(terms.principal, terms.annual_rate, terms.tenure_months),
+            currency: terms.currency,
+            account_id: terms.account_id,
+            ...getLoanSchedule(terms)
+        };
+
+        try {
+            let recurringId = editingLoan?.recurring_id ?? null;
+            if (recurringId) {
+                await updateRecurringTransaction({ id: recurringId, ...emiTransaction });
+            } else if (create_emi) {
+                // EMIs already due were paid before the loan was added, so posting starts from the next one
+                const lastDue = getDueEmis(terms).pop();
+                const recurring = await createRecurringTransaction({
+                    ...emiTransaction,
+                    type: 'expense',
+                    category_id,
+                    active: true,
+                    last_posted_date: lastDue ? toDateString(lastDue.date) : null
+                });
+                recurringId = recurring.id;
+            }
+
+            if (editingLoan) {
+                await db.loans.update(editingLoan.id, { ...terms, recurring_id: recurringId });
+                toast.success('Loan updated successfully');
+            } else {
+                await db.loans.create({ ...terms, user_id: user.id, recurring_id: recurringId });
+                toast.success(create_emi ? 'Loan added with a recurring EMI' : 'Loan added successfully');
+            }
+            await fetchLoans();
+        } catch (error) {
+            console.error('Error saving loan:', error);
+            toast.error('Failed to save loan');
+            throw error;
+        }
+    };
+
+    const handleDelete = async (stopEmi: boolean) => {
+        if (!loanToDelete) return;
+        try {
+            if (stopEmi && loanToDelete.recurring_id) {
+                await deleteRecurringTransaction(loanToDelete.recurring_id);
+            }
+            await db.loans.remove(loanToDelete.id);
+            toast.success('Loan deleted successfully');
+            await fetchLoans();
+        } catch (error) {
+            toast.error('Failed to delete loan');
+            throw error;
+        }
+    };
+
+    return (
+        <div className="space-y-6 max-w-7xl mx-auto px-4 sm:px-6 py-4">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-200 text-center sm:text-left">Loans</h1>
+                    {loans.length > 0 && (
+                        <p className="text-sm text-gray-600 dark:text-gray-400 text-center sm:text-left">
+                            {formatMoney(totalOutstanding)} outstanding · {formatMoney(totalEmi)} in EMIs each month
+                        </p>
+                    )}
+                </div>
+                <button
+                    onClick={() => {
+                        setEditingLoan(undefined);
+                        setIsModalOpen(true);
+                    }}
+                    className="inline-flex items-center justify-center px-3 py-1.5 text-sm rounded-md text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 shadow-sm w-full sm:w-auto"
+                >
+                    <Plus className="h-3.5 w-3.5 mr-1.5" />
+                    Add Loan
+                </button>
+            </div>
+
+            {loading ? (
+                <p className="text-center text-gray-500 dark:text-gray-400">Loading...</p>
+            ) : loans.length === 0 ? (
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-6 text-center text-gray-500 dark:text-gray-400">
+                    Add a home, car or personal loan to see its EMI schedule and what prepaying would save
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {loanSummaries.map(({ loan, amortization, paidCount, outstanding, nextEmi }) => {
+                        const money = (amount: number) => formatMoney(amount, { currency: loan.currency });
+                        const percentRepaid = Math.min(100, ((loan.principal - outstanding) / loan.principal) * 100);
+                        return (
+                            <div key={loan.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4 sm:p-6 space-y-3">
+                                <div className="flex items-start justify-between gap-3">
+                                    <div className="flex items-center gap-3 min-w-0">
+                                        <div className="p-2 rounded-lg bg-orange-50 dark:bg-orange-900/50 text-orange-600 dark:text-orange-400">
+                                            <HandCoins className="h-5 w-5" />
+                                        </div>
+                                        <div className="min-w-0">
+                                            <div className="text-base font-semibold text-gray-900 dark:text-gray-200 truncate">{loan.name}</div>
+                                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                                                {money(loan.principal)} at {loan.annual_rate}% · {loan.tenure_months} months
+                                            </div>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-1">
+                                        <button
+                                            onClick={() => setScheduleLoan(loan)}
+                                            title="Schedule and prepayments"
+                                            className="p-1 text-gray-400 hover:text-blue-500 dark:text-gray-500 dark:hover:text-blue-400"
+                                        >
+                                            <TableProperties className="h-4 w-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => {
+                                                setEditingLoan(loan);
+                                                setIsModalOpen(true);
+                                            }}
+                                            className="p-1 text-gray-400 hover:text-blue-500 dark:text-gray-500 dark:hover:text-blue-400"
+                                        >
+                                            <Edit2 className="h-4 w-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => setLoanToDelete(loan)}
+                                            className="p-1 text-gray-400 hover:text-red-500 dark:text-gray-500 dark:hover:text-red-400"
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                </div>
+
+                                <div className="flex items-end justify-between gap-2">
+                                    <div>
+                                        <div className="text-xs text-gray-500 dark:text-gray-400">Outstanding principal</div>
+                                        <div className="text-lg font-bold text-gray-900 dark:text-gray-200">{money(outstanding)}</div>
+                                    </div>
+                                    <div className="text-right">
+                                        <div className="text-xs text-gray-500 dark:text-gray-400">EMI</div>
+                                        <div className="text-sm font-semibold text-gray-900 dark:text-gray-200">{money(amortization.emi)}</div>
+                                    </div>
+                                </div>
+
+                                <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                                    <div className="bg-orange-500 h-2 rounded-full" style={{ width: `${percentRepaid}%` }} />
+                                </div>
+
+                                <div className="flex flex-wrap justify-between gap-1 text-xs text-gray-500 dark:text-gray-400">
+                                    <span>
+                                        {paidCount} of {amortization.schedule.length} EMIs {loan.recurring_id ? 'paid' : 'due so far'}
+                                    </span>
+                                    <span>
+                                        {nextEmi ? `Next EMI ${format(nextEmi.date, 'MMM d, yyyy')} · ` : ''}
+                                        Closes {format(amortization.closingDate, 'MMM yyyy')}
+                                    </span>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <LoanModal
+                isOpen={isModalOpen}
+                onClose={() => {
+                    setIsModalOpen(false);
+                    setEditingLoan(undefined);
+                }}
+                onSave={handleSave}
+                loan={editingLoan}
+            />
+
+            {scheduleLoan && (
+                <LoanScheduleModal
+                    loan={scheduleLoan}
+                    paidCount={getPaidCount(scheduleLoan, postedEmis)}
+                    onClose={() => setScheduleLoan(null)}
+                />
+            )}
+
+            {loanToDelete && (
+                <DeleteLoanModal
+                    loan={loanToDelete}
+                    onClose={() => setLoanToDelete(null)}
+                    onConfirm={handleDelete}
+                />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,156 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { createPortal } from 'react-dom';
+import { Envelope } from '../lib/envelopes';
+import { getCurrencySymbol } from '../lib/currency';
+import { useCurrency } from '../contexts/CurrencyContext';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: (transfer: { from_category_id: string | null; to_category_id: string | null; amount: number; note: string | null }) => Promise<void>;
+    envelopes: Envelope[];
+    toBeAssigned: number;
+    fromCategoryId?: string | null;
+}
+
+const selectClassName = "block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm";
+
+export default function MoveMoneyModal({ isOpen, onClose, onSave, envelopes, toBeAssigned, fromCategoryId = null }: Props) {
+    const { baseCurrency, formatMoney } = useCurrency();
+    // '' stands for "To be assigned" in the selects
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    const [amount, setAmount] = useState('');
+    const [note, setNote] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setFrom(fromCategoryId ?? '');
+        setTo(envelopes.find(e => e.category.id !== fromCategoryId)?.category.id ?? '');
+        setAmount('');
+        setNote('');
+    }, [isOpen, fromCategoryId, envelopes]);
+
+    const getBalance = (categoryId: string) =>
+        categoryId ? envelopes.find(e => e.category.id === categoryId)?.available ?? 0 : toBeAssigned;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        await onSave({
+            from_category_id: from || null,
+            to_category_id: to || null,
+            amount: parseFloat(amount),
+            note: note.trim() || null
+        });
+        onClose();
+    };
+
+    if (!isOpen) return null;
+
+    const options = (
+        <>
+            <option value="">To be assigned ({formatMoney(toBeAssigned)})</option>
+            {envelopes.map(({ category, available }) => (
+                <option key={category.id} value={category.id}>
+                    {category.name} ({formatMoney(available)})
+                </option>
+            ))}
+        </>
+    );
+
+    const modal = (
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Move Money</h2>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="p-6">
+                        <div className="space-y-5">
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">From</label>
+                                    <select value={from} onChange={(e) => setFrom(e.target.value)} className={selectClassName}>
+                                        {options}
+                                    </select>
+                                </div>
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">To</label>
+                                    <select value={to} onChange={(e) => setTo(e.target.value)} className={selectClassName}>
+                                        {options}
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Amount</label>
+                                <div className="relative rounded-lg shadow-sm">
+                                    <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{getCurrencySymbol(baseCurrency)}</span>
+                                    </div>
+                                    <input
+                                        type="number"
+                                        value={amount}
+                                        onChange={(e) => setAmount(e.target.value)}
+                                        className="block w-full rounded-lg border-0 py-2.5 pl-7 pr-12 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6"
+                                        placeholder="0.00"
+                                        required
+                                        min="0.01"
+                                        step="0.01"
+                                    />
+                                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
+                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{baseCurrency}</span>
+                                    </div>
+                                </div>
+                                {parseFloat(amount) > getBalance(from) && (
+                                    <p className="text-xs text-yellow-700 dark:text-yellow-400">
+                                        This is more than is available there; it will go negative.
+                                    </p>
+                                )}
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Note</label>
+                                <input
+                                    type="text"
+                                    value={note}
+                                    onChange={(e) => setNote(e.target.value)}
+                                    className="block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6"
+                                    placeholder="Optional, e.g. Covering the dinner out"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={from === to}
+                                className="rounded-lg bg-blue-600 dark:bg-blue-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Move Money
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </>
+    );
+
+    return createPortal(modal, document.body);
+}
@@ -0,0 +1,447 @@
+import { useState, useEffect, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { format, parseISO, startOfDay } from 'date-fns';
+import { Plus, Edit2, Trash2, X, Info, Loader2, Upload, Tag } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useHoldings } from '../contexts/HoldingsContext';
+import { db } from '../lib/supabase';
+import { convertToBase } from '../lib/currency';
+import { HOLDING_TYPES, getHoldingType, parsePriceCsv, summariseHolding, toCashFlows, xirr } from '../lib/investments';
+import { Expense, Holding, HoldingPrice } from '../types';
+import HoldingModal, { HoldingFormValues } from './HoldingModal';
+import HoldingPriceModal from './HoldingPriceModal';
+
+interface DeleteHoldingModalProps {
+    holding: Holding;
+    onClose: () => void;
+    onConfirm: () => Promise<void>;
+}
+
+function DeleteHoldingModal({ holding, onClose, onConfirm }: DeleteHoldingModalProps) {
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    const handleConfirm = async () => {
+        setIsDeleting(true);
+        try {
+            await onConfirm();
+            onClose();
+        } catch (error) {
+            console.error('Error deleting holding:', error);
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    return createPortal(
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Delete {holding.name}</h2>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <div className="p-6 space-y-4">
+                        <div className="bg-blue-50 dark:bg-blue-900/50 border border-blue-200 dark:border-blue-800 rounded-lg p-3">
+                            <div className="flex items-center gap-1.5">
+                                <Info className="h-4 w-4 text-blue-600 dark:text-blue-400 flex-shrink-0" />
+                                <p className="text-sm text-blue-700 dark:text-blue-300">
+                                    Its purchases are kept as expenses; its price history is deleted.
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                                disabled={isDeleting}
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleConfirm}
+                                disabled={isDeleting}
+                                className="rounded-lg bg-red-600 dark:bg-red-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-red-700 dark:hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-600 dark:focus:ring-red-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {isDeleting ? (
+                                    <>
+                                        <Loader2 className="h-4 w-4 mr-2 inline animate-spin" />
+                                        Deleting...
+                                    </>
+                                ) : (
+                                    'Delete Holding'
+                                )}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </>,
+        document.body
+    );
+}
+
+const formatReturn = (rate: number | null) => (rate === null ? '—' : `${(rate * 100).toFixed(1)}%`);
+
+const gainClassName = (gain: number) =>
+    gain >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+
+export default function Portfolio() {
+    const { user } = useAuth();
+    const { baseCurrency, rates, formatMoney } = useCurrency();
+    const { holdings, loading: holdingsLoading, refreshHoldings } = useHoldings();
+    const [purchases, setPurchases] = useState<Expense[]>([]);
+    const [prices, setPrices] = useState<HoldingPrice[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [isImporting, setIsImporting] = useState(false);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editingHolding, setEditingHolding] = useState<Holding | undefined>();
+    const [holdingToDelete, setHoldingToDelete] = useState<Holding | null>(null);
+    const [pricingHolding, setPricingHolding] = useState<Holding | null>(null);
+
+    const fetchPortfolio = useCallback(async () => {
+        if (!user) return;
+        try {
+            const [purchaseData, priceData] = await Promise.all([
+                db.expenses.getHoldingPurchases(user.id),
+                db.holdingPrices.getAll(user.id)
+            ]);
+            setPurchases(purchaseData);
+            setPrices(priceData);
+        } catch (error) {
+            console.error('Error fetching portfolio:', error);
+            toast.error('Failed to load portfolio');
+        } finally {
+            setLoading(false);
+        }
+    }, [user]);
+
+    useEffect(() => {
+        fetchPortfolio();
+    }, [fetchPortfolio]);
+
+    const today = startOfDay(new Date());
+    const summaries = holdings.map(holding => summariseHolding(holding, purchases, prices, today));
+
+    const toBase = (amount: number, currency: string) => convertToBase(amount, currency, { baseCurrency, rates });
+    const totalInvested = summaries.reduce((sum, { holding, invested }) => sum + toBase(invested, holding.currency), 0);
+    const totalValue = summaries.reduce((sum, { holding, value }) => sum + toBase(value, holding.currency), 0);
+    const totalGain = totalValue - totalInvested;
+    // Every purchase across the portfolio, in the base currency, against what it's all worth today
+    const portfolioXirr = xirr([
+        ...summaries.flatMap(({ holding, purchases }) =>
+            toCashFlows(purchases).map(flow => ({ ...flow, amount: toBase(flow.amount, holding.currency) }))
+        ),
+        { date: today, amount: totalValue }
+    ]);
+
+    const allocation = HOLDING_TYPES
+        .map(({ value: type, label, color }) => ({
+            type,
+            label,
+            color,
+            value: summaries
+                .filter(({ holding }) => holding.type === type)
+                .reduce((sum, { holding, value }) => sum + toBase(value, holding.currency), 0)
+        }))
+        .filter(({ value }) => value > 0);
+
+    const handleSave = async (values: HoldingFormValues) => {
+        if (!user) return;
+        try {
+            if (editingHolding) {
+                await db.holdings.update(editingHolding.id, values);
+                toast.success('Holding updated successfully');
+            } else {
+                await db.holdings.create({ ...values, user_id: user.id });
+                toast.success('Holding added successfully');
+            }
+            await refreshHoldings();
+        } catch (error) {
+            console.error('Error saving holding:', error);
+            toast.error('Failed to save holding');
+            throw error;
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!holdingToDelete) return;
+        try {
+            await db.holdings.remove(holdingToDelete.id);
+            toast.success('Holding deleted successfully');
+            await Promise.all([refreshHoldings(), fetchPortfolio()]);
+        } catch (error) {
+            toast.error('Failed to delete holding');
+            throw error;
+        }
+    };
+
+    const handleSavePrice = async (price: { date: string; price: number }) => {
+        if (!user || !pricingHolding) return;
+        try {
+            await db.holdingPrices.setMany([{ ...price, holding_id: pricingHolding.id, user_id: user.id }]);
+            toast.success('Price saved');
+            await fetchPortfolio();
+        } catch (error) {
+            console.error('Error saving price:', error);
+            toast.error('Failed to save price');
+            throw error;
+        }
+    };
+
+    const handleDeletePrice = async (id: string) => {
+        try {
+            await db.holdingPrices.remove(id);
+            await fetchPortfolio();
+        } catch (error) {
+            console.error('Error deleting price:', error);
+            toast.error('Failed to delete price');
+        }
+    };
+
+    const handleImportPrices = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file || !user) return;
+
+        setIsImporting(true);
+        try {
+            const text = await file.text();
+            // Let the same file be picked again once it has been corrected
+            e.target.value = '';
+            const { prices: imported, unmatched } = parsePriceCsv(text, holdings);
+            if (imported.length === 0) {
+                toast.error('No prices in the file matched your holdings');
+                return;
+            }
+
+            await db.holdingPrices.setMany(imported.map(price => ({ ...price, user_id: user.id })));
+            toast.success(`Imported ${imported.length} price${imported.length === 1 ? '' : 's'}`);
+            if (unmatched.length > 0) {
+                const shown = unmatched.slice(0, 3).join(', ');
+                toast(`Skipped ${unmatched.length} unknown holding${unmatched.length === 1 ? '' : 's'}: ${shown}${unmatched.length > 3 ? '…' : ''}`);
+            }
+            await fetchPortfolio();
+        } catch (error) {
+            console.error('Error importing prices:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to import prices');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6 max-w-7xl mx-auto px-4 sm:px-6 py-4">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-200">Portfolio</h1>
+                <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                    {holdings.length > 0 && (
+                        <label className="inline-flex items-center justify-center px-3 py-1.5 text-sm rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 ring-1 ring-inset ring-gray-300 dark:ring-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 shadow-sm cursor-pointer">
+                            {isImporting ? (
+                                <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+                            ) : (
+                                <Upload className="h-3.5 w-3.5 mr-1.5" />
+                            )}
+                            Import Prices
+                            <input
+                                type="file"
+                                accept=".csv,.txt,text/csv"
+                                disabled={isImporting}
+                                onChange={handleImportPrices}
+                                className="hidden"
+                            />
+                        </label>
+                    )}
+                    <button
+                        onClick={() => {
+                            setEditingHolding(undefined);
+                            setIsModalOpen(true);
+                        }}
+                        className="inline-flex items-center justify-center px-3 py-1.5 text-sm rounded-md text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 shadow-sm"
+                    >
+                        <Plus className="h-3.5 w-3.5 mr-1.5" />
+                        Add Holding
+                    </button>
+                </div>
+            </div>
+
+            {loading || holdingsLoading ? (
+                <p className="text-center text-gray-500 dark:text-gray-400">Loading...</p>
+            ) : holdings.length === 0 ? (
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-6 text-center text-gray-500 dark:text-gray-400">
+                    Add your mutual funds, stocks, fixed deposits and PPF, then link investment expenses to them as purchases
+                </div>
+            ) : (
+                <>
+                    {/* Summary */}
+                    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4">
+                            <div className="text-xs text-gray-500 dark:text-gray-400">Invested</div>
+                            <div className="text-lg font-bold text-gray-900 dark:text-gray-200">{formatMoney(totalInvested)}</div>
+                        </div>
+                        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4">
+                            <div className="text-xs text-gray-500 dark:text-gray-400">Current value</div>
+                            <div className="text-lg font-bold text-gray-900 dark:text-gray-200">{formatMoney(totalValue)}</div>
+                        </div>
+                        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4">
+                            <div className="text-xs text-gray-500 dark:text-gray-400">Gain</div>
+                            <div className={`text-lg font-bold ${gainClassName(totalGain)}`}>
+                                {formatMoney(totalGain, { accounting: true })}
+                            </div>
+                        </div>
+                        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4">
+                            <div className="text-xs text-gray-500 dark:text-gray-400">XIRR</div>
+                            <div className="text-lg font-bold text-gray-900 dark:text-gray-200">{formatReturn(portfolioXirr)}</div>
+                        </div>
+                    </div>
+
+                    {/* Allocation */}
+                    {allocation.length > 0 && (
+                        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4 sm:p-6 space-y-3">
+                            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200">Allocation</h2>
+                            <div className="flex w-full h-3 rounded-full overflow-hidden bg-gray-200 dark:bg-gray-700">
+                                {allocation.map(({ type, value, color }) => (
+                                    <div key={type} className={color} style={{ width: `${(value / totalValue) * 100}%` }} />
+                                ))}
+                            </div>
+                            <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-gray-700 dark:text-gray-300">
+                                {allocation.map(({ type, label, color, value }) => (
+                                    <div key={type} className="flex items-center gap-2">
+                                        <span className={`h-2.5 w-2.5 rounded-full ${color}`} />
+                                        <span>{label}</span>
+                                        <span className="text-gray-500 dark:text-gray-400">
+                                            {formatMoney(value, { compact: true })} · {((value / totalValue) * 100).toFixed(0)}%
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Holdings */}
+                    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4 sm:p-6">
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                                        <th className="py-2 pr-3 font-medium">Holding</th>
+                                        <th className="py-2 pr-3 font-medium text-right">Units</th>
+                                        <th className="py-2 pr-3 font-medium text-right">Invested</th>
+                                        <th className="py-2 pr-3 font-medium text-right">Latest price</th>
+                                        <th className="py-2 pr-3 font-medium text-right">Value</th>
+                                        <th className="py-2 pr-3 font-medium text-right">Gain</th>
+                                        <th className="py-2 pr-3 font-medium text-right">XIRR</th>
+                                        <th className="py-2" />
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+                                    {summaries.map(({ holding, purchases, invested, units, latestPrice, value, gain, xirr: holdingXirr }) => {
+                                        const { Icon, label, inUnits } = getHoldingType(holding.type);
+                                        const money = (amount: number) => formatMoney(amount, { currency: holding.currency });
+                                        return (
+                                            <tr key={holding.id}>
+                                                <td className="py-2 pr-3">
+                                                    <div className="flex items-center gap-2 min-w-0">
+                                                        <Icon className="h-4 w-4 text-gray-400 dark:text-gray-500 flex-shrink-0" />
+                                                        <div className="min-w-0">
+                                                            <div className="font-medium text-gray-900 dark:text-gray-200 truncate">{holding.name}</div>
+                                                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                                                                {label}{holding.symbol ? ` · ${holding.symbol}` : ''} · {purchases.length} purchase{purchases.length === 1 ? '' : 's'}
+                                                            </div>
+                                                        </div>
+                                                    </div>
+                                                </td>
+                                                <td className="py-2 pr-3 text-right">{inUnits ? units.toLocaleString(undefined, { maximumFractionDigits: 4 }) : '—'}</td>
+                                                <td className="py-2 pr-3 text-right">{money(invested)}</td>
+                                                <td className="py-2 pr-3 text-right whitespace-nowrap">
+                                                    {latestPrice ? (
+                                                        <>
+                                                            <div>{formatMoney(latestPrice.price, { currency: holding.currency, decimals: inUnits ? 4 : undefined })}</div>
+                                                            <div className="text-xs text-gray-500 dark:text-gray-400">{format(parseISO(latestPrice.date), 'MMM d, yyyy')}</div>
+                                                        </>
+                                                    ) : (
+                                                        <span className="text-xs text-gray-500 dark:text-gray-400">No price yet</span>
+                                                    )}
+                                                </td>
+                                                <td className="py-2 pr-3 text-right font-medium text-gray-900 dark:text-gray-200">{money(value)}</td>
+                                                <td className={`py-2 pr-3 text-right ${gainClassName(gain)}`}>
+                                                    {formatMoney(gain, { currency: holding.currency, accounting: true })}
+                                                </td>
+                                                <td className="py-2 pr-3 text-right">{formatReturn(holdingXirr)}</td>
+                                                <td className="py-2">
+                                                    <div className="flex items-center justify-end gap-1">
+                                                        <button
+                                                            onClick={() => setPricingHolding(holding)}
+                                                            title="Prices"
+                                                            className="p-1 text-gray-400 hover:text-blue-500 dark:text-gray-500 dark:hover:text-blue-400"
+                                                        >
+                                                            <Tag className="h-4 w-4" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => {
+                                                                setEditingHolding(holding);
+                                                                setIsModalOpen(true);
+                                                            }}
+                                                            className="p-1 text-gray-400 hover:text-blue-500 dark:text-gray-500 dark:hover:text-blue-400"
+                                                        >
+                                                            <Edit2 className="h-4 w-4" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => setHoldingToDelete(holding)}
+                                                            className="p-1 text-gray-400 hover:text-red-500 dark:text-gray-500 dark:hover:text-red-400"
+                                                        >
+                                                            <Trash2 className="h-4 w-4" />
+                                                        </button>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                </>
+            )}
+
+            <HoldingModal
+                isOpen={isModalOpen}
+                onClose={() => {
+                    setIsModalOpen(false);
+                    setEditingHolding(undefined);
+                }}
+                onSave={handleSave}
+                holding={editingHolding}
+            />
+
+            {pricingHolding && (
+                <HoldingPriceModal
+                    holding={pricingHolding}
+                    prices={prices.filter(price => price.holding_id === pricingHolding.id)}
+                    onClose={() => setPricingHolding(null)}
+                    onSave={handleSavePrice}
+                    onDelete={handleDeletePrice}
+                />
+            )}
+
+            {holdingToDelete && (
+                <DeleteHoldingModal
+                    holding={holdingToDelete}
+                    onClose={() => setHoldingToDelete(null)}
+                    onConfirm={handleDelete}
+                />
+            )}
+        </div>
+    );
+}
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { useCategories } from '../contexts/CategoriesContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 import { Plus, ArrowUpCircle, ArrowDownCircle, Wallet, Edit2, Pause, Play, Trash2, Circle, Info, Target } from 'lucide-react';
-import { RecurringTransaction, Category } from '../types';
+import { RecurringTransaction } from '../types';
 import RecurringTransactionModal from './RecurringTransactionModal';
 import { 
     fetchRecurringTransactions, 
@@ -10,10 +12,16 @@ import {
     deleteRecurringTransaction,
     toggleRecurringTransactionActive 
 } from '../lib/recurring';
+import { describeSchedule, toMonthlyAmount } from '../lib/schedule';
+import { getCategoryColor, getCategoryLabel } from '../lib/categories';
+import { convertToBase } from '../lib/currency';
+import { showUndoToast } from '../lib/undoToast';
 import { toast } from 'react-hot-toast';
 
 export default function Recurring() {
     const { user } = useAuth();
+    const { categories } = useCategories();
+    const { baseCurrency, rates, formatMoney } = useCurrency();
     const [activeTab, setActiveTab] = useState<'all' | 'income' | 'expenses' | 'goals'>('all');
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingTransaction, setEditingTransaction] = useState<RecurringTransaction | undefined>();
@@ -36,14 +44,16 @@ export default function Recurring() {
         }
     };
 
-    // Calculate summary from real transactions
+    // Calculate summary from real transactions, normalising every schedule to a monthly amount in the base currency
+    const toMonthlyBase = (t: RecurringTransaction) =>
+        convertToBase(toMonthlyAmount(t.amount, t), t.currency, { baseCurrency, rates });
     const summaryData = {
         monthlyIncome: transactions
             .filter(t => t.type === 'income' && t.active)
-            .reduce((sum, t) => sum + t.amount, 0),
+            .reduce((sum, t) => sum + toMonthlyBase(t), 0),
         monthlyExpenses: transactions
             .filter(t => t.type === 'expense' && t.active)
-            .reduce((sum, t) => sum + t.amount, 0),
+            .reduce((sum, t) => sum + toMonthlyBase(t), 0),
     };
 
     const filteredTransactions = transactions.filter(transaction => {
@@ -107,10 +117,10 @@ export default function Recurring() {
         }
     };
 
-    const handleDelete = async (id: string) => {
+    const handleDelete = async (transaction: RecurringTransaction) => {
         try {
-            await deleteRecurringTransaction(id);
-            toast.success('Transaction deleted successfully');
+            const deletion = await deleteRecurringTransaction(transaction.id);
+            showUndoToast(`Moved ${transaction.name} to the trash`, deletion, loadTransactions);
             loadTransactions();
         } catch (error) {
             toast.error('Failed to delete transaction');
@@ -118,16 +128,6 @@ export default function Recurring() {
         }
     };
 
-    const getCategoryColor = (category?: Category) => {
-        switch (category) {
-            case 'investment': return 'text-purple-600';
-            case 'debt': return 'text-yellow-600';
-            case 'needs': return 'text-blue-600';
-            case 'leisure': return 'text-green-600';
-            default: return 'text-gray-600';
-        }
-    };
-
     return (
         <div className="min-h-screen flex flex-col">
             {isLoading && (
@@ -146,9 +146,9 @@ export default function Recurring() {
             <div className="flex-1 space-y-6 max-w-7xl mx-auto px-4 sm:px-6 py-4">
                 {/* Header Section */}
                 <div className="flex flex-col items-center text-center gap-2">
-                    <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-200">Monthly Recurring Transactions</h1>
+                    <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-200">Recurring Transactions</h1>
                     <p className="text-sm text-gray-600 dark:text-gray-400 px-4">
-                        Set up your recurring transactions to automatically add them to your monthly income and expenses
+                        Set up daily, weekly, monthly or yearly schedules to automatically add them to your income and expenses
                     </p>
                 </div>
 
@@ -162,7 +162,7 @@ export default function Recurring() {
                                 <h2 className="text-xs font-medium">Monthly Recurring Income</h2>
                             </div>
                             <p className="text-lg sm:text-xl font-bold text-gray-900 dark:text-gray-200 mt-1">
-                                ₹{summaryData.monthlyIncome.toLocaleString()}
+                                {formatMoney(summaryData.monthlyIncome, { decimals: 0 })}
                             </p>
                         </div>
 
@@ -173,7 +173,7 @@ export default function Recurring() {
                                 <h2 className="text-xs font-medium">Monthly Recurring Expenses</h2>
                             </div>
                             <p className="text-lg sm:text-xl font-bold text-gray-900 dark:text-gray-200 mt-1">
-                                ₹{summaryData.monthlyExpenses.toLocaleString()}
+                                {formatMoney(summaryData.monthlyExpenses, { decimals: 0 })}
                             </p>
                         </div>
                     </div>
@@ -252,17 +252,20 @@ export default function Recurring() {
                                                             <Target className="h-3.5 w-3.5 text-blue-500 dark:text-blue-400" />
                                                         )}
                                                     </div>
-                                                    {transaction.type === 'expense' && transaction.category && (
-                                                        <p className={`text-xs ${getCategoryColor(transaction.category)} flex items-center gap-1`}>
+                                                    {transaction.type === 'expense' && transaction.category_id && (
+                                                        <p className={`text-xs ${getCategoryColor(categories.find(c => c.id === transaction.category_id)).text} flex items-center gap-1`}>
                                                             <Circle className="h-1.5 w-1.5 fill-current opacity-75" />
-                                                            {transaction.category.charAt(0).toUpperCase() + transaction.category.slice(1)}
+                                                            {getCategoryLabel(categories, transaction.category_id)}
                                                         </p>
                                                     )}
+                                                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                                                        {describeSchedule(transaction)}
+                                                    </p>
                                                 </div>
                                             </div>
                                             <div className="flex items-center justify-between sm:justify-end gap-4">
                                                 <span className="text-sm font-medium text-gray-900 dark:text-gray-200">
-                                                    ₹{transaction.amount.toLocaleString()}
+                                                    {formatMoney(transaction.amount, { currency: transaction.currency })}
                                                 </span>
                                                 <div className="flex items-center space-x-2">
                                                     <button
@@ -293,7 +296,7 @@ export default function Recurring() {
                                                         </button>
                                                     ) : (
                                                         <button
-                                                            onClick={() => handleDelete(transaction.id)}
+                                                            onClick={() => handleDelete(transaction)}
                                                             className="p-1 text-gray-400 hover:text-red-500 dark:text-gray-500 dark:hover:text-red-400"
                                                         >
                                                             <Trash2 className="h-4 w-4" />
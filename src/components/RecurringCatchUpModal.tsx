@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, ArrowUpCircle, ArrowDownCircle } from 'lucide-react';
+import { createPortal } from 'react-dom';
+import { format } from 'date-fns';
+import { PendingOccurrence, getOccurrenceKey } from '../lib/recurring';
+import { convertToBase } from '../lib/currency';
+import { useCurrency } from '../contexts/CurrencyContext';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    onConfirm: (occurrences: PendingOccurrence[]) => Promise<void>;
+    occurrences: PendingOccurrence[];
+    isLoading: boolean;
+}
+
+const occurrenceKey = ({ recurring, date }: PendingOccurrence) => getOccurrenceKey(recurring.id, date);
+
+export default function RecurringCatchUpModal({ isOpen, onClose, onConfirm, occurrences, isLoading }: Props) {
+    const { baseCurrency, rates, formatMoney } = useCurrency();
+    const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+    const [isPosting, setIsPosting] = useState(false);
+
+    // Select everything whenever a new preview comes in
+    useEffect(() => {
+        setSelectedKeys(new Set(occurrences.map(occurrenceKey)));
+    }, [occurrences]);
+
+    const toggleSelected = (key: string) => {
+        setSelectedKeys(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    };
+
+    const selected = occurrences.filter(occurrence => selectedKeys.has(occurrenceKey(occurrence)));
+    const toBase = ({ recurring }: PendingOccurrence) => convertToBase(recurring.amount, recurring.currency, { baseCurrency, rates });
+    const selectedIncome = selected
+        .filter(({ recurring }) => recurring.type === 'income')
+        .reduce((sum, occurrence) => sum + toBase(occurrence), 0);
+    const selectedExpenses = selected
+        .filter(({ recurring }) => recurring.type === 'expense')
+        .reduce((sum, occurrence) => sum + toBase(occurrence), 0);
+
+    // Group the preview by month so backfilled periods are easy to scan
+    const months = occurrences.reduce((acc, occurrence) => {
+        const month = format(occurrence.date, 'MMMM yyyy');
+        (acc[month] = acc[month] || []).push(occurrence);
+        return acc;
+    }, {} as Record<string, PendingOccurrence[]>);
+
+    const handleConfirm = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsPosting(true);
+        try {
+            await onConfirm(selected);
+            onClose();
+        } catch (error) {
+            console.error('Error posting recurring transactions:', error);
+        } finally {
+            setIsPosting(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const modal = (
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-lg w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <div>
+                            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                                Import Recurring Transactions
+                            </h2>
+                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                                Review the entries that will be added
+                            </p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleConfirm} className="p-6">
+                        <div className="max-h-[50vh] overflow-y-auto space-y-4">
+                            {isLoading ? (
+                                <div className="flex items-center justify-center py-12">
+                                    <Loader2 className="h-8 w-8 animate-spin text-blue-600 dark:text-blue-400" />
+                                </div>
+                            ) : occurrences.length === 0 ? (
+                                <div className="py-8 text-center text-gray-500 dark:text-gray-400">
+                                    Everything is up to date
+                                </div>
+                            ) : (
+                                Object.entries(months).map(([month, monthOccurrences]) => (
+                                    <div key={month}>
+                                        <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">
+                                            {month}
+                                        </h3>
+                                        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+                                            {monthOccurrences.map((occurrence) => {
+                                                const key = occurrenceKey(occurrence);
+                                                return (
+                                                    <label
+                                                        key={key}
+                                                        className="flex items-center justify-between px-3 py-2.5 hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer"
+                                                    >
+                                                        <div className="flex items-center gap-3">
+                                                            <input
+                                                                type="checkbox"
+                                                                checked={selectedKeys.has(key)}
+                                                                onChange={() => toggleSelected(key)}
+                                                                className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 dark:text-blue-500 focus:ring-blue-600 dark:focus:ring-blue-500"
+                                                            />
+                                                            {occurrence.recurring.type === 'income' ? (
+                                                                <ArrowUpCircle className="h-4 w-4 text-green-600 dark:text-green-400" />
+                                                            ) : (
+                                                                <ArrowDownCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
+                                                            )}
+                                                            <div className="flex flex-col">
+                                                                <span className="text-sm font-medium text-gray-900 dark:text-gray-200">
+                                                                    {occurrence.recurring.name}
+                                                                </span>
+                                                                <span className="text-xs text-gray-500 dark:text-gray-400">
+                                                                    {format(occurrence.date, 'MMM d, yyyy')}
+                                                                </span>
+                                                            </div>
+                                                        </div>
+                                                        <span className="text-sm font-medium text-gray-900 dark:text-gray-200">
+                                                            {formatMoney(occurrence.recurring.amount, { currency: occurrence.recurring.currency })}
+                                                        </span>
+                                                    </label>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+                                ))
+                            )}
+                        </div>
+
+                        {occurrences.length > 0 && (
+                            <div className="mt-4 flex justify-between text-sm">
+                                <span className="text-green-600 dark:text-green-400">Income: {formatMoney(selectedIncome)}</span>
+                                <span className="text-red-600 dark:text-red-400">Expenses: {formatMoney(selectedExpenses)}</span>
+                            </div>
+                        )}
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                disabled={isPosting}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isPosting || isLoading || selected.length === 0}
+                                className="rounded-lg bg-blue-600 dark:bg-blue-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {isPosting ? (
+                                    <>
+                                        <Loader2 className="h-4 w-4 mr-2 inline animate-spin" />
+                                        Importing...
+                                    </>
+                                ) : (
+                                    `Import ${selected.length} ${selected.length === 1 ? 'entry' : 'entries'}`
+                                )}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </>
+    );
+
+    return createPortal(modal, document.body);
+}
@@ -1,7 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
-import { RecurringTransaction, Category } from '../types';
+import { RecurringTransaction, Frequency } from '../types';
 import { createPortal } from 'react-dom';
+import { parseISO } from 'date-fns';
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+import "../styles/datepicker.css";
+import { WEEKDAYS, describeSchedule, toDateString } from '../lib/schedule';
+import { getTopLevelCategories } from '../lib/categories';
+import { getCurrencySymbol } from '../lib/currency';
+import { useCategories } from '../contexts/CategoriesContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useAccounts } from '../contexts/AccountsContext';
+import CategoryPicker from './CategoryPicker';
+import CurrencySelect from './CurrencySelect';
+import AccountPicker from './AccountPicker';
 
 interface Props {
     isOpen: boolean;
@@ -10,40 +23,78 @@ interface Props {
     transaction?: RecurringTransaction;
 }
 
-const CATEGORIES: Category[] = ['investment', 'debt', 'needs', 'leisure'];
+const FREQUENCIES: Frequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+const FREQUENCY_UNITS: Record<Frequency, string> = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' };
+
+type EndType = 'never' | 'on' | 'after';
+
+const defaultSchedule = () => {
+    const today = new Date();
+    return {
+        frequency: 'monthly' as Frequency,
+        interval: '1',
+        start_date: today,
+        end_type: 'never' as EndType,
+        end_date: null as Date | null,
+        occurrence_count: '12',
+        day_of_month: today.getDate().toString(),
+        weekday: today.getDay()
+    };
+};
 
 export default function RecurringTransactionModal({ isOpen, onClose, onSave, transaction }: Props) {
+    const { categories } = useCategories();
+    const defaultCategoryId = getTopLevelCategories(categories)[0]?.id ?? null;
+    const { baseCurrency } = useCurrency();
+    const { accounts } = useAccounts();
     const [formData, setFormData] = useState({
         name: '',
         amount: '',
+        currency: baseCurrency,
+        account_id: null as string | null,
         type: 'expense' as 'income' | 'expense',
-        category: 'needs' as Category,
-        active: true
+        category_id: defaultCategoryId as string | null,
+        active: true,
+        ...defaultSchedule()
     });
 
     const [showCategory, setShowCategory] = useState(formData.type === 'expense');
 
     useEffect(() => {
         if (transaction) {
+            const startDate = parseISO(transaction.start_date);
             setFormData({
                 name: transaction.name,
                 amount: transaction.amount.toString(),
+                currency: transaction.currency,
+                account_id: transaction.account_id ?? null,
                 type: transaction.type,
-                category: transaction.category || 'needs',
-                active: true
+                category_id: transaction.category_id ?? defaultCategoryId,
+                active: true,
+                frequency: transaction.frequency,
+                interval: (transaction.interval || 1).toString(),
+                start_date: startDate,
+                end_type: transaction.occurrence_count ? 'after' : transaction.end_date ? 'on' : 'never',
+                end_date: transaction.end_date ? parseISO(transaction.end_date) : null,
+                occurrence_count: (transaction.occurrence_count || 12).toString(),
+                day_of_month: (transaction.day_of_month ?? startDate.getDate()).toString(),
+                weekday: transaction.weekday ?? startDate.getDay()
             });
             setShowCategory(transaction.type === 'expense');
         } else {
             setFormData({
                 name: '',
                 amount: '',
+                currency: baseCurrency,
+                account_id: null,
                 type: 'expense',
-                category: 'needs',
-                active: true
+                category_id: defaultCategoryId,
+                active: true,
+                ...defaultSchedule()
             });
             setShowCategory(true);
         }
-    }, [transaction, isOpen]);
+    }, [transaction, isOpen, defaultCategoryId, baseCurrency]);
 
     useEffect(() => {
         if (formData.type === 'expense') {
@@ -54,28 +105,45 @@ export default function RecurringTransactionModal({ isOpen, onClose, onSave, tra
         }
     }, [formData.type]);
 
+    const schedule = {
+        frequency: formData.frequency,
+        interval: Math.max(1, parseInt(formData.interval) || 1),
+        start_date: toDateString(formData.start_date),
+        end_date: formData.end_type === 'on' && formData.end_date ? toDateString(formData.end_date) : null,
+        occurrence_count: formData.end_type === 'after' ? Math.max(1, parseInt(formData.occurrence_count) || 1) : null,
+        day_of_month: formData.frequency === 'monthly' || formData.frequency === 'yearly'
+            ? Math.min(31, Math.max(1, parseInt(formData.day_of_month) || 1))
+            : null,
+        weekday: formData.frequency === 'weekly' ? formData.weekday : null
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         onSave({
             name: formData.name.trim(),
             amount: parseFloat(formData.amount),
+            currency: formData.currency,
+            account_id: formData.account_id,
             type: formData.type,
-            category: formData.type === 'expense' ? formData.category : undefined,
-            active: true
+            category_id: formData.type === 'expense' ? formData.category_id : null,
+            active: true,
+            ...schedule
         });
         onClose();
     };
 
+    const inputClassName = "block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6";
+
     if (!isOpen) return null;
 
     const modal = (
         <>
             <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
             <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
-                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden max-h-[calc(100vh-2rem)] overflow-y-auto">
                     <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
                         <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
-                            {transaction ? 'Edit' : 'Add'} Monthly {formData.type === 'income' ? 'Income' : 'Expense'}
+                            {transaction ? 'Edit' : 'Add'} Recurring {formData.type === 'income' ? 'Income' : 'Expense'}
                         </h2>
                         <button
                             onClick={onClose}
@@ -93,7 +161,7 @@ export default function RecurringTransactionModal({ isOpen, onClose, onSave, tra
                                     onClick={() => setFormData(prev => ({ 
                                         ...prev, 
                                         type: 'income',
-                                        category: undefined
+                                        category_id: null
                                     }))}
                                     className={`flex-1 py-2.5 px-4 rounded-lg font-medium text-sm transition-colors ${
                                         formData.type === 'income'
@@ -108,7 +176,7 @@ export default function RecurringTransactionModal({ isOpen, onClose, onSave, tra
                                     onClick={() => setFormData(prev => ({ 
                                         ...prev, 
                                         type: 'expense',
-                                        category: 'needs'
+                                        category_id: defaultCategoryId
                                     }))}
                                     className={`flex-1 py-2.5 px-4 rounded-lg font-medium text-sm transition-colors ${
                                         formData.type === 'expense'
@@ -136,45 +204,173 @@ export default function RecurringTransactionModal({ isOpen, onClose, onSave, tra
                                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Amount</label>
                                 <div className="relative rounded-lg shadow-sm">
                                     <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">₹</span>
+                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{getCurrencySymbol(formData.currency)}</span>
                                     </div>
                                     <input
                                         type="number"
                                         value={formData.amount}
                                         onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
-                                        className="block w-full rounded-lg border-0 py-2.5 pl-7 pr-12 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6"
+                                        className={`block w-full rounded-lg border-0 py-2.5 ${getCurrencySymbol(formData.currency).length > 1 ? 'pl-12' : 'pl-7'} pr-20 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6`}
                                         placeholder="0.00"
                                         required
                                         min="0"
                                         step="0.01"
                                     />
-                                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
-                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">INR</span>
-                                    </div>
+                                    <CurrencySelect
+                                        value={formData.currency}
+                                        onChange={(currency) => setFormData(prev => ({ ...prev, currency }))}
+                                    />
                                 </div>
                             </div>
 
+                            {accounts.length > 0 && (
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Account</label>
+                                    <AccountPicker
+                                        value={formData.account_id}
+                                        onChange={(account_id, account) => setFormData(prev => ({ ...prev, account_id, currency: account?.currency ?? prev.currency }))}
+                                    />
+                                </div>
+                            )}
+
                             <div className={`space-y-1.5 transition-all duration-200 ease-in-out ${
-                                showCategory ? 'opacity-100 max-h-[200px]' : 'opacity-0 max-h-0 overflow-hidden'
+                                showCategory ? 'opacity-100 max-h-[300px]' : 'opacity-0 max-h-0 overflow-hidden'
                             }`}>
                                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Category</label>
-                                <div className="grid grid-cols-2 gap-3">
-                                    {CATEGORIES.map((category) => (
+                                <CategoryPicker
+                                    value={formData.category_id}
+                                    onChange={(category_id) => setFormData(prev => ({ ...prev, category_id }))}
+                                />
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Repeats</label>
+                                <div className="grid grid-cols-4 gap-2">
+                                    {FREQUENCIES.map((frequency) => (
                                         <button
-                                            key={category}
+                                            key={frequency}
                                             type="button"
-                                            onClick={() => setFormData(prev => ({ ...prev, category }))}
-                                            className={`py-2.5 px-4 rounded-lg text-sm font-medium transition-colors shadow-sm hover:shadow ring-1 ring-inset ${
-                                                formData.category === category
+                                            onClick={() => setFormData(prev => ({ ...prev, frequency }))}
+                                            className={`py-2 px-2 rounded-lg text-sm font-medium transition-colors shadow-sm hover:shadow ring-1 ring-inset ${
+                                                formData.frequency === frequency
                                                     ? 'bg-blue-50 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400 ring-blue-600/20 dark:ring-blue-400/20 shadow-blue-100 dark:shadow-blue-900/50'
                                                     : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 ring-gray-300 dark:ring-gray-600'
                                             }`}
                                         >
-                                            {category.charAt(0).toUpperCase() + category.slice(1)}
+                                            {frequency.charAt(0).toUpperCase() + frequency.slice(1)}
                                         </button>
                                     ))}
                                 </div>
                             </div>
+
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                                        Every ({FREQUENCY_UNITS[formData.frequency]}s)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        value={formData.interval}
+                                        onChange={(e) => setFormData(prev => ({ ...prev, interval: e.target.value }))}
+                                        className={inputClassName}
+                                        required
+                                        min="1"
+                                        step="1"
+                                    />
+                                </div>
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Starts</label>
+                                    <DatePicker
+                                        selected={formData.start_date}
+                                        onChange={(date: Date | null) => date && setFormData(prev => ({ ...prev, start_date: date }))}
+                                        dateFormat="MMM d, yyyy"
+                                        className={inputClassName}
+                                        wrapperClassName="!block"
+                                        popperClassName="!z-50"
+                                    />
+                                </div>
+                            </div>
+
+                            {formData.frequency === 'weekly' && (
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">On</label>
+                                    <div className="grid grid-cols-7 gap-1">
+                                        {WEEKDAYS.map((weekday, index) => (
+                                            <button
+                                                key={weekday}
+                                                type="button"
+                                                onClick={() => setFormData(prev => ({ ...prev, weekday: index }))}
+                                                className={`py-2 rounded-lg text-xs font-medium transition-colors ring-1 ring-inset ${
+                                                    formData.weekday === index
+                                                        ? 'bg-blue-50 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400 ring-blue-600/20 dark:ring-blue-400/20'
+                                                        : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 ring-gray-300 dark:ring-gray-600'
+                                                }`}
+                                            >
+                                                {weekday.slice(0, 3)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {(formData.frequency === 'monthly' || formData.frequency === 'yearly') && (
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Day of month</label>
+                                    <input
+                                        type="number"
+                                        value={formData.day_of_month}
+                                        onChange={(e) => setFormData(prev => ({ ...prev, day_of_month: e.target.value }))}
+                                        className={inputClassName}
+                                        required
+                                        min="1"
+                                        max="31"
+                                        step="1"
+                                    />
+                                </div>
+                            )}
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Ends</label>
+                                <div className="flex items-center gap-3">
+                                    <select
+                                        value={formData.end_type}
+                                        onChange={(e) => setFormData(prev => ({ ...prev, end_type: e.target.value as EndType }))}
+                                        className={inputClassName}
+                                    >
+                                        <option value="never">Never</option>
+                                        <option value="on">On date</option>
+                                        <option value="after">After</option>
+                                    </select>
+                                    {formData.end_type === 'on' && (
+                                        <DatePicker
+                                            selected={formData.end_date}
+                                            onChange={(date: Date | null) => setFormData(prev => ({ ...prev, end_date: date }))}
+                                            minDate={formData.start_date}
+                                            dateFormat="MMM d, yyyy"
+                                            placeholderText="End date"
+                                            className={inputClassName}
+                                            wrapperClassName="!block"
+                                            popperClassName="!z-50"
+                                            required
+                                        />
+                                    )}
+                                    {formData.end_type === 'after' && (
+                                        <input
+                                            type="number"
+                                            value={formData.occurrence_count}
+                                            onChange={(e) => setFormData(prev => ({ ...prev, occurrence_count: e.target.value }))}
+                                            className={inputClassName}
+                                            required
+                                            min="1"
+                                            step="1"
+                                        />
+                                    )}
+                                </div>
+                            </div>
+
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                                {describeSchedule(schedule)}
+                            </p>
                         </div>
 
                         <div className="flex items-center justify-end space-x-3 pt-5 mt-5 border-t border-gray-100 dark:border-gray-700">
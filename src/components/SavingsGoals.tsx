@@ -5,11 +5,21 @@ import DatePicker from "react-datepicker";
 import "react-datepicker/dist/react-datepicker.css";
 import { toast } from 'react-hot-toast';
 import { useAuth } from '../contexts/AuthContext';
+import { useCategories } from '../contexts/CategoriesContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 import { db } from '../lib/supabase';
-import { SavingsGoal, SavingsRecommendation, Category, Expense } from '../types';
+import { SavingsGoal, SavingsRecommendation, Expense } from '../types';
 import { createPortal } from 'react-dom';
 import ContributionModal from './ContributionModal';
 import { supabase } from '../lib/supabase';
+import { toDateString } from '../lib/schedule';
+import { getOccurrenceKey } from '../lib/recurring';
+import { getTopLevelCategories } from '../lib/categories';
+import { getCurrencySymbol } from '../lib/currency';
+import { moveGoalToTrash, TRASH_RETENTION_DAYS } from '../lib/trash';
+import { showUndoToast } from '../lib/undoToast';
+import CategoryPicker from './CategoryPicker';
+import CurrencySelect from './CurrencySelect';
 import {
     Chart as ChartJS,
     CategoryScale,
@@ -35,20 +45,11 @@ ChartJS.register(
     Legend
 );
 
-const CATEGORIES: Category[] = ['investment', 'debt', 'needs', 'leisure'];
-
-// Utility function for Indian number formatting (consistent with Dashboard)
-const formatIndianNumber = (num: number): string => {
-    const parts = num.toFixed(2).split('.');
-    parts[0] = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ',');
-    return `₹${parts.join('.')}`;
-};
-
 interface DeleteConfirmationModalProps {
     isOpen: boolean;
     onClose: () => void;
     goal: SavingsGoal;
-    onConfirm: (deleteRecurring: boolean, deleteExpenses: boolean) => Promise<void>;
+    onConfirm: (deleteExpenses: boolean) => Promise<void>;
 }
 
 function DeleteConfirmationModal({ isOpen, onClose, goal, onConfirm }: DeleteConfirmationModalProps) {
@@ -58,7 +59,7 @@ function DeleteConfirmationModal({ isOpen, onClose, goal, onConfirm }: DeleteCon
     const handleConfirm = async () => {
         setIsDeleting(true);
         try {
-            await onConfirm(true, deleteExpenses);
+            await onConfirm(deleteExpenses);
             onClose();
         } catch (error) {
             console.error('Error deleting goal:', error);
@@ -89,7 +90,7 @@ function DeleteConfirmationModal({ isOpen, onClose, goal, onConfirm }: DeleteCon
                             <div className="flex items-center gap-1.5">
                                 <Info className="h-4 w-4 text-blue-600 dark:text-blue-400 flex-shrink-0" />
                                 <p className="text-sm text-blue-700 dark:text-blue-300">
-                                    The recurring transaction associated with this goal will also be deleted.
+                                    The goal and its recurring transaction will be moved to the trash, where they can be restored for {TRASH_RETENTION_DAYS} days.
                                 </p>
                             </div>
                         </div>
@@ -157,6 +158,7 @@ interface GoalAnalyticsModalProps {
 
 function GoalAnalyticsModal({ isOpen, onClose, goal }: GoalAnalyticsModalProps) {
     const { user } = useAuth();
+    const { formatMoney } = useCurrency();
     const [isLoading, setIsLoading] = useState(true);
     const [expenses, setExpenses] = useState<Expense[]>([]);
     const [monthlyContributions, setMonthlyContributions] = useState(0);
@@ -261,7 +263,7 @@ function GoalAnalyticsModal({ isOpen, onClose, goal }: GoalAnalyticsModalProps)
                             label += ': ';
                         }
                         if (context.parsed.y !== null) {
-                            label += formatIndianNumber(context.parsed.y);
+                            label += formatMoney(context.parsed.y, { currency: goal.currency });
                         }
                         return label;
                     }
@@ -283,7 +285,7 @@ function GoalAnalyticsModal({ isOpen, onClose, goal }: GoalAnalyticsModalProps)
                 },
                 ticks: {
                     color: 'rgb(156, 163, 175)', // gray-400
-                    callback: (value) => formatIndianNumber(value as number)
+                    callback: (value) => formatMoney(value as number, { currency: goal.currency, compact: true })
                 }
             }
         }
@@ -332,7 +334,7 @@ function GoalAnalyticsModal({ isOpen, onClose, goal }: GoalAnalyticsModalProps)
                                                 </h3>
                                             </div>
                                             <p className="text-lg font-semibold text-gray-900 dark:text-gray-200">
-                                                {formatIndianNumber(goal.current_amount)}
+                                                {formatMoney(goal.current_amount, { currency: goal.currency })}
                                             </p>
                                         </div>
 
@@ -344,7 +346,7 @@ function GoalAnalyticsModal({ isOpen, onClose, goal }: GoalAnalyticsModalProps)
                                                 </h3>
                                             </div>
                                             <p className="text-lg font-semibold text-gray-900 dark:text-gray-200">
-                                                {formatIndianNumber(goal.target_amount)}
+                                                {formatMoney(goal.target_amount, { currency: goal.currency })}
                                             </p>
                                         </div>
 
@@ -356,7 +358,7 @@ function GoalAnalyticsModal({ isOpen, onClose, goal }: GoalAnalyticsModalProps)
                                                 </h3>
                                             </div>
                                             <p className="text-lg font-semibold text-gray-900 dark:text-gray-200">
-                                                {formatIndianNumber(goal.monthly_contribution)}
+                                                {formatMoney(goal.monthly_contribution, { currency: goal.currency })}
                                             </p>
                                         </div>
 
@@ -381,10 +383,10 @@ function GoalAnalyticsModal({ isOpen, onClose, goal }: GoalAnalyticsModalProps)
                                             </div>
                                             <div className="space-y-0.5">
                                                 <p className="text-xs font-medium text-gray-900 dark:text-gray-200">
-                                                    This Month: {formatIndianNumber(monthlyContributions)}
+                                                    This Month: {formatMoney(monthlyContributions, { currency: goal.currency })}
                                                 </p>
                                                 <p className="text-xs font-medium text-gray-900 dark:text-gray-200">
-                                                    All Time: {formatIndianNumber(totalContributions)}
+                                                    All Time: {formatMoney(totalContributions, { currency: goal.currency })}
                                                 </p>
                                             </div>
                                         </div>
@@ -422,7 +424,7 @@ function GoalAnalyticsModal({ isOpen, onClose, goal }: GoalAnalyticsModalProps)
                                                                 </span>
                                                             </div>
                                                             <span className="text-sm font-medium text-gray-900 dark:text-gray-200">
-                                                                {formatIndianNumber(expense.amount)}
+                                                                {formatMoney(expense.amount, { currency: goal.currency })}
                                                             </span>
                                                         </div>
                                                     ))
@@ -461,6 +463,11 @@ const calculateTimeRemaining = (targetAmount: number, monthlyContribution: numbe
 
 export default function SavingsGoals() {
     const { user } = useAuth();
+    const { categories } = useCategories();
+    // New goals default to Investment, or the first category if the user renamed it
+    const topLevelCategories = getTopLevelCategories(categories);
+    const defaultCategoryId = (topLevelCategories.find(c => c.name.toLowerCase() === 'investment') ?? topLevelCategories[0])?.id ?? null;
+    const { baseCurrency, formatMoney } = useCurrency();
     const [goals, setGoals] = useState<SavingsGoal[]>([]);
     const [recommendations, setRecommendations] = useState<SavingsRecommendation[]>([]);
     const [isLoading, setIsLoading] = useState(true);
@@ -471,11 +478,13 @@ export default function SavingsGoals() {
         name: '',
         target_amount: '',
         monthly_contribution: '1000',
-        category: 'investment' as Category
+        category_id: null as string | null,
+        currency: null as string | null
     });
     const [goalToDelete, setGoalToDelete] = useState<SavingsGoal | null>(null);
     const [recurringStates, setRecurringStates] = useState<GoalRecurringState>({});
     const [selectedGoalForAnalytics, setSelectedGoalForAnalytics] = useState<SavingsGoal | null>(null);
+    const newGoalCurrency = newGoal.currency ?? baseCurrency;
 
     useEffect(() => {
         if (!user) return;
@@ -495,6 +504,7 @@ export default function SavingsGoals() {
                 .select('id, active')
                 .eq('goal_id', goalId)
                 .eq('type', 'expense')
+                .is('deleted_at', null)
                 .single();
 
             setRecurringStates(prev => ({
@@ -576,6 +586,7 @@ export default function SavingsGoals() {
                 .from('savings_goals')
                 .select('*')
                 .eq('user_id', user.id)
+                .is('deleted_at', null)
                 .order('created_at', { ascending: false });
 
             if (goalsError) throw goalsError;
@@ -584,7 +595,8 @@ export default function SavingsGoals() {
             const { data: expensesData, error: expensesError } = await supabase
                 .from('expenses')
                 .select('goal_id, amount')
-                .in('goal_id', goalsData.map(g => g.id));
+                .in('goal_id', goalsData.map(g => g.id))
+                .is('deleted_at', null);
 
             if (expensesError) throw expensesError;
 
@@ -622,8 +634,11 @@ export default function SavingsGoals() {
             const firstDayOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
             const formattedDate = firstDayOfMonth.toISOString();
             
+            const categoryId = newGoal.category_id ?? defaultCategoryId;
             const goalData = {
                 ...newGoal,
+                category_id: categoryId,
+                currency: newGoalCurrency,
                 target_amount: parseFloat(newGoal.target_amount) || 0,
                 monthly_contribution: monthlyContribution,
                 user_id: user.id,
@@ -647,11 +662,16 @@ export default function SavingsGoals() {
                         user_id: user.id,
                         name: `Monthly contribution to ${newGoal.name}`,
                         amount: monthlyContribution,
+                        currency: newGoalCurrency,
                         type: 'expense',
-                        category: newGoal.category,
+                        category_id: categoryId,
                         active: true,
                         goal_id: goal.id,
                         frequency: 'monthly',
+                        interval: 1,
+                        start_date: toDateString(firstDayOfMonth),
+                        day_of_month: 1,
+                        last_posted_date: toDateString(firstDayOfMonth),
                         created_at: formattedDate
                     }])
                     .select()
@@ -664,11 +684,13 @@ export default function SavingsGoals() {
                     user_id: user.id,
                     name: `Contribution to ${newGoal.name}`,
                     amount: monthlyContribution,
-                    category: newGoal.category,
+                    currency: newGoalCurrency,
+                    category_id: categoryId,
                     date: formattedDate,
                     goal_id: goal.id,
                     is_recurring: true,
-                    recurring_id: recurringTx.id
+                    recurring_id: recurringTx.id,
+                    occurrence_key: getOccurrenceKey(recurringTx.id, firstDayOfMonth)
                 });
 
                 toast.success('Goal created with recurring contribution');
@@ -681,7 +703,8 @@ export default function SavingsGoals() {
                 name: '',
                 target_amount: '',
                 monthly_contribution: '1000',
-                category: 'investment'
+                category_id: null,
+                currency: null
             });
             await fetchGoals();
         } catch (error) {
@@ -690,82 +713,15 @@ export default function SavingsGoals() {
         }
     };
 
-    const handleDeleteGoal = async (deleteRecurring: boolean, deleteExpenses: boolean) => {
+    // The goal goes to the trash with its recurring contribution, and its expenses if asked
+    const handleDeleteGoal = async (deleteExpenses: boolean) => {
         if (!goalToDelete) return;
 
         try {
-            // First get all recurring transactions for this goal
-            const { data: recurringTransactions } = await supabase
-                .from('recurring_transactions')
-                .select('id')
-                .eq('goal_id', goalToDelete.id)
-                .eq('active', true);
-
-            if (recurringTransactions && recurringTransactions.length > 0) {
-                // First update expenses to remove recurring_id references
-                const { error: expensesUpdateError } = await supabase
-                    .from('expenses')
-                    .update({ recurring_id: null, is_recurring: false })
-                    .in('recurring_id', recurringTransactions.map(rt => rt.id));
-
-                if (expensesUpdateError) throw expensesUpdateError;
-
-                // Then handle recurring transactions
-                if (deleteRecurring) {
-                    // Delete the recurring transactions
-                    const { error: recurringDeleteError } = await supabase
-                        .from('recurring_transactions')
-                        .delete()
-                        .eq('goal_id', goalToDelete.id);
-
-                    if (recurringDeleteError) throw recurringDeleteError;
-                } else {
-                    // Nullify goal_id reference in recurring transactions
-                    const { error: recurringError } = await supabase
-                        .from('recurring_transactions')
-                        .update({ goal_id: null })
-                        .eq('goal_id', goalToDelete.id);
-
-                    if (recurringError) throw recurringError;
-                }
-            }
-
-            // Handle expenses
-            const { data: expenses } = await supabase
-                .from('expenses')
-                .select('id')
-                .eq('goal_id', goalToDelete.id);
-
-            if (expenses && expenses.length > 0) {
-                if (deleteExpenses) {
-                    // Delete the expenses
-                    const { error: expensesDeleteError } = await supabase
-                        .from('expenses')
-                        .delete()
-                        .eq('goal_id', goalToDelete.id);
-
-                    if (expensesDeleteError) throw expensesDeleteError;
-                } else {
-                    // Nullify goal_id reference in expenses
-                    const { error: expensesError } = await supabase
-                        .from('expenses')
-                        .update({ goal_id: null })
-                        .eq('goal_id', goalToDelete.id);
-
-                    if (expensesError) throw expensesError;
-                }
-            }
-
-            // Finally, delete the goal itself
-            const { error: goalDeleteError } = await supabase
-                .from('savings_goals')
-                .delete()
-                .eq('id', goalToDelete.id);
-
-            if (goalDeleteError) throw goalDeleteError;
-
+            const goal = goalToDelete;
+            const deletion = await moveGoalToTrash(goal.id, deleteExpenses);
             await fetchGoals();
-            toast.success('Goal deleted successfully');
+            showUndoToast(`Moved ${goal.name} to the trash`, deletion, fetchGoals);
         } catch (error) {
             console.error('Error deleting goal:', error);
             throw error; // Re-throw to be handled by the modal
@@ -831,7 +787,7 @@ export default function SavingsGoals() {
                                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Target Amount</label>
                                 <div className="relative rounded-lg shadow-sm">
                                     <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">₹</span>
+                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{getCurrencySymbol(newGoalCurrency)}</span>
                                     </div>
                                     <input
                                         type="number"
@@ -847,15 +803,16 @@ export default function SavingsGoals() {
                                                 monthly_contribution: numericValue > 0 ? suggestedMonthly : '1000'
                                             });
                                         }}
-                                        className="block w-full rounded-lg border-0 py-2.5 pl-7 pr-12 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6"
+                                        className={`block w-full rounded-lg border-0 py-2.5 ${getCurrencySymbol(newGoalCurrency).length > 1 ? 'pl-12' : 'pl-7'} pr-20 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6`}
                                         placeholder="0.00"
                                         required
                                         min="0"
                                         step="0.01"
                                     />
-                                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
-                                        <span className="text-gray-500 dark:text-gray-400 sm:text-sm">INR</span>
-                                    </div>
+                                    <CurrencySelect
+                                        value={newGoalCurrency}
+                                        onChange={(currency) => setNewGoal({ ...newGoal, currency })}
+                                    />
                                 </div>
                             </div>
 
@@ -864,7 +821,7 @@ export default function SavingsGoals() {
                                 <div className="space-y-4">
                                     <div className="relative rounded-lg shadow-sm">
                                         <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                                            <span className="text-gray-500 dark:text-gray-400 sm:text-sm">₹</span>
+                                            <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{getCurrencySymbol(newGoalCurrency)}</span>
                                         </div>
                                         <input
                                             type="number"
@@ -882,7 +839,7 @@ export default function SavingsGoals() {
                                                     setNewGoal({ ...newGoal, monthly_contribution: value });
                                                 }
                                             }}
-                                            className="block w-full rounded-lg border-0 py-2.5 pl-7 pr-12 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6"
+                                            className={`block w-full rounded-lg border-0 py-2.5 ${getCurrencySymbol(newGoalCurrency).length > 1 ? 'pl-12' : 'pl-7'} pr-12 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6`}
                                             placeholder="0.00"
                                             required
                                             min="0"
@@ -890,7 +847,7 @@ export default function SavingsGoals() {
                                             step="100"
                                         />
                                         <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
-                                            <span className="text-gray-500 dark:text-gray-400 sm:text-sm">INR</span>
+                                            <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{newGoalCurrency}</span>
                                         </div>
                                     </div>
                                     <div className="space-y-2">
@@ -908,8 +865,8 @@ export default function SavingsGoals() {
                                             disabled={!parseFloat(newGoal.target_amount)}
                                         />
                                         <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
-                                            <span>₹0</span>
-                                            <span>₹{formatIndianNumber(parseFloat(newGoal.target_amount) || 10000).replace('₹', '')}</span>
+                                            <span>{getCurrencySymbol(newGoalCurrency)}0</span>
+                                            <span>{formatMoney(parseFloat(newGoal.target_amount) || 10000, { currency: newGoalCurrency })}</span>
                                         </div>
                                     </div>
                                     <div className="mt-3 p-3 bg-gray-50 dark:bg-gray-900 rounded-lg">
@@ -923,7 +880,7 @@ export default function SavingsGoals() {
                                                         </p>
                                                     </div>
                                                     <p className="text-sm text-gray-600 dark:text-gray-400">
-                                                        At {formatIndianNumber(parseFloat(newGoal.monthly_contribution))} per month, you'll reach your goal by{' '}
+                                                        At {formatMoney(parseFloat(newGoal.monthly_contribution), { currency: newGoalCurrency })} per month, you'll reach your goal by{' '}
                                                         <span className="font-medium text-blue-600 dark:text-blue-400">
                                                             {format(calculateEstimatedDate(
                                                                 parseFloat(newGoal.target_amount), 
@@ -955,22 +912,10 @@ export default function SavingsGoals() {
 
                             <div className="space-y-1.5">
                                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Category</label>
-                                <div className="grid grid-cols-2 gap-3">
-                                    {CATEGORIES.map((category) => (
-                                        <button
-                                            key={category}
-                                            type="button"
-                                            onClick={() => setNewGoal(prev => ({ ...prev, category }))}
-                                            className={`py-2.5 px-4 rounded-lg text-sm font-medium transition-colors shadow-sm hover:shadow ring-1 ring-inset ${
-                                                newGoal.category === category
-                                                    ? 'bg-blue-50 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400 ring-blue-600/20 dark:ring-blue-400/20 shadow-blue-100 dark:shadow-blue-900/50'
-                                                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 ring-gray-300 dark:ring-gray-600'
-                                            }`}
-                                        >
-                                            {category.charAt(0).toUpperCase() + category.slice(1)}
-                                        </button>
-                                    ))}
-                                </div>
+                                <CategoryPicker
+                                    value={newGoal.category_id ?? defaultCategoryId}
+                                    onChange={(category_id) => setNewGoal(prev => ({ ...prev, category_id }))}
+                                />
                             </div>
                         </div>
 
@@ -1127,7 +1072,7 @@ export default function SavingsGoals() {
                                 >
                                     <div className="flex justify-between text-sm mb-1">
                                         <span className="text-gray-600 dark:text-gray-400">Progress</span>
-                                        <span className="text-gray-900 dark:text-gray-200">{formatIndianNumber(goal.current_amount)} / {formatIndianNumber(goal.target_amount)}</span>
+                                        <span className="text-gray-900 dark:text-gray-200">{formatMoney(goal.current_amount, { currency: goal.currency })} / {formatMoney(goal.target_amount, { currency: goal.currency })}</span>
                                     </div>
                                     <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
                                         <div
@@ -1139,7 +1084,7 @@ export default function SavingsGoals() {
 
                                 <div className="flex items-center gap-2 text-sm">
                                     <Target size={16} className="text-blue-600 dark:text-blue-400" />
-                                    <span className="text-gray-700 dark:text-gray-300">Monthly: {formatIndianNumber(goal.monthly_contribution)}</span>
+                                    <span className="text-gray-700 dark:text-gray-300">Monthly: {formatMoney(goal.monthly_contribution, { currency: goal.currency })}</span>
                                     <div className="relative">
                                         <button
                                             onClick={(e) => {
@@ -0,0 +1,463 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, ArrowUpCircle, ArrowDownCircle, Upload, AlertTriangle } from 'lucide-react';
+import { createPortal } from 'react-dom';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { useCategories } from '../contexts/CategoriesContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useAccounts } from '../contexts/AccountsContext';
+import { getCategoriesInDisplayOrder, getCategoryLabel } from '../lib/categories';
+import { parseCsv, detectDelimiter } from '../lib/csv';
+import {
+    CsvColumnMapping,
+    DATE_FORMATS,
+    ImportedTransaction,
+    ParsedTransaction,
+    detectDateFormat,
+    guessCsvMapping,
+    parseCsvTransactions,
+    prepareImport
+} from '../lib/statementImport';
+import { StatementFormat, detectStatementFormat, parseOfx, parseQif } from '../lib/statementFormats';
+
+type Step = 'upload' | 'map' | 'review';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    onConfirm: (transactions: ImportedTransaction[], currency: string, accountId: string | null) => Promise<void>;
+}
+
+const selectClassName = "block w-full rounded-lg border-0 px-3 py-2 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm";
+
+export default function StatementImportModal({ isOpen, onClose, onConfirm }: Props) {
+    const { user } = useAuth();
+    const { categories } = useCategories();
+    const { baseCurrency, rates, formatMoney } = useCurrency();
+    const { accounts } = useAccounts();
+    const [step, setStep] = useState<Step>('upload');
+    const [fileName, setFileName] = useState('');
+    const [fileFormat, setFileFormat] = useState<StatementFormat>('csv');
+    const [rows, setRows] = useState<string[][]>([]);
+    const [hasHeader, setHasHeader] = useState(true);
+    const [mapping, setMapping] = useState<CsvColumnMapping>({ date: 0, description: 1, debit: 2, credit: -1 });
+    const [dateFormat, setDateFormat] = useState(DATE_FORMATS[0]);
+    const [transactions, setTransactions] = useState<ImportedTransaction[]>([]);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [isLoading, setIsLoading] = useState(false);
+    const [isPosting, setIsPosting] = useState(false);
+    const [currency, setCurrency] = useState<string | null>(null); // The statement's currency, base currency until changed
+    const [accountId, setAccountId] = useState<string | null>(null);
+
+    // Start over every time the wizard is opened
+    useEffect(() => {
+        if (!isOpen) return;
+        setStep('upload');
+        setFileName('');
+        setRows([]);
+        setTransactions([]);
+        setSelectedIds(new Set());
+        setCurrency(null);
+        setAccountId(null);
+    }, [isOpen]);
+
+    const header = hasHeader ? rows[0] ?? [] : [];
+    const dataRows = hasHeader ? rows.slice(1) : rows;
+    const columnCount = Math.max(0, ...rows.map(row => row.length));
+    const columnLabel = (index: number) => header[index]?.trim() || `Column ${index + 1}`;
+    const parsed = step === 'map' ? parseCsvTransactions(dataRows, mapping, dateFormat) : [];
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        const text = await file.text();
+        // Let the same file be picked again after going back
+        e.target.value = '';
+        const statementFormat = detectStatementFormat(file.name, text);
+        setFileName(file.name);
+        setFileFormat(statementFormat);
+
+        // OFX and QIF say what each field is, so they skip column mapping
+        if (statementFormat !== 'csv') {
+            await reviewTransactions(statementFormat === 'ofx' ? parseOfx(text) : parseQif(text));
+            return;
+        }
+
+        const csvRows = parseCsv(text, detectDelimiter(text));
+        const guessed = guessCsvMapping(csvRows[0] ?? []);
+
+        setRows(csvRows);
+        setHasHeader(true);
+        setMapping(guessed);
+        setDateFormat(detectDateFormat(csvRows.slice(1, 21).map(row => row[guessed.date] ?? '')));
+        setStep('map');
+    };
+
+    const updateMapping = (field: keyof CsvColumnMapping, value: string) => {
+        setMapping(prev => ({ ...prev, [field]: parseInt(value) }));
+    };
+
+    const reviewTransactions = async (statementTransactions: ParsedTransaction[]) => {
+        if (!user) return;
+        setIsLoading(true);
+        try {
+            const prepared = await prepareImport(user.id, statementTransactions, categories);
+            setTransactions(prepared);
+            // Likely duplicates start unticked
+            setSelectedIds(new Set(prepared.filter(t => !t.duplicate).map(t => t.id)));
+            setStep('review');
+        } catch (error) {
+            console.error('Error preparing statement import:', error);
+            toast.error('Failed to read the statement');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const updateCategory = (id: string, category_id: string) => {
+        setTransactions(prev => prev.map(t => t.id === id ? { ...t, category_id } : t));
+    };
+
+    const selected = transactions.filter(t => selectedIds.has(t.id));
+    const selectedIncome = selected
+        .filter(t => t.type === 'income')
+        .reduce((sum, t) => sum + t.amount, 0);
+    const selectedExpenses = selected
+        .filter(t => t.type === 'expense')
+        .reduce((sum, t) => sum + t.amount, 0);
+    const duplicateCount = transactions.filter(t => t.duplicate).length;
+    const statementCurrency = currency ?? baseCurrency;
+
+    const handleConfirm = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsPosting(true);
+        try {
+            await onConfirm(selected, statementCurrency, accountId);
+            onClose();
+        } catch (error) {
+            console.error('Error importing statement:', error);
+        } finally {
+            setIsPosting(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const subtitle = {
+        upload: 'Upload a statement exported from your bank',
+        map: `Match the columns in ${fileName}`,
+        review: 'Review the entries that will be added'
+    }[step];
+
+    const modal = (
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-2xl w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <div>
+                            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                                Import Statement
+                            </h2>
+                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                                {subtitle}
+                            </p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleConfirm} className="p-6">
+                        {step === 'upload' && (
+                            <label className="flex flex-col items-center justify-center gap-2 py-12 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                                {isLoading ? (
+                                    <Loader2 className="h-8 w-8 animate-spin text-blue-600 dark:text-blue-400" />
+                                ) : (
+                                    <Upload className="h-8 w-8 text-gray-400 dark:text-gray-500" />
+                                )}
+                                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Choose a CSV, OFX or QIF file</span>
+                                <span className="text-xs text-gray-500 dark:text-gray-400">CSV columns are matched in the next step</span>
+                                <input
+                                    type="file"
+                                    accept=".csv,.ofx,.qfx,.qif,text/csv"
+                                    disabled={isLoading}
+                                    onChange={handleFileChange}
+                                    className="hidden"
+                                />
+                            </label>
+                        )}
+
+                        {step === 'map' && (
+                            <div className="space-y-5">
+                                <div className="flex items-center">
+                                    <input
+                                        type="checkbox"
+                                        id="has_header"
+                                        checked={hasHeader}
+                                        onChange={(e) => setHasHeader(e.target.checked)}
+                                        className="h-4 w-4 text-blue-600 dark:text-blue-500 focus:ring-blue-500 dark:focus:ring-blue-400 border-gray-300 dark:border-gray-600 rounded dark:bg-gray-900"
+                                    />
+                                    <label htmlFor="has_header" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+                                        First row is a header
+                                    </label>
+                                </div>
+
+                                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                                    <div className="space-y-1.5">
+                                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Date</label>
+                                        <select value={mapping.date} onChange={(e) => updateMapping('date', e.target.value)} className={selectClassName}>
+                                            {Array.from({ length: columnCount }, (_, i) => (
+                                                <option key={i} value={i}>{columnLabel(i)}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="space-y-1.5">
+                                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Date format</label>
+                                        <select value={dateFormat} onChange={(e) => setDateFormat(e.target.value)} className={selectClassName}>
+                                            {DATE_FORMATS.map(dateFormatOption => (
+                                                <option key={dateFormatOption} value={dateFormatOption}>{dateFormatOption}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="space-y-1.5">
+                                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Description</label>
+                                        <select value={mapping.description} onChange={(e) => updateMapping('description', e.target.value)} className={selectClassName}>
+                                            {Array.from({ length: columnCount }, (_, i) => (
+                                                <option key={i} value={i}>{columnLabel(i)}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="space-y-1.5">
+                                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                                            {mapping.credit === -1 ? 'Amount' : 'Debit'}
+                                        </label>
+                                        <select value={mapping.debit} onChange={(e) => updateMapping('debit', e.target.value)} className={selectClassName}>
+                                            {Array.from({ length: columnCount }, (_, i) => (
+                                                <option key={i} value={i}>{columnLabel(i)}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="space-y-1.5">
+                                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Credit</label>
+                                        <select value={mapping.credit} onChange={(e) => updateMapping('credit', e.target.value)} className={selectClassName}>
+                                            <option value={-1}>None (signed amount)</option>
+                                            {Array.from({ length: columnCount }, (_, i) => (
+                                                <option key={i} value={i}>{columnLabel(i)}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">
+                                        Preview ({parsed.length} of {dataRows.length} rows read)
+                                    </h3>
+                                    <div className="max-h-[30vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+                                        {parsed.length === 0 ? (
+                                            <div className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                                                No rows could be read with this mapping
+                                            </div>
+                                        ) : (
+                                            parsed.slice(0, 10).map(transaction => (
+                                                <div key={transaction.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                                                    <div className="flex items-center gap-3 min-w-0">
+                                                        <span className="text-gray-500 dark:text-gray-400 shrink-0">
+                                                            {format(transaction.date, 'MMM d, yyyy')}
+                                                        </span>
+                                                        <span className="text-gray-900 dark:text-gray-200 truncate">{transaction.name}</span>
+                                                    </div>
+                                                    <span className={transaction.type === 'income' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                                                        {transaction.type === 'income' ? '+' : '-'}{formatMoney(transaction.amount, { currency: statementCurrency })}
+                                                    </span>
+                                                </div>
+                                            ))
+                                        )}
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+
+                        {step === 'review' && (
+                            <>
+                                {duplicateCount > 0 && (
+                                    <div className="mb-4 flex items-center gap-2 rounded-lg bg-yellow-50 dark:bg-yellow-900/30 px-3 py-2 text-sm text-yellow-800 dark:text-yellow-300">
+                                        <AlertTriangle className="h-4 w-4 shrink-0" />
+                                        {duplicateCount} {duplicateCount === 1 ? 'entry looks' : 'entries look'} already recorded and {duplicateCount === 1 ? 'was' : 'were'} unticked
+                                    </div>
+                                )}
+                                <div className="max-h-[50vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+                                    {transactions.length === 0 ? (
+                                        <div className="py-8 text-center text-gray-500 dark:text-gray-400">
+                                            Nothing to import
+                                        </div>
+                                    ) : (
+                                        transactions.map(transaction => (
+                                            <div
+                                                key={transaction.id}
+                                                className="flex items-center justify-between gap-3 px-3 py-2.5 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                                            >
+                                                <label className="flex items-center gap-3 min-w-0 cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selectedIds.has(transaction.id)}
+                                                        onChange={() => toggleSelected(transaction.id)}
+                                                        className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 dark:text-blue-500 focus:ring-blue-600 dark:focus:ring-blue-500"
+                                                    />
+                                                    {transaction.type === 'income' ? (
+                                                        <ArrowUpCircle className="h-4 w-4 shrink-0 text-green-600 dark:text-green-400" />
+                                                    ) : (
+                                                        <ArrowDownCircle className="h-4 w-4 shrink-0 text-red-600 dark:text-red-400" />
+                                                    )}
+                                                    <div className="flex flex-col min-w-0">
+                                                        <span className="text-sm font-medium text-gray-900 dark:text-gray-200 truncate">
+                                                            {transaction.name}
+                                                        </span>
+                                                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                                                            {format(transaction.date, 'MMM d, yyyy')}
+                                                            {transaction.duplicate && (
+                                                                <span className="ml-2 px-1.5 py-0.5 rounded bg-yellow-100 dark:bg-yellow-900/50 text-yellow-800 dark:text-yellow-300">
+                                                                    Possible duplicate
+                                                                </span>
+                                                            )}
+                                                        </span>
+                                                    </div>
+                                                </label>
+                                                <div className="flex items-center gap-3 shrink-0">
+                                                    {transaction.type === 'expense' && (
+                                                        <select
+                                                            value={transaction.category_id ?? ''}
+                                                            onChange={(e) => updateCategory(transaction.id, e.target.value)}
+                                                            className="rounded-md border-0 py-1 pl-2 pr-7 text-xs text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none"
+                                                        >
+                                                            {transaction.category_id === null && (
+                                                                <option value="" disabled>Uncategorised</option>
+                                                            )}
+                                                            {getCategoriesInDisplayOrder(categories).map(category => (
+                                                                <option key={category.id} value={category.id}>
+                                                                    {getCategoryLabel(categories, category.id)}
+                                                                </option>
+                                                            ))}
+                                                        </select>
+                                                    )}
+                                                    <span className="text-sm font-medium text-gray-900 dark:text-gray-200">
+                                                        {formatMoney(transaction.amount, { currency: statementCurrency })}
+                                                    </span>
+                                                </div>
+                                            </div>
+                                        ))
+                                    )}
+                                </div>
+
+                                {transactions.length > 0 && accounts.length > 0 && (
+                                    <div className="mt-4 flex items-center justify-between gap-3 text-sm">
+                                        <label className="text-gray-700 dark:text-gray-300">Account</label>
+                                        <select
+                                            value={accountId ?? ''}
+                                            onChange={(e) => {
+                                                const account = accounts.find(a => a.id === e.target.value);
+                                                setAccountId(account?.id ?? null);
+                                                if (account) setCurrency(account.currency);
+                                            }}
+                                            className="rounded-md border-0 py-1 pl-2 pr-7 text-xs text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none"
+                                        >
+                                            <option value="">No account</option>
+                                            {accounts.map(account => (
+                                                <option key={account.id} value={account.id}>{account.name}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                )}
+
+                                {transactions.length > 0 && (
+                                    <div className="mt-4 flex items-center justify-between gap-3 text-sm">
+                                        <label className="text-gray-700 dark:text-gray-300">Statement currency</label>
+                                        <select
+                                            value={statementCurrency}
+                                            onChange={(e) => setCurrency(e.target.value)}
+                                            className="rounded-md border-0 py-1 pl-2 pr-7 text-xs text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none"
+                                        >
+                                            {[baseCurrency, ...Object.keys(rates).filter(code => code !== baseCurrency)].map(code => (
+                                                <option key={code} value={code}>{code}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                )}
+
+                                {transactions.length > 0 && (
+                                    <div className="mt-4 flex justify-between text-sm">
+                                        <span className="text-green-600 dark:text-green-400">Income: {formatMoney(selectedIncome, { currency: statementCurrency })}</span>
+                                        <span className="text-red-600 dark:text-red-400">Expenses: {formatMoney(selectedExpenses, { currency: statementCurrency })}</span>
+                                    </div>
+                                )}
+                            </>
+                        )}
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={step === 'upload' ? onClose : () => setStep(step === 'review' && fileFormat === 'csv' ? 'map' : 'upload')}
+                                disabled={isPosting || isLoading}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                            >
+                                {step === 'upload' ? 'Cancel' : 'Back'}
+                            </button>
+                            {step === 'map' && (
+                                <button
+                                    type="button"
+                                    onClick={() => reviewTransactions(parsed)}
+                                    disabled={isLoading || parsed.length === 0}
+                                    className="rounded-lg bg-blue-600 dark:bg-blue-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {isLoading ? (
+                                        <>
+                                            <Loader2 className="h-4 w-4 mr-2 inline animate-spin" />
+                                            Checking...
+                                        </>
+                                    ) : (
+                                        'Review'
+                                    )}
+                                </button>
+                            )}
+                            {step === 'review' && (
+                                <button
+                                    type="submit"
+                                    disabled={isPosting || selected.length === 0}
+                                    className="rounded-lg bg-blue-600 dark:bg-blue-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {isPosting ? (
+                                        <>
+                                            <Loader2 className="h-4 w-4 mr-2 inline animate-spin" />
+                                            Importing...
+                                        </>
+                                    ) : (
+                                        `Import ${selected.length} ${selected.length === 1 ? 'entry' : 'entries'}`
+                                    )}
+                                </button>
+                            )}
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </>
+    );
+
+    return createPortal(modal, document.body);
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { useTags } from '../contexts/TagsContext';
+import { normaliseTagName } from '../lib/tags';
+
+interface Props {
+    value: string[];
+    onChange: (names: string[]) => void;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// Tag names for an entry. Typing suggests the user's existing tags; Enter or a comma adds what was typed
+// as a new tag, which is created when the entry is saved.
+export default function TagInput({ value, onChange }: Props) {
+    const { tags } = useTags();
+    const [text, setText] = useState('');
+    const [focused, setFocused] = useState(false);
+
+    const chosen = new Set(value.map(name => name.toLowerCase()));
+    const query = normaliseTagName(text).toLowerCase();
+    const suggestions = tags
+        .filter(tag => !chosen.has(tag.name.toLowerCase()) && tag.name.toLowerCase().includes(query))
+        .slice(0, MAX_SUGGESTIONS);
+
+    const addTag = (name: string) => {
+        const tagName = normaliseTagName(name);
+        if (tagName && !chosen.has(tagName.toLowerCase())) {
+            onChange([...value, tagName]);
+        }
+        setText('');
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            // Keep Enter from submitting the form while a tag is being typed
+            if (text.trim() || e.key === ',') e.preventDefault();
+            addTag(text);
+        } else if (e.key === 'Backspace' && !text && value.length > 0) {
+            onChange(value.slice(0, -1));
+        }
+    };
+
+    return (
+        <div className="relative">
+            <div className="flex flex-wrap items-center gap-1.5 rounded-lg px-2 py-1.5 bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 focus-within:ring-2 focus-within:ring-blue-600 dark:focus-within:ring-blue-500">
+                {value.map(name => (
+                    <span
+                        key={name}
+                        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                    >
+                        #{name}
+                        <button
+                            type="button"
+                            onClick={() => onChange(value.filter(tagName => tagName !== name))}
+                            className="hover:text-blue-900 dark:hover:text-blue-100"
+                            aria-label={`Remove ${name}`}
+                        >
+                            <X className="h-3 w-3" />
+                        </button>
+                    </span>
+                ))}
+                <input
+                    type="text"
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    onFocus={() => setFocused(true)}
+                    onBlur={() => {
+                        setFocused(false);
+                        addTag(text);
+                    }}
+                    placeholder={value.length === 0 ? 'e.g. goa trip' : ''}
+                    className="flex-1 min-w-[6rem] border-0 bg-transparent px-1 py-1 text-gray-900 dark:text-white placeholder:text-gray-400 focus:ring-0 focus:outline-none sm:text-sm"
+                />
+            </div>
+            {focused && suggestions.length > 0 && (
+                <ul className="absolute z-10 mt-1 w-full max-h-48 overflow-auto rounded-lg bg-white dark:bg-gray-800 shadow-lg ring-1 ring-gray-200 dark:ring-gray-700 py-1">
+                    {suggestions.map(tag => (
+                        <li key={tag.id}>
+                            <button
+                                type="button"
+                                // Choose on mouse down so the input's blur doesn't add the half-typed text first
+                                onMouseDown={(e) => {
+                                    e.preventDefault();
+                                    addTag(tag.name);
+                                }}
+                                className="w-full text-left px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                            >
+                                #{tag.name}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,350 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ChevronLeft, ChevronRight, Repeat, Search, Target, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { useCategories } from '../contexts/CategoriesContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useAccounts } from '../contexts/AccountsContext';
+import { getCategoriesInDisplayOrder, getCategoryLabel, getSubcategories } from '../lib/categories';
+import { db } from '../lib/supabase';
+import BulkActionBar from './BulkActionBar';
+import { LedgerEntry, LedgerFilters, LedgerSort, SavingsGoal } from '../types';
+
+const PAGE_SIZE = 50;
+
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 300;
+
+const SORTS: { key: string; label: string; sort: LedgerSort }[] = [
+    { key: 'newest', label: 'Newest first', sort: { column: 'date', ascending: false } },
+    { key: 'oldest', label: 'Oldest first', sort: { column: 'date', ascending: true } },
+    { key: 'largest', label: 'Largest amount', sort: { column: 'amount', ascending: false } },
+    { key: 'smallest', label: 'Smallest amount', sort: { column: 'amount', ascending: true } },
+    { key: 'name', label: 'Name A–Z', sort: { column: 'name', ascending: true } }
+];
+
+// The filter controls as entered, before they're turned into LedgerFilters
+const EMPTY_FORM = {
+    type: '',
+    categoryId: '',
+    minAmount: '',
+    maxAmount: '',
+    recurring: '',
+    goal: ''
+};
+
+const selectClassName = "w-full px-3 py-1.5 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-700 dark:text-gray-300 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400";
+
+const parseAmount = (value: string) => (value.trim() === '' || isNaN(Number(value)) ? null : Number(value));
+
+export default function Transactions() {
+    const { user } = useAuth();
+    const { categories } = useCategories();
+    const { formatMoney } = useCurrency();
+    const { accounts } = useAccounts();
+    const [searchText, setSearchText] = useState('');
+    const [search, setSearch] = useState('');
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [sortKey, setSortKey] = useState(SORTS[0].key);
+    const [page, setPage] = useState(0);
+    const [entries, setEntries] = useState<LedgerEntry[]>([]);
+    const [count, setCount] = useState(0);
+    const [goals, setGoals] = useState<SavingsGoal[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [reloadCount, setReloadCount] = useState(0);
+
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            setSearch(searchText);
+            setPage(0);
+        }, SEARCH_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [searchText]);
+
+    const filters = useMemo<LedgerFilters>(() => ({
+        search,
+        type: form.type === 'income' || form.type === 'expense' ? form.type : null,
+        // A top-level category takes in its subcategories
+        categoryIds: form.categoryId
+            ? [form.categoryId, ...getSubcategories(categories, form.categoryId).map(category => category.id)]
+            : null,
+        minAmount: parseAmount(form.minAmount),
+        maxAmount: parseAmount(form.maxAmount),
+        recurring: form.recurring ? form.recurring === 'recurring' : null,
+        goalLinked: form.goal ? form.goal === 'linked' : null
+    }), [search, form, categories]);
+
+    // The options are constants, so the sort stays the same object until another is picked
+    const sort = SORTS.find(option => option.key === sortKey)?.sort ?? SORTS[0].sort;
+
+    useEffect(() => {
+        if (!user) return;
+        // A slower response for filters that have since changed mustn't replace the newer page
+        let cancelled = false;
+
+        const fetchPage = async () => {
+            setLoading(true);
+            // Only what's on the page can be selected
+            setSelectedIds(new Set());
+            try {
+                const result = await db.transactions.getPage(user.id, filters, sort, page, PAGE_SIZE);
+                if (cancelled) return;
+                setEntries(result.entries);
+                setCount(result.count);
+            } catch (error) {
+                if (cancelled) return;
+                console.error('Error fetching transactions:', error);
+                toast.error('Failed to load transactions');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        fetchPage();
+        return () => {
+            cancelled = true;
+        };
+    }, [user, filters, sort, page, reloadCount]);
+
+    // Goal names for the goal badge
+    useEffect(() => {
+        if (!user) return;
+        db.savingsGoals.getAll(user.id)
+            .then(setGoals)
+            .catch(error => console.error('Error fetching savings goals:', error));
+    }, [user]);
+
+    const updateForm = (changes: Partial<typeof EMPTY_FORM>) => {
+        setForm(prev => ({ ...prev, ...changes }));
+        setPage(0);
+    };
+
+    const clearFilters = () => {
+        setForm(EMPTY_FORM);
+        setSearchText('');
+        setSearch('');
+        setPage(0);
+    };
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const allSelected = entries.length > 0 && entries.every(entry => selectedIds.has(entry.id));
+    const selection = {
+        incomeIds: entries.filter(entry => entry.type === 'income' && selectedIds.has(entry.id)).map(entry => entry.id),
+        expenseIds: entries.filter(entry => entry.type === 'expense' && selectedIds.has(entry.id)).map(entry => entry.id)
+    };
+
+    const isFiltered = !!searchText || Object.values(form).some(Boolean);
+    const pageCount = Math.max(1, Math.ceil(count / PAGE_SIZE));
+    const firstShown = count === 0 ? 0 : page * PAGE_SIZE + 1;
+    const lastShown = Math.min(count, (page + 1) * PAGE_SIZE);
+
+    return (
+        <div className="space-y-6 max-w-7xl mx-auto px-4 sm:px-6 py-4">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-200 text-center sm:text-left">Transactions</h1>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 text-center sm:text-left">
+                        Every income and expense, across all months
+                    </p>
+                </div>
+                <select value={sortKey} onChange={(e) => { setSortKey(e.target.value); setPage(0); }} className={`${selectClassName} sm:w-auto`}>
+                    {SORTS.map(option => (
+                        <option key={option.key} value={option.key}>{option.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {/* Filters */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4 sm:p-6 space-y-3">
+                <div className="relative">
+                    <Search className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <input
+                        type="text"
+                        value={searchText}
+                        onChange={(e) => setSearchText(e.target.value)}
+                        placeholder="Search by name"
+                        className="block w-full rounded-md border-0 py-2 pl-9 pr-3 text-sm text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-600 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-500 focus:outline-none"
+                    />
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-2">
+                    <select value={form.type} onChange={(e) => updateForm({ type: e.target.value })} className={selectClassName}>
+                        <option value="">Income and expenses</option>
+                        <option value="income">Income only</option>
+                        <option value="expense">Expenses only</option>
+                    </select>
+                    <select value={form.categoryId} onChange={(e) => updateForm({ categoryId: e.target.value })} className={selectClassName}>
+                        <option value="">All categories</option>
+                        {getCategoriesInDisplayOrder(categories).map(category => (
+                            <option key={category.id} value={category.id}>{getCategoryLabel(categories, category.id)}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={form.minAmount}
+                        onChange={(e) => updateForm({ minAmount: e.target.value })}
+                        placeholder="Min amount"
+                        className={selectClassName}
+                    />
+                    <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={form.maxAmount}
+                        onChange={(e) => updateForm({ maxAmount: e.target.value })}
+                        placeholder="Max amount"
+                        className={selectClassName}
+                    />
+                    <select value={form.recurring} onChange={(e) => updateForm({ recurring: e.target.value })} className={selectClassName}>
+                        <option value="">Recurring and one-off</option>
+                        <option value="recurring">Recurring only</option>
+                        <option value="one-off">One-off only</option>
+                    </select>
+                    <select value={form.goal} onChange={(e) => updateForm({ goal: e.target.value })} className={selectClassName}>
+                        <option value="">With or without a goal</option>
+                        <option value="linked">Linked to a goal</option>
+                        <option value="unlinked">Not linked to a goal</option>
+                    </select>
+                </div>
+                {isFiltered && (
+                    <button
+                        onClick={clearFilters}
+                        className="inline-flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+                    >
+                        <X className="h-4 w-4" />
+                        Clear filters
+                    </button>
+                )}
+            </div>
+
+            {/* Ledger */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4 sm:p-6 space-y-4">
+                <BulkActionBar
+                    selection={selection}
+                    goals={goals}
+                    onClear={() => setSelectedIds(new Set())}
+                    onChanged={() => setReloadCount(prev => prev + 1)}
+                />
+                {loading && entries.length === 0 ? (
+                    <p className="text-center text-gray-500 dark:text-gray-400">Loading...</p>
+                ) : entries.length === 0 ? (
+                    <p className="text-center text-gray-500 dark:text-gray-400">
+                        {isFiltered ? 'Nothing matches these filters' : 'No transactions yet'}
+                    </p>
+                ) : (
+                    <div className={`overflow-x-auto ${loading ? 'opacity-60' : ''}`}>
+                        <table className="min-w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                                    <th className="py-2 pr-3 w-6">
+                                        <input
+                                            type="checkbox"
+                                            checked={allSelected}
+                                            onChange={() => setSelectedIds(allSelected ? new Set() : new Set(entries.map(entry => entry.id)))}
+                                            className="h-4 w-4 text-blue-600 dark:text-blue-500 focus:ring-blue-500 dark:focus:ring-blue-400 border-gray-300 dark:border-gray-600 rounded dark:bg-gray-900"
+                                            aria-label="Select all on this page"
+                                        />
+                                    </th>
+                                    <th className="py-2 pr-3 font-medium">Date</th>
+                                    <th className="py-2 pr-3 font-medium">Name</th>
+                                    <th className="py-2 pr-3 font-medium">Category</th>
+                                    <th className="py-2 pr-3 font-medium">Account</th>
+                                    <th className="py-2 font-medium text-right">Amount</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+                                {entries.map(entry => {
+                                    const goal = goals.find(g => g.id === entry.goal_id);
+                                    return (
+                                        <tr key={entry.id} className={selectedIds.has(entry.id) ? 'bg-blue-50/60 dark:bg-blue-900/20' : ''}>
+                                            <td className="py-2 pr-3">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selectedIds.has(entry.id)}
+                                                    onChange={() => toggleSelected(entry.id)}
+                                                    className="h-4 w-4 text-blue-600 dark:text-blue-500 focus:ring-blue-500 dark:focus:ring-blue-400 border-gray-300 dark:border-gray-600 rounded dark:bg-gray-900"
+                                                    aria-label={`Select ${entry.name}`}
+                                                />
+                                            </td>
+                                            <td className="py-2 pr-3 whitespace-nowrap">{format(parseISO(entry.date), 'MMM d, yyyy')}</td>
+                                            <td className="py-2 pr-3">
+                                                <div className="flex items-center gap-2 min-w-0">
+                                                    <span className="font-medium text-gray-900 dark:text-gray-200 truncate">{entry.name}</span>
+                                                    {entry.recurring_id && (
+                                                        <span title="Posted by a recurring transaction">
+                                                            <Repeat className="h-3.5 w-3.5 shrink-0 text-gray-400 dark:text-gray-500" />
+                                                        </span>
+                                                    )}
+                                                    {entry.goal_id && (
+                                                        <span className="inline-flex items-center gap-1 shrink-0 px-2 py-0.5 rounded-full text-xs font-medium bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300">
+                                                            <Target className="h-3 w-3" />
+                                                            {goal?.name ?? 'Goal'}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                            </td>
+                                            <td className="py-2 pr-3 whitespace-nowrap">
+                                                {entry.type === 'income' ? (
+                                                    <span className="text-gray-400 dark:text-gray-500">Income</span>
+                                                ) : (
+                                                    getCategoryLabel(categories, entry.category_id)
+                                                )}
+                                            </td>
+                                            <td className="py-2 pr-3 whitespace-nowrap">
+                                                {accounts.find(account => account.id === entry.account_id)?.name ?? '—'}
+                                            </td>
+                                            <td className={`py-2 text-right font-medium whitespace-nowrap ${
+                                                entry.type === 'income' ? 'text-green-600 dark:text-green-400' : 'text-gray-900 dark:text-gray-200'
+                                            }`}>
+                                                {entry.type === 'income' ? '+' : '−'}{formatMoney(entry.amount, { currency: entry.currency })}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {count > 0 && (
+                    <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+                        <span>
+                            {firstShown}–{lastShown} of {count}
+                        </span>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => setPage(page - 1)}
+                                disabled={page === 0 || loading}
+                                className="p-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                                aria-label="Previous page"
+                            >
+                                <ChevronLeft className="h-4 w-4" />
+                            </button>
+                            <span>Page {page + 1} of {pageCount}</span>
+                            <button
+                                onClick={() => setPage(page + 1)}
+                                disabled={page + 1 >= pageCount || loading}
+                                className="p-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                                aria-label="Next page"
+                            >
+                                <ChevronRight className="h-4 w-4" />
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { createPortal } from 'react-dom';
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+import "../styles/datepicker.css";
+import { startOfDay } from 'date-fns';
+import { useAccounts } from '../contexts/AccountsContext';
+import { getCurrencySymbol } from '../lib/currency';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: (transfer: { from_account_id: string; to_account_id: string; amount: number; to_amount: number | null; date: string; note: string | null }) => Promise<void>;
+    fromAccountId?: string | null;
+}
+
+const inputClassName = "block w-full rounded-lg border-0 px-3 py-2.5 text-gray-900 dark:text-white bg-white dark:bg-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6";
+
+export default function TransferModal({ isOpen, onClose, onSave, fromAccountId = null }: Props) {
+    const { accounts } = useAccounts();
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    const [amount, setAmount] = useState('');
+    const [toAmount, setToAmount] = useState('');
+    const [date, setDate] = useState(startOfDay(new Date()));
+    const [note, setNote] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const source = fromAccountId ?? accounts[0]?.id ?? '';
+        setFrom(source);
+        setTo(accounts.find(account => account.id !== source)?.id ?? '');
+        setAmount('');
+        setToAmount('');
+        setDate(startOfDay(new Date()));
+        setNote('');
+    }, [isOpen, fromAccountId, accounts]);
+
+    const fromAccount = accounts.find(account => account.id === from);
+    const toAccount = accounts.find(account => account.id === to);
+    // Moving money between currencies needs to know what actually arrived
+    const isConversion = !!fromAccount && !!toAccount && fromAccount.currency !== toAccount.currency;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        await onSave({
+            from_account_id: from,
+            to_account_id: to,
+            amount: parseFloat(amount),
+            to_amount: isConversion ? parseFloat(toAmount) : null,
+            date: date.toISOString(),
+            note: note.trim() || null
+        });
+        onClose();
+    };
+
+    if (!isOpen) return null;
+
+    const renderAmountInput = (value: string, onChange: (value: string) => void, currency?: string) => (
+        <div className="relative rounded-lg shadow-sm">
+            <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{getCurrencySymbol(currency)}</span>
+            </div>
+            <input
+                type="number"
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                className={`block w-full rounded-lg border-0 py-2.5 ${getCurrencySymbol(currency).length > 1 ? 'pl-12' : 'pl-7'} pr-12 text-gray-900 dark:text-white bg-white dark:bg-gray-900 ring-1 ring-inset ring-gray-300 dark:ring-gray-700 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-inset focus:ring-blue-600 dark:focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6`}
+                placeholder="0.00"
+                required
+                min="0.01"
+                step="0.01"
+            />
+            <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
+                <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{currency}</span>
+            </div>
+        </div>
+    );
+
+    const modal = (
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <div>
+                            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Transfer</h2>
+                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                                Moves money between accounts without counting it as income or spending
+                            </p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="p-6">
+                        <div className="space-y-5">
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">From</label>
+                                    <select value={from} onChange={(e) => setFrom(e.target.value)} className={inputClassName}>
+                                        {accounts.map(account => (
+                                            <option key={account.id} value={account.id}>{account.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">To</label>
+                                    <select value={to} onChange={(e) => setTo(e.target.value)} className={inputClassName}>
+                                        {accounts.map(account => (
+                                            <option key={account.id} value={account.id}>{account.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Amount</label>
+                                {renderAmountInput(amount, setAmount, fromAccount?.currency)}
+                            </div>
+
+                            {isConversion && (
+                                <div className="space-y-1.5">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Amount received</label>
+                                    {renderAmountInput(toAmount, setToAmount, toAccount?.currency)}
+                                </div>
+                            )}
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Date</label>
+                                <DatePicker
+                                    selected={date}
+                                    onChange={(value: Date | null) => value && setDate(startOfDay(value))}
+                                    dateFormat="MMM d, yyyy"
+                                    className={inputClassName}
+                                    wrapperClassName="!block"
+                                    popperClassName="!z-50"
+                                />
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Note</label>
+                                <input
+                                    type="text"
+                                    value={note}
+                                    onChange={(e) => setNote(e.target.value)}
+                                    className={inputClassName}
+                                    placeholder="Optional, e.g. Credit card bill"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={!from || !to || from === to}
+                                className="rounded-lg bg-blue-600 dark:bg-blue-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Transfer
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </>
+    );
+
+    return createPortal(modal, document.body);
+}
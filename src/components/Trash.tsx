@@ -0,0 +1,240 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { differenceInCalendarDays, addDays, format, formatDistanceToNow, parseISO } from 'date-fns';
+import { AlertTriangle, ArrowDownCircle, ArrowUpCircle, Paperclip, Repeat, RotateCcw, Target, Trash2, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { fetchTrash, isTrashExpired, purgeFromTrash, restoreFromTrash, TRASH_RETENTION_DAYS } from '../lib/trash';
+import { TrashItem } from '../types';
+
+const KINDS: Record<TrashItem['kind'], { label: string; Icon: typeof Target; className: string }> = {
+    income: { label: 'Income', Icon: ArrowUpCircle, className: 'text-green-600 dark:text-green-400' },
+    expense: { label: 'Expense', Icon: ArrowDownCircle, className: 'text-red-600 dark:text-red-400' },
+    recurring: { label: 'Recurring transaction', Icon: Repeat, className: 'text-blue-600 dark:text-blue-400' },
+    goal: { label: 'Savings goal', Icon: Target, className: 'text-purple-600 dark:text-purple-400' }
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+interface PurgeConfirmationModalProps {
+    items: TrashItem[] | null;
+    onClose: () => void;
+    onConfirm: (items: TrashItem[]) => Promise<void>;
+}
+
+function PurgeConfirmationModal({ items, onClose, onConfirm }: PurgeConfirmationModalProps) {
+    const [isPurging, setIsPurging] = useState(false);
+
+    if (!items) return null;
+
+    const handleConfirm = async () => {
+        setIsPurging(true);
+        try {
+            await onConfirm(items);
+            onClose();
+        } finally {
+            setIsPurging(false);
+        }
+    };
+
+    return createPortal(
+        <>
+            <div className="fixed inset-0 bg-black/25 backdrop-blur-sm z-50" />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Delete forever</h2>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 transition-colors"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <div className="p-6 space-y-4">
+                        <div className="flex gap-3 rounded-lg bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300">
+                            <AlertTriangle className="h-5 w-5 shrink-0" />
+                            <p>
+                                {items.length === 1 ? items[0].name : plural(items.length, 'item')} will be deleted for good,
+                                along with any attachments. This can't be undone.
+                            </p>
+                        </div>
+
+                        <div className="flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                disabled={isPurging}
+                                className="rounded-lg px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleConfirm}
+                                disabled={isPurging}
+                                className="rounded-lg bg-red-600 dark:bg-red-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-red-700 dark:hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-600 dark:focus:ring-red-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {isPurging ? 'Deleting...' : 'Delete forever'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </>,
+        document.body
+    );
+}
+
+// Deleted income, expenses, recurring transactions and goals, kept for TRASH_RETENTION_DAYS before they're purged
+export default function Trash() {
+    const { user } = useAuth();
+    const { formatMoney } = useCurrency();
+    const [items, setItems] = useState<TrashItem[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [purging, setPurging] = useState<TrashItem[] | null>(null);
+    const [reloadCount, setReloadCount] = useState(0);
+
+    useEffect(() => {
+        if (!user) return;
+
+        const loadTrash = async () => {
+            try {
+                const all = await fetchTrash(user.id);
+                // Clear out what has expired rather than list it
+                const expired = all.filter(item => isTrashExpired(item));
+                await purgeFromTrash(expired);
+                setItems(all.filter(item => !expired.includes(item)));
+            } catch (error) {
+                console.error('Error fetching trash:', error);
+                toast.error('Failed to load the trash');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        loadTrash();
+    }, [user, reloadCount]);
+
+    const reload = () => setReloadCount(prev => prev + 1);
+
+    const handleRestore = async (item: TrashItem) => {
+        setBusyId(item.id);
+        try {
+            await restoreFromTrash([item]);
+            toast.success(`Restored ${item.name}`);
+            reload();
+        } catch (error) {
+            console.error('Error restoring from trash:', error);
+            toast.error('Failed to restore');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handlePurge = async (purged: TrashItem[]) => {
+        try {
+            await purgeFromTrash(purged);
+            toast.success(purged.length === 1 ? `Deleted ${purged[0].name}` : `Deleted ${plural(purged.length, 'item')}`);
+        } catch (error) {
+            console.error('Error purging trash:', error);
+            toast.error('Failed to delete');
+        }
+        reload();
+    };
+
+    const daysLeft = (item: TrashItem) =>
+        Math.max(0, differenceInCalendarDays(addDays(parseISO(item.deleted_at), TRASH_RETENTION_DAYS), new Date()));
+
+    return (
+        <div className="space-y-6 max-w-7xl mx-auto px-4 sm:px-6 py-4">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-200 text-center sm:text-left">Trash</h1>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 text-center sm:text-left">
+                        Deleted items are kept for {TRASH_RETENTION_DAYS} days, then deleted for good
+                    </p>
+                </div>
+                {items.length > 0 && (
+                    <button
+                        onClick={() => setPurging(items)}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800 hover:bg-red-50 dark:hover:bg-red-900/20"
+                    >
+                        <Trash2 className="h-4 w-4" />
+                        Empty trash
+                    </button>
+                )}
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-300 dark:border-gray-700 p-4 sm:p-6">
+                {loading ? (
+                    <p className="text-center text-gray-500 dark:text-gray-400">Loading...</p>
+                ) : items.length === 0 ? (
+                    <p className="text-center text-gray-500 dark:text-gray-400">The trash is empty</p>
+                ) : (
+                    <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                        {items.map(item => {
+                            const { label, Icon, className } = KINDS[item.kind];
+                            return (
+                                <li key={`${item.kind}-${item.id}`} className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 py-3">
+                                    <div className="flex items-center gap-3 flex-1 min-w-0">
+                                        <Icon className={`h-5 w-5 shrink-0 ${className}`} />
+                                        <div className="min-w-0">
+                                            <div className="flex items-center gap-2">
+                                                <span className="text-sm font-semibold text-gray-900 dark:text-gray-200 truncate">{item.name}</span>
+                                                {item.attachments.length > 0 && (
+                                                    <Paperclip className="h-3.5 w-3.5 shrink-0 text-gray-400 dark:text-gray-500" />
+                                                )}
+                                            </div>
+                                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                                                {label}
+                                                {item.date && ` · ${format(parseISO(item.date), 'MMM d, yyyy')}`}
+                                                {' · '}
+                                                {item.kind === 'goal' ? 'Target ' : ''}
+                                                {formatMoney(item.amount, { currency: item.currency })}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <span className="text-xs text-gray-500 dark:text-gray-400 sm:text-right">
+                                        Deleted {formatDistanceToNow(parseISO(item.deleted_at), { addSuffix: true })}
+                                        {' · '}
+                                        {plural(daysLeft(item), 'day')} left
+                                    </span>
+                                    <div className="flex items-center gap-1">
+                                        <button
+                                            onClick={() => handleRestore(item)}
+                                            disabled={busyId === item.id}
+                                            title={item.kind === 'goal' ? 'Restore, with what was deleted along with it' : 'Restore'}
+                                            className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 disabled:opacity-50"
+                                        >
+                                            <RotateCcw className="h-4 w-4" />
+                                            Restore
+                                        </button>
+                                        <button
+                                            onClick={() => setPurging([item])}
+                                            disabled={busyId === item.id}
+                                            className="p-1.5 rounded-md text-gray-400 dark:text-gray-500 hover:text-red-500 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                                            aria-label={`Delete ${item.name} forever`}
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+
+            <PurgeConfirmationModal
+                items={purging}
+                onClose={() => setPurging(null)}
+                onConfirm={handlePurge}
+            />
+        </div>
+    );
+}
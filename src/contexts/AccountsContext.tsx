@@ -0,0 +1,53 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Account } from '../types';
+import { db } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+
+interface AccountsContextType {
+    accounts: Account[];
+    loading: boolean;
+    refreshAccounts: () => Promise<void>;
+}
+
+const AccountsContext = createContext<AccountsContextType>({
+    accounts: [],
+    loading: true,
+    refreshAccounts: async () => {},
+});
+
+export function AccountsProvider({ children }: { children: React.ReactNode }) {
+    const { user } = useAuth();
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    const refreshAccounts = useCallback(async () => {
+        if (!user) {
+            setAccounts([]);
+            setLoading(false);
+            return;
+        }
+
+        try {
+            setAccounts(await db.accounts.getAll(user.id));
+        } catch (error) {
+            console.error('Error fetching accounts:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [user]);
+
+    // Load the accounts whenever the signed-in user changes
+    useEffect(() => {
+        refreshAccounts();
+    }, [refreshAccounts]);
+
+    return (
+        <AccountsContext.Provider value={{ accounts, loading, refreshAccounts }}>
+            {children}
+        </AccountsContext.Provider>
+    );
+}
+
+export const useAccounts = () => {
+    return useContext(AccountsContext);
+};
@@ -0,0 +1,53 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Category } from '../types';
+import { fetchCategories } from '../lib/categories';
+import { useAuth } from './AuthContext';
+
+interface CategoriesContextType {
+    categories: Category[];
+    loading: boolean;
+    refreshCategories: () => Promise<void>;
+}
+
+const CategoriesContext = createContext<CategoriesContextType>({
+    categories: [],
+    loading: true,
+    refreshCategories: async () => {},
+});
+
+export function CategoriesProvider({ children }: { children: React.ReactNode }) {
+    const { user } = useAuth();
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    const refreshCategories = useCallback(async () => {
+        if (!user) {
+            setCategories([]);
+            setLoading(false);
+            return;
+        }
+
+        try {
+            setCategories(await fetchCategories(user.id));
+        } catch (error) {
+            console.error('Error fetching categories:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [user]);
+
+    // Load the categories whenever the signed-in user changes
+    useEffect(() => {
+        refreshCategories();
+    }, [refreshCategories]);
+
+    return (
+        <CategoriesContext.Provider value={{ categories, loading, refreshCategories }}>
+            {children}
+        </CategoriesContext.Provider>
+    );
+}
+
+export const useCategories = () => {
+    return useContext(CategoriesContext);
+};
@@ -0,0 +1,76 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { CurrencySettings, DEFAULT_CURRENCY, fetchCurrencySettings } from '../lib/currency';
+import { DEFAULT_NUMBER_LOCALE, MoneyFormatOptions, MoneyPreferences, formatMoney } from '../lib/money';
+import { useAuth } from './AuthContext';
+
+type Settings = CurrencySettings & MoneyPreferences;
+
+interface CurrencyContextType extends Settings {
+    loading: boolean;
+    refreshCurrency: () => Promise<void>;
+    // Formats in the base currency and the user's number style unless the options say otherwise
+    formatMoney: (amount: number, options?: MoneyFormatOptions) => string;
+}
+
+const DEFAULT_SETTINGS: Settings = {
+    baseCurrency: DEFAULT_CURRENCY,
+    rates: {},
+    numberLocale: DEFAULT_NUMBER_LOCALE,
+    accountingNegatives: false
+};
+
+const CurrencyContext = createContext<CurrencyContextType>({
+    ...DEFAULT_SETTINGS,
+    loading: true,
+    refreshCurrency: async () => {},
+    formatMoney: (amount, options) => formatMoney(amount, options),
+});
+
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+    const { user } = useAuth();
+    const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+    // Whose settings are loaded. Worked out while rendering, so a newly signed-in user never sees loading as done
+    // while the defaults are still in place.
+    const [loadedUserId, setLoadedUserId] = useState<string | null | undefined>(undefined);
+    const loading = loadedUserId !== (user?.id ?? null);
+
+    const refreshCurrency = useCallback(async () => {
+        if (!user) {
+            setSettings(DEFAULT_SETTINGS);
+            setLoadedUserId(null);
+            return;
+        }
+
+        try {
+            setSettings(await fetchCurrencySettings(user.id));
+        } catch (error) {
+            console.error('Error fetching currency settings:', error);
+        } finally {
+            setLoadedUserId(user.id);
+        }
+    }, [user]);
+
+    // Load the base currency and exchange rates whenever the signed-in user changes
+    useEffect(() => {
+        refreshCurrency();
+    }, [refreshCurrency]);
+
+    const { baseCurrency, numberLocale, accountingNegatives } = settings;
+    const formatInPreferences = useCallback((amount: number, options: MoneyFormatOptions = {}) =>
+        formatMoney(amount, {
+            ...options,
+            currency: options.currency ?? baseCurrency,
+            locale: options.locale ?? numberLocale,
+            accounting: options.accounting ?? accountingNegatives
+        }), [baseCurrency, numberLocale, accountingNegatives]);
+
+    return (
+        <CurrencyContext.Provider value={{ ...settings, loading, refreshCurrency, formatMoney: formatInPreferences }}>
+            {children}
+        </CurrencyContext.Provider>
+    );
+}
+
+export const useCurrency = () => {
+    return useContext(CurrencyContext);
+};
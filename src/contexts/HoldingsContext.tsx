@@ -0,0 +1,53 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Holding } from '../types';
+import { db } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+
+interface HoldingsContextType {
+    holdings: Holding[];
+    loading: boolean;
+    refreshHoldings: () => Promise<void>;
+}
+
+const HoldingsContext = createContext<HoldingsContextType>({
+    holdings: [],
+    loading: true,
+    refreshHoldings: async () => {},
+});
+
+export function HoldingsProvider({ children }: { children: React.ReactNode }) {
+    const { user } = useAuth();
+    const [holdings, setHoldings] = useState<Holding[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    const refreshHoldings = useCallback(async () => {
+        if (!user) {
+            setHoldings([]);
+            setLoading(false);
+            return;
+        }
+
+        try {
+            setHoldings(await db.holdings.getAll(user.id));
+        } catch (error) {
+            console.error('Error fetching holdings:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [user]);
+
+    // Load the holdings whenever the signed-in user changes
+    useEffect(() => {
+        refreshHoldings();
+    }, [refreshHoldings]);
+
+    return (
+        <HoldingsContext.Provider value={{ holdings, loading, refreshHoldings }}>
+            {children}
+        </HoldingsContext.Provider>
+    );
+}
+
+export const useHoldings = () => {
+    return useContext(HoldingsContext);
+};
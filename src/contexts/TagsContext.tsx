@@ -0,0 +1,53 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Tag } from '../types';
+import { db } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+
+interface TagsContextType {
+    tags: Tag[];
+    loading: boolean;
+    refreshTags: () => Promise<void>;
+}
+
+const TagsContext = createContext<TagsContextType>({
+    tags: [],
+    loading: true,
+    refreshTags: async () => {},
+});
+
+export function TagsProvider({ children }: { children: React.ReactNode }) {
+    const { user } = useAuth();
+    const [tags, setTags] = useState<Tag[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    const refreshTags = useCallback(async () => {
+        if (!user) {
+            setTags([]);
+            setLoading(false);
+            return;
+        }
+
+        try {
+            setTags(await db.tags.getAll(user.id));
+        } catch (error) {
+            console.error('Error fetching tags:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [user]);
+
+    // Load the tags whenever the signed-in user changes
+    useEffect(() => {
+        refreshTags();
+    }, [refreshTags]);
+
+    return (
+        <TagsContext.Provider value={{ tags, loading, refreshTags }}>
+            {children}
+        </TagsContext.Provider>
+    );
+}
+
+export const useTags = () => {
+    return useContext(TagsContext);
+};
@@ -1 +0,0 @@
-// Delete this entire file
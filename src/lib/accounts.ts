@@ -0,0 +1,15 @@
+import { Banknote, CreditCard, Landmark, LucideIcon, Smartphone } from 'lucide-react';
+import { Account, AccountType } from '../types';
+
+export const ACCOUNT_TYPES: { value: AccountType; label: string; Icon: LucideIcon }[] = [
+    { value: 'bank', label: 'Bank account', Icon: Landmark },
+    { value: 'credit_card', label: 'Credit card', Icon: CreditCard },
+    { value: 'cash', label: 'Cash', Icon: Banknote },
+    { value: 'wallet', label: 'Wallet', Icon: Smartphone }
+];
+
+export const getAccountType = (type: AccountType) =>
+    ACCOUNT_TYPES.find(accountType => accountType.value === type) ?? ACCOUNT_TYPES[0];
+
+export const getAccountName = (accounts: Account[], accountId: string | null | undefined) =>
+    accountId ? accounts.find(account => account.id === accountId)?.name ?? 'Deleted account' : null;
@@ -0,0 +1,86 @@
+import { Attachment } from '../types';
+import { db, supabase } from './supabase';
+
+export const ATTACHMENTS_BUCKET = 'attachments';
+
+// The same limits the bucket enforces, set in the attachments migration
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'];
+
+// How long a preview or download link keeps working, in seconds
+const SIGNED_URL_EXPIRY = 60 * 60;
+
+export const isImageAttachment = (attachment: { content_type: string }) => attachment.content_type.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Why a file can't be attached, or null when it can
+export const getAttachmentError = (file: File) => {
+    if (!ATTACHMENT_TYPES.includes(file.type)) return `${file.name} isn't an image or PDF`;
+    if (file.size > MAX_ATTACHMENT_SIZE) return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+    return null;
+};
+
+// Files go in a folder named after the owner's id, which is what the bucket's policies check.
+// The random prefix keeps two receipts with the same name apart.
+const getAttachmentPath = (userId: string, fileName: string) =>
+    `${userId}/${crypto.randomUUID()}-${fileName.replace(/[^\w.-]+/g, '_')}`;
+
+// Upload files and attach them to an income or expense
+export async function uploadAttachments(
+    userId: string,
+    entry: { expense_id: string } | { income_id: string },
+    files: File[]
+): Promise<Attachment[]> {
+    const uploaded: Attachment[] = [];
+    for (const file of files) {
+        const path = getAttachmentPath(userId, file.name);
+        const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).upload(path, file, { contentType: file.type });
+        if (error) throw error;
+
+        try {
+            uploaded.push(await db.attachments.add({
+                user_id: userId,
+                expense_id: null,
+                income_id: null,
+                ...entry,
+                path,
+                file_name: file.name,
+                content_type: file.type,
+                size: file.size
+            }));
+        } catch (error) {
+            // Don't leave behind a file that nothing points to
+            await supabase.storage.from(ATTACHMENTS_BUCKET).remove([path]);
+            throw error;
+        }
+    }
+    return uploaded;
+}
+
+// Delete only the files, for rows that are already gone
+export async function removeAttachmentFiles(attachments: Attachment[]) {
+    if (attachments.length === 0) return;
+
+    const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove(attachments.map(attachment => attachment.path));
+    if (error) throw error;
+}
+
+// Delete the files along with their rows. Deleting an entry only removes the rows, so call this first.
+export async function removeAttachments(attachments: Attachment[]) {
+    if (attachments.length === 0) return;
+
+    await removeAttachmentFiles(attachments);
+    await db.attachments.remove(attachments.map(attachment => attachment.id));
+}
+
+// A temporary link to a file in the private bucket
+export async function getAttachmentUrl(attachment: Attachment) {
+    const { data, error } = await supabase.storage.from(ATTACHMENTS_BUCKET).createSignedUrl(attachment.path, SIGNED_URL_EXPIRY);
+    if (error) throw error;
+    return data.signedUrl;
+}
@@ -0,0 +1,79 @@
+import { Category, Expense, RuleBucket, UserSettings } from '../types';
+import { getTopLevelCategory, splitByCategory } from './categories';
+import { db } from './supabase';
+
+export type RuleTargets = Record<RuleBucket, number>; // Percentages that should add up to 100
+
+export const RULE_BUCKETS: { key: RuleBucket; label: string; rgb: string }[] = [
+    { key: 'needs', label: 'Needs', rgb: '59, 130, 246' },
+    { key: 'wants', label: 'Wants', rgb: '168, 85, 247' },
+    { key: 'savings', label: 'Savings & Debt', rgb: '16, 185, 129' }
+];
+
+export const DEFAULT_RULE_TARGETS: RuleTargets = { needs: 50, wants: 30, savings: 20 };
+
+// The targets are kept in the user's settings, so they follow them between devices
+export async function fetchRuleTargets(userId: string): Promise<RuleTargets> {
+    const settings: UserSettings | null = await db.userSettings.get(userId);
+    if (!settings) return DEFAULT_RULE_TARGETS;
+
+    return {
+        needs: Number(settings.rule_needs_target),
+        wants: Number(settings.rule_wants_target),
+        savings: Number(settings.rule_savings_target)
+    };
+}
+
+export async function saveRuleTargets(userId: string, targets: RuleTargets) {
+    await db.userSettings.set(userId, {
+        rule_needs_target: targets.needs,
+        rule_wants_target: targets.wants,
+        rule_savings_target: targets.savings
+    });
+}
+
+export interface RuleMonth {
+    month: Date;
+    total: number;
+    actual: RuleTargets; // Share of the month's spending per bucket, in percent
+    drift: RuleTargets; // actual minus target, in percentage points
+    overspent: { bucket: RuleBucket; expenses: Expense[] }[]; // Expenses from the one that crossed the bucket's share onwards
+}
+
+// Uncategorised spending counts as a want, the same as a new category's default bucket
+export const getRuleBucket = (categories: Category[], categoryId?: string | null): RuleBucket =>
+    getTopLevelCategory(categories, categoryId)?.rule_bucket ?? 'wants';
+
+// Compare a month's split of spending with the target ratio. Within an over-share bucket,
+// expenses are replayed in date order and everything from the one that crossed the allowance is listed.
+// Split expenses count each line in its own category's bucket.
+export function analyseRuleMonth(month: Date, monthExpenses: Expense[], categories: Category[], targets: RuleTargets): RuleMonth {
+    const expenses = splitByCategory(monthExpenses);
+    const total = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+    const byBucket = RULE_BUCKETS.reduce((acc, { key }) => {
+        acc[key] = expenses.filter(expense => getRuleBucket(categories, expense.category_id) === key);
+        return acc;
+    }, {} as Record<RuleBucket, Expense[]>);
+
+    const actual = {} as RuleTargets;
+    const drift = {} as RuleTargets;
+    const overspent: RuleMonth['overspent'] = [];
+
+    for (const { key } of RULE_BUCKETS) {
+        const spent = byBucket[key].reduce((sum, expense) => sum + expense.amount, 0);
+        actual[key] = total > 0 ? (spent / total) * 100 : 0;
+        drift[key] = total > 0 ? actual[key] - targets[key] : 0;
+
+        const allowance = (total * targets[key]) / 100;
+        if (total === 0 || spent <= allowance) continue;
+
+        const ordered = [...byBucket[key]].sort((a, b) =>
+            a.date.localeCompare(b.date) || a.created_at.localeCompare(b.created_at)
+        );
+        let running = 0;
+        const crossing = ordered.findIndex(expense => (running += expense.amount) > allowance);
+        overspent.push({ bucket: key, expenses: ordered.slice(crossing) });
+    }
+
+    return { month, total, actual, drift, overspent };
+}
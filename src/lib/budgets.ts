@@ -0,0 +1,80 @@
+import { addMonths, endOfMonth, isBefore, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { Budget, Category, Expense } from '../types';
+import { db } from './supabase';
+import { getTopLevelCategory, splitByCategory } from './categories';
+import { CurrencySettings, toBaseAmounts } from './currency';
+
+export interface BudgetProgress {
+    budget: Budget;
+    available: number; // This month's amount plus anything rolled over
+    spent: number;
+    remaining: number; // Negative when overspent
+    percent: number; // Share of available spent, capped at 100 for progress bars
+}
+
+// Total spending per top-level category. Subcategory spending counts against its parent's budget, and
+// each line of a split expense against its own category's.
+export const sumSpendingByCategory = (expenses: Expense[], categories: Category[]) =>
+    splitByCategory(expenses).reduce((acc, expense) => {
+        const categoryId = getTopLevelCategory(categories, expense.category_id)?.id;
+        if (categoryId) acc[categoryId] = (acc[categoryId] || 0) + expense.amount;
+        return acc;
+    }, {} as Record<string, number>);
+
+// Unused budget carried into the given month by rollover budgets, keyed by category id.
+// Rollover starts in the month the budget was created and never goes below zero, so an
+// overspent month doesn't eat into the next one. Past months use the budget's current amount
+// and today's exchange rates, since budgets are in the base currency.
+export async function fetchRollovers(
+    userId: string,
+    budgets: Budget[],
+    categories: Category[],
+    currency: CurrencySettings,
+    month: Date
+): Promise<Record<string, number>> {
+    const rolloverBudgets = budgets.filter(budget =>
+        budget.rollover && isBefore(startOfMonth(parseISO(budget.created_at)), startOfMonth(month))
+    );
+    if (rolloverBudgets.length === 0) return {};
+
+    const firstMonth = rolloverBudgets
+        .map(budget => startOfMonth(parseISO(budget.created_at)))
+        .reduce((earliest, start) => (isBefore(start, earliest) ? start : earliest));
+    const expenses = toBaseAmounts<Expense>(
+        await db.expenses.getAll(userId, firstMonth, endOfMonth(subMonths(month, 1))),
+        currency
+    );
+
+    // Spending per month, then per category
+    const monthKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}`;
+    const expensesByMonth = new Map<string, Expense[]>();
+    for (const expense of expenses) {
+        const key = monthKey(new Date(expense.date));
+        expensesByMonth.set(key, [...(expensesByMonth.get(key) ?? []), expense]);
+    }
+    const spendingByMonth = new Map(
+        [...expensesByMonth].map(([key, monthExpenses]) => [key, sumSpendingByCategory(monthExpenses, categories)])
+    );
+
+    const rollovers: Record<string, number> = {};
+    for (const budget of rolloverBudgets) {
+        let carried = 0;
+        for (let m = startOfMonth(parseISO(budget.created_at)); isBefore(m, startOfMonth(month)); m = addMonths(m, 1)) {
+            const spent = spendingByMonth.get(monthKey(m))?.[budget.category_id] || 0;
+            carried = Math.max(0, carried + budget.amount - spent);
+        }
+        rollovers[budget.category_id] = carried;
+    }
+    return rollovers;
+}
+
+export function getBudgetProgress(budget: Budget, spent: number, rollover = 0): BudgetProgress {
+    const available = budget.amount + rollover;
+    return {
+        budget,
+        available,
+        spent,
+        remaining: available - spent,
+        percent: available > 0 ? Math.min(100, (spent / available) * 100) : 100
+    };
+}
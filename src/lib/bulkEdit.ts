@@ -0,0 +1,90 @@
+import { startOfDay } from 'date-fns';
+import { Expense, Income } from '../types';
+import { db } from './supabase';
+import { Undoable } from './undoToast';
+
+// One change applied to every selected entry. Category and goal only mean something for expenses,
+// so income in the selection is left alone for those.
+export type BulkAction =
+    | { kind: 'category'; categoryId: string | null }
+    | { kind: 'goal'; goalId: string | null } // null unlinks
+    | { kind: 'date'; date: Date }
+    | { kind: 'delete' };
+
+export interface BulkSelection {
+    incomeIds: string[];
+    expenseIds: string[];
+}
+
+export interface BulkResult extends Undoable {
+    count: number; // Entries the action changed
+}
+
+const stripEmbedded = <T extends Income | Expense>(entry: T): T => {
+    const row = { ...entry } as Income & Expense;
+    delete row.splits;
+    delete row.tags;
+    delete row.attachments;
+    return row as T;
+};
+
+// Apply an action to every selected entry in one call per table. Deleting moves the entries to the trash.
+// For the other actions the entries are read first, so undo can write them back as they were, along with
+// the split lines a category change took away.
+export async function applyBulkAction(userId: string, selection: BulkSelection, action: BulkAction): Promise<BulkResult> {
+    const incomeIds = action.kind === 'category' || action.kind === 'goal' ? [] : selection.incomeIds;
+    const expenseIds = selection.expenseIds;
+    const redo = () => applyBulkAction(userId, selection, action);
+
+    if (action.kind === 'delete') {
+        const deletedAt = new Date().toISOString();
+        await db.trash.moveTo('income_sources', incomeIds, deletedAt);
+        await db.trash.moveTo('expenses', expenseIds, deletedAt);
+        return {
+            count: incomeIds.length + expenseIds.length,
+            async undo() {
+                await db.trash.restore('income_sources', incomeIds);
+                await db.trash.restore('expenses', expenseIds);
+            },
+            redo
+        };
+    }
+
+    const [incomes, expenses]: [Income[], Expense[]] = await Promise.all([
+        db.income.getByIds(incomeIds),
+        db.expenses.getByIds(expenseIds)
+    ]);
+    const splits = expenses.flatMap(expense => expense.splits ?? []);
+
+    switch (action.kind) {
+        case 'category':
+            // A split expense gets the one category instead of its lines
+            await db.expenseSplits.removeForExpenses(expenseIds);
+            await db.expenses.updateMany(expenseIds, { category_id: action.categoryId });
+            break;
+        case 'goal':
+            await db.expenses.updateMany(expenseIds, { goal_id: action.goalId });
+            break;
+        case 'date': {
+            const date = startOfDay(action.date).toISOString();
+            await db.income.updateMany(incomeIds, { date });
+            await db.expenses.updateMany(expenseIds, { date });
+            break;
+        }
+    }
+
+    return {
+        count: incomes.length + expenses.length,
+        async undo() {
+            await db.income.restoreMany(incomes.map(stripEmbedded));
+            await db.expenses.restoreMany(expenses.map(stripEmbedded));
+
+            if (action.kind === 'category') {
+                await db.expenseSplits.addMany(splits.map(({ user_id, expense_id, category_id, amount }) => ({
+                    user_id, expense_id, category_id, amount
+                })));
+            }
+        },
+        redo
+    };
+}
@@ -0,0 +1,104 @@
+import {
+    Baby, Briefcase, Car, CreditCard, Dumbbell, Film, Gift, GraduationCap, HeartPulse, Home, Landmark,
+    LucideIcon, PawPrint, PiggyBank, Plane, ShoppingCart, Shirt, Smartphone, Sparkles, Tag, TrendingUp,
+    Utensils, Wallet, Zap
+} from 'lucide-react';
+import { Category, Expense } from '../types';
+import { db, supabase } from './supabase';
+
+// Colours a category can use. Class names are written out in full so Tailwind keeps them in the build.
+export const CATEGORY_COLORS: Record<string, { text: string; badge: string; dot: string; rgb: string }> = {
+    emerald: { text: 'text-emerald-600 dark:text-emerald-400', badge: 'bg-emerald-50 dark:bg-emerald-900/50 text-emerald-700 dark:text-emerald-300', dot: 'bg-emerald-500', rgb: '16, 185, 129' },
+    orange: { text: 'text-orange-600 dark:text-orange-400', badge: 'bg-orange-50 dark:bg-orange-900/50 text-orange-700 dark:text-orange-300', dot: 'bg-orange-500', rgb: '249, 115, 22' },
+    blue: { text: 'text-blue-600 dark:text-blue-400', badge: 'bg-blue-50 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300', dot: 'bg-blue-500', rgb: '59, 130, 246' },
+    purple: { text: 'text-purple-600 dark:text-purple-400', badge: 'bg-purple-50 dark:bg-purple-900/50 text-purple-700 dark:text-purple-300', dot: 'bg-purple-500', rgb: '168, 85, 247' },
+    red: { text: 'text-red-600 dark:text-red-400', badge: 'bg-red-50 dark:bg-red-900/50 text-red-700 dark:text-red-300', dot: 'bg-red-500', rgb: '239, 68, 68' },
+    amber: { text: 'text-amber-600 dark:text-amber-400', badge: 'bg-amber-50 dark:bg-amber-900/50 text-amber-700 dark:text-amber-300', dot: 'bg-amber-500', rgb: '245, 158, 11' },
+    green: { text: 'text-green-600 dark:text-green-400', badge: 'bg-green-50 dark:bg-green-900/50 text-green-700 dark:text-green-300', dot: 'bg-green-500', rgb: '34, 197, 94' },
+    teal: { text: 'text-teal-600 dark:text-teal-400', badge: 'bg-teal-50 dark:bg-teal-900/50 text-teal-700 dark:text-teal-300', dot: 'bg-teal-500', rgb: '20, 184, 166' },
+    sky: { text: 'text-sky-600 dark:text-sky-400', badge: 'bg-sky-50 dark:bg-sky-900/50 text-sky-700 dark:text-sky-300', dot: 'bg-sky-500', rgb: '14, 165, 233' },
+    indigo: { text: 'text-indigo-600 dark:text-indigo-400', badge: 'bg-indigo-50 dark:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300', dot: 'bg-indigo-500', rgb: '99, 102, 241' },
+    pink: { text: 'text-pink-600 dark:text-pink-400', badge: 'bg-pink-50 dark:bg-pink-900/50 text-pink-700 dark:text-pink-300', dot: 'bg-pink-500', rgb: '236, 72, 153' },
+    gray: { text: 'text-gray-600 dark:text-gray-400', badge: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300', dot: 'bg-gray-500', rgb: '107, 114, 128' }
+};
+
+// Icons a category can use, stored by name
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+    Tag, TrendingUp, CreditCard, Home, Sparkles, ShoppingCart, Utensils, Zap, Car, Plane, Film, HeartPulse,
+    GraduationCap, Gift, Smartphone, Shirt, Briefcase, PiggyBank, Wallet, Landmark, Dumbbell, Baby, PawPrint
+};
+
+export const getCategoryColor = (category?: Category | null) =>
+    CATEGORY_COLORS[category?.color ?? 'gray'] ?? CATEGORY_COLORS.gray;
+
+export const getCategoryIcon = (category?: Category | null) =>
+    CATEGORY_ICONS[category?.icon ?? 'Tag'] ?? Tag;
+
+// Top-level categories in display order
+export const getTopLevelCategories = (categories: Category[]) =>
+    categories.filter(category => !category.parent_id);
+
+export const getSubcategories = (categories: Category[], parentId: string) =>
+    categories.filter(category => category.parent_id === parentId);
+
+// Each top-level category followed by its subcategories, for flat lists such as <select> options
+export const getCategoriesInDisplayOrder = (categories: Category[]) =>
+    getTopLevelCategories(categories).flatMap(category => [category, ...getSubcategories(categories, category.id)]);
+
+// The top-level category an entry rolls up into, for totals and Dashboard cards
+export const getTopLevelCategory = (categories: Category[], categoryId?: string | null) => {
+    const category = categories.find(c => c.id === categoryId);
+    if (!category?.parent_id) return category;
+    return categories.find(c => c.id === category.parent_id) ?? category;
+};
+
+// Each expense as the category lines it counts under: itself, or one copy per split line with that line's
+// category. A line's share of the expense is used rather than its amount, so the copies stay right after
+// the expense has been converted to another currency.
+export const splitByCategory = (expenses: Expense[]): Expense[] =>
+    expenses.flatMap(expense => {
+        const lines = expense.splits ?? [];
+        const splitTotal = lines.reduce((sum, line) => sum + line.amount, 0);
+        if (lines.length === 0 || splitTotal <= 0) return [expense];
+        return lines.map(line => ({
+            ...expense,
+            category_id: line.category_id,
+            amount: (expense.amount * line.amount) / splitTotal,
+            splits: undefined
+        }));
+    });
+
+// "Needs › Groceries" for subcategories, just the name otherwise
+export const getCategoryLabel = (categories: Category[], categoryId?: string | null) => {
+    const category = categories.find(c => c.id === categoryId);
+    if (!category) return 'Uncategorised';
+    const parent = category.parent_id ? categories.find(c => c.id === category.parent_id) : undefined;
+    return parent ? `${parent.name} › ${category.name}` : category.name;
+};
+
+// Load the user's categories, creating the defaults the first time
+export async function fetchCategories(userId: string): Promise<Category[]> {
+    const categories: Category[] = await db.categories.getAll(userId);
+    if (categories.length > 0) return categories;
+
+    await db.categories.createDefaults();
+    return db.categories.getAll(userId);
+}
+
+// Delete a category. Entries in a subcategory move up to its parent; entries in a top-level category
+// (and its subcategories) become uncategorised.
+export async function removeCategory(category: Category) {
+    if (category.parent_id) {
+        const tables = ['expenses', 'expense_splits', 'recurring_transactions', 'savings_goals'];
+        const results = await Promise.all(tables.map(table =>
+            supabase
+                .from(table)
+                .update({ category_id: category.parent_id })
+                .eq('category_id', category.id)
+        ));
+        const failed = results.find(({ error }) => error);
+        if (failed?.error) throw failed.error;
+    }
+
+    await db.categories.remove(category.id);
+}
@@ -0,0 +1,122 @@
+import { addMonths, endOfDay, getDaysInMonth, isAfter, isBefore, parseISO, setDate, startOfDay, startOfMonth, subMonths } from 'date-fns';
+import { Account, AccountTransfer, Expense, Income } from '../types';
+import { CurrencySettings, convertCurrency } from './currency';
+import { db } from './supabase';
+
+export interface StatementCycle {
+    previousStatementDate: Date; // The cycle runs from the day after this...
+    statementDate: Date; // ...to this, the latest statement
+    nextStatementDate: Date;
+    dueDate: Date | null; // Null when the card has no due day set
+}
+
+export interface CardStatement extends StatementCycle {
+    account: Account;
+    statementBalance: number; // Owed when the latest statement was generated
+    paid: number; // Payments and refunds into the card since then
+    amountDue: number; // What is left of the statement balance
+    minimumDue: number;
+    billed: number; // Spending in the cycle the latest statement covers
+    unbilled: number; // Spending since the latest statement, due with the next one
+    outstanding: number; // Everything owed on the card today
+    isOverdue: boolean;
+}
+
+export const hasStatementCycle = (account: Account) =>
+    account.type === 'credit_card' && account.statement_day !== null;
+
+// The given day in the month, or the month's last day when it is shorter
+const dayInMonth = (month: Date, day: number) => setDate(startOfMonth(month), Math.min(day, getDaysInMonth(month)));
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// The cycle of the latest statement generated on or before today
+export function getStatementCycle(account: Account, today = new Date()): StatementCycle {
+    const statementDay = account.statement_day ?? 1;
+    const thisMonth = dayInMonth(today, statementDay);
+    const statementDate = isAfter(thisMonth, startOfDay(today)) ? dayInMonth(subMonths(today, 1), statementDay) : thisMonth;
+
+    let dueDate: Date | null = null;
+    if (account.due_day !== null) {
+        dueDate = dayInMonth(statementDate, account.due_day);
+        if (!isAfter(dueDate, statementDate)) dueDate = dayInMonth(addMonths(statementDate, 1), account.due_day);
+    }
+
+    return {
+        previousStatementDate: dayInMonth(subMonths(statementDate, 1), statementDay),
+        statementDate,
+        nextStatementDate: dayInMonth(addMonths(statementDate, 1), statementDay),
+        dueDate
+    };
+}
+
+// Where each credit card with a statement cycle stands today, keyed by account id. Card balances
+// are negative while money is owed, so the statement balance is the card's balance at the end of
+// the statement day with its sign flipped. Amounts are in the card's own currency; entries in another
+// currency are converted with the user's rates, the same as the balances.
+export async function fetchCardStatements(
+    userId: string,
+    accounts: Account[],
+    currencySettings: CurrencySettings,
+    today = new Date()
+): Promise<Record<string, CardStatement>> {
+    const cards = accounts.filter(hasStatementCycle);
+    if (cards.length === 0) return {};
+
+    const cycles = new Map(cards.map(card => [card.id, getStatementCycle(card, today)]));
+    const earliest = (key: 'previousStatementDate' | 'statementDate') => [...cycles.values()]
+        .map(cycle => cycle[key])
+        .reduce((min, date) => (isBefore(date, min) ? date : min));
+
+    // Cards with different statement days need balances at different dates
+    const statementDates = [...new Set([...cycles.values()].map(cycle => cycle.statementDate.getTime()))];
+    const [expenses, income, transfers, currentBalances, ...statementBalances]: [
+        Expense[], Income[], AccountTransfer[], Record<string, number>, ...Record<string, number>[]
+    ] = await Promise.all([
+        db.expenses.getAll(userId, earliest('previousStatementDate'), today),
+        db.income.getAll(userId, earliest('statementDate'), today),
+        db.accountTransfers.getAll(userId, earliest('statementDate'), today),
+        db.accounts.getBalances(today),
+        ...statementDates.map(time => db.accounts.getBalances(new Date(time)))
+    ]);
+    const balancesAt = new Map(statementDates.map((time, i) => [time, statementBalances[i]]));
+
+    const sumBetween = (rows: { amount: number; date: string }[], from: Date, to: Date) => rows
+        .filter(row => {
+            const date = parseISO(row.date);
+            return isAfter(date, endOfDay(from)) && !isAfter(date, endOfDay(to));
+        })
+        .reduce((sum, row) => sum + row.amount, 0);
+
+    return Object.fromEntries(cards.map(card => {
+        const cycle = cycles.get(card.id)!;
+        const inCardCurrency = <T extends Income | Expense>(entry: T) =>
+            ({ ...entry, amount: convertCurrency(entry.amount, entry.currency, card.currency, currencySettings) });
+        const cardExpenses = expenses.filter(expense => expense.account_id === card.id).map(inCardCurrency);
+        const credits = [
+            ...income.filter(entry => entry.account_id === card.id).map(inCardCurrency),
+            ...transfers
+                .filter(transfer => transfer.to_account_id === card.id)
+                .map(transfer => ({ amount: transfer.to_amount ?? transfer.amount, date: transfer.date }))
+        ];
+
+        const statementBalance = roundMoney(Math.max(0, -(balancesAt.get(cycle.statementDate.getTime())?.[card.id] ?? card.opening_balance)));
+        const paid = roundMoney(sumBetween(credits, cycle.statementDate, today));
+        const amountDue = roundMoney(Math.max(0, statementBalance - paid));
+        const minimumDue = roundMoney(Math.max(0, (statementBalance * card.minimum_due_percent) / 100 - paid));
+
+        const statement: CardStatement = {
+            ...cycle,
+            account: card,
+            statementBalance,
+            paid,
+            amountDue,
+            minimumDue: Math.min(minimumDue, amountDue),
+            billed: roundMoney(sumBetween(cardExpenses, cycle.previousStatementDate, cycle.statementDate)),
+            unbilled: roundMoney(sumBetween(cardExpenses, cycle.statementDate, today)),
+            outstanding: roundMoney(Math.max(0, -(currentBalances[card.id] ?? card.opening_balance))),
+            isOverdue: cycle.dueDate !== null && amountDue > 0 && isAfter(startOfDay(today), cycle.dueDate)
+        };
+        return [card.id, statement];
+    }));
+}
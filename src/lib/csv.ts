@@ -0,0 +1,85 @@
+// Parse CSV text into rows of cells. Handles quoted cells, escaped quotes ("") and newlines inside quotes.
+export function parseCsv(text: string, delimiter = ','): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    // Strip a UTF-8 byte order mark, which Excel adds to exported files
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    // Drop blank lines
+    return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+// Guess the delimiter from the first line of the file
+export function detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+    const candidates = [',', ';', '\t', '|'];
+    return candidates.reduce((best, candidate) =>
+        firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+    , ',');
+}
+
+// Parse an amount as written on a bank statement, e.g. "1,23,456.78", "₹ 500", "(250.00)" or "120.50 Dr"
+export function parseAmount(value: string): number | null {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+
+    const isNegative = /^\(.*\)$/.test(trimmed) || /^-/.test(trimmed) || /\bdr\.?$/i.test(trimmed);
+    const digits = trimmed.replace(/[^0-9.]/g, '');
+    if (!digits) return null;
+
+    const amount = parseFloat(digits);
+    if (isNaN(amount)) return null;
+    return isNegative ? -amount : amount;
+}
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// Quote a cell when needed. Text that a spreadsheet would run as a formula is prefixed with a quote.
+const escapeCsvCell = (value: CsvValue): string => {
+    if (value === null || value === undefined) return '';
+    if (typeof value !== 'string') return String(value);
+
+    const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Build CSV text from rows of cells, the reverse of parseCsv
+export function toCsv(rows: CsvValue[][]): string {
+    return rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+}
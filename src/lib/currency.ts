@@ -0,0 +1,77 @@
+import { ExchangeRate, UserSettings } from '../types';
+import { db } from './supabase';
+import { DEFAULT_NUMBER_LOCALE, MoneyPreferences } from './money';
+
+export const DEFAULT_CURRENCY = 'INR';
+
+export const CURRENCIES: { code: string; symbol: string; name: string }[] = [
+    { code: 'INR', symbol: '₹', name: 'Indian Rupee' },
+    { code: 'USD', symbol: '$', name: 'US Dollar' },
+    { code: 'EUR', symbol: '€', name: 'Euro' },
+    { code: 'GBP', symbol: '£', name: 'British Pound' },
+    { code: 'AED', symbol: 'AED ', name: 'UAE Dirham' },
+    { code: 'SGD', symbol: 'S$', name: 'Singapore Dollar' },
+    { code: 'AUD', symbol: 'A$', name: 'Australian Dollar' },
+    { code: 'CAD', symbol: 'C$', name: 'Canadian Dollar' },
+    { code: 'JPY', symbol: '¥', name: 'Japanese Yen' }
+];
+
+export const getCurrencySymbol = (code: string = DEFAULT_CURRENCY) =>
+    CURRENCIES.find(currency => currency.code === code)?.symbol ?? `${code} `;
+
+// The user's base currency and the value of one unit of each other currency in it
+export interface CurrencySettings {
+    baseCurrency: string;
+    rates: Record<string, number>;
+}
+
+// Convert an amount into the base currency. Amounts in a currency without a rate are left as they are
+// so totals stay usable; getCurrenciesWithoutRate lists them so the page can say so.
+export function convertToBase(amount: number, currency: string | undefined, { baseCurrency, rates }: CurrencySettings) {
+    if (!currency || currency === baseCurrency) return amount;
+    const rate = rates[currency];
+    return rate ? amount * rate : amount;
+}
+
+// Convert an amount from one currency to another through the base currency, as account balances do.
+// Without a rate for either currency the amount is left as it is.
+export function convertCurrency(amount: number, from: string | undefined, to: string, { baseCurrency, rates }: CurrencySettings) {
+    const fromCurrency = from ?? DEFAULT_CURRENCY;
+    if (fromCurrency === to) return amount;
+    const fromRate = fromCurrency === baseCurrency ? 1 : rates[fromCurrency];
+    const toRate = to === baseCurrency ? 1 : rates[to];
+    return fromRate && toRate ? (amount * fromRate) / toRate : amount;
+}
+
+// Copies of the entries with their amounts in the base currency, for totals and charts
+export const toBaseAmounts = <T extends { amount: number; currency?: string }>(entries: T[], settings: CurrencySettings): T[] =>
+    entries.map(entry => ({ ...entry, amount: convertToBase(entry.amount, entry.currency, settings) }));
+
+export const getCurrenciesWithoutRate = (entries: { currency?: string }[], { baseCurrency, rates }: CurrencySettings) =>
+    [...new Set(entries.map(entry => entry.currency ?? DEFAULT_CURRENCY))]
+        .filter(currency => currency !== baseCurrency && !rates[currency]);
+
+// Load the base currency and rates along with how the user likes amounts written
+export async function fetchCurrencySettings(userId: string): Promise<CurrencySettings & MoneyPreferences> {
+    const [settings, rates]: [UserSettings | null, ExchangeRate[]] = await Promise.all([
+        db.userSettings.get(userId),
+        db.exchangeRates.getAll(userId)
+    ]);
+
+    return {
+        baseCurrency: settings?.base_currency ?? DEFAULT_CURRENCY,
+        rates: Object.fromEntries(rates.map(({ currency, rate }) => [currency, Number(rate)])),
+        numberLocale: settings?.number_locale ?? DEFAULT_NUMBER_LOCALE,
+        accountingNegatives: settings?.accounting_negatives ?? false
+    };
+}
+
+// Switch the base currency, restating every rate, budget and envelope amount against the new base so they keep
+// their value. The new base needs a rate in the old one to do that. The database does the switch in one go, so
+// a failure leaves everything as it was.
+export async function changeBaseCurrency({ baseCurrency, rates }: CurrencySettings, newBase: string) {
+    if (newBase === baseCurrency) return;
+    if (!rates[newBase]) throw new Error(`Add an exchange rate for ${newBase} before making it your base currency`);
+
+    await db.exchangeRates.changeBase(newBase);
+}
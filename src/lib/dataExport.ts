@@ -0,0 +1,183 @@
+import { format } from 'date-fns';
+import writeXlsxFile from 'write-excel-file/browser';
+import { db, Account, AccountTransfer, Category, Income, IncomeTag, Expense, ExpenseSplit, ExpenseTag, Holding, HoldingPrice, Loan, NetWorthSnapshot, RecurringTransaction, SavingsGoal, Tag } from './supabase';
+import { toCsv } from './csv';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export interface ExportData {
+    income_sources: Income[];
+    expenses: Expense[];
+    expense_splits: ExpenseSplit[]; // Missing from version 1 to 6 archives
+    recurring_transactions: RecurringTransaction[];
+    savings_goals: SavingsGoal[];
+    categories: Category[]; // Missing from version 1 archives, which stored category names on each row
+    accounts: Account[]; // Missing from version 1 and 2 archives
+    account_transfers: AccountTransfer[];
+    loans: Loan[]; // Missing from version 1 to 3 archives
+    holdings: Holding[]; // Missing from version 1 to 4 archives
+    holding_prices: HoldingPrice[];
+    net_worth_snapshots: NetWorthSnapshot[]; // Missing from version 1 to 5 archives
+    tags: Tag[]; // Missing from version 1 to 7 archives
+    expense_tags: ExpenseTag[];
+    income_tags: IncomeTag[];
+}
+
+// The JSON backup format. Bump ARCHIVE_VERSION when the shape changes so restore can tell old files apart.
+export interface ExportArchive {
+    app: 'finflow';
+    version: number;
+    exported_at: string;
+    range: { start: string; end: string };
+    data: ExportData;
+}
+
+export const ARCHIVE_VERSION = 8;
+
+export const EXPORT_TABLES: { key: keyof ExportData; label: string }[] = [
+    { key: 'income_sources', label: 'Income' },
+    { key: 'expenses', label: 'Expenses' },
+    { key: 'expense_splits', label: 'Expense Splits' },
+    { key: 'recurring_transactions', label: 'Recurring' },
+    { key: 'savings_goals', label: 'Savings Goals' },
+    { key: 'categories', label: 'Categories' },
+    { key: 'accounts', label: 'Accounts' },
+    { key: 'account_transfers', label: 'Transfers' },
+    { key: 'loans', label: 'Loans' },
+    { key: 'holdings', label: 'Holdings' },
+    { key: 'holding_prices', label: 'Holding Prices' },
+    { key: 'net_worth_snapshots', label: 'Net Worth' },
+    { key: 'tags', label: 'Tags' },
+    { key: 'expense_tags', label: 'Expense Tags' },
+    { key: 'income_tags', label: 'Income Tags' }
+];
+
+type Row = Record<string, unknown>;
+
+// Income, expenses and transfers are limited to the range; recurring transactions, goals, categories, accounts,
+// loans and holdings aren't dated, so all of them are included. Holding prices and net worth snapshots are kept
+// whole too, since a holding's value depends on its latest price whatever the range. Split lines and tags come
+// with their entries and are exported as tables of their own. Attachments stay behind in storage.
+export async function fetchExportData(userId: string, startDate: Date, endDate: Date): Promise<ExportData> {
+    const [incomeWithTags, expensesWithSplits, recurring_transactions, savings_goals, categories, accounts, account_transfers, loans, holdings, holding_prices, net_worth_snapshots, tags] = await Promise.all([
+        db.income.getAll(userId, startDate, endDate),
+        db.expenses.getAll(userId, startDate, endDate),
+        db.recurringTransactions.getAll(userId),
+        db.savingsGoals.getAll(userId),
+        db.categories.getAll(userId),
+        db.accounts.getAll(userId),
+        db.accountTransfers.getAll(userId, startDate, endDate),
+        db.loans.getAll(userId),
+        db.holdings.getAll(userId),
+        db.holdingPrices.getAll(userId),
+        db.netWorthSnapshots.getAll(userId),
+        db.tags.getAll(userId)
+    ]);
+    const income_sources = (incomeWithTags as Income[]).map(income => {
+        const copy = { ...income };
+        delete copy.tags;
+        delete copy.attachments;
+        return copy;
+    });
+    const expenses = (expensesWithSplits as Expense[]).map(expense => {
+        const copy = { ...expense };
+        delete copy.splits;
+        delete copy.tags;
+        delete copy.attachments;
+        return copy;
+    });
+    const expense_splits = (expensesWithSplits as Expense[]).flatMap(expense => expense.splits ?? []);
+    const expense_tags = (expensesWithSplits as Expense[]).flatMap(expense =>
+        (expense.tags ?? []).map(tag => ({ expense_id: expense.id, tag_id: tag.id, user_id: userId }))
+    );
+    const income_tags = (incomeWithTags as Income[]).flatMap(income =>
+        (income.tags ?? []).map(tag => ({ income_id: income.id, tag_id: tag.id, user_id: userId }))
+    );
+    return { income_sources, expenses, expense_splits, recurring_transactions, savings_goals, categories, accounts, account_transfers, loans, holdings, holding_prices, net_worth_snapshots, tags, expense_tags, income_tags };
+}
+
+// Column names in the order they first appear, leaving out the owner
+const getColumns = (rows: Row[]) => {
+    const columns = new Set<string>();
+    rows.forEach(row => Object.keys(row).forEach(key => columns.add(key)));
+    columns.delete('user_id');
+    return [...columns];
+};
+
+// Entry dates are stored as local midnight, so show them as a plain calendar date
+const toCellValue = (column: string, value: unknown) => {
+    if (value === null || value === undefined) return null;
+    if (column === 'date' && typeof value === 'string') return new Date(value);
+    if (typeof value === 'object') return JSON.stringify(value);
+    return value as string | number | boolean;
+};
+
+// The browser reads the blob after the click returns, so the URL is only revoked once the download has started
+const REVOKE_DELAY_MS = 60_000;
+// Browsers drop all but one of several downloads started at once, so each CSV waits for the one before it
+const DOWNLOAD_INTERVAL_MS = 500;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const downloadFile = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+// Download the data as one CSV per table, a JSON archive or a workbook with a sheet per table
+export async function downloadExport(data: ExportData, exportFormat: ExportFormat, startDate: Date, endDate: Date) {
+    const fileName = `finflow-${format(startDate, 'yyyy-MM-dd')}-to-${format(endDate, 'yyyy-MM-dd')}`;
+
+    if (exportFormat === 'json') {
+        const archive: ExportArchive = {
+            app: 'finflow',
+            version: ARCHIVE_VERSION,
+            exported_at: new Date().toISOString(),
+            range: { start: format(startDate, 'yyyy-MM-dd'), end: format(endDate, 'yyyy-MM-dd') },
+            data
+        };
+        downloadFile(new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' }), `${fileName}.json`);
+        return;
+    }
+
+    const tables = EXPORT_TABLES.map(({ key, label }) => {
+        const rows = data[key] as Row[];
+        const columns = getColumns(rows);
+        return {
+            key,
+            label,
+            columns,
+            values: rows.map(row => columns.map(column => toCellValue(column, row[column])))
+        };
+    });
+
+    if (exportFormat === 'csv') {
+        const csvTables = tables.filter(table => table.values.length > 0);
+        for (let i = 0; i < csvTables.length; i++) {
+            const { key, columns, values } = csvTables[i];
+            const csvRows = values.map(row => row.map(value =>
+                value instanceof Date ? format(value, 'yyyy-MM-dd') : value
+            ));
+            if (i > 0) await wait(DOWNLOAD_INTERVAL_MS);
+            downloadFile(new Blob([toCsv([columns, ...csvRows])], { type: 'text/csv' }), `${fileName}-${key}.csv`);
+        }
+        return;
+    }
+
+    const blob = await writeXlsxFile(tables.map(({ label, columns, values }) => ({
+        sheet: label,
+        dateFormat: 'yyyy-mm-dd',
+        stickyRowsCount: 1,
+        data: [
+            columns.map(column => ({ value: column, fontWeight: 'bold' as const })),
+            ...values
+        ]
+    }))).toBlob();
+    downloadFile(blob, `${fileName}.xlsx`);
+}
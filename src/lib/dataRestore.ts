@@ -0,0 +1,404 @@
+import { endOfDay, isWithinInterval, parseISO, startOfDay } from 'date-fns';
+import { db, Account, AccountTransfer, Category, Income, Expense, ExpenseSplit, Holding, Loan, RecurringTransaction, SavingsGoal, Tag } from './supabase';
+import { ARCHIVE_VERSION, ExportArchive } from './dataExport';
+import { removeAttachmentFiles } from './attachments';
+
+// merge: add what's missing and keep existing data. replace: delete what the archive covers first.
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+    income: number;
+    expenses: number;
+    recurring: number;
+    goals: number;
+    categories: number;
+    accounts: number;
+    transfers: number;
+    loans: number;
+    holdings: number;
+    prices: number;
+    snapshots: number;
+    tags: number;
+    skipped: number;
+}
+
+// Rows per insert request, to keep large archives under the API's payload limit
+const INSERT_BATCH_SIZE = 500;
+
+// Read and check a JSON archive made by downloadExport
+export function parseArchive(text: string): ExportArchive {
+    let archive: ExportArchive;
+    try {
+        archive = JSON.parse(text);
+    } catch {
+        throw new Error('This file is not valid JSON');
+    }
+
+    if (archive?.app !== 'finflow' || !archive.data || !archive.range) {
+        throw new Error('This file is not a FinFlow backup');
+    }
+    if (archive.version > ARCHIVE_VERSION) {
+        throw new Error('This backup was made by a newer version of FinFlow');
+    }
+    return archive;
+}
+
+// Drop the columns the database assigns, so the row can be inserted for another user or project
+const withoutIds = <T extends { id: string; user_id: string; created_at: string }>(row: T) => {
+    const copy: Partial<T> = { ...row };
+    delete copy.id;
+    delete copy.user_id;
+    delete copy.created_at;
+    return copy as Omit<T, 'id' | 'user_id' | 'created_at'>;
+};
+
+// Point a link at the restored row, or drop it if the linked row isn't in the archive
+const remap = (ids: Map<string, string>, id?: string) => (id ? ids.get(id) : undefined);
+
+// Occurrence keys are "<recurring_id>:<date>", so they follow the recurring transaction's new id
+const remapOccurrenceKey = (key: string | null | undefined, oldRecurringId?: string, newRecurringId?: string) => {
+    if (!key || !oldRecurringId || !key.startsWith(`${oldRecurringId}:`)) return key;
+    if (!newRecurringId) return null;
+    return `${newRecurringId}${key.slice(oldRecurringId.length)}`;
+};
+
+// Version 1 archives stored the category name on each row instead of a category_id
+const withoutLegacyCategory = <T extends object>(row: T) => {
+    const copy = { ...row } as T & { category?: string };
+    delete copy.category;
+    return copy;
+};
+
+const addInBatches = async <T>(rows: T[], addMany: (batch: T[]) => Promise<unknown[]>) => {
+    let added = 0;
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        added += (await addMany(rows.slice(i, i + INSERT_BATCH_SIZE))).length;
+    }
+    return added;
+};
+
+// Restore an archive into the user's account. Categories and accounts go in first, then goals, then recurring
+// transactions, then entries and transfers, so every category_id, account_id, goal_id and recurring_id can be
+// pointed at the row's new id. Categories, accounts, goals, recurring transactions, loans and holdings are always
+// merged: deleting them would unlink entries outside the archive's range.
+export async function restoreArchive(userId: string, archive: ExportArchive, mode: RestoreMode): Promise<RestoreSummary> {
+    const { data } = archive;
+    const startDate = parseISO(archive.range.start);
+    const endDate = parseISO(archive.range.end);
+    const summary: RestoreSummary = { income: 0, expenses: 0, recurring: 0, goals: 0, categories: 0, accounts: 0, transfers: 0, loans: 0, holdings: 0, prices: 0, snapshots: 0, tags: 0, skipped: 0 };
+
+    // The archive only holds income, expenses and transfers inside its range, so only those are cleared. Goals and
+    // recurring transactions are merged by id instead: entries outside the range may still point to them.
+    if (mode === 'replace') {
+        // Entries in the trash are in the range too. Their attachment rows go with them, so note the files first.
+        const [incomeInRange, expensesInRange, trash] = await Promise.all([
+            db.income.getAll(userId, startDate, endDate),
+            db.expenses.getAll(userId, startDate, endDate),
+            db.trash.getAll(userId)
+        ]);
+        const trashedInRange = [...trash.income, ...trash.expenses]
+            .filter(entry => isWithinInterval(parseISO(entry.date), { start: startOfDay(startDate), end: endOfDay(endDate) }));
+        const attachments = [...incomeInRange, ...expensesInRange, ...trashedInRange]
+            .flatMap((entry: Income | Expense) => entry.attachments ?? []);
+
+        await db.restore.clearRange(startDate, endDate);
+        try {
+            await removeAttachmentFiles(attachments);
+        } catch (error) {
+            // The entries are gone either way; a file left in storage isn't worth failing the restore over
+            console.error('Error removing attachment files:', error);
+        }
+    }
+
+    // Rows that are still in the account are kept and linked to as they are
+    const [existingGoals, existingRecurring]: [SavingsGoal[], RecurringTransaction[]] = await Promise.all([
+        db.savingsGoals.getAll(userId),
+        db.recurringTransactions.getAll(userId)
+    ]);
+    const [existingIncome, existingExpenses, existingTransfers]: [Income[], Expense[], AccountTransfer[]] =
+        mode === 'merge'
+            ? await Promise.all([
+                db.income.getAll(userId, startDate, endDate),
+                db.expenses.getAll(userId, startDate, endDate),
+                db.accountTransfers.getAll(userId, startDate, endDate)
+            ])
+            : [[], [], []];
+
+    // Categories match an existing one by id, or by name under the same parent
+    const existingCategories: Category[] = await db.categories.getAll(userId);
+    const categoryIds = new Map<string, string>();
+    const archivedCategories = data.categories ?? [];
+    const topLevelFirst = [
+        ...archivedCategories.filter(category => !category.parent_id),
+        ...archivedCategories.filter(category => category.parent_id)
+    ];
+    for (const category of topLevelFirst) {
+        const parentId = category.parent_id ? categoryIds.get(category.parent_id) ?? null : null;
+        const existing = existingCategories.find(c => c.id === category.id) ??
+            existingCategories.find(c => c.parent_id === parentId && c.name.toLowerCase() === category.name.toLowerCase());
+        if (existing) {
+            categoryIds.set(category.id, existing.id);
+            summary.skipped++;
+            continue;
+        }
+        const created = await db.categories.create({ ...withoutIds(category), user_id: userId, parent_id: parentId });
+        categoryIds.set(category.id, created.id);
+        summary.categories++;
+    }
+
+    const legacyCategoryIds = new Map(
+        existingCategories.filter(category => !category.parent_id).map(category => [category.name.toLowerCase(), category.id])
+    );
+    const getCategoryId = (row: { category_id?: string | null; category?: string }) =>
+        row.category
+            ? legacyCategoryIds.get(row.category) ?? null
+            : remap(categoryIds, row.category_id ?? undefined) ?? null;
+
+    // Accounts match an existing one by id, or by name
+    const existingAccounts: Account[] = await db.accounts.getAll(userId);
+    const accountIds = new Map<string, string>();
+    for (const account of data.accounts ?? []) {
+        const existing = existingAccounts.find(a => a.id === account.id) ??
+            existingAccounts.find(a => a.name.toLowerCase() === account.name.toLowerCase());
+        if (existing) {
+            accountIds.set(account.id, existing.id);
+            summary.skipped++;
+            continue;
+        }
+        const created = await db.accounts.create({ ...withoutIds(account), user_id: userId });
+        accountIds.set(account.id, created.id);
+        summary.accounts++;
+    }
+    const getAccountId = (row: { account_id?: string | null }) => remap(accountIds, row.account_id ?? undefined) ?? null;
+
+    const goalIds = new Map<string, string>();
+    const existingGoalIds = new Set(existingGoals.map(goal => goal.id));
+    for (const goal of data.savings_goals) {
+        if (existingGoalIds.has(goal.id)) {
+            goalIds.set(goal.id, goal.id);
+            summary.skipped++;
+            continue;
+        }
+        const created = await db.savingsGoals.create({
+            ...withoutLegacyCategory(withoutIds(goal)),
+            user_id: userId,
+            category_id: getCategoryId(goal)
+        });
+        goalIds.set(goal.id, created.id);
+        summary.goals++;
+    }
+
+    const recurringIds = new Map<string, string>();
+    const existingRecurringIds = new Set(existingRecurring.map(recurring => recurring.id));
+    for (const recurring of data.recurring_transactions) {
+        if (existingRecurringIds.has(recurring.id)) {
+            recurringIds.set(recurring.id, recurring.id);
+            summary.skipped++;
+            continue;
+        }
+        const created = await db.recurringTransactions.create({
+            ...withoutLegacyCategory(withoutIds(recurring)),
+            user_id: userId,
+            category_id: getCategoryId(recurring),
+            account_id: getAccountId(recurring),
+            goal_id: remap(goalIds, recurring.goal_id)
+        });
+        recurringIds.set(recurring.id, created.id);
+        summary.recurring++;
+    }
+
+    // Loans are merged like accounts, and follow their EMI recurring transaction to its new id
+    const existingLoans: Loan[] = await db.loans.getAll(userId);
+    for (const loan of data.loans ?? []) {
+        if (existingLoans.some(l => l.id === loan.id || l.name.toLowerCase() === loan.name.toLowerCase())) {
+            summary.skipped++;
+            continue;
+        }
+        await db.loans.create({
+            ...withoutIds(loan),
+            user_id: userId,
+            account_id: getAccountId(loan),
+            recurring_id: remap(recurringIds, loan.recurring_id ?? undefined) ?? null
+        });
+        summary.loans++;
+    }
+
+    // Holdings are merged like accounts, so purchases can be linked to them
+    const existingHoldings: Holding[] = await db.holdings.getAll(userId);
+    const holdingIds = new Map<string, string>();
+    for (const holding of data.holdings ?? []) {
+        const existing = existingHoldings.find(h => h.id === holding.id) ??
+            existingHoldings.find(h => h.name.toLowerCase() === holding.name.toLowerCase());
+        if (existing) {
+            holdingIds.set(holding.id, existing.id);
+            summary.skipped++;
+            continue;
+        }
+        const created = await db.holdings.create({ ...withoutIds(holding), user_id: userId });
+        holdingIds.set(holding.id, created.id);
+        summary.holdings++;
+    }
+
+    // Tags match an existing one by name, ignoring case
+    const existingTags: Tag[] = await db.tags.getAll(userId);
+    const tagIds = new Map<string, string>();
+    for (const tag of data.tags ?? []) {
+        const existing = existingTags.find(t => t.id === tag.id) ??
+            existingTags.find(t => t.name.toLowerCase() === tag.name.toLowerCase());
+        if (existing) {
+            tagIds.set(tag.id, existing.id);
+            summary.skipped++;
+            continue;
+        }
+        const [created] = await db.tags.addMany([{ ...withoutIds(tag), user_id: userId }]);
+        tagIds.set(tag.id, created.id);
+        summary.tags++;
+    }
+    const getTagIds = (links: { tag_id: string }[]) => links.flatMap(link => {
+        const tagId = remap(tagIds, link.tag_id);
+        return tagId ? [tagId] : [];
+    });
+
+    // Skip entries that are still there, and generated entries whose occurrence has been posted again since
+    const existingEntryIds = new Set([...existingIncome, ...existingExpenses].map(entry => entry.id));
+    const existingOccurrenceKeys = new Set(
+        [...existingIncome, ...existingExpenses].map(entry => entry.occurrence_key).filter(Boolean)
+    );
+    const isExisting = (entry: Income | Expense, occurrenceKey: string | null | undefined) =>
+        existingEntryIds.has(entry.id) || (!!occurrenceKey && existingOccurrenceKeys.has(occurrenceKey));
+
+    // Entries in the trash keep their id, occurrence key and bank id, so adding an archived copy would clash
+    // with them. They're taken back out of the trash instead.
+    const trash = await db.trash.getAll(userId);
+    const findTrashed = (trashed: (Income | Expense)[], entry: Income | Expense, occurrenceKey: string | null | undefined) =>
+        trashed.find(row =>
+            row.id === entry.id ||
+            (!!occurrenceKey && row.occurrence_key === occurrenceKey) ||
+            (!!entry.external_id && row.external_id === entry.external_id)
+        );
+    const restoredIncomeIds = new Set<string>();
+    const restoredExpenseIds = new Set<string>();
+
+    const incomes = data.income_sources.flatMap(income => {
+        const recurringId = remap(recurringIds, income.recurring_id);
+        const occurrenceKey = remapOccurrenceKey(income.occurrence_key, income.recurring_id, recurringId);
+        if (isExisting(income, occurrenceKey)) return [];
+        const trashed = findTrashed(trash.income, income, occurrenceKey);
+        if (trashed) {
+            restoredIncomeIds.add(trashed.id);
+            return [];
+        }
+        return [{
+            archivedId: income.id,
+            row: {
+                ...withoutIds(income),
+                user_id: userId,
+                account_id: getAccountId(income),
+                recurring_id: recurringId,
+                occurrence_key: occurrenceKey
+            }
+        }];
+    });
+
+    const expenses = data.expenses.flatMap(expense => {
+        const recurringId = remap(recurringIds, expense.recurring_id);
+        const occurrenceKey = remapOccurrenceKey(expense.occurrence_key, expense.recurring_id, recurringId);
+        if (isExisting(expense, occurrenceKey)) return [];
+        const trashed = findTrashed(trash.expenses, expense, occurrenceKey);
+        if (trashed) {
+            restoredExpenseIds.add(trashed.id);
+            return [];
+        }
+        return [{
+            archivedId: expense.id,
+            row: {
+                ...withoutLegacyCategory(withoutIds(expense)),
+                user_id: userId,
+                category_id: getCategoryId(expense),
+                account_id: getAccountId(expense),
+                recurring_id: recurringId,
+                goal_id: remap(goalIds, expense.goal_id ?? undefined),
+                holding_id: remap(holdingIds, expense.holding_id ?? undefined) ?? null,
+                occurrence_key: occurrenceKey
+            }
+        }];
+    });
+
+    const splitsByExpense = new Map<string, ExpenseSplit[]>();
+    for (const split of data.expense_splits ?? []) {
+        splitsByExpense.set(split.expense_id, [...(splitsByExpense.get(split.expense_id) ?? []), split]);
+    }
+    const tagIdsByExpense = new Map<string, string[]>();
+    for (const link of data.expense_tags ?? []) {
+        tagIdsByExpense.set(link.expense_id, [...(tagIdsByExpense.get(link.expense_id) ?? []), ...getTagIds([link])]);
+    }
+    const tagIdsByIncome = new Map<string, string[]>();
+    for (const link of data.income_tags ?? []) {
+        tagIdsByIncome.set(link.income_id, [...(tagIdsByIncome.get(link.income_id) ?? []), ...getTagIds([link])]);
+    }
+    const hasIncomeLinks = (archivedId: string) => !!tagIdsByIncome.get(archivedId)?.length;
+    const hasExpenseLinks = (archivedId: string) => splitsByExpense.has(archivedId) || !!tagIdsByExpense.get(archivedId)?.length;
+
+    await db.trash.restore('income_sources', [...restoredIncomeIds]);
+    await db.trash.restore('expenses', [...restoredExpenseIds]);
+    summary.skipped += data.income_sources.length - incomes.length - restoredIncomeIds.size +
+        data.expenses.length - expenses.length - restoredExpenseIds.size;
+    summary.income = await addInBatches(
+        incomes.filter(({ archivedId }) => !hasIncomeLinks(archivedId)).map(({ row }) => row),
+        batch => db.income.addMany(batch)
+    );
+    summary.expenses = await addInBatches(
+        expenses.filter(({ archivedId }) => !hasExpenseLinks(archivedId)).map(({ row }) => row),
+        batch => db.expenses.addMany(batch)
+    );
+    // Tagged entries and split expenses go in one at a time, so their tags and lines can be pointed at the new row
+    for (const { archivedId, row } of incomes.filter(({ archivedId }) => hasIncomeLinks(archivedId))) {
+        const [created] = await db.income.addMany([row]);
+        if (!created) continue;
+        summary.income++;
+        await db.incomeTags.addMany((tagIdsByIncome.get(archivedId) ?? []).map(tagId => ({ income_id: created.id, tag_id: tagId, user_id: userId })));
+    }
+    for (const { archivedId, row } of expenses.filter(({ archivedId }) => hasExpenseLinks(archivedId))) {
+        const [created] = await db.expenses.addMany([row]);
+        if (!created) continue;
+        summary.expenses++;
+        await db.expenseSplits.addMany((splitsByExpense.get(archivedId) ?? []).map(split => ({
+            ...withoutIds(split),
+            user_id: userId,
+            expense_id: created.id,
+            category_id: getCategoryId(split)
+        })));
+        await db.expenseTags.addMany((tagIdsByExpense.get(archivedId) ?? []).map(tagId => ({ expense_id: created.id, tag_id: tagId, user_id: userId })));
+    }
+    // Entries with a bank id that's already in the account are ignored by addMany
+    summary.skipped += incomes.length - summary.income + expenses.length - summary.expenses;
+    summary.income += restoredIncomeIds.size;
+    summary.expenses += restoredExpenseIds.size;
+
+    // A transfer is only restored when both of its accounts are
+    const existingTransferIds = new Set(existingTransfers.map(transfer => transfer.id));
+    const transfers = (data.account_transfers ?? []).flatMap(transfer => {
+        const fromAccountId = remap(accountIds, transfer.from_account_id);
+        const toAccountId = remap(accountIds, transfer.to_account_id);
+        if (existingTransferIds.has(transfer.id) || !fromAccountId || !toAccountId) return [];
+        return [{ ...withoutIds(transfer), user_id: userId, from_account_id: fromAccountId, to_account_id: toAccountId }];
+    });
+    summary.skipped += (data.account_transfers ?? []).length - transfers.length;
+    summary.transfers = await addInBatches(transfers, batch => db.accountTransfers.addMany(batch));
+
+    // Prices replace any already saved for the same holding and day
+    const prices = (data.holding_prices ?? []).flatMap(price => {
+        const holdingId = remap(holdingIds, price.holding_id);
+        if (!holdingId) return [];
+        return [{ ...withoutIds(price), user_id: userId, holding_id: holdingId }];
+    });
+    summary.skipped += (data.holding_prices ?? []).length - prices.length;
+    summary.prices = await addInBatches(prices, batch => db.holdingPrices.setMany(batch));
+
+    // Months that already have a net worth snapshot keep it
+    const snapshots = (data.net_worth_snapshots ?? []).map(snapshot => ({ ...withoutIds(snapshot), user_id: userId }));
+    summary.snapshots = await addInBatches(snapshots, batch => db.netWorthSnapshots.addMany(batch));
+    summary.skipped += snapshots.length - summary.snapshots;
+
+    return summary;
+}
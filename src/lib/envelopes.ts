@@ -0,0 +1,69 @@
+import { Category, EnvelopeTransfer, Expense, Income } from '../types';
+import { db } from './supabase';
+import { getTopLevelCategories } from './categories';
+import { sumSpendingByCategory } from './budgets';
+
+export interface Envelope {
+    category: Category;
+    assigned: number; // Net money moved into the envelope this month
+    spent: number;
+    available: number; // Negative when the envelope is overspent
+}
+
+export interface EnvelopeSummary {
+    envelopes: Envelope[];
+    income: number;
+    toBeAssigned: number; // Income not yet in an envelope; zero once every rupee has a job
+    uncategorisedSpent: number; // Spending that doesn't draw from any envelope
+}
+
+// Envelopes are the top-level categories. Each month starts empty: the month's income is assigned
+// to envelopes and expenses (including subcategory expenses) draw them down.
+export function summariseEnvelopes(
+    categories: Category[],
+    transfers: EnvelopeTransfer[],
+    incomes: Income[],
+    expenses: Expense[]
+): EnvelopeSummary {
+    const spending = sumSpendingByCategory(expenses, categories);
+    const assignedTo = (categoryId: string) => transfers.reduce((sum, transfer) => {
+        if (transfer.to_category_id === categoryId) return sum + transfer.amount;
+        if (transfer.from_category_id === categoryId) return sum - transfer.amount;
+        return sum;
+    }, 0);
+
+    const envelopes = getTopLevelCategories(categories).map(category => {
+        const assigned = assignedTo(category.id);
+        const spent = spending[category.id] || 0;
+        return { category, assigned, spent, available: assigned - spent };
+    });
+
+    const income = incomes.reduce((sum, entry) => sum + entry.amount, 0);
+    // Transfers to or from the pool change what's left to assign; moves between envelopes, including ones
+    // that have since been deleted, don't
+    const toBeAssigned = transfers.reduce((sum, transfer) => {
+        if (transfer.from_category_id === null && !transfer.from_category_deleted) return sum - transfer.amount;
+        if (transfer.to_category_id === null && !transfer.to_category_deleted) return sum + transfer.amount;
+        return sum;
+    }, income);
+    const categorisedSpent = Object.values(spending).reduce((sum, amount) => sum + amount, 0);
+    const uncategorisedSpent = expenses.reduce((sum, expense) => sum + expense.amount, 0) - categorisedSpent;
+
+    // Rounded so that assigning everything lands on exactly zero
+    return { envelopes, income, toBeAssigned: Math.round(toBeAssigned * 100) / 100, uncategorisedSpent };
+}
+
+// Set an envelope's assigned amount by recording the difference as a transfer from or to "to be assigned"
+export async function assignToEnvelope(userId: string, month: string, envelope: Envelope, amount: number) {
+    const difference = Math.round((amount - envelope.assigned) * 100) / 100;
+    if (difference === 0) return null;
+
+    return db.envelopeTransfers.add({
+        user_id: userId,
+        month,
+        from_category_id: difference > 0 ? null : envelope.category.id,
+        to_category_id: difference > 0 ? envelope.category.id : null,
+        amount: Math.abs(difference),
+        note: null
+    });
+}
@@ -0,0 +1,156 @@
+import { differenceInCalendarDays, isAfter, isValid, parse, parseISO, startOfDay } from 'date-fns';
+import { CandlestickChart, LineChart, LucideIcon, PiggyBank, Vault } from 'lucide-react';
+import { Expense, Holding, HoldingPrice, HoldingType } from '../types';
+import { detectDelimiter, parseAmount, parseCsv } from './csv';
+import { toDateString } from './schedule';
+import { detectDateFormat } from './statementImport';
+
+// inUnits: bought in units and valued at units x price. Otherwise each price snapshot is the whole value.
+export const HOLDING_TYPES: { value: HoldingType; label: string; Icon: LucideIcon; inUnits: boolean; color: string }[] = [
+    { value: 'mutual_fund', label: 'Mutual fund', Icon: LineChart, inUnits: true, color: 'bg-emerald-500' },
+    { value: 'stock', label: 'Stock', Icon: CandlestickChart, inUnits: true, color: 'bg-blue-500' },
+    { value: 'fixed_deposit', label: 'Fixed deposit', Icon: Vault, inUnits: false, color: 'bg-amber-500' },
+    { value: 'ppf', label: 'PPF', Icon: PiggyBank, inUnits: false, color: 'bg-purple-500' }
+];
+
+export const getHoldingType = (type: HoldingType) =>
+    HOLDING_TYPES.find(holdingType => holdingType.value === type) ?? HOLDING_TYPES[0];
+
+export interface CashFlow {
+    date: Date;
+    amount: number; // Negative for money invested, positive for what it's worth at the end
+}
+
+export interface HoldingSummary {
+    holding: Holding;
+    purchases: Expense[];
+    invested: number;
+    units: number;
+    latestPrice: HoldingPrice | null;
+    value: number; // What was invested until the holding has a price
+    gain: number;
+    xirr: number | null; // Annualised return, as a fraction (0.12 is 12%)
+}
+
+const XIRR_MAX_ITERATIONS = 100;
+const XIRR_TOLERANCE = 1e-7;
+
+// Annualised internal rate of return for irregular cash flows. Newton's method converges quickly from a
+// 10% guess for ordinary portfolios; bisection is the fallback when it wanders off. Null when the flows
+// don't both invest and return money, since there is no rate to find.
+export function xirr(cashFlows: CashFlow[]): number | null {
+    if (!cashFlows.some(flow => flow.amount < 0) || !cashFlows.some(flow => flow.amount > 0)) return null;
+
+    const first = cashFlows.reduce((min, flow) => (isAfter(min, flow.date) ? flow.date : min), cashFlows[0].date);
+    const years = cashFlows.map(flow => differenceInCalendarDays(flow.date, first) / 365);
+    const npv = (rate: number) => cashFlows.reduce((sum, flow, i) => sum + flow.amount / Math.pow(1 + rate, years[i]), 0);
+    const derivative = (rate: number) =>
+        cashFlows.reduce((sum, flow, i) => sum - (years[i] * flow.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+
+    let rate = 0.1;
+    for (let i = 0; i < XIRR_MAX_ITERATIONS; i++) {
+        const slope = derivative(rate);
+        if (!slope) break;
+        const next = rate - npv(rate) / slope;
+        if (!isFinite(next) || next <= -1) break;
+        if (Math.abs(next - rate) < XIRR_TOLERANCE) return next;
+        rate = next;
+    }
+
+    // NPV falls as the rate rises, so search between a near-total loss and a 100x gain
+    let low = -0.9999;
+    let high = 100;
+    if (npv(low) * npv(high) > 0) return null;
+    for (let i = 0; i < XIRR_MAX_ITERATIONS * 2; i++) {
+        const mid = (low + high) / 2;
+        if (npv(mid) > 0) low = mid;
+        else high = mid;
+        if (high - low < XIRR_TOLERANCE) break;
+    }
+    return (low + high) / 2;
+}
+
+// Cost, units, value and return of one holding. Its value is dated today, so XIRR reflects how long the
+// money has been invested even when the latest price is a few days old.
+export function summariseHolding(holding: Holding, purchases: Expense[], prices: HoldingPrice[], today = new Date()): HoldingSummary {
+    const ownPurchases = purchases.filter(purchase => purchase.holding_id === holding.id);
+    const ownPrices = prices.filter(price => price.holding_id === holding.id);
+    const latestPrice = ownPrices.reduce<HoldingPrice | null>(
+        (latest, price) => (!latest || price.date > latest.date ? price : latest),
+        null
+    );
+
+    const invested = ownPurchases.reduce((sum, purchase) => sum + purchase.amount, 0);
+    const units = ownPurchases.reduce((sum, purchase) => sum + (purchase.units ?? 0), 0);
+    const value = !latestPrice
+        ? invested
+        : getHoldingType(holding.type).inUnits ? units * latestPrice.price : latestPrice.price;
+
+    return {
+        holding,
+        purchases: ownPurchases,
+        invested,
+        units,
+        latestPrice,
+        value,
+        gain: value - invested,
+        xirr: latestPrice ? xirr([...toCashFlows(ownPurchases), { date: startOfDay(today), amount: value }]) : null
+    };
+}
+
+export const toCashFlows = (purchases: Expense[]): CashFlow[] =>
+    purchases.map(purchase => ({ date: startOfDay(parseISO(purchase.date)), amount: -purchase.amount }));
+
+export interface PriceImport {
+    prices: { holding_id: string; date: string; price: number }[];
+    unmatched: string[]; // Names or symbols in the file that aren't one of the user's holdings
+}
+
+// Read price snapshots from a CSV with a date, a holding (scheme code, ticker or name) and a price or NAV
+// column. The columns are found from the header row, so exports from AMFI, brokers or a spreadsheet all work.
+export function parsePriceCsv(text: string, holdings: Holding[]): PriceImport {
+    const [header, ...rows] = parseCsv(text, detectDelimiter(text));
+    if (!header || rows.length === 0) throw new Error('The file has no price rows');
+
+    const find = (...names: string[]) => {
+        for (const name of names) {
+            const index = header.findIndex(h => h.toLowerCase().includes(name));
+            if (index !== -1) return index;
+        }
+        return -1;
+    };
+    const dateColumn = find('date');
+    const holdingColumn = find('symbol', 'code', 'ticker', 'scheme', 'name', 'holding');
+    const priceColumn = find('nav', 'price', 'close', 'value');
+    if (dateColumn === -1 || holdingColumn === -1 || priceColumn === -1) {
+        throw new Error('The file needs date, holding and price columns');
+    }
+
+    const normalise = (value: string) => value.trim().toLowerCase();
+    const holdingsByKey = new Map<string, Holding>();
+    for (const holding of holdings) {
+        holdingsByKey.set(normalise(holding.name), holding);
+        if (holding.symbol) holdingsByKey.set(normalise(holding.symbol), holding);
+    }
+
+    const dateFormat = detectDateFormat(rows.map(row => row[dateColumn] ?? ''));
+    const prices = new Map<string, PriceImport['prices'][number]>();
+    const unmatched = new Set<string>();
+    for (const row of rows) {
+        const key = (row[holdingColumn] ?? '').trim();
+        const holding = holdingsByKey.get(normalise(key));
+        if (!holding) {
+            if (key) unmatched.add(key);
+            continue;
+        }
+        const date = parse((row[dateColumn] ?? '').trim(), dateFormat, new Date());
+        const price = parseAmount(row[priceColumn] ?? '');
+        if (!isValid(date) || !price || price <= 0) continue;
+
+        // The last row for a holding and day wins, as the database keeps one price per day
+        const dateString = toDateString(date);
+        prices.set(`${holding.id}:${dateString}`, { holding_id: holding.id, date: dateString, price });
+    }
+
+    return { prices: [...prices.values()], unmatched: [...unmatched] };
+}
@@ -0,0 +1,115 @@
+import { addMonths, isAfter, parseISO, startOfDay } from 'date-fns';
+import { Expense, Loan, RecurrenceSchedule } from '../types';
+import { getOccurrences, toDateString } from './schedule';
+
+// The loan terms the schedule is worked out from
+export type LoanTerms = Pick<Loan, 'principal' | 'annual_rate' | 'tenure_months' | 'start_date'>;
+
+export interface AmortizationRow {
+    number: number; // 1 for the first EMI
+    date: Date;
+    payment: number; // The EMI, or what's left for the final instalment
+    interest: number;
+    principal: number;
+    prepayment: number; // Paid off in a lump sum since the previous instalment
+    balance: number; // Outstanding principal after this instalment
+}
+
+export interface Amortization {
+    emi: number;
+    schedule: AmortizationRow[];
+    totalInterest: number;
+    closingDate: Date;
+}
+
+export interface Prepayment {
+    date: Date;
+    amount: number;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// Equal monthly instalment that repays the principal with interest over the tenure
+export function calculateEmi(principal: number, annualRate: number, months: number) {
+    const monthlyRate = annualRate / 12 / 100;
+    if (monthlyRate === 0) return roundMoney(principal / months);
+    const growth = Math.pow(1 + monthlyRate, months);
+    return roundMoney((principal * monthlyRate * growth) / (growth - 1));
+}
+
+// EMIs fall on the first EMI's day of the month, the same schedule the linked recurring transaction posts on
+export const getLoanSchedule = (loan: Pick<Loan, 'start_date' | 'tenure_months'>): RecurrenceSchedule => ({
+    frequency: 'monthly',
+    interval: 1,
+    start_date: loan.start_date,
+    day_of_month: parseISO(loan.start_date).getDate(),
+    occurrence_count: loan.tenure_months
+});
+
+// Month-by-month split of each EMI into interest and principal. Prepayments keep the EMI the same and
+// close the loan sooner; each one reduces the balance before the next instalment's interest is charged.
+// The final instalment pays off whatever is left, so rounding never leaves a few paise outstanding.
+export function getAmortization(loan: LoanTerms, prepayments: Prepayment[] = []): Amortization {
+    const emi = calculateEmi(loan.principal, loan.annual_rate, loan.tenure_months);
+    const monthlyRate = loan.annual_rate / 12 / 100;
+    const start = parseISO(loan.start_date);
+    const dates = getOccurrences(getLoanSchedule(loan), start, addMonths(start, loan.tenure_months));
+
+    const schedule: AmortizationRow[] = [];
+    let balance = loan.principal;
+    let previousDate: Date | null = null;
+    for (const [i, date] of dates.entries()) {
+        const prepaid = prepayments
+            .filter(p => !isAfter(startOfDay(p.date), date) && (!previousDate || isAfter(startOfDay(p.date), previousDate)))
+            .reduce((sum, p) => sum + p.amount, 0);
+        const prepayment = roundMoney(Math.min(balance, prepaid));
+        balance = roundMoney(balance - prepayment);
+
+        const interest = roundMoney(balance * monthlyRate);
+        const principal = i === dates.length - 1 ? balance : Math.min(balance, roundMoney(emi - interest));
+        balance = roundMoney(balance - principal);
+
+        schedule.push({ number: i + 1, date, payment: roundMoney(principal + interest), interest, principal, prepayment, balance });
+        if (balance <= 0) break;
+        previousDate = date;
+    }
+
+    return {
+        emi,
+        schedule,
+        totalInterest: roundMoney(schedule.reduce((sum, row) => sum + row.interest, 0)),
+        closingDate: schedule[schedule.length - 1]?.date ?? start
+    };
+}
+
+// Outstanding principal once the first paidCount EMIs have been paid
+export const getOutstandingPrincipal = (loan: LoanTerms, { schedule }: Amortization, paidCount: number) =>
+    paidCount <= 0 ? loan.principal : schedule[Math.min(paidCount, schedule.length) - 1]?.balance ?? 0;
+
+// The instalments that have fallen due by today, oldest first
+export const getDueEmis = (loan: LoanTerms, today = new Date()) =>
+    getAmortization(loan).schedule.filter(row => !isAfter(row.date, startOfDay(today)));
+
+// Each EMI the linked recurring transaction has posted counts as one instalment paid, along with the EMIs
+// that fell due before its first one, which were paid before the loan was added and are never posted.
+// Without one, or until it has posted, every EMI that has fallen due is taken as paid.
+export function getPaidCount(loan: Loan, postedEmis: Expense[], today = new Date()) {
+    const dueEmis = getDueEmis(loan, today);
+    const posted = loan.recurring_id ? postedEmis.filter(expense => expense.recurring_id === loan.recurring_id) : [];
+    if (posted.length === 0) return dueEmis.length;
+
+    const firstPosted = posted.reduce((first, expense) => (expense.date < first ? expense.date : first), posted[0].date);
+    return dueEmis.filter(row => toDateString(row.date) < firstPosted).length + posted.length;
+}
+
+// What prepaying would save against the loan as it stands
+export function simulatePrepayments(loan: LoanTerms, prepayments: Prepayment[]) {
+    const original = getAmortization(loan);
+    const withPrepayments = getAmortization(loan, prepayments);
+    return {
+        original,
+        withPrepayments,
+        interestSaved: roundMoney(original.totalInterest - withPrepayments.totalInterest),
+        instalmentsSaved: original.schedule.length - withPrepayments.schedule.length
+    };
+}
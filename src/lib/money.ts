@@ -0,0 +1,60 @@
+import { DEFAULT_CURRENCY, getCurrencySymbol } from './currency';
+
+// Digit grouping styles offered in settings, keyed by the Intl locale that produces them
+export const NUMBER_LOCALES: { value: string; label: string; example: string }[] = [
+    { value: 'en-IN', label: 'Indian', example: '12,34,567.89' },
+    { value: 'en-US', label: 'Western', example: '1,234,567.89' },
+    { value: 'de-DE', label: 'European', example: '1.234.567,89' }
+];
+
+export const DEFAULT_NUMBER_LOCALE = 'en-IN';
+
+// How the user likes amounts written; stored with their other settings
+export interface MoneyPreferences {
+    numberLocale: string;
+    accountingNegatives: boolean; // (₹1,234.00) instead of -₹1,234.00
+}
+
+export interface MoneyFormatOptions {
+    currency?: string;
+    locale?: string;
+    accounting?: boolean;
+    compact?: boolean; // ₹1.2L, ₹3.4Cr, $5.6K - for chart ticks and tight spaces
+    decimals?: number; // Defaults to the currency's usual number of decimals
+}
+
+// Building an Intl.NumberFormat is slow and charts format hundreds of ticks, so formatters are reused
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const getFormatter = (currency: string, locale: string, accounting: boolean, compact: boolean, decimals?: number) => {
+    const key = [currency, locale, accounting, compact, decimals].join('|');
+    let formatter = formatters.get(key);
+    if (!formatter) {
+        formatter = new Intl.NumberFormat(locale, {
+            style: 'currency',
+            currency,
+            currencyDisplay: 'narrowSymbol',
+            currencySign: accounting ? 'accounting' : 'standard',
+            ...(compact
+                ? { notation: 'compact', maximumFractionDigits: 1 }
+                : { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
+        });
+        formatters.set(key, formatter);
+    }
+    return formatter;
+};
+
+// Format an amount with locale-aware digit grouping (lakh/crore for en-IN). The symbol comes from
+// CURRENCIES rather than Intl, so S$ and A$ don't both show up as a bare $.
+export function formatMoney(amount: number, {
+    currency = DEFAULT_CURRENCY,
+    locale = DEFAULT_NUMBER_LOCALE,
+    accounting = false,
+    compact = false,
+    decimals
+}: MoneyFormatOptions = {}): string {
+    return getFormatter(currency, locale, accounting, compact, decimals)
+        .formatToParts(amount)
+        .map(part => (part.type === 'currency' ? getCurrencySymbol(currency).trim() : part.value))
+        .join('');
+}
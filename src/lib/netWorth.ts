@@ -0,0 +1,115 @@
+import { eachMonthOfInterval, endOfMonth, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { Account, Expense, Holding, HoldingPrice, Loan, NetWorthSnapshot, SavingsGoal } from '../types';
+import { convertToBase, CurrencySettings } from './currency';
+import { summariseHolding } from './investments';
+import { getAmortization, getOutstandingPrincipal, getPaidCount } from './loans';
+import { toDateString } from './schedule';
+import { db } from './supabase';
+
+// What net worth is made up of, all in one currency. Debts are a positive amount owed.
+export interface NetWorth {
+    accounts: number;
+    investments: number;
+    goals: number;
+    debts: number;
+}
+
+export const getAssets = ({ accounts, investments, goals }: NetWorth) => accounts + investments + goals;
+
+export const getNetWorthTotal = (netWorth: NetWorth) => getAssets(netWorth) - netWorth.debts;
+
+// Everything net worth is worked out from, loaded once so it can be valued at more than one date
+interface NetWorthData {
+    accounts: Account[];
+    holdings: Holding[];
+    purchases: Expense[];
+    prices: HoldingPrice[];
+    contributions: Pick<Expense, 'goal_id' | 'amount' | 'currency' | 'date'>[];
+    loans: Loan[];
+    postedEmis: Expense[];
+}
+
+async function loadNetWorthData(userId: string): Promise<NetWorthData> {
+    const [accounts, holdings, purchases, prices, goals, loans]: [
+        Account[], Holding[], Expense[], HoldingPrice[], SavingsGoal[], Loan[]
+    ] = await Promise.all([
+        db.accounts.getAll(userId),
+        db.holdings.getAll(userId),
+        db.expenses.getHoldingPurchases(userId),
+        db.holdingPrices.getAll(userId),
+        db.savingsGoals.getAll(userId),
+        db.loans.getAll(userId)
+    ]);
+    const [postedEmis, contributions] = await Promise.all([
+        db.expenses.getByRecurring(loans.flatMap(loan => (loan.recurring_id ? [loan.recurring_id] : []))),
+        db.expenses.getGoalContributions(goals.filter(goal => goal.status !== 'cancelled').map(goal => goal.id))
+    ]);
+
+    return { accounts, holdings, purchases, prices, contributions, loans, postedEmis };
+}
+
+// Where the user stood at the end of the given day, in the base currency. Accounts in credit are assets;
+// overdrawn accounts and credit card balances are debts, along with the principal still owed on loans.
+// Savings goals count the expenses linked to them, as the goals page does, unless the goal was cancelled.
+async function valueNetWorth(data: NetWorthData, settings: CurrencySettings, date: Date): Promise<NetWorth> {
+    const until = toDateString(date);
+    const byDate = <T extends { date: string }>(rows: T[]) => rows.filter(row => row.date <= until);
+    const balances = await db.accounts.getBalances(date);
+
+    const toBase = (amount: number, currency: string) => convertToBase(amount, currency, settings);
+    const accountBalances = data.accounts.map(account => toBase(balances[account.id] ?? account.opening_balance, account.currency));
+    const postedEmis = byDate(data.postedEmis);
+    const loansOutstanding = data.loans.reduce((sum, loan) => {
+        const outstanding = getOutstandingPrincipal(loan, getAmortization(loan), getPaidCount(loan, postedEmis, date));
+        return sum + toBase(outstanding, loan.currency);
+    }, 0);
+    const purchases = byDate(data.purchases);
+    const prices = byDate(data.prices);
+
+    return {
+        accounts: accountBalances.filter(balance => balance > 0).reduce((sum, balance) => sum + balance, 0),
+        investments: data.holdings.reduce((sum, holding) => {
+            const { value } = summariseHolding(holding, purchases, prices, date);
+            return sum + toBase(value, holding.currency);
+        }, 0),
+        goals: byDate(data.contributions).reduce((sum, expense) => sum + toBase(expense.amount, expense.currency), 0),
+        debts: loansOutstanding - accountBalances.filter(balance => balance < 0).reduce((sum, balance) => sum + balance, 0)
+    };
+}
+
+export const fetchNetWorth = async (userId: string, settings: CurrencySettings, today = new Date()) =>
+    valueNetWorth(await loadNetWorthData(userId), settings, today);
+
+// Record this month's net worth, replacing the figure saved earlier in the month
+export const saveNetWorthSnapshot = (userId: string, netWorth: NetWorth, baseCurrency: string, today = new Date()) =>
+    db.netWorthSnapshots.save({ user_id: userId, month: toDateString(startOfMonth(today)), currency: baseCurrency, ...netWorth });
+
+// Snapshots are only taken while the app is open, so fill in the months since the first snapshot that went
+// without one, valuing each as it stood on its last day. Months that already have a snapshot keep it.
+export async function backfillNetWorthSnapshots(userId: string, settings: CurrencySettings, today = new Date()) {
+    const snapshots: NetWorthSnapshot[] = await db.netWorthSnapshots.getAll(userId);
+    const lastMonth = subMonths(startOfMonth(today), 1);
+    if (snapshots.length === 0 || parseISO(snapshots[0].month) > lastMonth) return [];
+
+    const taken = new Set(snapshots.map(snapshot => snapshot.month));
+    const missing = eachMonthOfInterval({ start: parseISO(snapshots[0].month), end: lastMonth })
+        .filter(month => !taken.has(toDateString(month)));
+    if (missing.length === 0) return [];
+
+    const data = await loadNetWorthData(userId);
+    const backfilled = await Promise.all(missing.map(async month => ({
+        user_id: userId,
+        month: toDateString(month),
+        currency: settings.baseCurrency,
+        ...(await valueNetWorth(data, settings, endOfMonth(month)))
+    })));
+    return db.netWorthSnapshots.addMany(backfilled);
+}
+
+// A snapshot's figures in today's base currency, for snapshots taken before the base currency changed
+export const snapshotToBase = (snapshot: NetWorthSnapshot, settings: CurrencySettings): NetWorth => ({
+    accounts: convertToBase(snapshot.accounts, snapshot.currency, settings),
+    investments: convertToBase(snapshot.investments, snapshot.currency, settings),
+    goals: convertToBase(snapshot.goals, snapshot.currency, settings),
+    debts: convertToBase(snapshot.debts, snapshot.currency, settings)
+});
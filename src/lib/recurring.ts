@@ -1,4 +1,7 @@
+import { addDays, endOfDay, endOfMonth, parseISO, startOfDay, startOfMonth } from 'date-fns';
 import { supabase } from './supabase';
+import { moveToTrash } from './trash';
+import { getOccurrences, toDateString } from './schedule';
 import { CreateRecurringTransaction, RecurringTransaction, UpdateRecurringTransaction } from '../types/recurring';
 
 // Fetch all recurring transactions for the current user
@@ -10,6 +13,7 @@ export async function fetchRecurringTransactions() {
         .from('recurring_transactions')
         .select('*')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
     if (error) throw error;
@@ -51,40 +55,10 @@ export async function updateRecurringTransaction({ id, ...updates }: UpdateRecur
     return data as RecurringTransaction;
 }
 
-// Delete a recurring transaction
+// Move a recurring transaction to the trash. It stops posting, and what it already posted stays linked to it
+// until it's purged.
 export async function deleteRecurringTransaction(id: string) {
-    // First, remove the recurring_id reference from any income sources
-    const { error: updateError } = await supabase
-        .from('income_sources')
-        .update({ recurring_id: null, is_recurring: false })
-        .eq('recurring_id', id);
-
-    if (updateError) {
-        console.error('Error updating income sources:', updateError);
-        throw updateError;
-    }
-
-    // Then, remove the recurring_id reference from any expenses
-    const { error: updateExpenseError } = await supabase
-        .from('expenses')
-        .update({ recurring_id: null, is_recurring: false })
-        .eq('recurring_id', id);
-
-    if (updateExpenseError) {
-        console.error('Error updating expenses:', updateExpenseError);
-        throw updateExpenseError;
-    }
-
-    // Finally, delete the recurring transaction
-    const { error } = await supabase
-        .from('recurring_transactions')
-        .delete()
-        .eq('id', id);
-
-    if (error) {
-        console.error('Error deleting recurring transaction:', error);
-        throw error;
-    }
+    return moveToTrash('recurring_transactions', [id]);
 }
 
 // Toggle the active status of a recurring transaction
@@ -104,73 +78,118 @@ export async function toggleRecurringTransactionActive(id: string, active: boole
     return data as RecurringTransaction;
 }
 
-// Process recurring transactions for the current month
-export async function processMonthlyRecurringTransactions() {
-    const today = new Date();
-    const firstDayOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-    
-    // 1. Get all active recurring transactions
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error('User not authenticated');
+// A single scheduled occurrence of a recurring transaction that hasn't been posted yet
+export interface PendingOccurrence {
+    recurring: RecurringTransaction;
+    date: Date;
+}
 
-    const { data: recurringTransactions, error: fetchError } = await supabase
+// Get all active recurring transactions for a user
+async function fetchActiveRecurringTransactions(userId: string) {
+    const { data, error } = await supabase
         .from('recurring_transactions')
         .select('*')
-        .eq('user_id', user.id)
-        .eq('active', true);
+        .eq('user_id', userId)
+        .eq('active', true)
+        .is('deleted_at', null);
+
+    if (error) throw error;
+    return data as RecurringTransaction[];
+}
 
-    if (fetchError) throw fetchError;
-    
-    console.log('Found recurring transactions:', recurringTransactions); // Debug log
+// Build the key that identifies one occurrence of a recurring transaction, e.g. "<recurring_id>:2025-03-01".
+// It is stored on every generated income/expense row and is unique, so posting can be safely re-run.
+export const getOccurrenceKey = (recurringId: string, date: Date) => `${recurringId}:${toDateString(date)}`;
 
-    // 2. Split into income and expenses
-    const recurringIncome = recurringTransactions.filter(t => t.type === 'income');
-    const recurringExpenses = recurringTransactions.filter(t => t.type === 'expense');
+// Drop occurrences that already have an income or expense entry for this user
+async function filterUnpostedOccurrences(userId: string, occurrences: PendingOccurrence[], rangeStart: Date, rangeEnd: Date) {
+    if (occurrences.length === 0) return occurrences;
 
-    // 3. Check existing income for this month
+    // Entries in the trash count too, so a deleted occurrence isn't posted again.
+    // Check existing income for this range
     const { data: existingIncome, error: incomeCheckError } = await supabase
         .from('income_sources')
-        .select('recurring_id')
+        .select('recurring_id, date, occurrence_key')
+        .eq('user_id', userId)
         .eq('is_recurring', true)
-        .gte('created_at', firstDayOfMonth.toISOString());
+        .gte('date', rangeStart.toISOString())
+        .lte('date', rangeEnd.toISOString());
 
     if (incomeCheckError) throw incomeCheckError;
 
-    // 4. Check existing expenses for this month
+    // Check existing expenses for this range
     const { data: existingExpenses, error: expenseCheckError } = await supabase
         .from('expenses')
-        .select('recurring_id')
+        .select('recurring_id, date, occurrence_key')
+        .eq('user_id', userId)
         .eq('is_recurring', true)
-        .gte('created_at', firstDayOfMonth.toISOString());
+        .gte('date', rangeStart.toISOString())
+        .lte('date', rangeEnd.toISOString());
 
     if (expenseCheckError) throw expenseCheckError;
 
-    // 5. Filter out already processed transactions
-    const processedIncomeIds = existingIncome.map(t => t.recurring_id);
-    const processedExpenseIds = existingExpenses.map(t => t.recurring_id);
-
-    const unprocessedIncome = recurringIncome.filter(
-        r => !processedIncomeIds.includes(r.id)
+    // Entries without a key (duplicates posted before occurrence keys existed) are matched on their date
+    const processedKeys = new Set(
+        [...existingIncome, ...existingExpenses].map(t =>
+            t.occurrence_key ?? getOccurrenceKey(t.recurring_id, new Date(t.date))
+        )
     );
-    const unprocessedExpenses = recurringExpenses.filter(
-        r => !processedExpenseIds.includes(r.id)
+    return occurrences.filter(
+        ({ recurring, date }) => !processedKeys.has(getOccurrenceKey(recurring.id, date))
     );
+}
 
-    // 6. Create new income entries
-    if (unprocessedIncome.length > 0) {
-        console.log('Processing income:', unprocessedIncome);
+// Work out every occurrence missed since each recurring transaction was last posted, up to `until`.
+// Nothing is written, so the result can be previewed before calling postRecurringOccurrences.
+export async function getPendingRecurringOccurrences(until: Date = endOfDay(new Date())) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const recurringTransactions = await fetchActiveRecurringTransactions(user.id);
+
+    let earliest = until;
+    const occurrences = recurringTransactions.flatMap(recurring => {
+        // Resume the day after the last posted occurrence, or from the start of the schedule
+        const from = recurring.last_posted_date
+            ? addDays(parseISO(recurring.last_posted_date), 1)
+            : parseISO(recurring.start_date);
+        if (from < earliest) earliest = from;
+
+        return getOccurrences(recurring, from, until).map(date => ({ recurring, date }));
+    });
+
+    const pending = await filterUnpostedOccurrences(user.id, occurrences, startOfDay(earliest), until);
+    return pending.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+// Create income/expense entries for the given occurrences and record how far each schedule has been posted
+export async function postRecurringOccurrences(occurrences: PendingOccurrence[]) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const pendingIncome = occurrences.filter(({ recurring }) => recurring.type === 'income');
+    const pendingExpenses = occurrences.filter(({ recurring }) => recurring.type === 'expense');
+
+    // 1. Create new income entries
+    if (pendingIncome.length > 0) {
+        console.log('Processing income:', pendingIncome);
         const { error: insertIncomeError } = await supabase
             .from('income_sources')
-            .insert(
-                unprocessedIncome.map(recurring => ({
+            .upsert(
+                pendingIncome.map(({ recurring, date }) => ({
                     name: recurring.name,
                     amount: recurring.amount,
+                    currency: recurring.currency,
+                    account_id: recurring.account_id,
                     is_recurring: true,
                     recurring_id: recurring.id,
+                    occurrence_key: getOccurrenceKey(recurring.id, date),
                     user_id: user.id,
-                    date: firstDayOfMonth.toISOString(),
+                    date: date.toISOString(),
                     created_at: new Date().toISOString()
-                }))
+                })),
+                // Occurrences that were already posted are skipped instead of duplicated
+                { onConflict: 'occurrence_key', ignoreDuplicates: true }
             );
 
         if (insertIncomeError) {
@@ -179,23 +198,27 @@ export async function processMonthlyRecurringTransactions() {
         }
     }
 
-    // 7. Create new expense entries
-    if (unprocessedExpenses.length > 0) {
-        console.log('Processing expenses:', unprocessedExpenses);
+    // 2. Create new expense entries
+    if (pendingExpenses.length > 0) {
+        console.log('Processing expenses:', pendingExpenses);
         const { error: insertExpenseError } = await supabase
             .from('expenses')
-            .insert(
-                unprocessedExpenses.map(recurring => ({
+            .upsert(
+                pendingExpenses.map(({ recurring, date }) => ({
                     name: recurring.name,
                     amount: recurring.amount,
-                    category: recurring.category,
+                    currency: recurring.currency,
+                    account_id: recurring.account_id,
+                    category_id: recurring.category_id,
                     is_recurring: true,
                     recurring_id: recurring.id,
+                    occurrence_key: getOccurrenceKey(recurring.id, date),
                     user_id: user.id,
-                    date: firstDayOfMonth.toISOString(),
+                    date: date.toISOString(),
                     created_at: new Date().toISOString(),
                     goal_id: recurring.goal_id
-                }))
+                })),
+                { onConflict: 'occurrence_key', ignoreDuplicates: true }
             );
 
         if (insertExpenseError) {
@@ -203,4 +226,46 @@ export async function processMonthlyRecurringTransactions() {
             throw insertExpenseError;
         }
     }
+
+    // 3. Advance last_posted_date to the latest occurrence posted for each recurring transaction
+    const lastPosted = new Map<string, string>();
+    occurrences.forEach(({ recurring, date }) => {
+        const posted = toDateString(date);
+        const current = lastPosted.get(recurring.id) ?? recurring.last_posted_date;
+        if (!current || posted > current) lastPosted.set(recurring.id, posted);
+    });
+
+    const results = await Promise.all(
+        Array.from(lastPosted.entries()).map(([id, last_posted_date]) =>
+            supabase
+                .from('recurring_transactions')
+                .update({ last_posted_date })
+                .eq('id', id)
+                .eq('user_id', user.id)
+        )
+    );
+    const updateError = results.find(result => result.error)?.error;
+    if (updateError) {
+        console.error('Error updating last posted date:', updateError);
+        throw updateError;
+    }
+}
+
+// Process recurring transactions for a period (defaults to the current month),
+// creating an entry for every scheduled occurrence that falls inside it
+export async function processMonthlyRecurringTransactions(
+    periodStart: Date = startOfMonth(new Date()),
+    periodEnd: Date = endOfMonth(new Date())
+) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const recurringTransactions = await fetchActiveRecurringTransactions(user.id);
+
+    const occurrences = recurringTransactions.flatMap(recurring =>
+        getOccurrences(recurring, periodStart, periodEnd).map(date => ({ recurring, date }))
+    );
+
+    const unprocessed = await filterUnpostedOccurrences(user.id, occurrences, periodStart, periodEnd);
+    await postRecurringOccurrences(unprocessed);
 }
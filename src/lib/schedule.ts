@@ -0,0 +1,114 @@
+import {
+    addDays,
+    addMonths,
+    addWeeks,
+    addYears,
+    format,
+    getDaysInMonth,
+    isAfter,
+    isBefore,
+    parseISO,
+    setDate,
+    startOfDay,
+    startOfMonth
+} from 'date-fns';
+import { Frequency, RecurrenceSchedule } from '../types';
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Upper bound on generated occurrences so a bad schedule can't loop forever
+const MAX_OCCURRENCES = 5000;
+
+// Average number of occurrences per month, used to normalise amounts
+const OCCURRENCES_PER_MONTH: Record<Frequency, number> = {
+    daily: 365 / 12,
+    weekly: 52 / 12,
+    monthly: 1,
+    yearly: 1 / 12
+};
+
+// Format a Date as the YYYY-MM-DD string stored in date columns
+export const toDateString = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// Pin a date to the given day of its month, clamping to the month's length (31st -> 28th/29th/30th)
+const withDayOfMonth = (date: Date, day: number): Date => {
+    const monthStart = startOfMonth(date);
+    return setDate(monthStart, Math.min(day, getDaysInMonth(monthStart)));
+};
+
+// Get the nth occurrence of a schedule, counting from 0
+const getNthOccurrence = (schedule: RecurrenceSchedule, start: Date, n: number): Date => {
+    const interval = Math.max(1, schedule.interval || 1);
+
+    switch (schedule.frequency) {
+        case 'daily':
+            return addDays(start, n * interval);
+        case 'weekly': {
+            const weekday = schedule.weekday ?? start.getDay();
+            const firstOccurrence = addDays(start, (weekday - start.getDay() + 7) % 7);
+            return addWeeks(firstOccurrence, n * interval);
+        }
+        case 'monthly': {
+            const day = schedule.day_of_month ?? start.getDate();
+            // Skip the start month when the anchor day has already passed
+            const offset = day < start.getDate() ? 1 : 0;
+            return withDayOfMonth(addMonths(start, offset + n * interval), day);
+        }
+        case 'yearly': {
+            const day = schedule.day_of_month ?? start.getDate();
+            const offset = day < start.getDate() ? 1 : 0;
+            return withDayOfMonth(addYears(start, offset + n * interval), day);
+        }
+    }
+};
+
+// Get every occurrence of a schedule that falls between rangeStart and rangeEnd (inclusive)
+export function getOccurrences(schedule: RecurrenceSchedule, rangeStart: Date, rangeEnd: Date): Date[] {
+    const start = startOfDay(parseISO(schedule.start_date));
+    const end = schedule.end_date ? startOfDay(parseISO(schedule.end_date)) : null;
+    const from = startOfDay(rangeStart);
+    const occurrences: Date[] = [];
+
+    const limit = Math.min(schedule.occurrence_count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+    for (let n = 0; n < limit; n++) {
+        const occurrence = getNthOccurrence(schedule, start, n);
+        if (isAfter(occurrence, rangeEnd)) break;
+        if (end && isAfter(occurrence, end)) break;
+        if (!isBefore(occurrence, from)) {
+            occurrences.push(occurrence);
+        }
+    }
+
+    return occurrences;
+}
+
+// Human readable summary, e.g. "Every 2 weeks on Monday" or "Monthly on day 5, 12 times"
+export function describeSchedule(schedule: RecurrenceSchedule): string {
+    const interval = Math.max(1, schedule.interval || 1);
+    const start = parseISO(schedule.start_date);
+    const units: Record<Frequency, string> = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' };
+
+    let description = interval === 1
+        ? schedule.frequency.charAt(0).toUpperCase() + schedule.frequency.slice(1)
+        : `Every ${interval} ${units[schedule.frequency]}s`;
+
+    if (schedule.frequency === 'weekly') {
+        description += ` on ${WEEKDAYS[schedule.weekday ?? start.getDay()]}`;
+    } else if (schedule.frequency === 'monthly') {
+        description += ` on day ${schedule.day_of_month ?? start.getDate()}`;
+    } else if (schedule.frequency === 'yearly') {
+        description += ` on ${format(withDayOfMonth(start, schedule.day_of_month ?? start.getDate()), 'MMM d')}`;
+    }
+
+    if (schedule.occurrence_count) {
+        description += `, ${schedule.occurrence_count} time${schedule.occurrence_count > 1 ? 's' : ''}`;
+    } else if (schedule.end_date) {
+        description += ` until ${format(parseISO(schedule.end_date), 'MMM d, yyyy')}`;
+    }
+
+    return description;
+}
+
+// Convert a per-occurrence amount into its average monthly equivalent
+export const toMonthlyAmount = (amount: number, schedule: RecurrenceSchedule): number =>
+    (amount * OCCURRENCES_PER_MONTH[schedule.frequency]) / Math.max(1, schedule.interval || 1);
@@ -0,0 +1,119 @@
+import { isValid } from 'date-fns';
+import { ParsedTransaction } from './statementImport';
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+// Work out the file type from its extension, falling back to its contents
+export function detectStatementFormat(fileName: string, text: string): StatementFormat {
+    const extension = fileName.toLowerCase().split('.').pop();
+    if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+    if (extension === 'qif') return 'qif';
+
+    const start = text.trimStart().slice(0, 200).toUpperCase();
+    if (start.startsWith('OFXHEADER') || start.includes('<OFX>')) return 'ofx';
+    if (start.startsWith('!TYPE') || start.startsWith('!ACCOUNT')) return 'qif';
+    return 'csv';
+}
+
+const decodeEntities = (value: string) => value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Read a field from an OFX aggregate. Works for both SGML (OFX 1.x, no closing tags) and XML (OFX 2.x).
+const ofxField = (block: string, tag: string) => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? decodeEntities(match[1].trim()) : '';
+};
+
+// OFX amounts are signed, with a "." decimal point (some banks send ",")
+const parseOfxAmount = (value: string) => parseFloat(value.replace(',', '.'));
+
+// OFX dates are YYYYMMDD, optionally followed by a time and timezone, e.g. 20250301120000.000[+5.5:IST]
+const parseOfxDate = (value: string) => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : new Date(NaN);
+};
+
+// Parse the transactions in an OFX/QFX file. Each one keeps its FITID, prefixed with the account id
+// because FITIDs are only unique within an account.
+export function parseOfx(text: string): ParsedTransaction[] {
+    const transactions: ParsedTransaction[] = [];
+    const statements = text.match(/<(STMTRS|CCSTMTRS)>[\s\S]*?<\/\1>/gi) ?? [text];
+
+    statements.forEach(statement => {
+        const accountId = ofxField(statement, 'ACCTID');
+        const blocks = statement.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) ?? [];
+
+        blocks.forEach(block => {
+            const date = parseOfxDate(ofxField(block, 'DTPOSTED'));
+            const amount = parseOfxAmount(ofxField(block, 'TRNAMT'));
+            if (!isValid(date) || isNaN(amount) || amount === 0) return;
+
+            const fitId = ofxField(block, 'FITID');
+            transactions.push({
+                id: `ofx-${transactions.length}`,
+                date,
+                name: ofxField(block, 'NAME') || ofxField(block, 'MEMO') || 'Imported transaction',
+                amount: Math.abs(amount),
+                type: amount > 0 ? 'income' : 'expense',
+                external_id: fitId ? (accountId ? `${accountId}:${fitId}` : fitId) : undefined
+            });
+        });
+    });
+
+    return transactions;
+}
+
+// QIF dates come in many shapes: 03/01/2025, 3/ 1'25, 01-03-2025, 2025-03-01. The order of day and month
+// isn't marked, so it's decided across the whole file: US month-first unless a day-first value shows up.
+const splitQifDate = (value: string) => value.trim().split(/[^0-9]+/).filter(Boolean).map(Number);
+
+const toQifDate = (parts: number[], dayFirst: boolean) => {
+    if (parts.length !== 3) return new Date(NaN);
+    if (parts[0] > 31) return new Date(parts[0], parts[1] - 1, parts[2]);
+
+    const [month, day] = dayFirst ? [parts[1], parts[0]] : [parts[0], parts[1]];
+    const year = parts[2] < 100 ? (parts[2] < 70 ? 2000 : 1900) + parts[2] : parts[2];
+    const date = new Date(year, month - 1, day);
+    // Reject rollovers such as 31/02
+    return date.getMonth() === month - 1 ? date : new Date(NaN);
+};
+
+// Parse the transactions in a QIF file. QIF has no transaction ids, so duplicates are matched on date and amount.
+export function parseQif(text: string): ParsedTransaction[] {
+    const records: Record<string, string>[] = [];
+    let record: Record<string, string> = {};
+
+    text.split(/\r?\n/).forEach(line => {
+        if (line.startsWith('!')) return;
+        if (line.startsWith('^')) {
+            if (Object.keys(record).length > 0) records.push(record);
+            record = {};
+            return;
+        }
+        const code = line.charAt(0);
+        // Only the first value for each code; split lines (S/E/$) repeat codes
+        if (code && !(code in record)) record[code] = line.slice(1).trim();
+    });
+    if (Object.keys(record).length > 0) records.push(record);
+
+    const dates = records.map(r => splitQifDate(r.D ?? ''));
+    const dayFirst = dates.some(parts => parts.length === 3 && parts[0] <= 31 && parts[0] > 12);
+
+    return records.flatMap((r, index) => {
+        const date = toQifDate(dates[index], dayFirst);
+        const amount = parseFloat((r.T ?? r.U ?? '').replace(/,/g, ''));
+        if (!isValid(date) || isNaN(amount) || amount === 0) return [];
+
+        return [{
+            id: `qif-${index}`,
+            date,
+            name: r.P || r.M || 'Imported transaction',
+            amount: Math.abs(amount),
+            type: amount > 0 ? 'income' as const : 'expense' as const
+        }];
+    });
+}
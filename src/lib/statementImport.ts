@@ -0,0 +1,202 @@
+import { addDays, differenceInCalendarDays, isValid, parse } from 'date-fns';
+import { Category, Expense, Income } from '../types';
+import { getTopLevelCategories } from './categories';
+import { db } from './supabase';
+import { parseAmount } from './csv';
+
+// A transaction read from a bank statement, waiting for review before it is imported
+export interface ImportedTransaction {
+    id: string; // Row identifier within the import, used for selection in the review step
+    date: Date;
+    name: string;
+    amount: number;
+    type: 'income' | 'expense';
+    category_id: string | null;
+    duplicate: boolean; // Likely already exists in income_sources/expenses
+    external_id?: string; // Bank transaction id (OFX FITID), when the statement format has one
+}
+
+// A transaction as read from the file, before categories and duplicates are worked out
+export type ParsedTransaction = Omit<ImportedTransaction, 'category_id' | 'duplicate'>;
+
+export interface CsvColumnMapping {
+    date: number;
+    description: number;
+    debit: number;
+    credit: number; // -1 when the statement has a single signed amount column
+}
+
+export const DATE_FORMATS = ['dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd', 'dd-MM-yyyy', 'dd/MM/yy', 'dd MMM yyyy', 'dd-MMM-yyyy', 'dd-MMM-yy'];
+
+// Keywords used to guess a category from a statement description, keyed by default category name
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+    investment: ['sip', 'mutual fund', 'zerodha', 'groww', 'upstox', 'nps', 'ppf', 'fixed deposit', 'stocks', 'kuvera'],
+    debt: ['emi', 'loan', 'credit card', 'cc payment', 'card payment', 'interest'],
+    needs: ['rent', 'grocer', 'electricity', 'water', 'gas', 'fuel', 'petrol', 'pharmacy', 'medical', 'hospital', 'insurance', 'bigbasket', 'dmart', 'bill', 'recharge', 'broadband'],
+    leisure: ['swiggy', 'zomato', 'netflix', 'spotify', 'prime', 'movie', 'bookmyshow', 'restaurant', 'cafe', 'travel', 'flight', 'hotel', 'uber', 'amazon', 'flipkart', 'myntra']
+};
+
+// Days either side of a statement date to look for an existing matching entry
+const DUPLICATE_WINDOW_DAYS = 2;
+
+const normaliseName = (name: string) => name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Guess a category id, preferring how the user categorised the same name before. Keyword guesses only
+// apply while the user still has a top-level category with the default name.
+export function guessCategory(
+    description: string,
+    categories: Category[],
+    knownCategories: Map<string, string> = new Map()
+): string | null {
+    const name = normaliseName(description);
+    const known = knownCategories.get(name);
+    if (known) return known;
+
+    const topLevel = getTopLevelCategories(categories);
+    const findByName = (categoryName: string) => topLevel.find(c => c.name.toLowerCase() === categoryName);
+
+    const match = Object.entries(CATEGORY_KEYWORDS)
+        .find(([categoryName, keywords]) => findByName(categoryName) && keywords.some(keyword => name.includes(keyword)));
+    return (match ? findByName(match[0]) : findByName('needs') ?? topLevel[0])?.id ?? null;
+}
+
+// Pick the first date format that parses every sample value
+export function detectDateFormat(samples: string[]): string {
+    const values = samples.map(s => s.trim()).filter(Boolean);
+    return DATE_FORMATS.find(dateFormat =>
+        values.every(value => isValid(parse(value, dateFormat, new Date())))
+    ) ?? DATE_FORMATS[0];
+}
+
+// Guess which columns hold what from the header row
+export function guessCsvMapping(header: string[]): CsvColumnMapping {
+    // Names are checked in order, so "withdrawal" wins over a generic "amount" column
+    const find = (...names: string[]) => {
+        for (const name of names) {
+            const index = header.findIndex(h => h.toLowerCase().includes(name));
+            if (index !== -1) return index;
+        }
+        return -1;
+    };
+
+    const date = find('date');
+    const description = find('description', 'narration', 'particulars', 'details', 'remarks', 'payee');
+    const debit = find('debit', 'withdrawal', 'amount');
+    const credit = find('credit', 'deposit');
+
+    return {
+        date: date === -1 ? 0 : date,
+        description: description === -1 ? 1 : description,
+        debit: debit === -1 ? 2 : debit,
+        credit: credit === debit ? -1 : credit
+    };
+}
+
+// Turn mapped CSV rows into transactions. Rows without a valid date or amount are skipped.
+export function parseCsvTransactions(rows: string[][], mapping: CsvColumnMapping, dateFormat: string): ParsedTransaction[] {
+    return rows.flatMap((row, index) => {
+        const date = parse((row[mapping.date] ?? '').trim(), dateFormat, new Date());
+        if (!isValid(date)) return [];
+
+        const debit = parseAmount(row[mapping.debit] ?? '');
+        const credit = mapping.credit === -1 ? null : parseAmount(row[mapping.credit] ?? '');
+
+        // A single signed amount column: negative values are money going out
+        let amount: number;
+        let type: 'income' | 'expense';
+        if (credit) {
+            amount = Math.abs(credit);
+            type = 'income';
+        } else if (debit) {
+            amount = Math.abs(debit);
+            type = mapping.credit === -1 && debit > 0 ? 'income' : 'expense';
+        } else {
+            return [];
+        }
+
+        return [{
+            id: `csv-${index}`,
+            date,
+            name: (row[mapping.description] ?? '').trim() || 'Imported transaction',
+            amount,
+            type
+        }];
+    });
+}
+
+// Assign categories and flag rows that probably already exist for this user
+export async function prepareImport(
+    userId: string,
+    transactions: ParsedTransaction[],
+    categories: Category[]
+): Promise<ImportedTransaction[]> {
+    if (transactions.length === 0) return [];
+
+    const times = transactions.map(t => t.date.getTime());
+    const startDate = addDays(new Date(Math.min(...times)), -DUPLICATE_WINDOW_DAYS);
+    const endDate = addDays(new Date(Math.max(...times)), DUPLICATE_WINDOW_DAYS);
+
+    const [existingIncome, existingExpenses]: [Income[], Expense[]] = await Promise.all([
+        db.income.getAll(userId, startDate, endDate),
+        db.expenses.getAll(userId, startDate, endDate)
+    ]);
+
+    const knownCategories = new Map(
+        existingExpenses
+            .filter(expense => expense.category_id)
+            .map(expense => [normaliseName(expense.name), expense.category_id] as [string, string])
+    );
+
+    const isDuplicate = (transaction: ParsedTransaction) => {
+        const candidates: (Income | Expense)[] = transaction.type === 'income' ? existingIncome : existingExpenses;
+        // A bank id settles it; entries with a different bank id are known to be other transactions
+        if (transaction.external_id && candidates.some(existing => existing.external_id === transaction.external_id)) {
+            return true;
+        }
+        return candidates.some(existing =>
+            !(transaction.external_id && existing.external_id) &&
+            Math.abs(existing.amount - transaction.amount) < 0.01 &&
+            Math.abs(differenceInCalendarDays(new Date(existing.date), transaction.date)) <= DUPLICATE_WINDOW_DAYS
+        );
+    };
+
+    return transactions.map(transaction => ({
+        ...transaction,
+        category_id: guessCategory(transaction.name, categories, knownCategories),
+        duplicate: isDuplicate(transaction)
+    }));
+}
+
+// Insert the reviewed transactions in bulk. Statements cover a single account, so every entry is in one currency
+// and, when the user picked one, belongs to the same account.
+export async function importTransactions(userId: string, transactions: ImportedTransaction[], currency: string, accountId: string | null = null) {
+    const incomes = transactions.filter(t => t.type === 'income');
+    const expenses = transactions.filter(t => t.type === 'expense');
+
+    const [addedIncomes, addedExpenses] = await Promise.all([
+        db.income.addMany(incomes.map(t => ({
+            user_id: userId,
+            name: t.name,
+            amount: t.amount,
+            currency,
+            account_id: accountId,
+            date: t.date.toISOString(),
+            is_recurring: false,
+            external_id: t.external_id ?? null
+        }))),
+        db.expenses.addMany(expenses.map(t => ({
+            user_id: userId,
+            name: t.name,
+            amount: t.amount,
+            currency,
+            account_id: accountId,
+            category_id: t.category_id,
+            date: t.date.toISOString(),
+            is_recurring: false,
+            external_id: t.external_id ?? null
+        })))
+    ]);
+
+    // Entries the bank already gave us on an earlier import are skipped, so count what was actually added
+    return { incomeCount: addedIncomes.length, expenseCount: addedExpenses.length };
+}
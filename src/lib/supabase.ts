@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import { startOfDay, endOfDay } from 'date-fns';
+import { LedgerEntry, LedgerFilters, LedgerSort, RecurrenceSchedule } from '../types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -11,22 +13,80 @@ export type Income = {
   user_id: string;
   name: string;
   amount: number;
+  currency: string;
+  account_id?: string | null;
   date: string;
   created_at: string;
   is_recurring?: boolean;
   recurring_id?: string;
+  occurrence_key?: string | null;
+  external_id?: string | null;
+  deleted_at?: string | null;
+  tags?: Tag[];
+  attachments?: Attachment[];
 };
 
 export type Expense = {
   id: string;
   user_id: string;
-  category: string;
+  category_id: string | null;
   name: string;
   amount: number;
+  currency: string;
+  account_id?: string | null;
   date: string;
   created_at: string;
   is_recurring: boolean;
   recurring_id?: string;
+  goal_id?: string | null;
+  occurrence_key?: string | null;
+  external_id?: string | null;
+  holding_id?: string | null;
+  units?: number | null;
+  splits?: ExpenseSplit[];
+  deleted_at?: string | null;
+  tags?: Tag[];
+  attachments?: Attachment[];
+};
+
+export type ExpenseSplit = {
+  id: string;
+  user_id: string;
+  expense_id: string;
+  category_id: string | null;
+  amount: number;
+  created_at: string;
+};
+
+export type Tag = {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+};
+
+export type ExpenseTag = {
+  expense_id: string;
+  tag_id: string;
+  user_id: string;
+};
+
+export type IncomeTag = {
+  income_id: string;
+  tag_id: string;
+  user_id: string;
+};
+
+export type Attachment = {
+  id: string;
+  user_id: string;
+  expense_id: string | null;
+  income_id: string | null;
+  path: string;
+  file_name: string;
+  content_type: string;
+  size: number;
+  created_at: string;
 };
 
 export type SavingsGoal = {
@@ -36,50 +96,643 @@ export type SavingsGoal = {
   target_amount: number;
   current_amount: number;
   monthly_contribution: number;
-  category: string;
+  currency: string;
+  category_id: string | null;
   created_at: string;
   status: 'active' | 'completed' | 'cancelled';
+  deleted_at?: string | null;
+};
+
+export type SavingsRecommendation = {
+  id: string;
+  user_id: string;
+  name: string;
+  amount: number;
+  date: string;
+  created_at: string;
+  status: 'pending' | 'accepted' | 'rejected';
+};
+
+export type Category = {
+  id: string;
+  user_id: string;
+  parent_id: string | null;
+  name: string;
+  color: string;
+  icon: string;
+  sort_order: number;
+  rule_bucket: 'needs' | 'wants' | 'savings';
+  created_at: string;
+};
+
+export type Budget = {
+  id: string;
+  user_id: string;
+  category_id: string;
+  amount: number;
+  rollover: boolean;
+  created_at: string;
+};
+
+export type EnvelopeTransfer = {
+  id: string;
+  user_id: string;
+  month: string;
+  from_category_id: string | null;
+  to_category_id: string | null;
+  from_category_deleted: boolean; // The category was deleted, as opposed to null meaning "to be assigned"
+  to_category_deleted: boolean;
+  amount: number;
+  note: string | null;
+  created_at: string;
+};
+
+export type Account = {
+  id: string;
+  user_id: string;
+  name: string;
+  type: 'bank' | 'credit_card' | 'cash' | 'wallet';
+  currency: string;
+  opening_balance: number;
+  statement_day: number | null;
+  due_day: number | null;
+  minimum_due_percent: number;
+  created_at: string;
+};
+
+export type AccountTransfer = {
+  id: string;
+  user_id: string;
+  from_account_id: string;
+  to_account_id: string;
+  amount: number;
+  to_amount: number | null;
+  date: string;
+  note: string | null;
+  created_at: string;
 };
 
-export type SavingsRecommendation = {
-  id: string;
-  user_id: string;
-  name: string;
-  amount: number;
-  date: string;
-  created_at: string;
-  status: 'pending' | 'accepted' | 'rejected';
-};
+export type Holding = {
+  id: string;
+  user_id: string;
+  name: string;
+  type: 'mutual_fund' | 'stock' | 'fixed_deposit' | 'ppf';
+  symbol: string | null;
+  currency: string;
+  created_at: string;
+};
+
+export type HoldingPrice = {
+  id: string;
+  user_id: string;
+  holding_id: string;
+  date: string;
+  price: number;
+  created_at: string;
+};
+
+export type NetWorthSnapshot = {
+  id: string;
+  user_id: string;
+  month: string;
+  currency: string;
+  accounts: number;
+  investments: number;
+  goals: number;
+  debts: number;
+  created_at: string;
+};
+
+export type Loan = {
+  id: string;
+  user_id: string;
+  name: string;
+  principal: number;
+  annual_rate: number;
+  tenure_months: number;
+  start_date: string;
+  currency: string;
+  account_id: string | null;
+  recurring_id: string | null;
+  created_at: string;
+};
+
+export type UserSettings = {
+  user_id: string;
+  base_currency: string;
+  number_locale: string;
+  accounting_negatives: boolean;
+  rule_needs_target: number;
+  rule_wants_target: number;
+  rule_savings_target: number;
+  updated_at: string;
+};
+
+export type ExchangeRate = {
+  id: string;
+  user_id: string;
+  currency: string;
+  rate: number;
+  updated_at: string;
+};
+
+export type RecurringTransaction = RecurrenceSchedule & {
+  id: string;
+  user_id: string;
+  name: string;
+  amount: number;
+  currency: string;
+  type: 'income' | 'expense';
+  category_id?: string | null;
+  account_id?: string | null;
+  active: boolean;
+  goal_id?: string;
+  last_posted_date?: string | null;
+  created_at: string;
+  deleted_at?: string | null;
+};
+
+// The tables whose rows go to the trash when deleted
+export type TrashTable = 'income_sources' | 'expenses' | 'recurring_transactions' | 'savings_goals';
+
+// Database helper functions
+export const db = {
+  // Category functions
+  categories: {
+    async getAll(userId: string) {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .eq('user_id', userId)
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+
+    // Adds Investment, Debt, Needs and Leisure for the signed-in user; does nothing if they exist
+    async createDefaults() {
+      const { error } = await supabase.rpc('create_default_categories');
+
+      if (error) throw error;
+    },
+
+    async create(category: Omit<Category, 'id' | 'created_at'>) {
+      const { data, error } = await supabase
+        .from('categories')
+        .insert(category)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async update(id: string, updates: Partial<Omit<Category, 'id' | 'created_at' | 'user_id'>>) {
+      const { data, error } = await supabase
+        .from('categories')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async remove(id: string) {
+      const { error } = await supabase
+        .from('categories')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    }
+  },
+
+  // Budget functions
+  budgets: {
+    async getAll(userId: string) {
+      const { data, error } = await supabase
+        .from('budgets')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      return data;
+    },
+
+    // One budget per category, so setting it again replaces the amount and rollover choice
+    async set(budget: Omit<Budget, 'id' | 'created_at'>) {
+      const { data, error } = await supabase
+        .from('budgets')
+        .upsert(budget, { onConflict: 'user_id,category_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async remove(id: string) {
+      const { error } = await supabase
+        .from('budgets')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    }
+  },
+
+  // Envelope budgeting functions
+  envelopeTransfers: {
+    // month is the first day of the month as yyyy-MM-dd
+    async getAll(userId: string, month: string) {
+      const { data, error } = await supabase
+        .from('envelope_transfers')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('month', month)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+
+    async add(transfer: Omit<EnvelopeTransfer, 'id' | 'created_at' | 'from_category_deleted' | 'to_category_deleted'>) {
+      const { data, error } = await supabase
+        .from('envelope_transfers')
+        .insert(transfer)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    }
+  },
+
+  // Account functions
+  accounts: {
+    async getAll(userId: string) {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+
+    async create(account: Omit<Account, 'id' | 'created_at'>) {
+      const { data, error } = await supabase
+        .from('accounts')
+        .insert(account)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async update(id: string, updates: Partial<Omit<Account, 'id' | 'created_at' | 'user_id'>>) {
+      const { data, error } = await supabase
+        .from('accounts')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    // Entries in the account are kept but no longer belong to any account; its transfers are deleted
+    async remove(id: string) {
+      const { error } = await supabase
+        .from('accounts')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+
+    // Balance of each account at the end of the given day, in its own currency, keyed by account id
+    async getBalances(until: Date) {
+      const { data, error } = await supabase
+        .rpc('account_balances', { p_until: endOfDay(until).toISOString() });
+
+      if (error) throw error;
+      return Object.fromEntries(
+        (data as { account_id: string; balance: number }[]).map(({ account_id, balance }) => [account_id, Number(balance)])
+      ) as Record<string, number>;
+    }
+  },
+
+  // Holding functions
+  holdings: {
+    async getAll(userId: string) {
+      const { data, error } = await supabase
+        .from('holdings')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+
+    async create(holding: Omit<Holding, 'id' | 'created_at'>) {
+      const { data, error } = await supabase
+        .from('holdings')
+        .insert(holding)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async update(id: string, updates: Partial<Omit<Holding, 'id' | 'created_at' | 'user_id'>>) {
+      const { data, error } = await supabase
+        .from('holdings')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    // Purchases are kept as ordinary expenses; the holding's prices are deleted
+    async remove(id: string) {
+      const { error } = await supabase
+        .from('holdings')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    }
+  },
+
+  // Holding price functions
+  holdingPrices: {
+    async getAll(userId: string) {
+      const { data, error } = await supabase
+        .from('holding_prices')
+        .select('*')
+        .eq('user_id', userId)
+        .order('date', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+
+    // One price per holding per day, so setting it again replaces the old price
+    async setMany(prices: Omit<HoldingPrice, 'id' | 'created_at'>[]) {
+      if (prices.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('holding_prices')
+        .upsert(prices, { onConflict: 'holding_id,date' })
+        .select();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async remove(id: string) {
+      const { error } = await supabase
+        .from('holding_prices')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    }
+  },
+
+  // Net worth snapshot functions
+  netWorthSnapshots: {
+    async getAll(userId: string) {
+      const { data, error } = await supabase
+        .from('net_worth_snapshots')
+        .select('*')
+        .eq('user_id', userId)
+        .order('month', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+
+    // One snapshot per month, so saving the month again replaces it
+    async save(snapshot: Omit<NetWorthSnapshot, 'id' | 'created_at'>) {
+      const { data, error } = await supabase
+        .from('net_worth_snapshots')
+        .upsert(snapshot, { onConflict: 'user_id,month' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    // Months that already have a snapshot keep it
+    async addMany(snapshots: Omit<NetWorthSnapshot, 'id' | 'created_at'>[]) {
+      if (snapshots.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('net_worth_snapshots')
+        .upsert(snapshots, { onConflict: 'user_id,month', ignoreDuplicates: true })
+        .select();
+
+      if (error) throw error;
+      return data;
+    }
+  },
+
+  // Loan functions
+  loans: {
+    async getAll(userId: string) {
+      const { data, error } = await supabase
+        .from('loans')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+
+    async create(loan: Omit<Loan, 'id' | 'created_at'>) {
+      const { data, error } = await supabase
+        .from('loans')
+        .insert(loan)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async update(id: string, updates: Partial<Omit<Loan, 'id' | 'created_at' | 'user_id'>>) {
+      const { data, error } = await supabase
+        .from('loans')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async remove(id: string) {
+      const { error } = await supabase
+        .from('loans')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    }
+  },
+
+  // Account transfer functions
+  accountTransfers: {
+    async getAll(userId: string, startDate: Date, endDate: Date) {
+      const { data, error } = await supabase
+        .from('account_transfers')
+        .select('*')
+        .eq('user_id', userId)
+        .gte("date", startOfDay(startDate).toISOString())
+        .lte("date", endOfDay(endDate).toISOString())
+        .order('date', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+
+    async add(transfer: Omit<AccountTransfer, 'id' | 'created_at'>) {
+      const { data, error } = await supabase
+        .from('account_transfers')
+        .insert(transfer)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async addMany(transfers: Omit<AccountTransfer, 'id' | 'created_at'>[]) {
+      if (transfers.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('account_transfers')
+        .insert(transfers)
+        .select();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async remove(id: string) {
+      const { error } = await supabase
+        .from('account_transfers')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    }
+  },
+
+  // Settings functions
+  userSettings: {
+    // Null until the user first changes a setting
+    async get(userId: string) {
+      const { data, error } = await supabase
+        .from('user_settings')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    // Only the given settings change; the rest keep their current (or default) values
+    async set(userId: string, settings: Partial<Omit<UserSettings, 'user_id' | 'updated_at'>>) {
+      const { data, error } = await supabase
+        .from('user_settings')
+        .upsert({ ...settings, user_id: userId, updated_at: new Date().toISOString() })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    }
+  },
+
+  // Exchange rate functions
+  exchangeRates: {
+    async getAll(userId: string) {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('*')
+        .eq('user_id', userId)
+        .order('currency', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+
+    // One rate per currency, so setting it again replaces the old rate
+    async setMany(rates: Omit<ExchangeRate, 'id' | 'updated_at'>[]) {
+      if (rates.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .upsert(
+          rates.map(rate => ({ ...rate, updated_at: new Date().toISOString() })),
+          { onConflict: 'user_id,currency' }
+        )
+        .select();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async remove(userId: string, currency: string) {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('user_id', userId)
+        .eq('currency', currency);
 
-export type RecurringTransaction = {
-  id: string;
-  user_id: string;
-  name: string;
-  amount: number;
-  type: 'income' | 'expense';
-  category?: string;
-  active: boolean;
-  goal_id?: string;
-  frequency: 'monthly';
-  created_at: string;
-};
+      if (error) throw error;
+    },
+
+    // Restate the signed-in user's rates against a new base currency and switch to it, all or nothing
+    async changeBase(newBase: string) {
+      const { error } = await supabase
+        .rpc('change_base_currency', { p_new_base: newBase });
+
+      if (error) throw error;
+    }
+  },
 
-// Database helper functions
-export const db = {
   // Income functions
   income: {
+    // Each income comes with its tags and attachments
     async getAll(userId: string, startDate: Date, endDate: Date) {
-      // Convert dates to YYYY-MM format for exact month matching
-      const startMonth = startDate.toISOString().slice(0, 7);
-      const endMonth = endDate.toISOString().slice(0, 7);
-
       const { data, error } = await supabase
         .from('income_sources')
-        .select('*')
+        .select('*, tags(*), attachments(*)')
         .eq('user_id', userId)
-        // Use to_char to convert the date column to YYYY-MM format for comparison
-        .gte("date", `${startMonth}-01`)
-        .lt("date", `${endMonth}-01T23:59:59.999Z`);
+        .is('deleted_at', null)
+        // Match every entry dated within the range, not just the first of the month
+        .gte("date", startOfDay(startDate).toISOString())
+        .lte("date", endOfDay(endDate).toISOString());
 
       if (error) throw error;
       return data || [];
@@ -96,6 +749,19 @@ export const db = {
       return data;
     },
 
+    async addMany(incomes: Omit<Income, 'id' | 'created_at'>[]) {
+      if (incomes.length === 0) return [];
+
+      // Rows the bank already gave us on an earlier import are skipped
+      const { data, error } = await supabase
+        .from('income_sources')
+        .upsert(incomes, { onConflict: 'user_id,external_id', ignoreDuplicates: true })
+        .select();
+
+      if (error) throw error;
+      return data;
+    },
+
     async update(id: string, income: Partial<Omit<Income, 'id' | 'created_at' | 'user_id'>>) {
       console.log('Attempting to update income with id:', id);
       console.log('Update data:', income);
@@ -127,25 +793,101 @@ export const db = {
         .delete()
         .eq('id', id);
 
+      if (error) throw error;
+    },
+
+    // Each income comes with its tags and attachments
+    async getByIds(ids: string[]) {
+      if (ids.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('income_sources')
+        .select('*, tags(*), attachments(*)')
+        .in('id', ids);
+
+      if (error) throw error;
+      return data;
+    },
+
+    async updateMany(ids: string[], changes: Partial<Omit<Income, 'id' | 'created_at' | 'user_id'>>) {
+      if (ids.length === 0) return;
+
+      const { error } = await supabase
+        .from('income_sources')
+        .update(changes)
+        .in('id', ids);
+
+      if (error) throw error;
+    },
+
+    // Write rows back as they were before a bulk edit, ids included
+    async restoreMany(incomes: Income[]) {
+      if (incomes.length === 0) return;
+
+      const { error } = await supabase
+        .from('income_sources')
+        .upsert(incomes);
+
       if (error) throw error;
     }
   },
 
   // Expense functions
   expenses: {
+    // Each expense comes with its split lines, if it has any, its tags and its attachments
     async getAll(userId: string, startDate: Date, endDate: Date) {
-      // Convert dates to YYYY-MM format for exact month matching
-      const startMonth = startDate.toISOString().slice(0, 7);
-      const endMonth = endDate.toISOString().slice(0, 7);
+      const { data, error } = await supabase
+        .from('expenses')
+        .select('*, splits:expense_splits(*), tags(*), attachments(*)')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        // Use same range as income query
+        .gte("date", startOfDay(startDate).toISOString())
+        .lte("date", endOfDay(endDate).toISOString())
+        .order('date', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
 
+    // Every expense linked to an investment holding, oldest first
+    async getHoldingPurchases(userId: string) {
       const { data, error } = await supabase
         .from('expenses')
         .select('*')
         .eq('user_id', userId)
-        // Use same format as income query
-        .gte("date", `${startMonth}-01`)
-        .lt("date", `${endMonth}-01T23:59:59.999Z`)
-        .order('date', { ascending: false });
+        .is('deleted_at', null)
+        .not('holding_id', 'is', null)
+        .order('date', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+
+    // Expenses put towards the given savings goals, which is what each goal has saved so far
+    async getGoalContributions(goalIds: string[]) {
+      if (goalIds.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('expenses')
+        .select('goal_id, amount, currency, date')
+        .in('goal_id', goalIds)
+        .is('deleted_at', null);
+
+      if (error) throw error;
+      return data;
+    },
+
+    // Every entry posted by the given recurring transactions, oldest first
+    async getByRecurring(recurringIds: string[]) {
+      if (recurringIds.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('expenses')
+        .select('*')
+        .in('recurring_id', recurringIds)
+        .is('deleted_at', null)
+        .order('date', { ascending: true });
 
       if (error) throw error;
       return data;
@@ -162,13 +904,30 @@ export const db = {
       return data;
     },
 
+    async addMany(expenses: Omit<Expense, 'id' | 'created_at'>[]) {
+      if (expenses.length === 0) return [];
+
+      // Rows the bank already gave us on an earlier import are skipped
+      const { data, error } = await supabase
+        .from('expenses')
+        .upsert(expenses, { onConflict: 'user_id,external_id', ignoreDuplicates: true })
+        .select();
+
+      if (error) throw error;
+      return data;
+    },
+
     async update(id: string, expense: Partial<Omit<Expense, 'id' | 'created_at' | 'user_id'>>) {
       const { data, error } = await supabase
         .from('expenses')
         .update({
           name: expense.name,
           amount: expense.amount,
-          category: expense.category,
+          currency: expense.currency,
+          account_id: expense.account_id,
+          category_id: expense.category_id,
+          holding_id: expense.holding_id,
+          units: expense.units,
           is_recurring: expense.is_recurring,
           recurring_id: expense.recurring_id
         })
@@ -186,6 +945,213 @@ export const db = {
         .delete()
         .eq('id', id);
 
+      if (error) throw error;
+    },
+
+    // Each expense comes with its split lines, tags and attachments
+    async getByIds(ids: string[]) {
+      if (ids.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('expenses')
+        .select('*, splits:expense_splits(*), tags(*), attachments(*)')
+        .in('id', ids);
+
+      if (error) throw error;
+      return data;
+    },
+
+    async updateMany(ids: string[], changes: Partial<Omit<Expense, 'id' | 'created_at' | 'user_id'>>) {
+      if (ids.length === 0) return;
+
+      const { error } = await supabase
+        .from('expenses')
+        .update(changes)
+        .in('id', ids);
+
+      if (error) throw error;
+    },
+
+    // Write rows back as they were before a bulk edit, ids included
+    async restoreMany(expenses: Expense[]) {
+      if (expenses.length === 0) return;
+
+      const { error } = await supabase
+        .from('expenses')
+        .upsert(expenses);
+
+      if (error) throw error;
+    }
+  },
+
+  // Expense split functions
+  expenseSplits: {
+    // Replace an expense's split lines. No lines means the expense isn't split.
+    async set(userId: string, expenseId: string, lines: { category_id: string | null; amount: number }[]) {
+      const { error: deleteError } = await supabase
+        .from('expense_splits')
+        .delete()
+        .eq('expense_id', expenseId);
+
+      if (deleteError) throw deleteError;
+      if (lines.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('expense_splits')
+        .insert(lines.map(line => ({ ...line, user_id: userId, expense_id: expenseId })))
+        .select();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async addMany(splits: Omit<ExpenseSplit, 'id' | 'created_at'>[]) {
+      if (splits.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('expense_splits')
+        .insert(splits)
+        .select();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async removeForExpenses(expenseIds: string[]) {
+      if (expenseIds.length === 0) return;
+
+      const { error } = await supabase
+        .from('expense_splits')
+        .delete()
+        .in('expense_id', expenseIds);
+
+      if (error) throw error;
+    }
+  },
+
+  // Ledger functions, over the transactions view of income and expenses together
+  transactions: {
+    // One page of the ledger, with how many entries match the filters in all
+    async getPage(userId: string, filters: LedgerFilters, sort: LedgerSort, page: number, pageSize: number) {
+      let query = supabase
+        .from('transactions')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId);
+
+      // % and _ are wildcards in ilike, so typed ones are matched literally
+      if (filters.search.trim()) query = query.ilike('name', `%${filters.search.trim().replace(/[\\%_]/g, '\\$&')}%`);
+      if (filters.type) query = query.eq('type', filters.type);
+      // Split expenses match on any of their lines
+      if (filters.categoryIds) query = query.overlaps('category_ids', filters.categoryIds);
+      if (filters.minAmount !== null) query = query.gte('amount', filters.minAmount);
+      if (filters.maxAmount !== null) query = query.lte('amount', filters.maxAmount);
+      if (filters.recurring !== null) query = filters.recurring ? query.not('recurring_id', 'is', null) : query.is('recurring_id', null);
+      if (filters.goalLinked !== null) query = filters.goalLinked ? query.not('goal_id', 'is', null) : query.is('goal_id', null);
+
+      // Ties are broken by id so rows don't move between pages
+      const { data, error, count } = await query
+        .order(sort.column, { ascending: sort.ascending })
+        .order('id', { ascending: true })
+        .range(page * pageSize, (page + 1) * pageSize - 1);
+
+      if (error) throw error;
+      return { entries: (data || []) as LedgerEntry[], count: count ?? 0 };
+    }
+  },
+
+  // Tag functions
+  tags: {
+    async getAll(userId: string) {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('*')
+        .eq('user_id', userId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+
+    async addMany(tags: Omit<Tag, 'id' | 'created_at'>[]) {
+      if (tags.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('tags')
+        .insert(tags)
+        .select();
+
+      if (error) throw error;
+      return data;
+    }
+  },
+
+  expenseTags: {
+    // Replace the tags on an expense
+    async set(userId: string, expenseId: string, tagIds: string[]) {
+      const { error: deleteError } = await supabase
+        .from('expense_tags')
+        .delete()
+        .eq('expense_id', expenseId);
+
+      if (deleteError) throw deleteError;
+      await this.addMany(tagIds.map(tagId => ({ expense_id: expenseId, tag_id: tagId, user_id: userId })));
+    },
+
+    async addMany(links: ExpenseTag[]) {
+      if (links.length === 0) return;
+
+      const { error } = await supabase
+        .from('expense_tags')
+        .insert(links);
+
+      if (error) throw error;
+    }
+  },
+
+  incomeTags: {
+    // Replace the tags on an income
+    async set(userId: string, incomeId: string, tagIds: string[]) {
+      const { error: deleteError } = await supabase
+        .from('income_tags')
+        .delete()
+        .eq('income_id', incomeId);
+
+      if (deleteError) throw deleteError;
+      await this.addMany(tagIds.map(tagId => ({ income_id: incomeId, tag_id: tagId, user_id: userId })));
+    },
+
+    async addMany(links: IncomeTag[]) {
+      if (links.length === 0) return;
+
+      const { error } = await supabase
+        .from('income_tags')
+        .insert(links);
+
+      if (error) throw error;
+    }
+  },
+
+  // Attachment functions. The files themselves are uploaded and deleted by lib/attachments.
+  attachments: {
+    async add(attachment: Omit<Attachment, 'id' | 'created_at'>) {
+      const { data, error } = await supabase
+        .from('attachments')
+        .insert(attachment)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async remove(ids: string[]) {
+      if (ids.length === 0) return;
+
+      const { error } = await supabase
+        .from('attachments')
+        .delete()
+        .in('id', ids);
+
       if (error) throw error;
     }
   },
@@ -196,6 +1162,7 @@ export const db = {
         .from('savings_goals')
         .select('*')
         .eq('user_id', userId)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -238,7 +1205,8 @@ export const db = {
       const { data, error } = await supabase
         .from('expenses')
         .select('amount')
-        .eq('goal_id', goalId);
+        .eq('goal_id', goalId)
+        .is('deleted_at', null);
 
       if (error) throw error;
       return data.reduce((sum, expense) => sum + expense.amount, 0);
@@ -251,6 +1219,7 @@ export const db = {
         .from('recurring_transactions')
         .select('*')
         .eq('user_id', userId)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -292,5 +1261,125 @@ export const db = {
     async deactivate(id: string) {
       return this.update(id, { active: false });
     }
+  },
+
+  // Backup restore functions
+  restore: {
+    // Delete the signed-in user's income, expenses and transfers in the range, all or nothing
+    async clearRange(startDate: Date, endDate: Date) {
+      const { error } = await supabase
+        .rpc('clear_restore_range', {
+          p_start: startOfDay(startDate).toISOString(),
+          p_end: endOfDay(endDate).toISOString()
+        });
+
+      if (error) throw error;
+    }
+  },
+
+  // Trash functions. Deleted income, expenses, recurring transactions and savings goals keep their rows,
+  // with deleted_at set, until they're restored or purged.
+  trash: {
+    async getAll(userId: string) {
+      const [income, expenses, recurring, goals] = await Promise.all([
+        supabase.from('income_sources').select('*, attachments(*)').eq('user_id', userId).not('deleted_at', 'is', null),
+        supabase.from('expenses').select('*, attachments(*)').eq('user_id', userId).not('deleted_at', 'is', null),
+        supabase.from('recurring_transactions').select('*').eq('user_id', userId).not('deleted_at', 'is', null),
+        supabase.from('savings_goals').select('*').eq('user_id', userId).not('deleted_at', 'is', null)
+      ]);
+
+      const error = income.error ?? expenses.error ?? recurring.error ?? goals.error;
+      if (error) throw error;
+      return {
+        income: income.data as Income[],
+        expenses: expenses.data as Expense[],
+        recurring: recurring.data as RecurringTransaction[],
+        goals: goals.data as SavingsGoal[]
+      };
+    },
+
+    async moveTo(table: TrashTable, ids: string[], deletedAt: string) {
+      if (ids.length === 0) return;
+
+      const { error } = await supabase
+        .from(table)
+        .update({ deleted_at: deletedAt })
+        .in('id', ids);
+
+      if (error) throw error;
+    },
+
+    async restore(table: TrashTable, ids: string[]) {
+      if (ids.length === 0) return;
+
+      const { error } = await supabase
+        .from(table)
+        .update({ deleted_at: null })
+        .in('id', ids);
+
+      if (error) throw error;
+    },
+
+    // A goal goes to the trash with its recurring contributions, and with its expenses when asked. They all
+    // get the goal's deleted_at, which is how restoring the goal finds them again.
+    async moveGoal(goalId: string, withExpenses: boolean, deletedAt: string) {
+      const tables: TrashTable[] = withExpenses ? ['recurring_transactions', 'expenses'] : ['recurring_transactions'];
+      for (const table of tables) {
+        const { error } = await supabase
+          .from(table)
+          .update({ deleted_at: deletedAt })
+          .eq('goal_id', goalId)
+          .is('deleted_at', null);
+
+        if (error) throw error;
+      }
+      await this.moveTo('savings_goals', [goalId], deletedAt);
+    },
+
+    async restoreGoal(goalId: string, deletedAt: string) {
+      for (const table of ['recurring_transactions', 'expenses'] as const) {
+        const { error } = await supabase
+          .from(table)
+          .update({ deleted_at: null })
+          .eq('goal_id', goalId)
+          .eq('deleted_at', deletedAt);
+
+        if (error) throw error;
+      }
+      await this.restore('savings_goals', [goalId]);
+    },
+
+    // Delete for good. Entries that were posted by a purged recurring transaction or linked to a purged goal
+    // are kept, and lose the link, in the trash or not.
+    async purge(table: TrashTable, ids: string[]) {
+      if (ids.length === 0) return;
+
+      if (table === 'recurring_transactions') {
+        for (const linked of ['income_sources', 'expenses'] as const) {
+          const { error } = await supabase
+            .from(linked)
+            .update({ recurring_id: null, is_recurring: false })
+            .in('recurring_id', ids);
+
+          if (error) throw error;
+        }
+      } else if (table === 'savings_goals') {
+        for (const linked of ['expenses', 'recurring_transactions'] as const) {
+          const { error } = await supabase
+            .from(linked)
+            .update({ goal_id: null })
+            .in('goal_id', ids);
+
+          if (error) throw error;
+        }
+      }
+
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .in('id', ids);
+
+      if (error) throw error;
+    }
   }
 };
@@ -0,0 +1,43 @@
+import { Tag } from '../types';
+import { db } from './supabase';
+
+// How a tag name is stored: trimmed, without a leading #, runs of spaces collapsed
+export const normaliseTagName = (name: string) => name.trim().replace(/^#+/, '').replace(/\s+/g, ' ').trim();
+
+export const findTag = (tags: Tag[], name: string) => {
+    const key = normaliseTagName(name).toLowerCase();
+    return tags.find(tag => tag.name.toLowerCase() === key);
+};
+
+// The ids of the named tags, creating the ones the user doesn't have yet. Names match ignoring case.
+export async function resolveTagIds(userId: string, names: string[], existing: Tag[]): Promise<string[]> {
+    const wanted = [...new Map(
+        names.map(normaliseTagName).filter(Boolean).map(name => [name.toLowerCase(), name] as const)
+    ).values()];
+    const missing = wanted.filter(name => !findTag(existing, name));
+    const created: Tag[] = await db.tags.addMany(missing.map(name => ({ user_id: userId, name })));
+    const known = [...existing, ...created];
+    return wanted.flatMap(name => {
+        const tag = findTag(known, name);
+        return tag ? [tag.id] : [];
+    });
+}
+
+export interface TagTotal {
+    tag: Tag;
+    total: number;
+    count: number;
+}
+
+// What was spent under each tag, largest first. An entry with several tags counts towards each of them,
+// so the totals can add up to more than was spent.
+export const sumByTag = (entries: { amount: number; tags?: Tag[] }[]): TagTotal[] => {
+    const totals = new Map<string, TagTotal>();
+    entries.forEach(entry => {
+        (entry.tags ?? []).forEach(tag => {
+            const current = totals.get(tag.id) ?? { tag, total: 0, count: 0 };
+            totals.set(tag.id, { tag, total: current.total + entry.amount, count: current.count + 1 });
+        });
+    });
+    return [...totals.values()].sort((a, b) => b.total - a.total);
+};
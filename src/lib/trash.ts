@@ -0,0 +1,114 @@
+import { subDays } from 'date-fns';
+import { TrashItem } from '../types';
+import { removeAttachmentFiles } from './attachments';
+import { db, TrashTable } from './supabase';
+import { Undoable } from './undoToast';
+
+// How long deleted items stay in the trash before they're purged
+export const TRASH_RETENTION_DAYS = 30;
+
+const TABLES: Record<TrashItem['kind'], TrashTable> = {
+    income: 'income_sources',
+    expense: 'expenses',
+    recurring: 'recurring_transactions',
+    goal: 'savings_goals'
+};
+
+// Move rows to the trash. The result takes it back, and can then do it again.
+export async function moveToTrash(table: TrashTable, ids: string[]): Promise<Undoable> {
+    await db.trash.moveTo(table, ids, new Date().toISOString());
+    return {
+        undo: () => db.trash.restore(table, ids),
+        redo: () => moveToTrash(table, ids)
+    };
+}
+
+// Move a goal to the trash along with its recurring contributions, and its expenses when asked. Expenses that are
+// kept stay linked to the goal while it's in the trash, so restoring it brings its progress back. The link is
+// only cleared when the goal is purged.
+export async function moveGoalToTrash(goalId: string, withExpenses: boolean): Promise<Undoable> {
+    const deletedAt = new Date().toISOString();
+    await db.trash.moveGoal(goalId, withExpenses, deletedAt);
+    return {
+        undo: () => db.trash.restoreGoal(goalId, deletedAt),
+        redo: () => moveGoalToTrash(goalId, withExpenses)
+    };
+}
+
+// Everything in the trash, most recently deleted first
+export async function fetchTrash(userId: string): Promise<TrashItem[]> {
+    const { income, expenses, recurring, goals } = await db.trash.getAll(userId);
+    const items: TrashItem[] = [
+        ...income.map(entry => ({
+            kind: 'income' as const,
+            id: entry.id,
+            name: entry.name,
+            amount: entry.amount,
+            currency: entry.currency,
+            date: entry.date,
+            deleted_at: entry.deleted_at!,
+            attachments: entry.attachments ?? []
+        })),
+        ...expenses.map(entry => ({
+            kind: 'expense' as const,
+            id: entry.id,
+            name: entry.name,
+            amount: entry.amount,
+            currency: entry.currency,
+            date: entry.date,
+            deleted_at: entry.deleted_at!,
+            attachments: entry.attachments ?? []
+        })),
+        ...recurring.map(transaction => ({
+            kind: 'recurring' as const,
+            id: transaction.id,
+            name: transaction.name,
+            amount: transaction.amount,
+            currency: transaction.currency,
+            date: null,
+            deleted_at: transaction.deleted_at!,
+            attachments: []
+        })),
+        ...goals.map(goal => ({
+            kind: 'goal' as const,
+            id: goal.id,
+            name: goal.name,
+            amount: goal.target_amount,
+            currency: goal.currency,
+            date: null,
+            deleted_at: goal.deleted_at!,
+            attachments: []
+        }))
+    ];
+    return items.sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+}
+
+// Take items out of the trash. A goal brings back what was deleted with it.
+export async function restoreFromTrash(items: TrashItem[]) {
+    for (const item of items.filter(item => item.kind === 'goal')) {
+        await db.trash.restoreGoal(item.id, item.deleted_at);
+    }
+    for (const kind of ['income', 'expense', 'recurring'] as const) {
+        await db.trash.restore(TABLES[kind], items.filter(item => item.kind === kind).map(item => item.id));
+    }
+}
+
+// Delete items for good, attachment files included. As deleting a goal always has, expenses and recurring
+// transactions linked to a purged goal are kept with goal_id cleared; entries posted by a purged recurring
+// transaction lose recurring_id the same way.
+export async function purgeFromTrash(items: TrashItem[]) {
+    await removeAttachmentFiles(items.flatMap(item => item.attachments));
+    for (const kind of ['income', 'expense', 'recurring', 'goal'] as const) {
+        await db.trash.purge(TABLES[kind], items.filter(item => item.kind === kind).map(item => item.id));
+    }
+}
+
+export const isTrashExpired = (item: TrashItem, now = new Date()) =>
+    new Date(item.deleted_at) < subDays(now, TRASH_RETENTION_DAYS);
+
+// Purge what has been in the trash longer than the retention period
+export async function purgeExpiredTrash(userId: string) {
+    const expired = (await fetchTrash(userId)).filter(item => isTrashExpired(item));
+    await purgeFromTrash(expired);
+    return expired.length;
+}
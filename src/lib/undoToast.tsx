@@ -0,0 +1,58 @@
+import { toast } from 'react-hot-toast';
+
+// How long Undo and Redo are offered
+const UNDO_DURATION_MS = 8000;
+
+// Something that was just done and can be taken back. Redo does it again, and returns how to undo that.
+export interface Undoable {
+    undo: () => Promise<void>;
+    redo?: () => Promise<Undoable>;
+}
+
+const showActionToast = (message: string, label: string, onClick: () => Promise<void>) => {
+    toast(t => (
+        <span className="flex items-center gap-4 text-sm">
+            {message}
+            <button
+                onClick={() => {
+                    toast.dismiss(t.id);
+                    onClick();
+                }}
+                className="font-semibold text-blue-600 hover:text-blue-700"
+            >
+                {label}
+            </button>
+        </span>
+    ), { duration: UNDO_DURATION_MS });
+};
+
+// A toast with an Undo button. Once undone, a second toast offers Redo. onChange runs after either, so the
+// page can reload what changed.
+export function showUndoToast(message: string, action: Undoable, onChange?: () => void) {
+    showActionToast(message, 'Undo', async () => {
+        try {
+            await action.undo();
+            onChange?.();
+        } catch (error) {
+            console.error('Error undoing:', error);
+            toast.error('Failed to undo');
+            return;
+        }
+
+        const { redo } = action;
+        if (!redo) {
+            toast.success('Undone');
+            return;
+        }
+        showActionToast('Undone', 'Redo', async () => {
+            try {
+                const again = await redo();
+                onChange?.();
+                showUndoToast(message, again, onChange);
+            } catch (error) {
+                console.error('Error redoing:', error);
+                toast.error('Failed to redo');
+            }
+        });
+    });
+}
@@ -1,12 +1,160 @@
-export type Category = 'investment' | 'debt' | 'needs' | 'leisure';
+// The 50/30/20 bucket a top-level category's spending counts towards
+export type RuleBucket = 'needs' | 'wants' | 'savings';
+
+// A user-defined category. Subcategories point at their top-level category with parent_id.
+export interface Category {
+    id: string;
+    user_id: string;
+    parent_id: string | null;
+    name: string;
+    color: string; // Key of CATEGORY_COLORS in lib/categories
+    icon: string; // Key of CATEGORY_ICONS in lib/categories
+    sort_order: number;
+    rule_bucket: RuleBucket; // Only used on top-level categories
+    created_at: string;
+}
+
+// A monthly spending limit for a top-level category. With rollover, unused budget carries into the next month.
+export interface Budget {
+    id: string;
+    user_id: string;
+    category_id: string;
+    amount: number;
+    rollover: boolean;
+    created_at: string;
+}
+
+// A movement of money in envelope budgeting. A null category is the month's "to be assigned" pool.
+export interface EnvelopeTransfer {
+    id: string;
+    user_id: string;
+    month: string; // yyyy-MM-01
+    from_category_id: string | null;
+    to_category_id: string | null;
+    from_category_deleted: boolean; // The category was deleted, as opposed to null meaning "to be assigned"
+    to_category_deleted: boolean;
+    amount: number;
+    note: string | null;
+    created_at: string;
+}
+
+export type AccountType = 'bank' | 'credit_card' | 'cash' | 'wallet';
+
+// Where money is held. Credit cards usually carry a negative balance: what is owed on them.
+export interface Account {
+    id: string;
+    user_id: string;
+    name: string;
+    type: AccountType;
+    currency: string; // Entries and transfers are recorded in this currency
+    opening_balance: number;
+    statement_day: number | null; // Credit cards: day of the month the statement is generated
+    due_day: number | null; // Credit cards: day of the month payment is due, after the statement
+    minimum_due_percent: number; // Credit cards: share of the statement balance due at minimum
+    created_at: string;
+}
+
+// Money moved between two of the user's accounts. It is neither income nor an expense.
+export interface AccountTransfer {
+    id: string;
+    user_id: string;
+    from_account_id: string;
+    to_account_id: string;
+    amount: number; // In the from account's currency
+    to_amount: number | null; // What arrived, when the to account uses another currency
+    date: string;
+    note: string | null;
+    created_at: string;
+}
+
+export type HoldingType = 'mutual_fund' | 'stock' | 'fixed_deposit' | 'ppf';
+
+// An investment. Purchases are expenses linked to it; its value comes from the latest price snapshot.
+export interface Holding {
+    id: string;
+    user_id: string;
+    name: string;
+    type: HoldingType;
+    symbol: string | null; // Scheme code or ticker, matched when importing prices
+    currency: string;
+    created_at: string;
+}
+
+// NAV or share price per unit on a day; the whole value for holdings that aren't bought in units
+export interface HoldingPrice {
+    id: string;
+    user_id: string;
+    holding_id: string;
+    date: string; // YYYY-MM-DD
+    price: number;
+    created_at: string;
+}
+
+// Net worth at the end of a month, split into what makes it up. Amounts are in the snapshot's currency.
+export interface NetWorthSnapshot {
+    id: string;
+    user_id: string;
+    month: string; // YYYY-MM-01
+    currency: string;
+    accounts: number;
+    investments: number;
+    goals: number;
+    debts: number;
+    created_at: string;
+}
+
+// A loan repaid in equal monthly instalments. The EMI is posted by the linked recurring transaction.
+export interface Loan {
+    id: string;
+    user_id: string;
+    name: string;
+    principal: number;
+    annual_rate: number; // Percent a year, e.g. 8.5
+    tenure_months: number;
+    start_date: string; // YYYY-MM-DD of the first EMI
+    currency: string;
+    account_id: string | null; // Account the EMI is paid from
+    recurring_id: string | null;
+    created_at: string;
+}
+
+// The user's preferences that follow them between devices
+export interface UserSettings {
+    user_id: string;
+    base_currency: string; // ISO 4217 code that totals and charts are shown in
+    number_locale: string; // Intl locale for digit grouping, e.g. en-IN for lakh/crore
+    accounting_negatives: boolean; // Show negative amounts in brackets
+    rule_needs_target: number; // 50/30/20 analysis targets, in percent
+    rule_wants_target: number;
+    rule_savings_target: number;
+    updated_at: string;
+}
+
+// How much one unit of a currency is worth in the user's base currency
+export interface ExchangeRate {
+    id: string;
+    user_id: string;
+    currency: string;
+    rate: number;
+    updated_at: string;
+}
 
 export interface Income {
     id: string;
     user_id: string;
     name: string;
     amount: number;
+    currency: string; // ISO 4217 code, e.g. INR
+    account_id?: string | null; // Account the money was paid into
     date: string;
     created_at: string;
+    is_recurring?: boolean;
+    recurring_id?: string;
+    occurrence_key?: string | null; // recurring_id + occurrence date for generated entries
+    external_id?: string | null; // Bank transaction id (OFX FITID) for imported entries
+    deleted_at?: string | null; // When it was moved to the trash
+    tags?: Tag[];
+    attachments?: Attachment[];
 }
 
 export interface Expense {
@@ -14,25 +162,141 @@ export interface Expense {
     user_id: string;
     name: string;
     amount: number;
-    category: Category;
+    currency: string; // ISO 4217 code, e.g. INR
+    account_id?: string | null; // Account the money was paid from
+    category_id: string | null;
     date: string;
     created_at: string;
     goal_id?: string;
     is_recurring: boolean;
     recurring_id?: string;
+    occurrence_key?: string | null; // recurring_id + occurrence date for generated entries
+    external_id?: string | null; // Bank transaction id (OFX FITID) for imported entries
+    holding_id?: string | null; // Investment holding this expense bought into
+    units?: number | null; // Units bought, for holdings priced per unit
+    splits?: ExpenseSplit[]; // Category lines for a split expense; empty or missing when it isn't split
+    deleted_at?: string | null; // When it was moved to the trash
+    tags?: Tag[];
+    attachments?: Attachment[];
+}
+
+// One line of a split expense, in the expense's currency
+export interface ExpenseSplit {
+    id: string;
+    user_id: string;
+    expense_id: string;
+    category_id: string | null;
+    amount: number;
+    created_at: string;
+}
+
+// A free-form label such as "goa trip" that groups entries across categories. Names are unique per user,
+// ignoring case. Entries are linked to their tags through ExpenseTag and IncomeTag.
+export interface Tag {
+    id: string;
+    user_id: string;
+    name: string;
+    created_at: string;
+}
+
+export interface ExpenseTag {
+    expense_id: string;
+    tag_id: string;
+    user_id: string;
+}
+
+export interface IncomeTag {
+    income_id: string;
+    tag_id: string;
+    user_id: string;
+}
+
+// A receipt, invoice or other document kept in the attachments storage bucket, belonging to one income or expense
+export interface Attachment {
+    id: string;
+    user_id: string;
+    expense_id: string | null;
+    income_id: string | null;
+    path: string; // Object name in the bucket, under the owner's id
+    file_name: string;
+    content_type: string;
+    size: number; // Bytes
+    created_at: string;
 }
 
 export type Frequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
 
-export interface RecurringTransaction {
+export interface RecurrenceSchedule {
+    frequency: Frequency;
+    interval: number; // Repeat every N days/weeks/months/years
+    start_date: string; // YYYY-MM-DD
+    end_date?: string | null; // Last date an occurrence may fall on
+    occurrence_count?: number | null; // Stop after this many occurrences
+    day_of_month?: number | null; // 1-31 anchor for monthly/yearly, clamped to short months
+    weekday?: number | null; // 0 (Sunday) - 6 anchor for weekly
+}
+
+export interface RecurringTransaction extends RecurrenceSchedule {
     id: string;
     user_id: string;
     name: string;
     amount: number;
+    currency: string; // Entries are posted in this currency
     type: 'income' | 'expense';
-    category?: Category; // Optional because income doesn't have category
+    category_id?: string | null; // Optional because income doesn't have category
+    account_id?: string | null; // Entries are posted to this account
     active: boolean;
     goal_id?: string; // Optional because not all recurring transactions are linked to goals
+    last_posted_date?: string | null; // Latest occurrence already posted, catch-up resumes after it
+    deleted_at?: string | null; // When it was moved to the trash
+}
+
+// A row of the transactions view: an income or an expense, as listed in the ledger
+export interface LedgerEntry {
+    id: string;
+    user_id: string;
+    type: 'income' | 'expense';
+    name: string;
+    amount: number;
+    currency: string;
+    account_id: string | null;
+    category_id: string | null; // Always null for income
+    goal_id: string | null; // Always null for income
+    date: string;
+    is_recurring: boolean;
+    recurring_id: string | null;
+    created_at: string;
+    category_ids: string[]; // category_id and every split line's category. Empty for income.
+}
+
+// What the ledger is narrowed to. Null leaves a filter off.
+export interface LedgerFilters {
+    search: string; // Part of the name, ignoring case
+    type: 'income' | 'expense' | null;
+    categoryIds: string[] | null; // A category and its subcategories
+    minAmount: number | null; // In each entry's own currency
+    maxAmount: number | null;
+    recurring: boolean | null; // Posted by a recurring transaction, or entered once
+    goalLinked: boolean | null;
+}
+
+export type LedgerSortColumn = 'date' | 'amount' | 'name';
+
+export interface LedgerSort {
+    column: LedgerSortColumn;
+    ascending: boolean;
+}
+
+// A deleted income, expense, recurring transaction or savings goal, as listed in the trash
+export interface TrashItem {
+    kind: 'income' | 'expense' | 'recurring' | 'goal';
+    id: string;
+    name: string;
+    amount: number; // A goal's target
+    currency: string;
+    date: string | null; // When the entry happened; null for recurring transactions and goals
+    deleted_at: string;
+    attachments: Attachment[]; // Files to remove when it's purged
 }
 
 export interface MonthData {
@@ -55,9 +319,11 @@ export interface SavingsGoal {
     target_amount: number;
     current_amount: number;
     monthly_contribution: number;
-    category: Category;
+    currency: string; // Target, progress and contributions are all in this currency
+    category_id: string | null;
     created_at: string;
     status: 'active' | 'completed' | 'cancelled';
+    deleted_at?: string | null; // When it was moved to the trash
 }
 
 export interface SavingsRecommendation {
@@ -1,23 +1,32 @@
-import { Category, TransactionType } from './transaction';
+import { RecurrenceSchedule } from '../types';
 
-export interface RecurringTransaction {
+export type TransactionType = 'income' | 'expense';
+
+export interface RecurringTransaction extends RecurrenceSchedule {
     id: string;
     user_id: string;
     name: string;
     amount: number;
+    currency: string;
     type: TransactionType;
-    category?: Category;
+    category_id?: string | null;
+    account_id?: string | null;
     active: boolean;
     created_at: string;
     goal_id?: string;
+    last_posted_date?: string | null;
+    deleted_at?: string | null;
 }
 
-export interface CreateRecurringTransaction {
+export interface CreateRecurringTransaction extends Partial<RecurrenceSchedule> {
     name: string;
     amount: number;
+    currency?: string; // Defaults to INR
     type: TransactionType;
-    category?: Category;
+    category_id?: string | null;
+    account_id?: string | null;
     active?: boolean;
+    last_posted_date?: string | null;
 }
 
 export interface UpdateRecurringTransaction extends Partial<CreateRecurringTransaction> {
@@ -0,0 +1,85 @@
+-- The tables FinFlow started with, as they were before the migrations that follow. Every later migration alters
+-- them, so a fresh database (supabase db reset) needs them first. Databases that already have them skip this.
+create table if not exists savings_goals (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  target_amount numeric not null default 0,
+  current_amount numeric not null default 0,
+  monthly_contribution numeric not null default 0,
+  category text check (category in ('investment', 'debt', 'needs', 'leisure')),
+  status text not null default 'active' check (status in ('active', 'completed', 'cancelled')),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists recurring_transactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  amount numeric not null,
+  type text not null check (type in ('income', 'expense')),
+  category text check (category in ('investment', 'debt', 'needs', 'leisure')),
+  active boolean not null default true,
+  goal_id uuid references savings_goals (id),
+  frequency text not null default 'monthly',
+  created_at timestamptz not null default now()
+);
+
+create table if not exists income_sources (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  amount numeric not null,
+  date timestamptz not null,
+  is_recurring boolean default false,
+  recurring_id uuid references recurring_transactions (id),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists expenses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  amount numeric not null,
+  category text check (category in ('investment', 'debt', 'needs', 'leisure')),
+  date timestamptz not null,
+  is_recurring boolean default false,
+  recurring_id uuid references recurring_transactions (id),
+  goal_id uuid references savings_goals (id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists income_sources_user_id_idx on income_sources (user_id);
+create index if not exists expenses_user_id_idx on expenses (user_id);
+create index if not exists recurring_transactions_user_id_idx on recurring_transactions (user_id);
+create index if not exists savings_goals_user_id_idx on savings_goals (user_id);
+
+alter table savings_goals enable row level security;
+alter table recurring_transactions enable row level security;
+alter table income_sources enable row level security;
+alter table expenses enable row level security;
+
+-- Policies are dropped first so the migration also runs on databases that already have them
+drop policy if exists "Users can manage their own savings goals" on savings_goals;
+create policy "Users can manage their own savings goals"
+  on savings_goals for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can manage their own recurring transactions" on recurring_transactions;
+create policy "Users can manage their own recurring transactions"
+  on recurring_transactions for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can manage their own income" on income_sources;
+create policy "Users can manage their own income"
+  on income_sources for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can manage their own expenses" on expenses;
+create policy "Users can manage their own expenses"
+  on expenses for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
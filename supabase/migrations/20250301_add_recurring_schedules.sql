@@ -0,0 +1,28 @@
+-- Add real recurrence schedules to recurring transactions
+alter table recurring_transactions
+  add column if not exists frequency text not null default 'monthly',
+  add column if not exists interval integer not null default 1,
+  add column if not exists start_date date not null default current_date,
+  add column if not exists end_date date,
+  add column if not exists occurrence_count integer,
+  add column if not exists day_of_month smallint,
+  add column if not exists weekday smallint;
+
+alter table recurring_transactions
+  add constraint recurring_transactions_frequency_check
+    check (frequency in ('daily', 'weekly', 'monthly', 'yearly')),
+  add constraint recurring_transactions_interval_check
+    check (interval > 0),
+  add constraint recurring_transactions_occurrence_count_check
+    check (occurrence_count is null or occurrence_count > 0),
+  add constraint recurring_transactions_day_of_month_check
+    check (day_of_month is null or day_of_month between 1 and 31),
+  add constraint recurring_transactions_weekday_check
+    check (weekday is null or weekday between 0 and 6);
+
+-- Existing rows were posted on the 1st of every month since they were created
+update recurring_transactions
+set start_date = date_trunc('month', created_at)::date,
+    day_of_month = 1
+where frequency = 'monthly'
+  and day_of_month is null;
@@ -0,0 +1,18 @@
+-- Track the latest occurrence posted for each recurring transaction so missed periods can be backfilled
+alter table recurring_transactions
+  add column if not exists last_posted_date date;
+
+-- Seed it from the entries that have already been posted
+update recurring_transactions r
+set last_posted_date = posted.last_date
+from (
+  select recurring_id, max(date)::date as last_date
+  from (
+    select recurring_id, date from income_sources where recurring_id is not null
+    union all
+    select recurring_id, date from expenses where recurring_id is not null
+  ) entries
+  group by recurring_id
+) posted
+where posted.recurring_id = r.id
+  and r.last_posted_date is null;
@@ -0,0 +1,47 @@
+-- Identify each generated recurring entry by recurring_id + occurrence date so posting is idempotent
+alter table income_sources
+  add column if not exists occurrence_key text;
+
+alter table expenses
+  add column if not exists occurrence_key text;
+
+-- Backfill keys for entries posted before this migration. The old processor always dated them on the
+-- 1st of the month as a local-midnight timestamp, so round to the nearest month start. Entries that were
+-- posted twice keep a null key on the later copy.
+update income_sources i
+set occurrence_key = keyed.occurrence_key
+from (
+  select id,
+         recurring_id || ':' || to_char(date_trunc('month', date + interval '14 days'), 'YYYY-MM-DD') as occurrence_key,
+         row_number() over (
+           partition by recurring_id, date_trunc('month', date + interval '14 days')
+           order by created_at
+         ) as position
+  from income_sources
+  where recurring_id is not null
+) keyed
+where keyed.id = i.id
+  and keyed.position = 1
+  and i.occurrence_key is null;
+
+update expenses e
+set occurrence_key = keyed.occurrence_key
+from (
+  select id,
+         recurring_id || ':' || to_char(date_trunc('month', date + interval '14 days'), 'YYYY-MM-DD') as occurrence_key,
+         row_number() over (
+           partition by recurring_id, date_trunc('month', date + interval '14 days')
+           order by created_at
+         ) as position
+  from expenses
+  where recurring_id is not null
+) keyed
+where keyed.id = e.id
+  and keyed.position = 1
+  and e.occurrence_key is null;
+
+alter table income_sources
+  add constraint income_sources_occurrence_key_key unique (occurrence_key);
+
+alter table expenses
+  add constraint expenses_occurrence_key_key unique (occurrence_key);
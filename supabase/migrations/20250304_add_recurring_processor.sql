@@ -0,0 +1,148 @@
+-- Post due recurring transactions for every user on a schedule, without needing the app to be open
+create extension if not exists pg_cron with schema extensions;
+
+-- One row per processor run, so runs can be inspected from the SQL editor or Studio
+create table if not exists recurring_processor_runs (
+  id bigint generated always as identity primary key,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  run_until date not null,
+  status text not null default 'running' check (status in ('running', 'succeeded', 'failed')),
+  recurring_checked integer not null default 0,
+  income_posted integer not null default 0,
+  expenses_posted integer not null default 0,
+  error text
+);
+
+alter table recurring_processor_runs enable row level security;
+
+-- Get the nth occurrence (counting from 0) of a recurring transaction's schedule.
+-- Mirrors getOccurrences in src/lib/schedule.ts.
+create or replace function recurring_occurrence(r recurring_transactions, n integer)
+returns date
+language plpgsql
+immutable
+as $$
+declare
+  step integer := greatest(coalesce(r.interval, 1), 1);
+  start_day integer := extract(day from r.start_date)::integer;
+  anchor integer;
+  month_start date;
+begin
+  if r.frequency = 'daily' then
+    return r.start_date + n * step;
+  end if;
+
+  if r.frequency = 'weekly' then
+    anchor := coalesce(r.weekday, extract(dow from r.start_date)::integer);
+    return r.start_date + ((anchor - extract(dow from r.start_date)::integer + 7) % 7) + n * step * 7;
+  end if;
+
+  -- Monthly and yearly: skip the start period when the anchor day has already passed
+  anchor := coalesce(r.day_of_month, start_day);
+  if r.frequency = 'monthly' then
+    month_start := (date_trunc('month', r.start_date)
+      + make_interval(months => (case when anchor < start_day then 1 else 0 end) + n * step))::date;
+  else
+    month_start := (date_trunc('month', r.start_date)
+      + make_interval(years => (case when anchor < start_day then 1 else 0 end) + n * step))::date;
+  end if;
+
+  -- Clamp the anchor to the length of the month (31st -> 28th/29th/30th)
+  return month_start + least(anchor, extract(day from month_start + interval '1 month - 1 day')::integer) - 1;
+end;
+$$;
+
+-- Post every occurrence due up to p_until for all users, resuming after each row's last_posted_date.
+-- Entries are keyed on occurrence_key, so overlapping runs (or the browser catch-up) never duplicate them.
+create or replace function post_due_recurring_transactions(p_until date default current_date)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  run_id bigint;
+  r recurring_transactions;
+  n integer;
+  occurrence date;
+  resume_from date;
+  last_posted date;
+  inserted integer;
+  checked_count integer := 0;
+  income_count integer := 0;
+  expense_count integer := 0;
+begin
+  insert into recurring_processor_runs (run_until)
+  values (p_until)
+  returning id into run_id;
+
+  begin
+    for r in select * from recurring_transactions where active loop
+      checked_count := checked_count + 1;
+      resume_from := coalesce(r.last_posted_date + 1, r.start_date);
+      last_posted := null;
+      n := 0;
+
+      loop
+        exit when n >= coalesce(r.occurrence_count, 5000) or n >= 5000;
+        occurrence := recurring_occurrence(r, n);
+        exit when occurrence > p_until;
+        exit when r.end_date is not null and occurrence > r.end_date;
+
+        if occurrence >= resume_from then
+          if r.type = 'income' then
+            insert into income_sources (user_id, name, amount, date, is_recurring, recurring_id, occurrence_key)
+            values (r.user_id, r.name, r.amount, occurrence, true, r.id, r.id || ':' || to_char(occurrence, 'YYYY-MM-DD'))
+            on conflict (occurrence_key) do nothing;
+            get diagnostics inserted = row_count;
+            income_count := income_count + inserted;
+          else
+            insert into expenses (user_id, name, amount, category, date, is_recurring, recurring_id, goal_id, occurrence_key)
+            values (r.user_id, r.name, r.amount, r.category, occurrence, true, r.id, r.goal_id, r.id || ':' || to_char(occurrence, 'YYYY-MM-DD'))
+            on conflict (occurrence_key) do nothing;
+            get diagnostics inserted = row_count;
+            expense_count := expense_count + inserted;
+          end if;
+          last_posted := occurrence;
+        end if;
+
+        n := n + 1;
+      end loop;
+
+      if last_posted is not null and (r.last_posted_date is null or last_posted > r.last_posted_date) then
+        update recurring_transactions
+        set last_posted_date = last_posted
+        where id = r.id;
+      end if;
+    end loop;
+
+    update recurring_processor_runs
+    set finished_at = now(),
+        status = 'succeeded',
+        recurring_checked = checked_count,
+        income_posted = income_count,
+        expenses_posted = expense_count
+    where id = run_id;
+  exception when others then
+    -- Everything posted in this run is rolled back; keep the log row with the error
+    update recurring_processor_runs
+    set finished_at = now(),
+        status = 'failed',
+        error = sqlerrm
+    where id = run_id;
+  end;
+
+  return run_id;
+end;
+$$;
+
+-- Only the service role and cron may trigger a run for every user
+revoke execute on function post_due_recurring_transactions(date) from public, anon, authenticated;
+
+-- Run every day shortly after midnight (UTC)
+select cron.schedule(
+  'post-due-recurring-transactions',
+  '15 0 * * *',
+  $$ select post_due_recurring_transactions(); $$
+);
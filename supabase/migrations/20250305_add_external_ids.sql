@@ -0,0 +1,12 @@
+-- Keep the bank's transaction id (OFX FITID) on imported entries so re-importing a statement never duplicates them
+alter table income_sources
+  add column if not exists external_id text;
+
+alter table expenses
+  add column if not exists external_id text;
+
+alter table income_sources
+  add constraint income_sources_user_id_external_id_key unique (user_id, external_id);
+
+alter table expenses
+  add constraint expenses_user_id_external_id_key unique (user_id, external_id);
@@ -0,0 +1,165 @@
+-- User-defined categories and subcategories, replacing the fixed investment/debt/needs/leisure values
+create table if not exists categories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  parent_id uuid references categories (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  color text not null default 'gray',
+  icon text not null default 'Tag',
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  constraint categories_user_id_parent_id_name_key unique nulls not distinct (user_id, parent_id, name)
+);
+
+create index if not exists categories_user_id_idx on categories (user_id);
+
+alter table categories enable row level security;
+
+create policy "Users can manage their own categories"
+  on categories for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- The four categories every account starts with. Called by the app for new users and below for existing ones.
+create or replace function create_default_categories(p_user_id uuid default auth.uid())
+returns void
+language sql
+as $$
+  insert into categories (user_id, name, color, icon, sort_order)
+  values
+    (p_user_id, 'Investment', 'emerald', 'TrendingUp', 0),
+    (p_user_id, 'Debt', 'orange', 'CreditCard', 1),
+    (p_user_id, 'Needs', 'blue', 'Home', 2),
+    (p_user_id, 'Leisure', 'purple', 'Sparkles', 3)
+  on conflict do nothing;
+$$;
+
+select create_default_categories(user_id)
+from (
+  select user_id from expenses
+  union
+  select user_id from recurring_transactions
+  union
+  select user_id from savings_goals
+) existing_users
+where user_id is not null;
+
+-- Point existing rows at the matching default category, then drop the old text column
+alter table expenses
+  add column if not exists category_id uuid references categories (id) on delete set null;
+
+alter table recurring_transactions
+  add column if not exists category_id uuid references categories (id) on delete set null;
+
+alter table savings_goals
+  add column if not exists category_id uuid references categories (id) on delete set null;
+
+update expenses e
+set category_id = c.id
+from categories c
+where c.user_id = e.user_id
+  and c.parent_id is null
+  and lower(c.name) = e.category;
+
+update recurring_transactions r
+set category_id = c.id
+from categories c
+where c.user_id = r.user_id
+  and c.parent_id is null
+  and lower(c.name) = r.category;
+
+update savings_goals g
+set category_id = c.id
+from categories c
+where c.user_id = g.user_id
+  and c.parent_id is null
+  and lower(c.name) = g.category;
+
+alter table expenses drop column category;
+alter table recurring_transactions drop column category;
+alter table savings_goals drop column category;
+
+create index if not exists expenses_category_id_idx on expenses (category_id);
+
+-- The recurring processor copies category_id now that category is gone
+create or replace function post_due_recurring_transactions(p_until date default current_date)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  run_id bigint;
+  r recurring_transactions;
+  n integer;
+  occurrence date;
+  resume_from date;
+  last_posted date;
+  inserted integer;
+  checked_count integer := 0;
+  income_count integer := 0;
+  expense_count integer := 0;
+begin
+  insert into recurring_processor_runs (run_until)
+  values (p_until)
+  returning id into run_id;
+
+  begin
+    for r in select * from recurring_transactions where active loop
+      checked_count := checked_count + 1;
+      resume_from := coalesce(r.last_posted_date + 1, r.start_date);
+      last_posted := null;
+      n := 0;
+
+      loop
+        exit when n >= coalesce(r.occurrence_count, 5000) or n >= 5000;
+        occurrence := recurring_occurrence(r, n);
+        exit when occurrence > p_until;
+        exit when r.end_date is not null and occurrence > r.end_date;
+
+        if occurrence >= resume_from then
+          if r.type = 'income' then
+            insert into income_sources (user_id, name, amount, date, is_recurring, recurring_id, occurrence_key)
+            values (r.user_id, r.name, r.amount, occurrence, true, r.id, r.id || ':' || to_char(occurrence, 'YYYY-MM-DD'))
+            on conflict (occurrence_key) do nothing;
+            get diagnostics inserted = row_count;
+            income_count := income_count + inserted;
+          else
+            insert into expenses (user_id, name, amount, category_id, date, is_recurring, recurring_id, goal_id, occurrence_key)
+            values (r.user_id, r.name, r.amount, r.category_id, occurrence, true, r.id, r.goal_id, r.id || ':' || to_char(occurrence, 'YYYY-MM-DD'))
+            on conflict (occurrence_key) do nothing;
+            get diagnostics inserted = row_count;
+            expense_count := expense_count + inserted;
+          end if;
+          last_posted := occurrence;
+        end if;
+
+        n := n + 1;
+      end loop;
+
+      if last_posted is not null and (r.last_posted_date is null or last_posted > r.last_posted_date) then
+        update recurring_transactions
+        set last_posted_date = last_posted
+        where id = r.id;
+      end if;
+    end loop;
+
+    update recurring_processor_runs
+    set finished_at = now(),
+        status = 'succeeded',
+        recurring_checked = checked_count,
+        income_posted = income_count,
+        expenses_posted = expense_count
+    where id = run_id;
+  exception when others then
+    -- Everything posted in this run is rolled back; keep the log row with the error
+    update recurring_processor_runs
+    set finished_at = now(),
+        status = 'failed',
+        error = sqlerrm
+    where id = run_id;
+  end;
+
+  return run_id;
+end;
+$$;
@@ -0,0 +1,17 @@
+-- Monthly spending limits per top-level category, optionally carrying unused amounts into the next month
+create table if not exists budgets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  category_id uuid not null references categories (id) on delete cascade,
+  amount numeric not null check (amount > 0),
+  rollover boolean not null default false,
+  created_at timestamptz not null default now(),
+  constraint budgets_user_id_category_id_key unique (user_id, category_id)
+);
+
+alter table budgets enable row level security;
+
+create policy "Users can manage their own budgets"
+  on budgets for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,23 @@
+-- Envelope budgeting. Every movement of money between a month's "to be assigned" pool and the
+-- envelopes (top-level categories) is a row here, so the table doubles as the audit trail.
+-- A null from_category_id means the money came from "to be assigned"; a null to_category_id means it went back.
+create table if not exists envelope_transfers (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  month date not null check (extract(day from month) = 1),
+  from_category_id uuid references categories (id) on delete cascade,
+  to_category_id uuid references categories (id) on delete cascade,
+  amount numeric not null check (amount > 0),
+  note text,
+  created_at timestamptz not null default now(),
+  check (from_category_id is distinct from to_category_id)
+);
+
+create index if not exists envelope_transfers_user_id_month_idx on envelope_transfers (user_id, month);
+
+alter table envelope_transfers enable row level security;
+
+create policy "Users can manage their own envelope transfers"
+  on envelope_transfers for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
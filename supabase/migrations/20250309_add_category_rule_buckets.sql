@@ -0,0 +1,26 @@
+-- Which 50/30/20 bucket a top-level category's spending counts towards in Analytics
+alter table categories
+  add column if not exists rule_bucket text not null default 'wants'
+    check (rule_bucket in ('needs', 'wants', 'savings'));
+
+update categories
+set rule_bucket = case lower(name)
+    when 'needs' then 'needs'
+    when 'investment' then 'savings'
+    when 'debt' then 'savings'
+    else 'wants'
+  end
+where parent_id is null;
+
+create or replace function create_default_categories(p_user_id uuid default auth.uid())
+returns void
+language sql
+as $$
+  insert into categories (user_id, name, color, icon, sort_order, rule_bucket)
+  values
+    (p_user_id, 'Investment', 'emerald', 'TrendingUp', 0, 'savings'),
+    (p_user_id, 'Debt', 'orange', 'CreditCard', 1, 'savings'),
+    (p_user_id, 'Needs', 'blue', 'Home', 2, 'needs'),
+    (p_user_id, 'Leisure', 'purple', 'Sparkles', 3, 'wants')
+  on conflict do nothing;
+$$;
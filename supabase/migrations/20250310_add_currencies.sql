@@ -0,0 +1,126 @@
+-- Amounts in other currencies, converted to each user's base currency with rates they maintain themselves
+alter table income_sources
+  add column if not exists currency text not null default 'INR' check (currency ~ '^[A-Z]{3}$');
+
+alter table expenses
+  add column if not exists currency text not null default 'INR' check (currency ~ '^[A-Z]{3}$');
+
+alter table recurring_transactions
+  add column if not exists currency text not null default 'INR' check (currency ~ '^[A-Z]{3}$');
+
+alter table savings_goals
+  add column if not exists currency text not null default 'INR' check (currency ~ '^[A-Z]{3}$');
+
+-- One row per user; users without a row use INR
+create table if not exists user_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  base_currency text not null default 'INR' check (base_currency ~ '^[A-Z]{3}$'),
+  updated_at timestamptz not null default now()
+);
+
+alter table user_settings enable row level security;
+
+create policy "Users can manage their own settings"
+  on user_settings for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- rate is the value of one unit of currency in the user's base currency
+create table if not exists exchange_rates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  currency text not null check (currency ~ '^[A-Z]{3}$'),
+  rate numeric(18, 8) not null check (rate > 0),
+  updated_at timestamptz not null default now(),
+  unique (user_id, currency)
+);
+
+alter table exchange_rates enable row level security;
+
+create policy "Users can manage their own exchange rates"
+  on exchange_rates for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- The recurring processor posts entries in the recurring transaction's currency
+create or replace function post_due_recurring_transactions(p_until date default current_date)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  run_id bigint;
+  r recurring_transactions;
+  n integer;
+  occurrence date;
+  resume_from date;
+  last_posted date;
+  inserted integer;
+  checked_count integer := 0;
+  income_count integer := 0;
+  expense_count integer := 0;
+begin
+  insert into recurring_processor_runs (run_until)
+  values (p_until)
+  returning id into run_id;
+
+  begin
+    for r in select * from recurring_transactions where active loop
+      checked_count := checked_count + 1;
+      resume_from := coalesce(r.last_posted_date + 1, r.start_date);
+      last_posted := null;
+      n := 0;
+
+      loop
+        exit when n >= coalesce(r.occurrence_count, 5000) or n >= 5000;
+        occurrence := recurring_occurrence(r, n);
+        exit when occurrence > p_until;
+        exit when r.end_date is not null and occurrence > r.end_date;
+
+        if occurrence >= resume_from then
+          if r.type = 'income' then
+            insert into income_sources (user_id, name, amount, currency, date, is_recurring, recurring_id, occurrence_key)
+            values (r.user_id, r.name, r.amount, r.currency, occurrence, true, r.id, r.id || ':' || to_char(occurrence, 'YYYY-MM-DD'))
+            on conflict (occurrence_key) do nothing;
+            get diagnostics inserted = row_count;
+            income_count := income_count + inserted;
+          else
+            insert into expenses (user_id, name, amount, currency, category_id, date, is_recurring, recurring_id, goal_id, occurrence_key)
+            values (r.user_id, r.name, r.amount, r.currency, r.category_id, occurrence, true, r.id, r.goal_id, r.id || ':' || to_char(occurrence, 'YYYY-MM-DD'))
+            on conflict (occurrence_key) do nothing;
+            get diagnostics inserted = row_count;
+            expense_count := expense_count + inserted;
+          end if;
+          last_posted := occurrence;
+        end if;
+
+        n := n + 1;
+      end loop;
+
+      if last_posted is not null and (r.last_posted_date is null or last_posted > r.last_posted_date) then
+        update recurring_transactions
+        set last_posted_date = last_posted
+        where id = r.id;
+      end if;
+    end loop;
+
+    update recurring_processor_runs
+    set finished_at = now(),
+        status = 'succeeded',
+        recurring_checked = checked_count,
+        income_posted = income_count,
+        expenses_posted = expense_count
+    where id = run_id;
+  exception when others then
+    -- Everything posted in this run is rolled back; keep the log row with the error
+    update recurring_processor_runs
+    set finished_at = now(),
+        status = 'failed',
+        error = sqlerrm
+    where id = run_id;
+  end;
+
+  return run_id;
+end;
+$$;
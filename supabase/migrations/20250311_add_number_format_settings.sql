@@ -0,0 +1,4 @@
+-- How amounts are written: digit grouping locale and whether negatives go in brackets
+alter table user_settings
+  add column if not exists number_locale text not null default 'en-IN',
+  add column if not exists accounting_negatives boolean not null default false;
@@ -0,0 +1,158 @@
+-- Accounts (bank accounts, credit cards, cash, wallets) that income and expenses are paid into and out of.
+-- Money moved between accounts is an account transfer, so it never counts as income or spending.
+create table if not exists accounts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  type text not null default 'bank' check (type in ('bank', 'credit_card', 'cash', 'wallet')),
+  currency text not null default 'INR' check (currency ~ '^[A-Z]{3}$'),
+  opening_balance numeric not null default 0,
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+create index if not exists accounts_user_id_idx on accounts (user_id);
+
+alter table accounts enable row level security;
+
+create policy "Users can manage their own accounts"
+  on accounts for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+alter table income_sources
+  add column if not exists account_id uuid references accounts (id) on delete set null;
+
+alter table expenses
+  add column if not exists account_id uuid references accounts (id) on delete set null;
+
+alter table recurring_transactions
+  add column if not exists account_id uuid references accounts (id) on delete set null;
+
+create index if not exists income_sources_account_id_idx on income_sources (account_id);
+create index if not exists expenses_account_id_idx on expenses (account_id);
+
+-- amount leaves from_account_id in its currency; to_amount is what arrives when the other account
+-- uses a different currency (null means the same amount)
+create table if not exists account_transfers (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  from_account_id uuid not null references accounts (id) on delete cascade,
+  to_account_id uuid not null references accounts (id) on delete cascade,
+  amount numeric not null check (amount > 0),
+  to_amount numeric check (to_amount > 0),
+  date timestamptz not null,
+  note text,
+  created_at timestamptz not null default now(),
+  check (from_account_id <> to_account_id)
+);
+
+create index if not exists account_transfers_user_id_date_idx on account_transfers (user_id, date);
+
+alter table account_transfers enable row level security;
+
+create policy "Users can manage their own account transfers"
+  on account_transfers for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Each of the signed-in user's accounts with its balance at p_until: the opening balance plus income,
+-- less expenses, plus transfers in, less transfers out. Amounts are taken in the account's own currency.
+create or replace function account_balances(p_until timestamptz default now())
+returns table (account_id uuid, balance numeric)
+language sql
+stable
+as $$
+  select
+    a.id,
+    a.opening_balance
+      + coalesce((select sum(i.amount) from income_sources i where i.account_id = a.id and i.date <= p_until), 0)
+      - coalesce((select sum(e.amount) from expenses e where e.account_id = a.id and e.date <= p_until), 0)
+      + coalesce((select sum(coalesce(t.to_amount, t.amount)) from account_transfers t where t.to_account_id = a.id and t.date <= p_until), 0)
+      - coalesce((select sum(t.amount) from account_transfers t where t.from_account_id = a.id and t.date <= p_until), 0)
+  from accounts a
+  where a.user_id = auth.uid();
+$$;
+
+-- The recurring processor posts entries to the recurring transaction's account
+create or replace function post_due_recurring_transactions(p_until date default current_date)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  run_id bigint;
+  r recurring_transactions;
+  n integer;
+  occurrence date;
+  resume_from date;
+  last_posted date;
+  inserted integer;
+  checked_count integer := 0;
+  income_count integer := 0;
+  expense_count integer := 0;
+begin
+  insert into recurring_processor_runs (run_until)
+  values (p_until)
+  returning id into run_id;
+
+  begin
+    for r in select * from recurring_transactions where active loop
+      checked_count := checked_count + 1;
+      resume_from := coalesce(r.last_posted_date + 1, r.start_date);
+      last_posted := null;
+      n := 0;
+
+      loop
+        exit when n >= coalesce(r.occurrence_count, 5000) or n >= 5000;
+        occurrence := recurring_occurrence(r, n);
+        exit when occurrence > p_until;
+        exit when r.end_date is not null and occurrence > r.end_date;
+
+        if occurrence >= resume_from then
+          if r.type = 'income' then
+            insert into income_sources (user_id, name, amount, currency, account_id, date, is_recurring, recurring_id, occurrence_key)
+            values (r.user_id, r.name, r.amount, r.currency, r.account_id, occurrence, true, r.id, r.id || ':' || to_char(occurrence, 'YYYY-MM-DD'))
+            on conflict (occurrence_key) do nothing;
+            get diagnostics inserted = row_count;
+            income_count := income_count + inserted;
+          else
+            insert into expenses (user_id, name, amount, currency, account_id, category_id, date, is_recurring, recurring_id, goal_id, occurrence_key)
+            values (r.user_id, r.name, r.amount, r.currency, r.account_id, r.category_id, occurrence, true, r.id, r.goal_id, r.id || ':' || to_char(occurrence, 'YYYY-MM-DD'))
+            on conflict (occurrence_key) do nothing;
+            get diagnostics inserted = row_count;
+            expense_count := expense_count + inserted;
+          end if;
+          last_posted := occurrence;
+        end if;
+
+        n := n + 1;
+      end loop;
+
+      if last_posted is not null and (r.last_posted_date is null or last_posted > r.last_posted_date) then
+        update recurring_transactions
+        set last_posted_date = last_posted
+        where id = r.id;
+      end if;
+    end loop;
+
+    update recurring_processor_runs
+    set finished_at = now(),
+        status = 'succeeded',
+        recurring_checked = checked_count,
+        income_posted = income_count,
+        expenses_posted = expense_count
+    where id = run_id;
+  exception when others then
+    -- Everything posted in this run is rolled back; keep the log row with the error
+    update recurring_processor_runs
+    set finished_at = now(),
+        status = 'failed',
+        error = sqlerrm
+    where id = run_id;
+  end;
+
+  return run_id;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- Statement cycle for credit card accounts. The statement is generated on statement_day each month
+-- and payment is due on the next due_day after it; days past the end of a short month fall on its last day.
+alter table accounts
+  add column if not exists statement_day smallint check (statement_day between 1 and 31),
+  add column if not exists due_day smallint check (due_day between 1 and 31),
+  add column if not exists minimum_due_percent numeric not null default 5 check (minimum_due_percent between 0 and 100);
@@ -0,0 +1,24 @@
+-- Loans repaid in equal monthly instalments (EMIs). The EMI itself is posted by a linked recurring
+-- transaction, so each posted instalment is an ordinary expense in the user's debt category.
+create table if not exists loans (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  principal numeric not null check (principal > 0),
+  annual_rate numeric not null check (annual_rate >= 0 and annual_rate < 100),
+  tenure_months integer not null check (tenure_months between 1 and 600),
+  start_date date not null, -- Date of the first EMI
+  currency text not null default 'INR' check (currency ~ '^[A-Z]{3}$'),
+  account_id uuid references accounts (id) on delete set null,
+  recurring_id uuid references recurring_transactions (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists loans_user_id_idx on loans (user_id);
+
+alter table loans enable row level security;
+
+create policy "Users can manage their own loans"
+  on loans for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
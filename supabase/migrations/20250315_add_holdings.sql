@@ -0,0 +1,48 @@
+-- Investment holdings (mutual funds, stocks, fixed deposits, PPF). Purchases are ordinary expenses linked
+-- to a holding; units are recorded for holdings bought in units, so their value is units x latest price.
+create table if not exists holdings (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  type text not null check (type in ('mutual_fund', 'stock', 'fixed_deposit', 'ppf')),
+  symbol text, -- Scheme code or ticker, matched when importing prices
+  currency text not null default 'INR' check (currency ~ '^[A-Z]{3}$'),
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+create index if not exists holdings_user_id_idx on holdings (user_id);
+
+alter table holdings enable row level security;
+
+create policy "Users can manage their own holdings"
+  on holdings for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+alter table expenses
+  add column if not exists holding_id uuid references holdings (id) on delete set null,
+  add column if not exists units numeric check (units > 0);
+
+create index if not exists expenses_holding_id_idx on expenses (holding_id);
+
+-- Price snapshots: NAV or share price per unit, or the whole value for deposits that aren't held in units.
+-- One price per holding per day; a later import for the same day replaces it.
+create table if not exists holding_prices (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  holding_id uuid not null references holdings (id) on delete cascade,
+  date date not null,
+  price numeric not null check (price > 0),
+  created_at timestamptz not null default now(),
+  unique (holding_id, date)
+);
+
+create index if not exists holding_prices_user_id_idx on holding_prices (user_id);
+
+alter table holding_prices enable row level security;
+
+create policy "Users can manage their own holding prices"
+  on holding_prices for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
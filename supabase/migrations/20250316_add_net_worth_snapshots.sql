@@ -0,0 +1,22 @@
+-- Monthly net worth snapshots. The current month's row is refreshed whenever net worth is worked out, so
+-- each month keeps the last figure seen before it ended. Amounts are in the snapshot's currency, which is
+-- the user's base currency at the time.
+create table if not exists net_worth_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  month date not null check (extract(day from month) = 1),
+  currency text not null default 'INR' check (currency ~ '^[A-Z]{3}$'),
+  accounts numeric not null default 0, -- Accounts in credit
+  investments numeric not null default 0,
+  goals numeric not null default 0,
+  debts numeric not null default 0 check (debts >= 0), -- Outstanding loans and overdrawn accounts
+  created_at timestamptz not null default now(),
+  unique (user_id, month)
+);
+
+alter table net_worth_snapshots enable row level security;
+
+create policy "Users can manage their own net worth snapshots"
+  on net_worth_snapshots for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
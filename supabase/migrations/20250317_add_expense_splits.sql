@@ -0,0 +1,20 @@
+-- Split expenses: lines that divide one expense between categories. The lines are in the expense's currency
+-- and add up to its amount. The expense keeps its own category_id (the largest line's) for places that show one.
+create table if not exists expense_splits (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  expense_id uuid not null references expenses (id) on delete cascade,
+  category_id uuid references categories (id) on delete set null,
+  amount numeric not null check (amount > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists expense_splits_expense_id_idx on expense_splits (expense_id);
+create index if not exists expense_splits_category_id_idx on expense_splits (category_id);
+
+alter table expense_splits enable row level security;
+
+create policy "Users can manage their own expense splits"
+  on expense_splits for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,48 @@
+-- Tags: free-form labels such as "goa trip" that cut across categories. An entry can carry any number of
+-- tags and a tag any number of entries, through the expense_tags and income_tags link tables.
+create table if not exists tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  created_at timestamptz not null default now()
+);
+
+-- Names are matched without regard to case, so "Goa" and "goa" are the same tag
+create unique index if not exists tags_user_id_name_idx on tags (user_id, lower(name));
+
+create table if not exists expense_tags (
+  expense_id uuid not null references expenses (id) on delete cascade,
+  tag_id uuid not null references tags (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  primary key (expense_id, tag_id)
+);
+
+create index if not exists expense_tags_tag_id_idx on expense_tags (tag_id);
+
+create table if not exists income_tags (
+  income_id uuid not null references income_sources (id) on delete cascade,
+  tag_id uuid not null references tags (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  primary key (income_id, tag_id)
+);
+
+create index if not exists income_tags_tag_id_idx on income_tags (tag_id);
+
+alter table tags enable row level security;
+alter table expense_tags enable row level security;
+alter table income_tags enable row level security;
+
+create policy "Users can manage their own tags"
+  on tags for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can manage their own expense tags"
+  on expense_tags for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can manage their own income tags"
+  on income_tags for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
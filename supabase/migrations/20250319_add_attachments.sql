@@ -0,0 +1,49 @@
+-- Attachments: receipt photos, invoices and other documents for an income or expense entry. The files are kept
+-- in the private "attachments" storage bucket under <user_id>/, and each row here describes one of them.
+create table if not exists attachments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  expense_id uuid references expenses (id) on delete cascade,
+  income_id uuid references income_sources (id) on delete cascade,
+  path text not null unique, -- Object name in the bucket
+  file_name text not null,
+  content_type text not null,
+  size bigint not null check (size >= 0),
+  created_at timestamptz not null default now(),
+  -- Every attachment belongs to exactly one entry
+  check ((expense_id is null) <> (income_id is null))
+);
+
+create index if not exists attachments_expense_id_idx on attachments (expense_id);
+create index if not exists attachments_income_id_idx on attachments (income_id);
+
+alter table attachments enable row level security;
+
+create policy "Users can manage their own attachments"
+  on attachments for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- The bucket is private: files are only reachable through signed URLs. Images and PDFs up to 10 MB.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'attachments',
+  'attachments',
+  false,
+  10485760,
+  array['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf']
+)
+on conflict (id) do nothing;
+
+-- Files are stored under a folder named after the owner's id, so the first path segment decides access
+create policy "Users can read their own attachment files"
+  on storage.objects for select
+  using (bucket_id = 'attachments' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can upload their own attachment files"
+  on storage.objects for insert
+  with check (bucket_id = 'attachments' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete their own attachment files"
+  on storage.objects for delete
+  using (bucket_id = 'attachments' and (storage.foldername(name))[1] = auth.uid()::text);
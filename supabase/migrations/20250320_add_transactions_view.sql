@@ -0,0 +1,38 @@
+-- The transaction ledger: income and expenses as one list, so the Transactions page can search, filter, sort
+-- and page through them on the server. security_invoker applies the tables' row level security to the caller.
+create or replace view transactions with (security_invoker = true) as
+  select
+    id,
+    user_id,
+    'income'::text as type,
+    name,
+    amount,
+    currency,
+    account_id,
+    null::uuid as category_id,
+    null::uuid as goal_id,
+    date,
+    coalesce(is_recurring, false) as is_recurring,
+    recurring_id,
+    created_at
+  from income_sources
+  union all
+  select
+    id,
+    user_id,
+    'expense'::text as type,
+    name,
+    amount,
+    currency,
+    account_id,
+    category_id,
+    goal_id,
+    date,
+    coalesce(is_recurring, false) as is_recurring,
+    recurring_id,
+    created_at
+  from expenses;
+
+-- The ledger is read newest first, one user at a time
+create index if not exists income_sources_user_id_date_idx on income_sources (user_id, date desc);
+create index if not exists expenses_user_id_date_idx on expenses (user_id, date desc);
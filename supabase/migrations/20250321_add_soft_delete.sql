@@ -0,0 +1,150 @@
+-- Soft delete: deleting income, expenses, recurring transactions and savings goals sets deleted_at instead of
+-- removing the row, so the app can offer undo and a trash to restore from. Rows in the trash are purged for good
+-- after 30 days. Everything that reads these tables has to leave out rows with deleted_at set.
+alter table income_sources add column if not exists deleted_at timestamptz;
+alter table expenses add column if not exists deleted_at timestamptz;
+alter table recurring_transactions add column if not exists deleted_at timestamptz;
+alter table savings_goals add column if not exists deleted_at timestamptz;
+
+-- The trash lists each user's deleted rows
+create index if not exists income_sources_deleted_at_idx on income_sources (user_id, deleted_at) where deleted_at is not null;
+create index if not exists expenses_deleted_at_idx on expenses (user_id, deleted_at) where deleted_at is not null;
+create index if not exists recurring_transactions_deleted_at_idx on recurring_transactions (user_id, deleted_at) where deleted_at is not null;
+create index if not exists savings_goals_deleted_at_idx on savings_goals (user_id, deleted_at) where deleted_at is not null;
+
+-- The ledger leaves out deleted entries
+create or replace view transactions with (security_invoker = true) as
+  select
+    id,
+    user_id,
+    'income'::text as type,
+    name,
+    amount,
+    currency,
+    account_id,
+    null::uuid as category_id,
+    null::uuid as goal_id,
+    date,
+    coalesce(is_recurring, false) as is_recurring,
+    recurring_id,
+    created_at
+  from income_sources
+  where deleted_at is null
+  union all
+  select
+    id,
+    user_id,
+    'expense'::text as type,
+    name,
+    amount,
+    currency,
+    account_id,
+    category_id,
+    goal_id,
+    date,
+    coalesce(is_recurring, false) as is_recurring,
+    recurring_id,
+    created_at
+  from expenses
+  where deleted_at is null;
+
+-- Balances leave out deleted entries
+create or replace function account_balances(p_until timestamptz default now())
+returns table (account_id uuid, balance numeric)
+language sql
+stable
+as $$
+  select
+    a.id,
+    a.opening_balance
+      + coalesce((select sum(i.amount) from income_sources i where i.account_id = a.id and i.date <= p_until and i.deleted_at is null), 0)
+      - coalesce((select sum(e.amount) from expenses e where e.account_id = a.id and e.date <= p_until and e.deleted_at is null), 0)
+      + coalesce((select sum(coalesce(t.to_amount, t.amount)) from account_transfers t where t.to_account_id = a.id and t.date <= p_until), 0)
+      - coalesce((select sum(t.amount) from account_transfers t where t.from_account_id = a.id and t.date <= p_until), 0)
+  from accounts a
+  where a.user_id = auth.uid();
+$$;
+
+-- A recurring transaction in the trash stops posting. Occurrences that were posted and then deleted keep their
+-- occurrence_key, so they aren't posted again.
+create or replace function post_due_recurring_transactions(p_until date default current_date)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  run_id bigint;
+  r recurring_transactions;
+  n integer;
+  occurrence date;
+  resume_from date;
+  last_posted date;
+  inserted integer;
+  checked_count integer := 0;
+  income_count integer := 0;
+  expense_count integer := 0;
+begin
+  insert into recurring_processor_runs (run_until)
+  values (p_until)
+  returning id into run_id;
+
+  begin
+    for r in select * from recurring_transactions where active and deleted_at is null loop
+      checked_count := checked_count + 1;
+      resume_from := coalesce(r.last_posted_date + 1, r.start_date);
+      last_posted := null;
+      n := 0;
+
+      loop
+        exit when n >= coalesce(r.occurrence_count, 5000) or n >= 5000;
+        occurrence := recurring_occurrence(r, n);
+        exit when occurrence > p_until;
+        exit when r.end_date is not null and occurrence > r.end_date;
+
+        if occurrence >= resume_from then
+          if r.type = 'income' then
+            insert into income_sources (user_id, name, amount, currency, account_id, date, is_recurring, recurring_id, occurrence_key)
+            values (r.user_id, r.name, r.amount, r.currency, r.account_id, occurrence, true, r.id, r.id || ':' || to_char(occurrence, 'YYYY-MM-DD'))
+            on conflict (occurrence_key) do nothing;
+            get diagnostics inserted = row_count;
+            income_count := income_count + inserted;
+          else
+            insert into expenses (user_id, name, amount, currency, account_id, category_id, date, is_recurring, recurring_id, goal_id, occurrence_key)
+            values (r.user_id, r.name, r.amount, r.currency, r.account_id, r.category_id, occurrence, true, r.id, r.goal_id, r.id || ':' || to_char(occurrence, 'YYYY-MM-DD'))
+            on conflict (occurrence_key) do nothing;
+            get diagnostics inserted = row_count;
+            expense_count := expense_count + inserted;
+          end if;
+          last_posted := occurrence;
+        end if;
+
+        n := n + 1;
+      end loop;
+
+      if last_posted is not null and (r.last_posted_date is null or last_posted > r.last_posted_date) then
+        update recurring_transactions
+        set last_posted_date = last_posted
+        where id = r.id;
+      end if;
+    end loop;
+
+    update recurring_processor_runs
+    set finished_at = now(),
+        status = 'succeeded',
+        recurring_checked = checked_count,
+        income_posted = income_count,
+        expenses_posted = expense_count
+    where id = run_id;
+  exception when others then
+    -- Everything posted in this run is rolled back; keep the log row with the error
+    update recurring_processor_runs
+    set finished_at = now(),
+        status = 'failed',
+        error = sqlerrm
+    where id = run_id;
+  end;
+
+  return run_id;
+end;
+$$;
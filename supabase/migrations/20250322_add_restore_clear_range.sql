@@ -0,0 +1,18 @@
+-- Replace-mode restores clear the archive's date range before adding its rows back. Doing it in one function
+-- means a failure part way through rolls the whole delete back instead of leaving the range half cleared.
+-- Entries in the trash are in the range too. Attachment and split rows go with their entries.
+create or replace function clear_restore_range(p_start timestamptz, p_end timestamptz)
+returns void
+language plpgsql
+as $$
+begin
+  delete from income_sources
+  where user_id = auth.uid() and date >= p_start and date <= p_end;
+
+  delete from expenses
+  where user_id = auth.uid() and date >= p_start and date <= p_end;
+
+  delete from account_transfers
+  where user_id = auth.uid() and date >= p_start and date <= p_end;
+end;
+$$;
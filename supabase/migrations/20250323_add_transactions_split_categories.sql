@@ -0,0 +1,38 @@
+-- The ledger's category filter matches a split expense by any of its lines, not just the category it's filed
+-- under. category_ids holds the expense's own category and every split line's; it's empty for income.
+create or replace view transactions with (security_invoker = true) as
+  select
+    id,
+    user_id,
+    'income'::text as type,
+    name,
+    amount,
+    currency,
+    account_id,
+    null::uuid as category_id,
+    null::uuid as goal_id,
+    date,
+    coalesce(is_recurring, false) as is_recurring,
+    recurring_id,
+    created_at,
+    '{}'::uuid[] as category_ids
+  from income_sources
+  where deleted_at is null
+  union all
+  select
+    e.id,
+    e.user_id,
+    'expense'::text as type,
+    e.name,
+    e.amount,
+    e.currency,
+    e.account_id,
+    e.category_id,
+    e.goal_id,
+    e.date,
+    coalesce(e.is_recurring, false) as is_recurring,
+    e.recurring_id,
+    e.created_at,
+    array_remove(array[e.category_id] || array(select s.category_id from expense_splits s where s.expense_id = e.id), null)
+  from expenses e
+  where e.deleted_at is null;
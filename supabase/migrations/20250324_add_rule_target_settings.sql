@@ -0,0 +1,5 @@
+-- The 50/30/20 analysis targets, as percentages of spending, saved with the user's other settings
+alter table user_settings
+  add column if not exists rule_needs_target numeric not null default 50 check (rule_needs_target >= 0),
+  add column if not exists rule_wants_target numeric not null default 30 check (rule_wants_target >= 0),
+  add column if not exists rule_savings_target numeric not null default 20 check (rule_savings_target >= 0);
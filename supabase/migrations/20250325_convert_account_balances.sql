@@ -0,0 +1,43 @@
+-- An amount restated from one currency in another with the user's exchange rates, which give the value of one
+-- unit in their base currency. Mirrors convertCurrency in src/lib/currency.ts: without a rate for either
+-- currency the amount is left as it is.
+create or replace function convert_amount(p_user_id uuid, p_amount numeric, p_from text, p_to text)
+returns numeric
+language sql
+stable
+as $$
+  with base as (
+    select coalesce((select s.base_currency from user_settings s where s.user_id = p_user_id), 'INR') as currency
+  ),
+  rates as (
+    select
+      case when p_from = base.currency then 1
+        else (select r.rate from exchange_rates r where r.user_id = p_user_id and r.currency = p_from) end as from_rate,
+      case when p_to = base.currency then 1
+        else (select r.rate from exchange_rates r where r.user_id = p_user_id and r.currency = p_to) end as to_rate
+    from base
+  )
+  select case
+    when p_from = p_to or from_rate is null or to_rate is null then p_amount
+    else p_amount * from_rate / to_rate
+  end
+  from rates;
+$$;
+
+-- Income and expenses in another currency than their account's are converted into the account's currency.
+-- Transfers already record what left and arrived in each account's own currency.
+create or replace function account_balances(p_until timestamptz default now())
+returns table (account_id uuid, balance numeric)
+language sql
+stable
+as $$
+  select
+    a.id,
+    a.opening_balance
+      + coalesce((select sum(convert_amount(a.user_id, i.amount, i.currency, a.currency)) from income_sources i where i.account_id = a.id and i.date <= p_until and i.deleted_at is null), 0)
+      - coalesce((select sum(convert_amount(a.user_id, e.amount, e.currency, a.currency)) from expenses e where e.account_id = a.id and e.date <= p_until and e.deleted_at is null), 0)
+      + coalesce((select sum(coalesce(t.to_amount, t.amount)) from account_transfers t where t.to_account_id = a.id and t.date <= p_until), 0)
+      - coalesce((select sum(t.amount) from account_transfers t where t.from_account_id = a.id and t.date <= p_until), 0)
+  from accounts a
+  where a.user_id = auth.uid();
+$$;
@@ -0,0 +1,39 @@
+-- Switch the signed-in user's base currency, restating every rate against the new base so conversions keep
+-- their value. The rates and the setting change together, or not at all. Mirrors the check in
+-- changeBaseCurrency in src/lib/currency.ts: the new base needs a rate in the old one.
+create or replace function change_base_currency(p_new_base text)
+returns void
+language plpgsql
+as $$
+declare
+  old_base text;
+  new_base_rate numeric;
+begin
+  select coalesce((select base_currency from user_settings where user_id = auth.uid()), 'INR') into old_base;
+  if p_new_base = old_base then
+    return;
+  end if;
+
+  select rate into new_base_rate
+  from exchange_rates
+  where user_id = auth.uid() and currency = p_new_base;
+  if new_base_rate is null then
+    raise exception 'Add an exchange rate for % before making it your base currency', p_new_base;
+  end if;
+
+  update exchange_rates
+  set rate = rate / new_base_rate, updated_at = now()
+  where user_id = auth.uid() and currency <> p_new_base;
+
+  delete from exchange_rates
+  where user_id = auth.uid() and currency = p_new_base;
+
+  insert into exchange_rates (user_id, currency, rate)
+  values (auth.uid(), old_base, 1 / new_base_rate)
+  on conflict (user_id, currency) do update set rate = excluded.rate, updated_at = now();
+
+  insert into user_settings (user_id, base_currency)
+  values (auth.uid(), p_new_base)
+  on conflict (user_id) do update set base_currency = excluded.base_currency, updated_at = now();
+end;
+$$;
@@ -0,0 +1,48 @@
+-- When an envelope's category is deleted its transfers are kept for the history, unlinked and marked deleted,
+-- instead of cascading away and changing past months' assigned and to-be-assigned totals
+alter table envelope_transfers
+  add column if not exists from_category_deleted boolean not null default false,
+  add column if not exists to_category_deleted boolean not null default false;
+
+alter table envelope_transfers
+  drop constraint if exists envelope_transfers_from_category_id_fkey,
+  drop constraint if exists envelope_transfers_to_category_id_fkey,
+  drop constraint if exists envelope_transfers_check,
+  drop constraint if exists envelope_transfers_from_category_deleted_check,
+  drop constraint if exists envelope_transfers_to_category_deleted_check;
+
+alter table envelope_transfers
+  add constraint envelope_transfers_from_category_id_fkey
+    foreign key (from_category_id) references categories (id) on delete restrict,
+  add constraint envelope_transfers_to_category_id_fkey
+    foreign key (to_category_id) references categories (id) on delete restrict,
+  add constraint envelope_transfers_check
+    check (from_category_id is distinct from to_category_id or from_category_deleted or to_category_deleted),
+  add constraint envelope_transfers_from_category_deleted_check
+    check (not from_category_deleted or from_category_id is null),
+  add constraint envelope_transfers_to_category_deleted_check
+    check (not to_category_deleted or to_category_id is null);
+
+-- Runs before the category row goes (including subcategories removed along with their parent), so the
+-- restrict above never fires
+create or replace function unlink_deleted_envelope_category()
+returns trigger
+language plpgsql
+as $$
+begin
+  update envelope_transfers
+  set from_category_id = null, from_category_deleted = true
+  where from_category_id = old.id;
+
+  update envelope_transfers
+  set to_category_id = null, to_category_deleted = true
+  where to_category_id = old.id;
+
+  return old;
+end;
+$$;
+
+drop trigger if exists envelope_transfers_unlink_deleted_category on categories;
+create trigger envelope_transfers_unlink_deleted_category
+  before delete on categories
+  for each row execute function unlink_deleted_envelope_category();